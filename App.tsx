@@ -4,13 +4,18 @@ import { AppProvider } from './components/context/AppContext';
 import { useAuth } from './components/context/AuthContext';
 import { MainLayout } from './components/layout/MainLayout';
 import { UnifiedAuth } from './components/auth/UnifiedAuth';
+import { LockScreen } from './components/auth/LockScreen';
 import { useUIState } from './components/context/UIStateContext';
 import { useSettings } from './components/context/SettingsContext';
+import { useIdleLock } from './hooks/useIdleLock';
 
-// Internal component to handle theme/zoom effects within the workspace context
+// Internal component to handle theme/zoom effects and the idle lock within the workspace context
 const WorkspaceEffects: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    const { theme } = useSettings();
+    const { theme, autoLockMinutes } = useSettings();
     const { zoomLevel } = useUIState();
+    const { lock } = useAuth();
+
+    useIdleLock(autoLockMinutes, lock);
 
     useEffect(() => {
         document.documentElement.style.fontSize = `${zoomLevel * 100}%`;
@@ -34,12 +39,22 @@ const WorkspaceEffects: React.FC<{ children: React.ReactNode }> = ({ children })
 };
 
 const App: React.FC = () => {
-    const { currentUser, currentWorkspace, logout, encryptionRevision } = useAuth();
+    const { currentUser, currentWorkspace, logout, encryptionRevision, isLocked, rolesLoaded } = useAuth();
 
     if (!currentUser || !currentWorkspace) {
         return <UnifiedAuth />;
     }
 
+    // Unmounting the workspace drops everything decrypted; the POS cart is persisted and comes back on unlock
+    if (isLocked) {
+        return <LockScreen />;
+    }
+
+    // Permissions are checked throughout the workspace, so wait for the role definitions (a local read)
+    if (!rolesLoaded) {
+        return null;
+    }
+
     // Using encryptionRevision as part of the key forces the entire AppProvider tree to unmount and remount
     // whenever the encryption key is repaired via "Emergency Key Repair". 
     // This ensures all useLiveQuery hooks in child components re-subscribe and fetch fresh, decrypted data from Dexie.
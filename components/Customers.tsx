@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Customer, Sale, UserRole } from '../types';
+import { Customer, Sale } from '../types';
 import { useCustomers } from './context/CustomerContext';
 import { useSales } from './context/SalesContext';
 import { useAuth } from './context/AuthContext';
@@ -364,7 +364,7 @@ const CustomerValuationDetails: React.FC<{ customer: Customer; onClose: () => vo
 export const Customers: React.FC = () => {
     const { customers, addCustomer, updateCustomer, deleteCustomer } = useCustomers();
     const { sales } = useSales();
-    const { currentUser } = useAuth();
+    const { can } = useAuth();
     const { customersViewState, onCustomersViewUpdate, showToast } = useUIState();
     const { formatDateTime, formatCurrency, paginationConfig } = useSettings();
 
@@ -494,7 +494,8 @@ export const Customers: React.FC = () => {
         );
     };
 
-    const canViewProfit = currentUser?.role === UserRole.Admin;
+    const canViewProfit = can('viewCost');
+    const canManageCustomers = can('manageCustomers');
 
     return (
         <div className="p-6 space-y-6">
@@ -523,7 +524,7 @@ export const Customers: React.FC = () => {
                             <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-400"><SearchIcon /></div>
                             <input type="text" value={searchTerm} onChange={e => onCustomersViewUpdate({ searchTerm: e.target.value, currentPage: 1 })} placeholder="Search customers..." className="w-full pl-10 pr-4 py-2 border rounded-lg bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-blue-500 focus:border-blue-500" />
                         </div>
-                        <button onClick={() => { setEditingCustomer(null); setIsModalOpen(true); }} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 w-full sm:w-auto justify-center"><PlusIcon /> Add Customer</button>
+                        {canManageCustomers && <button onClick={() => { setEditingCustomer(null); setIsModalOpen(true); }} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 w-full sm:w-auto justify-center"><PlusIcon /> Add Customer</button>}
                     </div>
                 </div>
                 <div className="overflow-x-auto">
@@ -592,7 +593,7 @@ export const Customers: React.FC = () => {
                                             </>
                                         )}
 
-                                        {activeTab === 'personal' && (
+                                        {activeTab === 'personal' && canManageCustomers && (
                                             <td className="px-6 py-4 text-right flex justify-end gap-2">
                                                 <button onClick={() => { setEditingCustomer(c); setIsModalOpen(true); }} className="p-1 text-blue-500 hover:text-blue-700" title="Edit"><PencilIcon /></button>
                                                 <button onClick={() => setCustomerToDelete(c)} className="p-1 text-red-500 hover:text-red-700" title="Delete"><TrashIcon /></button>
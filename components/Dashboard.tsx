@@ -9,6 +9,8 @@ import { useProducts } from './context/ProductContext';
 import { useSales } from './context/SalesContext';
 import { useUIState } from './context/UIStateContext';
 import { useSettings } from './context/SettingsContext';
+import { useAuth } from './context/AuthContext';
+import { toMajorUnits } from '../utils/money';
 
 type TimeRange = 'today' | 'weekly' | 'monthly' | 'yearly' | 'all';
 
@@ -44,7 +46,9 @@ const toLocalDateKey = (date: Date): string => {
     return `${year}-${month}-${day}`;
 };
 
-const yAxisTickFormatter = (value: number) => {
+// Chart values are Money; the axis is labelled in major units
+const yAxisTickFormatter = (minor: number, exponent: number) => {
+    const value = toMajorUnits(minor, exponent);
     if (Math.abs(value) >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
     if (Math.abs(value) >= 1000) return `${Math.round(value / 1000)}k`;
     return value.toString();
@@ -54,7 +58,9 @@ export const Dashboard: React.FC = () => {
   const { products } = useProducts();
   const { sales } = useSales();
   const { notifications } = useUIState();
-  const { formatCurrency, formatDateTime, includeTaxInProfit } = useSettings();
+  const { formatCurrency, formatDateTime, includeTaxInProfit, currencyExponent } = useSettings();
+  const { canDecrypt } = useAuth();
+  const showFinancials = canDecrypt('financial'); // Cost and profit are redacted without the financial key
   const [timeRange, setTimeRange] = useState<TimeRange>('weekly');
   const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
   const [isChartReady, setIsChartReady] = useState(false);
@@ -287,11 +293,11 @@ export const Dashboard: React.FC = () => {
             <BarChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" vertical={false} opacity={0.3} />
                 <XAxis dataKey="name" {...commonAxisProps} />
-                <YAxis tickFormatter={yAxisTickFormatter} {...commonAxisProps} />
+                <YAxis tickFormatter={value => yAxisTickFormatter(value, currencyExponent)} {...commonAxisProps} />
                 <Tooltip content={<CustomTooltip />} cursor={false} />
                 <Legend wrapperStyle={{ paddingTop: '10px', color: '#E2E8F0' }} />
                 <Bar dataKey="Sales" fill="#3b82f6" radius={[4, 4, 0, 0]} name="Sales" maxBarSize={50} isAnimationActive={false} activeBar={false} />
-                <Bar dataKey="Profit" fill="#10b981" radius={[4, 4, 0, 0]} name="Profit" maxBarSize={50} isAnimationActive={false} activeBar={false} />
+                {showFinancials && <Bar dataKey="Profit" fill="#10b981" radius={[4, 4, 0, 0]} name="Profit" maxBarSize={50} isAnimationActive={false} activeBar={false} />}
             </BarChart>
           );
       }
@@ -299,7 +305,7 @@ export const Dashboard: React.FC = () => {
         <LineChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" vertical={false} opacity={0.3} />
             <XAxis dataKey="name" {...commonAxisProps} />
-            <YAxis tickFormatter={yAxisTickFormatter} {...commonAxisProps} />
+            <YAxis tickFormatter={value => yAxisTickFormatter(value, currencyExponent)} {...commonAxisProps} />
             <Tooltip content={<CustomTooltip />} cursor={false} />
             <Legend wrapperStyle={{ paddingTop: '10px', color: '#E2E8F0' }} />
             <Line 
@@ -312,7 +318,7 @@ export const Dashboard: React.FC = () => {
                 name="Sales" 
                 isAnimationActive={false}
             />
-            <Line 
+            {showFinancials && <Line 
                 type="monotone" 
                 dataKey="Profit" 
                 stroke="#10b981" 
@@ -321,7 +327,7 @@ export const Dashboard: React.FC = () => {
                 activeDot={false} 
                 name="Profit" 
                 isAnimationActive={false}
-            />
+            />}
         </LineChart>
       );
   };
@@ -357,8 +363,8 @@ export const Dashboard: React.FC = () => {
       
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card title="Total Sales" value={formatCurrency(stats.totalSales)} color="bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-300" icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" /></svg>} />
-        <Card title="Total Profit" value={formatCurrency(stats.totalProfit)} color="bg-green-100 dark:bg-green-900 text-green-600 dark:text-green-300" icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v.01" /></svg>} />
-        <Card title="Total COGS" value={formatCurrency(stats.totalCogs)} color="bg-yellow-100 dark:bg-yellow-900 text-yellow-600 dark:text-yellow-300" icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10m16-10v10M9 9h6m-6 4h6m-6 4h6" /></svg>} />
+        {showFinancials && <Card title="Total Profit" value={formatCurrency(stats.totalProfit)} color="bg-green-100 dark:bg-green-900 text-green-600 dark:text-green-300" icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v.01" /></svg>} />}
+        {showFinancials && <Card title="Total COGS" value={formatCurrency(stats.totalCogs)} color="bg-yellow-100 dark:bg-yellow-900 text-yellow-600 dark:text-yellow-300" icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10m16-10v10M9 9h6m-6 4h6m-6 4h6" /></svg>} />}
         <Card title="Low Stock Items" value={stats.lowStockItems} color="bg-red-100 dark:bg-red-900 text-red-600 dark:text-red-300" icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>} />
       </div>
 
@@ -4,10 +4,9 @@ import { useAuth } from './context/AuthContext';
 import { ProductsView } from './inventory/ProductsView';
 import { InventoryValuationView } from './inventory/InventoryValuationView';
 import { CategoriesView } from './inventory/CategoriesView';
-import { UserRole } from '../types';
 
 export const Inventory: React.FC = () => {
-  const { currentUser } = useAuth();
+  const { can } = useAuth();
   const [activeTab, setActiveTab] = useState<'products' | 'categories' | 'valuation'>('products');
 
   const TabButton: React.FC<{ tabId: 'products' | 'categories' | 'valuation', label: string }> = ({ tabId, label }) => (
@@ -33,13 +32,13 @@ export const Inventory: React.FC = () => {
             <div className="flex items-center space-x-1">
                 <TabButton tabId="products" label="Products" />
                 <TabButton tabId="categories" label="Categories" />
-                {currentUser.role === UserRole.Admin && <TabButton tabId="valuation" label="Valuation" />}
+                {can('viewCost') && <TabButton tabId="valuation" label="Valuation" />}
             </div>
         </div>
       
       {activeTab === 'products' && <ProductsView />}
       {activeTab === 'categories' && <CategoriesView />}
-      {activeTab === 'valuation' && currentUser.role === UserRole.Admin && <InventoryValuationView />}
+      {activeTab === 'valuation' && can('viewCost') && <InventoryValuationView />}
     </div>
   );
 };
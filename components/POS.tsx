@@ -1,11 +1,11 @@
 
 import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
-import { Product, CartItem, PaymentType, Sale, Payment, ProductVariant, Customer, HeldOrder } from '../types';
+import { Product, CartItem, PaymentType, Sale, Payment, ProductVariant, Customer, HeldOrder, Money, Approval, OverrideAction } from '../types';
 import { SearchIcon, PlusIcon, MinusIcon, TrashIcon, PhotoIcon, ChevronDownIcon, TagIcon, UserCircleIcon, CheckCircleIcon, ClipboardIcon, ArrowUturnLeftIcon, BanknotesIcon, DangerIcon } from './Icons';
 import { Modal } from './common/Modal';
+import { MoneyInput } from './common/MoneyInput';
 import { PrintableReceipt } from './common/PrintableReceipt';
 import { Pagination } from './common/Pagination';
-import { UserRole } from '../types';
 import { useProducts } from './context/ProductContext';
 import { useSales } from './context/SalesContext';
 import { useAuth } from './context/AuthContext';
@@ -13,30 +13,47 @@ import { useSettings } from './context/SettingsContext';
 import { useUIState } from './context/UIStateContext';
 import { useCustomers } from './context/CustomerContext';
 import { VariantSelectionModal } from './common/ProductVariantSelector';
+import { ApprovalModal } from './auth/ApprovalModal';
 import { FilterMenu, FilterSelectItem } from './common/FilterMenu';
 import usePersistedState from '../hooks/usePersistedState';
+import { useRegisterOpenElsewhere } from '../hooks/useTabCoordination';
+import { tabCoordinator } from '../services/TabCoordinator';
+import { syncService } from '../services/SyncService';
+import { roundMoney, percentOf, parseMoneyInput, toMoneyInput } from '../utils/money';
+import { createApproval, getDiscountableSubtotal, getDiscountLimit, getRequiredOverrides } from '../utils/overrides';
 
 declare var html2canvas: any;
 
+// Cart discount/tax adjustments: a percentage, or a fixed Money amount entered in major units
+const adjustmentToInput = (adjustment: { type: 'percent' | 'fixed', value: number }, exponent: number) =>
+    adjustment.type === 'fixed' ? toMoneyInput(adjustment.value, exponent) : adjustment.value.toString();
+
+const parseAdjustmentInput = (type: 'percent' | 'fixed', input: string, exponent: number): number | null => {
+    if (type === 'fixed') return parseMoneyInput(input, exponent);
+    const value = parseFloat(input);
+    return isNaN(value) ? null : value;
+};
+
 const DiscountModalContent: React.FC<{
     currentDiscount: { type: 'percent' | 'fixed', value: number } | null;
     defaultDiscountRate: number;
     isDefaultDiscountEnabled: boolean;
-    defaultDiscountThreshold: number;
-    formatCurrency: (val: number) => string;
+    defaultDiscountThreshold: Money;
+    formatCurrency: (val: Money) => string;
     onApply: (discount: { type: 'percent' | 'fixed', value: number } | null) => void;
     onClose: () => void;
 }> = ({ currentDiscount, defaultDiscountRate, isDefaultDiscountEnabled, defaultDiscountThreshold, formatCurrency, onApply, onClose }) => {
+    const { currencyExponent } = useSettings();
     const [mode, setMode] = useState<'default' | 'custom'>(currentDiscount ? 'custom' : 'default');
     const [type, setType] = useState<'percent' | 'fixed'>(currentDiscount?.type || 'percent');
-    const [value, setValue] = useState<string>(currentDiscount ? currentDiscount.value.toString() : '0');
+    const [value, setValue] = useState<string>(currentDiscount ? adjustmentToInput(currentDiscount, currencyExponent) : '0');
 
     const handleApply = () => {
         if (mode === 'default') {
             onApply(null);
         } else {
-            const numVal = parseFloat(value);
-            if (isNaN(numVal) || numVal < 0) return;
+            const numVal = parseAdjustmentInput(type, value, currencyExponent);
+            if (numVal === null || numVal < 0) return;
             onApply({ type, value: numVal });
         }
         onClose();
@@ -131,16 +148,17 @@ const TaxModalContent: React.FC<{
     onApply: (tax: { type: 'percent' | 'fixed', value: number } | null) => void;
     onClose: () => void;
 }> = ({ currentTax, defaultTaxRate, isDefaultTaxEnabled, onApply, onClose }) => {
+    const { currencyExponent } = useSettings();
     const [mode, setMode] = useState<'default' | 'custom'>((currentTax === null || (currentTax.type === 'percent' && currentTax.value === defaultTaxRate * 100 && isDefaultTaxEnabled)) ? 'default' : 'custom');
     const [type, setType] = useState<'percent' | 'fixed'>(currentTax?.type || 'percent');
-    const [value, setValue] = useState<string>(currentTax ? currentTax.value.toString() : (defaultTaxRate * 100).toString());
+    const [value, setValue] = useState<string>(currentTax ? adjustmentToInput(currentTax, currencyExponent) : (defaultTaxRate * 100).toString());
 
     const handleApply = () => {
         if (mode === 'default') {
             onApply(null); // Null implies default tax logic
         } else {
-            const numVal = parseFloat(value);
-            if (isNaN(numVal) || numVal < 0) return;
+            const numVal = parseAdjustmentInput(type, value, currencyExponent);
+            if (numVal === null || numVal < 0) return;
             onApply({ type, value: numVal });
         }
         onClose();
@@ -283,7 +301,8 @@ const CustomerSelectionModal: React.FC<{
     );
 };
 
-const OpenShiftModal: React.FC<{ onOpenShift: (float: number) => void }> = ({ onOpenShift }) => {
+const OpenShiftModal: React.FC<{ onOpenShift: (float: Money) => void }> = ({ onOpenShift }) => {
+    const { currencyExponent } = useSettings();
     const [float, setFloat] = useState('');
     return (
         <div className="text-center space-y-6 p-4">
@@ -306,7 +325,7 @@ const OpenShiftModal: React.FC<{ onOpenShift: (float: number) => void }> = ({ on
                 />
             </div>
             <button 
-                onClick={() => onOpenShift(parseFloat(float) || 0)}
+                onClick={() => onOpenShift(parseMoneyInput(float, currencyExponent) ?? 0)}
                 className="w-full py-3 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 transition-colors text-lg"
             >
                 Open Register
@@ -315,9 +334,9 @@ const OpenShiftModal: React.FC<{ onOpenShift: (float: number) => void }> = ({ on
     );
 };
 
-const CloseShiftModal: React.FC<{ onCloseShift: (actual: number, notes: string) => Promise<void>, onCancel: () => void }> = ({ onCloseShift, onCancel }) => {
+const CloseShiftModal: React.FC<{ onCloseShift: (actual: Money, notes: string) => Promise<void>, onCancel: () => void }> = ({ onCloseShift, onCancel }) => {
     const { currentShift } = useSales();
-    const { formatCurrency } = useSettings();
+    const { formatCurrency, currencyExponent } = useSettings();
     const [actualCash, setActualCash] = useState('');
     const [notes, setNotes] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
@@ -328,12 +347,13 @@ const CloseShiftModal: React.FC<{ onCloseShift: (actual: number, notes: string)
     const cashSales = currentShift.cashSales || 0;
     const cashRefunds = currentShift.cashRefunds || 0;
     
+    const actualCashAmount = parseMoneyInput(actualCash, currencyExponent) ?? 0;
     const expectedCash = startFloat + cashSales - cashRefunds;
-    const difference = (parseFloat(actualCash) || 0) - expectedCash;
+    const difference = actualCashAmount - expectedCash;
 
     const handleSubmit = async () => {
         setIsSubmitting(true);
-        await onCloseShift(parseFloat(actualCash) || 0, notes);
+        await onCloseShift(actualCashAmount, notes);
         setIsSubmitting(false);
     };
 
@@ -370,7 +390,7 @@ const CloseShiftModal: React.FC<{ onCloseShift: (actual: number, notes: string)
                 />
             </div>
 
-            {(parseFloat(actualCash) || 0) > 0 && (
+            {actualCashAmount > 0 && (
                 <div className={`p-3 rounded-lg text-center font-bold ${difference >= 0 ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'}`}>
                     Difference: {difference > 0 ? '+' : ''}{formatCurrency(difference)}
                 </div>
@@ -418,7 +438,68 @@ const HoldOrderModal: React.FC<{ onHold: (note: string) => void; onCancel: () =>
     );
 };
 
-const RetrieveOrderModal: React.FC<{ onClose: () => void; onLoad: (order: HeldOrder) => void; onDelete: (id: string) => void; heldOrders: HeldOrder[] }> = ({ onClose, onLoad, onDelete, heldOrders }) => {
+const PriceOverrideModal: React.FC<{ item: CartItem; onApply: (price: Money) => void; onClose: () => void }> = ({ item, onApply, onClose }) => {
+    const { formatCurrency } = useSettings();
+    const catalogPrice = item.priceOverriddenFrom ?? item.retailPrice;
+    const [price, setPrice] = useState<Money>(item.retailPrice);
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">{item.name} sells for {formatCurrency(catalogPrice)}. Selling it for a different price needs a supervisor's approval.</p>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Unit Price</label>
+                <MoneyInput value={price} onChange={setPrice} min="0" autoFocus className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white" />
+            </div>
+            {item.priceOverriddenFrom !== undefined && (
+                <button type="button" onClick={() => setPrice(catalogPrice)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">Reset to {formatCurrency(catalogPrice)}</button>
+            )}
+            <div className="flex justify-end gap-2">
+                <button onClick={onClose} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-white rounded-md">Cancel</button>
+                <button onClick={() => onApply(price)} disabled={price < 0} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">Apply</button>
+            </div>
+        </div>
+    );
+};
+
+// Picks the product taken back in a return without a receipt
+const NoReceiptReturnModal: React.FC<{ onSelect: (product: Product, variant?: ProductVariant) => void; onClose: () => void }> = ({ onSelect, onClose }) => {
+    const { products } = useProducts();
+    const { formatCurrency } = useSettings();
+    const [searchTerm, setSearchTerm] = useState('');
+
+    const matches = useMemo(() => {
+        const term = searchTerm.trim().toLowerCase();
+        if (!term) return [];
+        return products
+            .filter(p => p.name.toLowerCase().includes(term) || p.sku.toLowerCase().includes(term))
+            .flatMap(p => p.variants.length > 0 ? p.variants.map(v => ({ product: p, variant: v as ProductVariant | undefined })) : [{ product: p, variant: undefined }])
+            .slice(0, 20);
+    }, [products, searchTerm]);
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">Items returned without a receipt are refunded at their current price and need a supervisor's approval.</p>
+            <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-400"><SearchIcon /></div>
+                <input type="text" value={searchTerm} onChange={e => setSearchTerm(e.target.value)} autoFocus placeholder="Search product name or SKU..." className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-blue-500 focus:border-blue-500" />
+            </div>
+            <div className="max-h-72 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                {matches.map(({ product, variant }) => (
+                    <div key={variant?.id || product.id} onClick={() => onSelect(product, variant)} className="p-3 cursor-pointer flex justify-between items-center hover:bg-gray-100 dark:hover:bg-gray-700">
+                        <span className="text-gray-900 dark:text-white font-medium">{product.name}{variant && ` (${Object.values(variant.options).join(' / ')})`}</span>
+                        <span className="text-gray-500 dark:text-gray-300 text-sm">{formatCurrency(variant ? variant.retailPrice : product.retailPrice)}</span>
+                    </div>
+                ))}
+                {searchTerm.trim() && matches.length === 0 && <p className="p-3 text-center text-gray-500 dark:text-gray-400">No products found</p>}
+            </div>
+            <div className="flex justify-end">
+                <button onClick={onClose} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-white rounded-md">Cancel</button>
+            </div>
+        </div>
+    );
+};
+
+const RetrieveOrderModal: React.FC<{ onClose: () => void; onLoad: (order: HeldOrder) => void; onDelete: (order: HeldOrder) => void; heldOrders: HeldOrder[] }> = ({ onClose, onLoad, onDelete, heldOrders }) => {
     const { formatDateTime, formatCurrency } = useSettings();
 
     return (
@@ -439,7 +520,7 @@ const RetrieveOrderModal: React.FC<{ onClose: () => void; onLoad: (order: HeldOr
                                     <p className="text-sm text-gray-500">{order.items.length} items • Total: {formatCurrency(order.items.reduce((sum, i) => sum + i.retailPrice * i.quantity, 0))}</p>
                                 </div>
                                 <div className="flex gap-2">
-                                    <button onClick={() => onDelete(order.id)} className="p-2 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-md"><TrashIcon /></button>
+                                    <button onClick={() => onDelete(order)} title="Delete Held Order" className="p-2 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-md"><TrashIcon /></button>
                                     <button onClick={() => onLoad(order)} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">Load</button>
                                 </div>
                             </div>
@@ -513,11 +594,11 @@ interface POSProps {
 }
 
 const PaymentModalContent: React.FC<{
-    total: number,
+    total: Money,
     onCompleteSale: (payments: Payment[]) => Promise<void>,
     onClose: () => void,
 }> = ({ total, onCompleteSale, onClose }) => {
-    const { isIntegerCurrency, formatCurrency } = useSettings();
+    const { currencyExponent, formatCurrency } = useSettings();
     const { showToast } = useUIState();
     const [payments, setPayments] = useState<Payment[]>([]);
     const [currentAmount, setCurrentAmount] = useState('');
@@ -533,19 +614,19 @@ const PaymentModalContent: React.FC<{
     const change = totalPaid > absTotal ? totalPaid - absTotal : 0;
     
     // Can complete if paid enough (remaining <= 0)
-    const canComplete = totalPaid >= absTotal - 0.001; 
+    const canComplete = totalPaid >= absTotal; 
     
     useEffect(() => {
         if (remaining > 0) {
-            setCurrentAmount(remaining.toFixed(isIntegerCurrency ? 0 : 2));
+            setCurrentAmount(toMoneyInput(remaining, currencyExponent));
         } else {
             setCurrentAmount('');
         }
-    }, [total, totalPaid, isIntegerCurrency, absTotal, remaining]);
+    }, [total, totalPaid, currencyExponent, absTotal, remaining]);
 
     const addPayment = (type: PaymentType) => {
-        let amount = parseFloat(currentAmount);
-        if (isNaN(amount) || amount <= 0) return;
+        const amount = parseMoneyInput(currentAmount, currencyExponent);
+        if (amount === null || amount <= 0) return;
 
         setPayments(prev => [...prev, { type, amount: isRefund ? -amount : amount }]);
     };
@@ -583,7 +664,7 @@ const PaymentModalContent: React.FC<{
             )}
 
             <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
-                 {remaining > 0.001 ? (
+                 {remaining > 0 ? (
                     <div className="flex justify-between text-xl font-semibold mb-4">
                         <span className="text-gray-900 dark:text-white">Remaining:</span>
                         <span className="text-red-500">{formatCurrency(remaining)}</span>
@@ -607,17 +688,17 @@ const PaymentModalContent: React.FC<{
                         value={currentAmount}
                         onChange={(e) => setCurrentAmount(e.target.value)}
                         placeholder="Amount"
-                        disabled={remaining <= 0.001}
+                        disabled={remaining <= 0}
                         className="flex-grow block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 disabled:bg-gray-100 dark:disabled:bg-gray-800"
                      />
-                     <button onClick={() => setCurrentAmount(remaining.toFixed(isIntegerCurrency ? 0 : 2))} disabled={remaining <= 0.001} className="px-3 py-2 bg-gray-200 dark:bg-gray-600 rounded-md text-sm font-medium hover:bg-gray-300 dark:hover:bg-gray-50 disabled:opacity-50 text-gray-800 dark:text-white">
+                     <button onClick={() => setCurrentAmount(toMoneyInput(remaining, currencyExponent))} disabled={remaining <= 0} className="px-3 py-2 bg-gray-200 dark:bg-gray-600 rounded-md text-sm font-medium hover:bg-gray-300 dark:hover:bg-gray-50 disabled:opacity-50 text-gray-800 dark:text-white">
                          Full
                      </button>
                 </div>
                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mt-4">
-                    <button onClick={() => addPayment(PaymentType.Cash)} disabled={remaining <= 0.001} className="w-full py-2 bg-blue-500 text-white font-semibold rounded-lg hover:bg-blue-600 disabled:bg-blue-300 disabled:cursor-not-allowed">Cash</button>
-                    <button onClick={() => addPayment(PaymentType.Card)} disabled={remaining <= 0.001} className="w-full py-2 bg-indigo-500 text-white font-semibold rounded-lg hover:bg-indigo-600 disabled:bg-indigo-300 disabled:cursor-not-allowed">Card</button>
-                    <button onClick={() => addPayment(PaymentType.Other)} disabled={remaining <= 0.001} className="w-full py-2 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 disabled:bg-gray-300 disabled:cursor-not-allowed">Other</button>
+                    <button onClick={() => addPayment(PaymentType.Cash)} disabled={remaining <= 0} className="w-full py-2 bg-blue-500 text-white font-semibold rounded-lg hover:bg-blue-600 disabled:bg-blue-300 disabled:cursor-not-allowed">Cash</button>
+                    <button onClick={() => addPayment(PaymentType.Card)} disabled={remaining <= 0} className="w-full py-2 bg-indigo-500 text-white font-semibold rounded-lg hover:bg-indigo-600 disabled:bg-indigo-300 disabled:cursor-not-allowed">Card</button>
+                    <button onClick={() => addPayment(PaymentType.Other)} disabled={remaining <= 0} className="w-full py-2 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 disabled:bg-gray-300 disabled:cursor-not-allowed">Other</button>
                 </div>
             </div>
             
@@ -634,9 +715,9 @@ const PaymentModalContent: React.FC<{
 
 export const POS: React.FC<POSProps> = () => {
   const { products, categories, restoreDeletedProducts } = useProducts();
-  const { sales, processSale, currentShift, openShift, closeShift, holdOrder, heldOrders, retrieveOrder, deleteHeldOrder } = useSales();
-  const { currentUser } = useAuth();
-  const { workspaceId, isTaxEnabled, taxRate, isDiscountEnabled, discountRate, discountThreshold, isIntegerCurrency, cashierPermissions, formatCurrency, formatDateTime, paginationConfig } = useSettings();
+  const { sales, processSale, currentShift, openShift, closeShift, holdOrder, heldOrders, retrieveOrder, deleteHeldOrder, discardHeldOrder, openDrawer } = useSales();
+  const { currentUser, can } = useAuth();
+  const { workspaceId, isTaxEnabled, taxRate, isDiscountEnabled, discountRate, discountThreshold, discountApprovalRate, formatCurrency, formatDateTime, paginationConfig, syncApiUrl } = useSettings();
   const { showToast, setActiveView } = useUIState();
 
   const [searchTerm, setSearchTerm] = useState<string>('');
@@ -649,6 +730,7 @@ export const POS: React.FC<POSProps> = () => {
   const [activeTab, setActiveTab] = useState<'Register' | 'Returns'>('Register');
   const [selectedSaleForReturnId, setSelectedSaleForReturnId] = useState<string | null>(null);
   const [returnSearchTerm, setReturnSearchTerm] = useState<string>('');
+  const [isFetchingOldSale, setIsFetchingOldSale] = useState(false);
   
   const [catalogPage, setCatalogPage] = useState(1);
   const [salesPage, setSalesPage] = useState(1);
@@ -663,6 +745,11 @@ export const POS: React.FC<POSProps> = () => {
   const [isDiscountModalOpen, setIsDiscountModalOpen] = useState(false);
   const [isTaxModalOpen, setIsTaxModalOpen] = useState(false);
   const [isClearCartConfirmOpen, setIsClearCartConfirmOpen] = useState(false);
+  // Overrides approved for the cart, kept with it until the sale completes
+  const [cartApprovals, setCartApprovals] = usePersistedState<Approval[]>(`ims-${workspaceId}-pos-approvals`, []);
+  const [approvalRequest, setApprovalRequest] = useState<{ action: OverrideAction; detail: string; resolve: (approval: Approval | null) => void } | null>(null);
+  const [priceOverrideItem, setPriceOverrideItem] = useState<CartItem | null>(null);
+  const [isNoReceiptReturnOpen, setIsNoReceiptReturnOpen] = useState(false);
   const [isHoldOrderModalOpen, setIsHoldOrderModalOpen] = useState(false);
   const [isRetrieveOrderModalOpen, setIsRetrieveOrderModalOpen] = useState(false);
   
@@ -679,7 +766,26 @@ export const POS: React.FC<POSProps> = () => {
   const [missingReturnItems, setMissingReturnItems] = useState<CartItem[]>([]);
   const [pendingSalePayments, setPendingSalePayments] = useState<Payment[] | null>(null);
 
-  const canProcessReturns = currentUser.role === UserRole.Admin || cashierPermissions.canProcessReturns;
+  const canProcessReturns = can('processReturns');
+
+  // Users who may approve overrides sign off their own restricted actions; others need a supervisor
+  const requestApproval = (action: OverrideAction, detail: string): Promise<Approval | null> => {
+      if (!currentUser) return Promise.resolve(null);
+      if (can('approveOverrides')) return Promise.resolve(createApproval(action, detail, currentUser, currentUser));
+      return new Promise(resolve => setApprovalRequest({ action, detail, resolve }));
+  };
+
+  const resolveApprovalRequest = (approval: Approval | null) => {
+      approvalRequest?.resolve(approval);
+      setApprovalRequest(null);
+  };
+
+  // The cart is shared by every tab of the workspace, so ringing up in two tabs mixes their sales
+  const isRegisterOpenElsewhere = useRegisterOpenElsewhere(workspaceId);
+  useEffect(() => {
+    tabCoordinator.setRegister(workspaceId);
+    return () => tabCoordinator.setRegister(null);
+  }, [workspaceId]);
   
   const selectedSaleForReturn = useMemo(() => {
       if (!selectedSaleForReturnId) return null;
@@ -877,6 +983,8 @@ export const POS: React.FC<POSProps> = () => {
           
           const newItem: CartItem = {
               ...item,
+              // Refunded at the price it sold for, which was approved with the sale
+              priceOverriddenFrom: undefined,
               id: returnItemId,
               quantity: -returnQty, 
               originalSaleId: originalSale.id,
@@ -934,6 +1042,7 @@ export const POS: React.FC<POSProps> = () => {
       setCart([]);
       setCartDiscount(null);
       setCartTax(null);
+      setCartApprovals([]);
       setIsClearCartConfirmOpen(false);
       setSelectedCustomer(null);
   }
@@ -947,6 +1056,7 @@ export const POS: React.FC<POSProps> = () => {
           isTaxExempt: false, // Legacy, kept as false
           customTax: cartTax,
           note: note || `Order ${new Date().toLocaleTimeString()}`,
+          ...(cartApprovals.length > 0 && { approvals: cartApprovals }),
       });
       showToast("Order held successfully.", 'success');
       handleClearCart();
@@ -965,71 +1075,155 @@ export const POS: React.FC<POSProps> = () => {
       } else {
           setCartTax(null);
       }
+      setCartApprovals(order.approvals || []);
       deleteHeldOrder(order.id);
       setIsRetrieveOrderModalOpen(false);
       showToast("Order loaded.", 'success');
   };
 
   const totals = useMemo(() => {
-    const subtotal = cart.reduce((sum, item) => sum + item.retailPrice * item.quantity, 0);
-    
-    const roundCurrency = (amount: number) => {
-        if (isIntegerCurrency) {
-            return Math.round(amount);
-        }
-        return Math.round(amount * 100) / 100;
-    };
+    // All amounts are Money, so only the percentage results need rounding
+    const subtotal = roundMoney(cart.reduce((sum, item) => sum + item.retailPrice * item.quantity, 0));
     
     let discount = 0;
-    const positiveSubtotal = cart.filter(i => i.quantity > 0).reduce((sum, i) => sum + i.retailPrice * i.quantity, 0);
+    const positiveSubtotal = roundMoney(cart.filter(i => i.quantity > 0).reduce((sum, i) => sum + i.retailPrice * i.quantity, 0));
     
     if (cartDiscount) {
         if (cartDiscount.type === 'percent') {
-            discount = positiveSubtotal * (cartDiscount.value / 100);
+            discount = percentOf(positiveSubtotal, cartDiscount.value / 100);
         } else {
-            discount = cartDiscount.value;
+            discount = roundMoney(cartDiscount.value);
         }
     } else if (isDiscountEnabled && positiveSubtotal >= discountThreshold) {
-        discount = positiveSubtotal * discountRate;
+        discount = percentOf(positiveSubtotal, discountRate);
     }
     
     discount = Math.min(discount, positiveSubtotal);
-    const roundedDiscount = roundCurrency(discount);
 
-    const netTaxableAmount = subtotal - roundedDiscount;
+    const netTaxableAmount = subtotal - discount;
     
     let tax = 0;
     if (cartTax) {
         // Manual override for this cart
         if (cartTax.type === 'fixed') {
-            tax = cartTax.value;
+            tax = roundMoney(cartTax.value);
         } else {
-            tax = netTaxableAmount * (cartTax.value / 100);
+            tax = percentOf(netTaxableAmount, cartTax.value / 100);
         }
     } else if (isTaxEnabled) {
         // Default system tax
-        tax = netTaxableAmount * taxRate;
+        tax = percentOf(netTaxableAmount, taxRate);
     }
-    
-    const roundedTax = roundCurrency(tax);
-    const total = subtotal - roundedDiscount + roundedTax;
 
     return { 
-        subtotal: roundCurrency(subtotal), 
-        discount: roundedDiscount, 
-        tax: roundedTax, 
-        total: roundCurrency(total) 
+        subtotal, 
+        discount, 
+        tax, 
+        total: subtotal - discount + tax 
     };
-  }, [cart, isTaxEnabled, taxRate, isDiscountEnabled, discountThreshold, discountRate, isIntegerCurrency, cartDiscount, cartTax]);
+  }, [cart, isTaxEnabled, taxRate, isDiscountEnabled, discountThreshold, discountRate, cartDiscount, cartTax]);
+
+  // Discounts up to the limit (or the automatic discount, when higher) need no approval
+  const discountLimit = useMemo(() => {
+      const discountable = getDiscountableSubtotal(cart);
+      const automaticDiscount = isDiscountEnabled && discountable >= discountThreshold ? percentOf(discountable, discountRate) : 0;
+      return getDiscountLimit(cart, discountApprovalRate, automaticDiscount);
+  }, [cart, isDiscountEnabled, discountThreshold, discountRate, discountApprovalRate]);
+
+  // A new discount replaces the approval of the previous one
+  const handleApplyDiscount = async (discount: { type: 'percent' | 'fixed', value: number } | null) => {
+      const otherApprovals = cartApprovals.filter(approval => approval.action !== 'discount');
+      if (discount) {
+          const discountable = getDiscountableSubtotal(cart);
+          const amount = Math.min(discount.type === 'percent' ? percentOf(discountable, discount.value / 100) : roundMoney(discount.value), discountable);
+          if (amount > discountLimit) {
+              const approval = await requestApproval('discount', `${discount.type === 'percent' ? `${discount.value}%` : formatCurrency(discount.value)} off ${formatCurrency(discountable)}`);
+              if (!approval) return;
+              otherApprovals.push(approval);
+          }
+      }
+      setCartApprovals(otherApprovals);
+      setCartDiscount(discount);
+  };
+
+  const handlePriceOverride = async (item: CartItem, price: Money) => {
+      setPriceOverrideItem(null);
+      const catalogPrice = item.priceOverriddenFrom ?? item.retailPrice;
+      if (price !== catalogPrice) {
+          const approval = await requestApproval('priceOverride', `${item.name}: ${formatCurrency(catalogPrice)} to ${formatCurrency(price)}`);
+          if (!approval) return;
+          setCartApprovals(prev => [...prev, approval]);
+      }
+      setCart(prevCart => prevCart.map(cartItem => cartItem.id === item.id
+          ? { ...cartItem, retailPrice: price, priceOverriddenFrom: price !== catalogPrice ? catalogPrice : undefined }
+          : cartItem));
+  };
+
+  // Each item returned without a receipt is approved when it is added; more of it can follow without one
+  const handleNoReceiptReturn = async (product: Product, variant?: ProductVariant) => {
+      setIsNoReceiptReturnOpen(false);
+      const lineId = `${variant?.id || product.id}_return`;
+      const existingItem = cart.find(cartItem => cartItem.id === lineId);
+      if (existingItem) {
+          updateQuantity(existingItem, -1);
+          return;
+      }
+      const name = variant ? `${product.name} (${Object.values(variant.options).join(' / ')})` : product.name;
+      const approval = await requestApproval('noReceiptReturn', name);
+      if (!approval) return;
+      setCartApprovals(prev => [...prev, approval]);
+      setCart(prevCart => [...prevCart, {
+          id: lineId,
+          productId: product.id,
+          variantId: variant?.id,
+          name: `${name} (Return)`,
+          sku: variant ? `${product.sku}-${variant.skuSuffix}` : product.sku,
+          retailPrice: variant ? variant.retailPrice : product.retailPrice,
+          costPrice: Number(variant ? variant.costPrice : product.costPrice) || 0,
+          stock: variant ? variant.stock : product.stock,
+          quantity: -1,
+      }]);
+      showToast("Item added to cart for return", 'success');
+  };
+
+  const handleDeleteHeldOrder = async (order: HeldOrder) => {
+      const approval = await requestApproval('deleteHeldOrder', `${order.publicId ? `${order.publicId} ` : ''}${order.note}`);
+      if (!approval) return;
+      const result = await discardHeldOrder(order.id, approval);
+      showToast(result.success ? "Held order deleted." : result.message || "Failed to delete the held order.", result.success ? 'success' : 'error');
+  };
+
+  const handleOpenDrawer = async () => {
+      const approval = await requestApproval('openDrawer', 'Opened outside a sale');
+      if (!approval) return;
+      const result = await openDrawer(approval);
+      showToast(result.success ? "Drawer opening recorded." : result.message || "Failed to record the drawer opening.", result.success ? 'success' : 'error');
+  };
+
+  // Approvals of overrides the cart no longer has are dropped; ones it lacks (e.g. a fixed discount that
+  // outgrew the limit as items were removed) are asked for now
+  const collectApprovals = async (): Promise<Approval[] | null> => {
+      const required = getRequiredOverrides({ items: cart, discount: totals.discount }, discountLimit);
+      const approvals = cartApprovals.filter(approval => required.includes(approval.action));
+      for (const action of required.filter(action => !approvals.some(approval => approval.action === action))) {
+          const approval = await requestApproval(action, `Sale of ${formatCurrency(totals.total)}`);
+          if (!approval) return null;
+          approvals.push(approval);
+      }
+      return approvals;
+  };
 
   // Actual transaction processing logic, extracted for re-use
   const executeTransaction = async (payments: Payment[]) => {
+    const approvals = await collectApprovals();
+    if (!approvals) return;
+
     const safeNumber = (n: any) => {
         const num = Number(n);
         return isNaN(num) ? 0 : num;
     };
 
-    const cogs = cart.reduce((sum, item) => sum + safeNumber(item.costPrice) * item.quantity, 0);
+    const cogs = roundMoney(cart.reduce((sum, item) => sum + safeNumber(item.costPrice) * item.quantity, 0));
     
     const distinctOriginalIds = [...new Set(cart.map(i => i.originalSaleId).filter((id): id is string => !!id))];
     const originalSaleId = distinctOriginalIds.length === 1 ? distinctOriginalIds[0] : undefined;
@@ -1063,6 +1257,7 @@ export const POS: React.FC<POSProps> = () => {
       customerId: selectedCustomer?.id,
       customerName: selectedCustomer?.name,
       originalSaleId: originalSaleId,
+      ...(approvals.length > 0 && { approvals }),
     };
     
     try {
@@ -1072,6 +1267,7 @@ export const POS: React.FC<POSProps> = () => {
         setCart([]);
         setCartDiscount(null);
         setCartTax(null);
+        setCartApprovals([]);
         setSelectedCustomer(null);
         setIsPaymentModalOpen(false);
         setIsReceiptModalOpen(true);
@@ -1157,6 +1353,27 @@ export const POS: React.FC<POSProps> = () => {
 
   const salesTotalPages = Math.ceil(allReturnableSales.length / salesItemsPerPage);
 
+  // Registers keep only recent sales (see SyncService); older receipts are fetched from the server
+  const handleFetchOldSale = async () => {
+      const receipt = returnSearchTerm.trim();
+      if (!receipt) return;
+      setIsFetchingOldSale(true);
+      try {
+          const sale: Sale | null = await syncService.fetchRecord('sales', receipt);
+          if (!sale) {
+              showToast(`No sale ${receipt} found on the server.`, 'error');
+          } else if (sale.type !== 'Sale' || sale.status === 'Refunded') {
+              showToast(`Sale ${sale.publicId || sale.id} cannot be returned.`, 'error');
+          } else {
+              setSelectedSaleForReturnId(sale.id);
+          }
+      } catch (error) {
+          showToast(error instanceof Error ? error.message : 'Failed to search the server.', 'error');
+      } finally {
+          setIsFetchingOldSale(false);
+      }
+  };
+
   const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'ArrowDown') {
         e.preventDefault();
@@ -1221,15 +1438,23 @@ export const POS: React.FC<POSProps> = () => {
     if (!selectedSaleForReturn) {
       return (
         <div className="flex flex-col h-full">
-          <div className="relative mb-4">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-400"><SearchIcon /></div>
-            <input
-              type="text"
-              placeholder="Search Receipt # (e.g. TRX-123)..."
-              value={returnSearchTerm}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReturnSearchTerm(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-blue-500 focus:border-blue-500"
-            />
+          <div className="flex gap-2 mb-4">
+            <div className="relative flex-grow">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-400"><SearchIcon /></div>
+              <input
+                type="text"
+                placeholder="Search Receipt # (e.g. TRX-123)..."
+                value={returnSearchTerm}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReturnSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <button
+              onClick={() => setIsNoReceiptReturnOpen(true)}
+              className="px-4 py-2 text-sm font-semibold bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 whitespace-nowrap"
+            >
+              Return Without Receipt
+            </button>
           </div>
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md flex-grow flex flex-col">
              <h3 className="text-lg font-semibold p-4 border-b dark:border-gray-700 text-gray-800 dark:text-white">Select a Sale</h3>
@@ -1247,7 +1472,22 @@ export const POS: React.FC<POSProps> = () => {
                          <span className={`px-2 py-0.5 rounded-full text-xs ${sale.status === 'Partially Refunded' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'}`}>{sale.status}</span>
                      </div>
                    </div>
-                 )) : <div className="p-10 text-center text-gray-500 dark:text-gray-400">No found sales.</div>}
+                 )) : (
+                   <div className="p-10 text-center text-gray-500 dark:text-gray-400">
+                     No found sales.
+                     {syncApiUrl && returnSearchTerm.trim() && (
+                       <div className="mt-4">
+                         <button
+                           onClick={handleFetchOldSale}
+                           disabled={isFetchingOldSale}
+                           className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                         >
+                           {isFetchingOldSale ? 'Searching...' : 'Search Older Receipts on Server'}
+                         </button>
+                       </div>
+                     )}
+                   </div>
+                 )}
              </div>
              <Pagination
                 currentPage={salesPage}
@@ -1391,6 +1631,13 @@ export const POS: React.FC<POSProps> = () => {
             </div>
         )}
 
+        {isRegisterOpenElsewhere && (
+            <div className="mx-4 mt-4 p-3 flex items-center gap-2 rounded-lg bg-orange-100 dark:bg-orange-900/30 border border-orange-200 dark:border-orange-800 text-sm text-orange-700 dark:text-orange-300">
+                <DangerIcon className="h-5 w-5 flex-shrink-0" />
+                <span>This register is also open in another tab. Ring up sales in one tab only; the cart is shared between them.</span>
+            </div>
+        )}
+
         <div className="px-4 pt-4 flex justify-between items-center">
             <h1 className="text-3xl font-bold text-gray-800 dark:text-white">Point of Sale</h1>
             <div className="flex items-center gap-3">
@@ -1403,6 +1650,14 @@ export const POS: React.FC<POSProps> = () => {
                         </span>
                     )}
                 </button>
+                {currentShift && (
+                    <button 
+                        onClick={handleOpenDrawer}
+                        className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md text-sm font-semibold"
+                    >
+                        Open Drawer
+                    </button>
+                )}
                 {currentShift && (
                     <button 
                         onClick={() => setIsCloseShiftModalOpen(true)}
@@ -1522,9 +1777,16 @@ export const POS: React.FC<POSProps> = () => {
                                         <div className={`font-medium ${item.quantity < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
                                             {item.name}
                                         </div>
-                                        <div className="text-xs text-gray-500 dark:text-gray-400">
-                                            {formatCurrency(item.retailPrice)}
-                                        </div>
+                                        {item.quantity > 0 ? (
+                                            <button onClick={() => setPriceOverrideItem(item)} title="Override Price" className={`text-xs hover:underline ${item.priceOverriddenFrom !== undefined ? 'text-orange-600 dark:text-orange-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                                                {formatCurrency(item.retailPrice)}
+                                                {item.priceOverriddenFrom !== undefined && <span className="ml-1 line-through text-gray-400">{formatCurrency(item.priceOverriddenFrom)}</span>}
+                                            </button>
+                                        ) : (
+                                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                                                {formatCurrency(item.retailPrice)}
+                                            </div>
+                                        )}
                                     </td>
                                     <td className="px-2 py-3 text-center whitespace-nowrap">
                                         <div className="flex items-center justify-center gap-1">
@@ -1688,7 +1950,7 @@ export const POS: React.FC<POSProps> = () => {
             isDefaultDiscountEnabled={isDiscountEnabled} 
             defaultDiscountThreshold={discountThreshold}
             formatCurrency={formatCurrency}
-            onApply={setCartDiscount} 
+            onApply={handleApplyDiscount} 
             onClose={() => setIsDiscountModalOpen(false)} 
           />
       </Modal>
@@ -1730,7 +1992,7 @@ export const POS: React.FC<POSProps> = () => {
       </Modal>
 
       <Modal isOpen={isRetrieveOrderModalOpen} onClose={() => setIsRetrieveOrderModalOpen(false)} title="Retrieve Held Order" size="md">
-          <RetrieveOrderModal onClose={() => setIsRetrieveOrderModalOpen(false)} onLoad={handleLoadHeldOrder} onDelete={deleteHeldOrder} heldOrders={heldOrders} />
+          <RetrieveOrderModal onClose={() => setIsRetrieveOrderModalOpen(false)} onLoad={handleLoadHeldOrder} onDelete={handleDeleteHeldOrder} heldOrders={heldOrders} />
       </Modal>
 
       <Modal isOpen={isMissingItemsModalOpen} onClose={() => setIsMissingItemsModalOpen(false)} title="Missing Inventory Items" size="md">
@@ -1752,6 +2014,22 @@ export const POS: React.FC<POSProps> = () => {
             onClose={() => setVariantSelectionProduct(null)} 
           />
       )}
+
+      <Modal isOpen={!!priceOverrideItem} onClose={() => setPriceOverrideItem(null)} title="Override Price" size="sm">
+          {priceOverrideItem && (
+              <PriceOverrideModal item={priceOverrideItem} onApply={(price) => handlePriceOverride(priceOverrideItem, price)} onClose={() => setPriceOverrideItem(null)} />
+          )}
+      </Modal>
+
+      <Modal isOpen={isNoReceiptReturnOpen} onClose={() => setIsNoReceiptReturnOpen(false)} title="Return Without Receipt" size="md">
+          <NoReceiptReturnModal onSelect={handleNoReceiptReturn} onClose={() => setIsNoReceiptReturnOpen(false)} />
+      </Modal>
+
+      <ApprovalModal
+          request={approvalRequest}
+          onApprove={(approver) => approvalRequest && currentUser && resolveApprovalRequest(createApproval(approvalRequest.action, approvalRequest.detail, currentUser, approver))}
+          onCancel={() => resolveApprovalRequest(null)}
+      />
     </div>
   );
 };
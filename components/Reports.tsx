@@ -1,11 +1,12 @@
 
 import React, { useMemo, useState, useEffect, useRef } from 'react';
-import { Sale, UserRole, ReportsViewState, PaymentType, Product } from '../types';
+import { Sale, ReportsViewState, PaymentType, Product } from '../types';
 import { Modal } from './common/Modal';
 import { FilterMenu, FilterSelectItem } from './common/FilterMenu';
 import { Pagination } from './common/Pagination';
 import { SearchIcon, ChevronUpIcon, ChevronDownIcon, PhotoIcon, DangerIcon, TrashIcon } from './Icons';
 import { PrintableReceipt } from './common/PrintableReceipt';
+import { TrialBalanceView } from './reports/TrialBalanceView';
 import { useSales } from './context/SalesContext';
 import { useProducts } from './context/ProductContext';
 import { useAuth } from './context/AuthContext';
@@ -59,7 +60,7 @@ type DisplayableStockItem = {
 export const Reports: React.FC = () => {
   const { sales, processSale, deleteSale } = useSales();
   const { products } = useProducts();
-  const { currentUser, users } = useAuth();
+  const { currentUser, users, canDecrypt, can } = useAuth();
   const { reportsViewState, onReportsSalesViewUpdate, onReportsProductsViewUpdate, showToast } = useUIState();
   const { formatCurrency, formatDateTime, paginationConfig, includeTaxInProfit } = useSettings();
     
@@ -464,7 +465,7 @@ export const Reports: React.FC = () => {
                 <SortableSaleHeader sortKey="salespersonName">Salesperson</SortableSaleHeader>
                 <th scope="col" className="px-6 py-3">Items</th>
                 <SortableSaleHeader sortKey="total">Total</SortableSaleHeader>
-                {currentUser.role === UserRole.Admin && <SortableSaleHeader sortKey="profit">Profit</SortableSaleHeader>}
+                {can('viewCost') && <SortableSaleHeader sortKey="profit">Profit</SortableSaleHeader>}
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
@@ -491,7 +492,7 @@ export const Reports: React.FC = () => {
                     {s.items.reduce((sum, item) => sum + item.quantity, 0)}
                   </td>
                   <td data-label="Total" className="px-6 py-4">{formatCurrency(s.total)}</td>
-                  {currentUser.role === UserRole.Admin && <td data-label="Profit" className="px-6 py-4">{formatCurrency(getAdjustedProfit(s))}</td>}
+                  {can('viewCost') && <td data-label="Profit" className="px-6 py-4">{formatCurrency(getAdjustedProfit(s))}</td>}
                 </tr>
               ))}
             </tbody>
@@ -570,12 +571,14 @@ export const Reports: React.FC = () => {
         />
       </div>
 
+      {canDecrypt('financial') && <TrialBalanceView />}
+
       <Modal isOpen={!!viewingSale} onClose={() => setViewingSale(null)} title={`${viewingSale?.type} Details - ${viewingSale?.publicId || viewingSale?.id}`} size="md">
         {viewingSale && (
             <div>
                 <PrintableReceipt ref={printableAreaRef} sale={viewingSale} />
                  <div className="flex justify-end items-center gap-2 pt-4 no-print">
-                    {currentUser.role === UserRole.Admin && viewingSale.type === 'Sale' && (
+                    {can('deleteSales') && viewingSale.type === 'Sale' && (
                          <button
                             onClick={() => setIsDeleteConfirmOpen(true)}
                             title="Delete Sale"
@@ -584,7 +587,7 @@ export const Reports: React.FC = () => {
                             <TrashIcon className="h-5 w-5" />
                         </button>
                     )}
-                    {viewingSale.type === 'Sale' && (viewingSale.status === 'Completed' || viewingSale.status === 'Partially Refunded') ? (
+                    {can('processReturns') && viewingSale.type === 'Sale' && (viewingSale.status === 'Completed' || viewingSale.status === 'Partially Refunded') ? (
                         <button onClick={handleRefund} className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600">
                             {viewingSale.status === 'Completed' ? 'Full Refund' : 'Refund Remaining'}
                         </button>
@@ -1,10 +1,12 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { UserRole, PaginationTarget } from '../types';
+import { useLiveQuery } from "dexie-react-hooks";
+import { UserRole, PaginationTarget, SyncProfile } from '../types';
 import { Modal } from './common/Modal';
 import { LogoutIcon, TagIcon, UserCircleIcon, PencilIcon, CheckCircleIcon, XMarkIcon, ClipboardIcon, BuildingStoreIcon, ReceiveIcon, DangerIcon, BugIcon, TrashIcon, ShieldCheckIcon } from './Icons';
 import { AccordionSection } from './common/AccordionSection';
 import { ToggleSwitch } from './common/ToggleSwitch';
+import { MoneyInput } from './common/MoneyInput';
 import { Dropdown } from './common/Dropdown';
 import { ThemeSelector } from './settings/ThemeSelector';
 import { DataManagement } from './settings/DataManagement';
@@ -16,18 +18,24 @@ import { useSettings } from './context/SettingsContext';
 import { TimezoneSelector } from './settings/TimezoneSelector';
 import { useUIState } from './context/UIStateContext';
 import { syncService } from '../services/SyncService';
+import { SyncConflictsModal } from './settings/SyncConflictsModal';
+import { db } from '../utils/db';
+import { MAX_PIN_ATTEMPTS } from '../utils/pinUnlock';
+import { checkPassword } from '../utils/passwordPolicy';
 
 export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitchWorkspace }) => {
-    const { currentUser, updateUser, currentWorkspace, updateBusinessDetails, logout, sessionPersistence, setSessionPersistence } = useAuth();
+    const { currentUser, currentRole, can, updateUser, currentWorkspace, updateBusinessDetails, logout, sessionPersistence, setSessionPersistence, pinUserIds, setPin, removePin, passwordPolicy } = useAuth();
     const { 
         workspaceId, workspaceName,
-        isIntegerCurrency, setIsIntegerCurrency, isTaxEnabled, setIsTaxEnabled, taxRate, setTaxRate,
+        isTaxEnabled, setIsTaxEnabled, taxRate, setTaxRate,
         includeTaxInProfit, setIncludeTaxInProfit,
         isDiscountEnabled, setIsDiscountEnabled, discountRate, setDiscountRate, discountThreshold, setDiscountThreshold,
-        cashierPermissions,
+        discountApprovalRate, setDiscountApprovalRate,
         storeAddress, setStoreAddress, storePhone, setStorePhone, receiptFooter, setReceiptFooter,
         paginationConfig, setPaginationLimit,
-        syncApiUrl, setSyncApiUrl, syncApiKey, setSyncApiKey
+        syncApiUrl, setSyncApiUrl, syncApiKey, setSyncApiKey, syncEncryptPayloads, setSyncEncryptPayloads,
+        syncProfile, setSyncProfile, syncHistoryDays, setSyncHistoryDays, syncLive, setSyncLive,
+        autoLockMinutes, setAutoLockMinutes
     } = useSettings();
     const { showToast } = useUIState();
 
@@ -40,6 +48,13 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
     const [profileError, setProfileError] = useState('');
     const [profileSuccess, setProfileSuccess] = useState('');
 
+    // PIN State
+    const [isPinModalOpen, setIsPinModalOpen] = useState(false);
+    const [pinPassword, setPinPassword] = useState('');
+    const [newPin, setNewPin] = useState('');
+    const [confirmPin, setConfirmPin] = useState('');
+    const [pinError, setPinError] = useState('');
+
     const [expandedSection, setExpandedSection] = useState<string | null>('profile');
     
     // Business Edit State
@@ -51,6 +66,8 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
     
     // Sync State
     const [isSyncing, setIsSyncing] = useState(false);
+    const [isSyncConflictsOpen, setIsSyncConflictsOpen] = useState(false);
+    const syncConflictCount = useLiveQuery(() => db.syncConflicts.where('workspaceId').equals(workspaceId).count(), [workspaceId]) || 0;
 
     // Guest Exit State
     const [isGuestExitModalOpen, setIsGuestExitModalOpen] = useState(false);
@@ -61,8 +78,8 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
     if (!currentUser) return null;
 
     const isGuest = currentUser.id === 'guest';
-    const canEditProfile = currentUser.role === UserRole.Admin || cashierPermissions.canEditOwnProfile;
-    const canEditBehavior = currentUser.role === UserRole.Admin || cashierPermissions.canEditBehaviorSettings;
+    const canEditProfile = can('editOwnProfile');
+    const canEditBehavior = can('editBehaviorSettings');
 
     useEffect(() => {
         if (isGuest) {
@@ -81,12 +98,41 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
         }
     }, [isEditProfileModalOpen, currentUser]);
 
+    const openPinModal = () => {
+        setPinPassword('');
+        setNewPin('');
+        setConfirmPin('');
+        setPinError('');
+        setIsPinModalOpen(true);
+    };
+
+    const handleSetPin = async () => {
+        setPinError('');
+        if (newPin !== confirmPin) {
+            setPinError("PINs do not match.");
+            return;
+        }
+        const result = await setPin(pinPassword, newPin);
+        if (result.success) {
+            showToast("PIN saved on this device.", "success");
+            setIsPinModalOpen(false);
+        } else {
+            setPinError(result.message || "Failed to set PIN.");
+        }
+    };
+
+    const handleRemovePin = async () => {
+        await removePin();
+        showToast("PIN removed from this device.", "success");
+    };
+
     const handleProfileUpdate = async () => {
         setProfileError('');
         setProfileSuccess('');
 
-        if (profilePassword && profilePassword.length < 4) {
-            setProfileError("New password must be at least 4 characters long.");
+        const passwordError = profilePassword ? await checkPassword(profilePassword, passwordPolicy) : null;
+        if (passwordError) {
+            setProfileError(passwordError);
             return;
         }
 
@@ -152,7 +198,7 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
     
     const handleManualSync = async () => {
         setIsSyncing(true);
-        const result = await syncService.sync();
+        const result = await syncService.sync('manual');
         setIsSyncing(false);
         showToast(result.message || (result.success ? 'Sync complete' : 'Sync failed'), result.success ? 'success' : 'error');
     };
@@ -181,6 +227,7 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
         inventoryStockHistory: 'Inventory-Stock History Table',
         inventoryPriceHistory: 'Inventory-Price History Table',
         shifts: 'Users-Shift History Table',
+        auditLog: 'Users-Audit Log Table',
     };
 
     const paginationTargets = (Object.keys(paginationLabels) as PaginationTarget[]).sort((a, b) => {
@@ -219,6 +266,17 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
         { value: 'local', label: 'Persistent (Keep me logged in)' },
     ];
 
+    const autoLockOptions = [
+        { value: 0, label: 'Never' },
+        { value: 1, label: 'After 1 minute idle' },
+        { value: 2, label: 'After 2 minutes idle' },
+        { value: 5, label: 'After 5 minutes idle' },
+        { value: 10, label: 'After 10 minutes idle' },
+        { value: 15, label: 'After 15 minutes idle' },
+        { value: 30, label: 'After 30 minutes idle' },
+        { value: 60, label: 'After 1 hour idle' },
+    ];
+
     return (
         <div className="p-6 space-y-4">
             <h1 className="text-3xl font-bold text-gray-800 dark:text-white px-2">Settings</h1>
@@ -258,7 +316,7 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
                                     </div>
                                     <div>
                                         <h3 className="font-bold text-lg text-gray-800 dark:text-white">{currentUser.username}</h3>
-                                        <p className="text-sm text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded inline-block mt-1 mr-2">{currentUser.role}</p>
+                                        <p className="text-sm text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded inline-block mt-1 mr-2">{currentRole?.name}</p>
                                         {currentUser.email && <p className="text-sm text-blue-600 dark:text-blue-400 inline-block">{currentUser.email}</p>}
                                     </div>
                                 </div>
@@ -280,6 +338,32 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
                             </div>
                         </div>
 
+                        {/* PIN Card */}
+                        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 shadow-sm">
+                            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                                <div>
+                                    <h3 className="font-semibold text-gray-800 dark:text-white">PIN Sign-In on This Device</h3>
+                                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                                        {pinUserIds.includes(currentUser.id)
+                                            ? 'On. Sign in or take over the register with your PIN on this device.'
+                                            : 'Off. Set a short PIN to sign in or take over the register without your password.'}
+                                    </p>
+                                </div>
+                                <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                                    <button onClick={openPinModal} className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 text-sm font-medium transition-colors">
+                                        <ShieldCheckIcon className="w-4 h-4" />
+                                        {pinUserIds.includes(currentUser.id) ? 'Change PIN' : 'Set PIN'}
+                                    </button>
+                                    {pinUserIds.includes(currentUser.id) && (
+                                        <button onClick={handleRemovePin} className="flex items-center justify-center gap-2 px-4 py-2 bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400 rounded-md hover:bg-red-100 dark:hover:bg-red-900/30 text-sm font-medium transition-colors">
+                                            <TrashIcon className="w-4 h-4" />
+                                            Remove PIN
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+
                         {/* Business Card (Admin Only) */}
                         {currentUser.role === UserRole.Admin && (
                             <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 shadow-sm relative overflow-hidden">
@@ -349,6 +433,23 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
                                 : "Your session will be cleared when you close the browser tab or window."}
                         </p>
                     </div>
+                    {!isGuest && (
+                        <div>
+                            <h3 className="font-semibold text-gray-700 dark:text-gray-300 mb-2">Auto-Lock</h3>
+                            {currentUser.role === UserRole.Admin ? (
+                                <Dropdown 
+                                    value={autoLockMinutes}
+                                    onChange={setAutoLockMinutes}
+                                    options={autoLockOptions}
+                                />
+                            ) : (
+                                <p className="text-sm text-gray-700 dark:text-gray-300">{autoLockOptions.find(o => o.value === autoLockMinutes)?.label || `After ${autoLockMinutes} minutes idle`}</p>
+                            )}
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                Locks the app after this long without activity, on every device of this workspace. Unlock with a password or PIN; the cart is kept. Only administrators can change it.
+                            </p>
+                        </div>
+                    )}
                 </div>
             </AccordionSection>
 
@@ -413,14 +514,7 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
                                 <CurrencyDisplaySelector />
                             </div>
                             <CurrencyManager />
-                            <div className="mt-4">
-                                <ToggleSwitch
-                                    enabled={isIntegerCurrency}
-                                    onChange={setIsIntegerCurrency}
-                                    label="Integer Currency (No Decimals)"
-                                />
-                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Useful for currencies like JPY, KRW, etc.</p>
-                            </div>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Decimal places follow ISO 4217 (e.g. JPY 0, KWD 3) unless set on the currency.</p>
                         </div>
 
                         <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
@@ -483,15 +577,31 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
                                 {isDiscountEnabled && (
                                     <div className="flex items-center justify-between">
                                         <span className="text-sm text-gray-700 dark:text-gray-300">Threshold Amount</span>
-                                        <input
-                                            type="number"
+                                        <MoneyInput
                                             min="0"
                                             value={discountThreshold}
-                                            onChange={(e) => setDiscountThreshold(parseFloat(e.target.value))}
+                                            onChange={setDiscountThreshold}
                                             className="w-24 rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                                         />
                                     </div>
                                 )}
+                                <div className="flex items-center justify-between">
+                                    <span className="text-sm text-gray-700 dark:text-gray-300">Discount Approval Limit</span>
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            max="100"
+                                            step="0.1"
+                                            value={(discountApprovalRate * 100).toFixed(1)}
+                                            onChange={(e) => setDiscountApprovalRate(Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 100) / 100)}
+                                            disabled={!can('approveOverrides')}
+                                            className="w-20 rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+                                        />
+                                        <span className="text-gray-700 dark:text-gray-300">%</span>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2">Larger manual discounts need a supervisor's approval. Only users who can approve overrides can change this.</p>
                             </div>
                         </div>
                     </div>
@@ -527,6 +637,48 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
                                 placeholder="Secret Key"
                             />
                         </div>
+                        <div>
+                            <ToggleSwitch
+                                enabled={syncEncryptPayloads}
+                                onChange={setSyncEncryptPayloads}
+                                label="End-to-End Encrypt Synced Data"
+                            />
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Cost prices, profit and customer details are sent encrypted, so the server never sees them. Turn off only if your server needs to read them.</p>
+                        </div>
+                        <div>
+                            <ToggleSwitch
+                                enabled={syncLive}
+                                onChange={setSyncLive}
+                                label="Live Stock Updates"
+                            />
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Stock levels and held orders reach the other registers within seconds over a live connection, so two tills cannot both sell the last unit. Requires a server that supports it; otherwise devices keep syncing every 5 minutes.</p>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Data on This Device</label>
+                            <select
+                                value={syncProfile}
+                                onChange={(e) => setSyncProfile(e.target.value as SyncProfile)}
+                                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-blue-500 focus:border-blue-500"
+                            >
+                                <option value="full">Back office (all data)</option>
+                                <option value="register">Register (catalog, customers and recent history)</option>
+                            </select>
+                            {syncProfile === 'register' && (
+                                <div className="mt-2 flex items-center gap-2">
+                                    <label className="text-sm text-gray-700 dark:text-gray-300">Keep sales and shifts from the last</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        step="1"
+                                        value={syncHistoryDays}
+                                        onChange={(e) => setSyncHistoryDays(Math.max(1, parseInt(e.target.value) || 1))}
+                                        className="w-20 rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                                    />
+                                    <span className="text-sm text-gray-700 dark:text-gray-300">days</span>
+                                </div>
+                            )}
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">A register skips purchase orders, stock adjustments and the ledger, and removes older synced history to save space. Older receipts can still be looked up from the Returns tab.</p>
+                        </div>
                         <div className="pt-2">
                             <button 
                                 onClick={handleManualSync} 
@@ -537,7 +689,14 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
                                 {isSyncing ? 'Syncing...' : 'Sync Now'}
                             </button>
                         </div>
+                        {syncConflictCount > 0 && (
+                            <div className="flex items-center justify-between gap-4 p-3 border border-orange-200 dark:border-orange-900/50 rounded-lg bg-orange-50 dark:bg-orange-900/10">
+                                <p className="text-sm text-orange-800 dark:text-orange-200">{syncConflictCount} record(s) were edited on another device too and are waiting for review.</p>
+                                <button onClick={() => setIsSyncConflictsOpen(true)} className="px-3 py-1.5 text-sm bg-orange-500 text-white rounded-md hover:bg-orange-600 whitespace-nowrap">Review Conflicts</button>
+                            </div>
+                        )}
                     </div>
+                    <SyncConflictsModal isOpen={isSyncConflictsOpen} onClose={() => setIsSyncConflictsOpen(false)} />
                 </AccordionSection>
             )}
 
@@ -621,6 +780,31 @@ export const Settings: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitc
                 </div>
             </Modal>
 
+            <Modal isOpen={isPinModalOpen} onClose={() => setIsPinModalOpen(false)} title="Set PIN" size="sm">
+                <div className="space-y-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-300">
+                        The PIN only works on this device. After {MAX_PIN_ATTEMPTS} wrong attempts it is erased and you must sign in with your password.
+                    </p>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Current Password</label>
+                        <input type="password" value={pinPassword} onChange={e => setPinPassword(e.target.value)} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">New PIN (4-8 digits)</label>
+                        <input type="password" inputMode="numeric" autoComplete="off" maxLength={8} value={newPin} onChange={e => setNewPin(e.target.value.replace(/\D/g, ''))} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Confirm PIN</label>
+                        <input type="password" inputMode="numeric" autoComplete="off" maxLength={8} value={confirmPin} onChange={e => setConfirmPin(e.target.value.replace(/\D/g, ''))} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono" />
+                    </div>
+                    {pinError && <p className="text-red-500 text-sm text-center">{pinError}</p>}
+                    <div className="flex justify-end gap-2 pt-4">
+                        <button onClick={() => setIsPinModalOpen(false)} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-white rounded-md">Cancel</button>
+                        <button onClick={handleSetPin} className="px-4 py-2 bg-blue-600 text-white rounded-md">Save PIN</button>
+                    </div>
+                </div>
+            </Modal>
+
             {/* Business Edit Modal */}
             <Modal isOpen={isEditBusinessModalOpen} onClose={() => setIsEditBusinessModalOpen(false)} title="Edit Business Details" size="sm">
                 <div className="space-y-4">
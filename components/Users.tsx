@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { User, UserRole, CashierPermissions, Shift } from '../types';
+import { User, UserRole, Role, Permission, Shift } from '../types';
 import { Modal } from './common/Modal';
 import { Pagination } from './common/Pagination';
 import { TrashIcon, PlusIcon, SearchIcon, ChevronUpIcon, ChevronDownIcon, PencilIcon, ShieldCheckIcon, PhotoIcon } from './Icons';
@@ -9,32 +9,41 @@ import { useAuth } from './context/AuthContext';
 import { useUIState } from './context/UIStateContext';
 import { useSettings } from './context/SettingsContext';
 import { useSales } from './context/SalesContext';
+import { PERMISSION_GROUPS, getPermissionLabel, getUserRole, canAssignRole } from '../utils/permissions';
+import { MIN_PASSWORD_LENGTH } from '../utils/passwordPolicy';
+import { generateUUIDv7 } from '../utils/idGenerator';
+import { OVERRIDE_ACTION_LABELS } from '../utils/overrides';
+import { AuditLogView } from './users/AuditLogView';
 
 declare var html2canvas: any;
 
 const UserForm: React.FC<{
     user?: User | null;
-    onSubmit: (userId: string | null, data: { username: string, email: string, pass: string }) => void,
+    onSubmit: (userId: string | null, data: { username: string, email: string, pass: string, role: string }) => void,
     onCancel: () => void,
     errorMessage?: string,
 }> = ({ user, onSubmit, onCancel, errorMessage }) => {
+    const { roles, currentRole, passwordPolicy } = useAuth();
     const [username, setUsername] = useState('');
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
+    const [role, setRole] = useState<string>(UserRole.Cashier);
     const isEditMode = !!user;
+    const assignableRoles = roles.filter(r => currentRole && canAssignRole(currentRole, r));
 
     useEffect(() => {
         if(isEditMode) {
             setUsername(user.username);
             setEmail(user.email || '');
             setPassword('');
+            setRole(user.role);
         }
     }, [user, isEditMode]);
 
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        onSubmit(isEditMode ? user.id : null, { username, email, pass: password });
+        onSubmit(isEditMode ? user.id : null, { username, email, pass: password, role });
     };
 
     return (
@@ -49,11 +58,16 @@ const UserForm: React.FC<{
             </div>
             <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Password</label>
-                <input type="password" value={password} onChange={e => setPassword(e.target.value)} required={!isEditMode} minLength={isEditMode && !password ? 0 : 4} placeholder={isEditMode ? "Leave blank to keep current" : ""} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200" />
+                <input type="password" value={password} onChange={e => setPassword(e.target.value)} required={!isEditMode} minLength={isEditMode && !password ? 0 : passwordPolicy.minLength} placeholder={isEditMode ? "Leave blank to keep current" : `At least ${passwordPolicy.minLength} characters`} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200" />
             </div>
              <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Role</label>
-                <input type="text" value={user?.role || UserRole.Cashier} disabled className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-gray-100 dark:bg-gray-600 text-gray-500 dark:text-gray-400" />
+                <select value={role} onChange={e => setRole(e.target.value)} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200">
+                    {assignableRoles.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                </select>
+                {isEditMode && role !== user.role && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">A role with different access to cost data also needs a new password, so the user's keys can be re-issued.</p>
+                )}
             </div>
              {errorMessage && <p className="text-red-500 text-sm text-center">{errorMessage}</p>}
             <div className="flex justify-end gap-2 pt-4">
@@ -64,74 +78,134 @@ const UserForm: React.FC<{
     );
 };
 
-const PermissionsModal: React.FC<{
+const RolesModal: React.FC<{
     onClose: () => void;
 }> = ({ onClose }) => {
-    const { cashierPermissions, setCashierPermissions } = useSettings();
-    const [localPermissions, setLocalPermissions] = useState<CashierPermissions>(cashierPermissions);
+    const { roles, users, saveRoles } = useAuth();
+    const [localRoles, setLocalRoles] = useState<Role[]>(() => roles.filter(r => r.id !== UserRole.Admin));
+    const [selectedId, setSelectedId] = useState<string>(UserRole.Cashier);
+    const [error, setError] = useState('');
+    const selected = localRoles.find(r => r.id === selectedId);
+
+    const updateSelected = (changes: Partial<Role>) => {
+        setLocalRoles(prev => prev.map(r => r.id === selectedId ? { ...r, ...changes } : r));
+    };
+
+    const handleToggle = (permission: Permission, value: boolean) => {
+        if (!selected) return;
+        updateSelected({ permissions: value ? [...selected.permissions, permission] : selected.permissions.filter(p => p !== permission) });
+    };
+
+    const handleAdd = () => {
+        const role: Role = { id: `role_${generateUUIDv7()}`, name: 'New Role', permissions: ['viewPos'] };
+        setLocalRoles(prev => [...prev, role]);
+        setSelectedId(role.id);
+    };
 
-    const handleToggle = (key: keyof CashierPermissions, value: boolean) => {
-        setLocalPermissions(prev => ({ ...prev, [key]: value }));
+    const handleDelete = () => {
+        const remaining = localRoles.filter(r => r.id !== selectedId);
+        setLocalRoles(remaining);
+        setSelectedId(remaining[0]?.id || '');
     };
 
-    const handleSave = () => {
-        setCashierPermissions(localPermissions);
-        onClose();
+    const handleSave = async () => {
+        setError('');
+        const result = await saveRoles(localRoles);
+        if (result.success) onClose();
+        else setError(result.message || 'Failed to save roles.');
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+                Define what each role may do. Admin always has every permission. Changes apply to every device of the workspace once synced.
+            </p>
+            <div className="flex flex-col md:flex-row gap-4">
+                <div className="md:w-48 flex-shrink-0 space-y-1">
+                    {localRoles.map(r => (
+                        <button key={r.id} type="button" onClick={() => setSelectedId(r.id)} className={`w-full text-left px-3 py-2 rounded-md text-sm ${r.id === selectedId ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 font-semibold' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}>
+                            {r.name || 'Untitled'}
+                            <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">{users.filter(u => u.role === r.id).length} users</span>
+                        </button>
+                    ))}
+                    <button type="button" onClick={handleAdd} className="w-full flex items-center gap-2 px-3 py-2 rounded-md text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700">
+                        <PlusIcon />
+                        <span>Add Role</span>
+                    </button>
+                </div>
+                {selected && (
+                    <div className="flex-1 space-y-4">
+                        <div className="flex items-end gap-2">
+                            <div className="flex-1">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Role Name</label>
+                                <input type="text" value={selected.name} onChange={e => updateSelected({ name: e.target.value })} disabled={selected.id === UserRole.Cashier} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 disabled:bg-gray-100 dark:disabled:bg-gray-600" />
+                            </div>
+                            {selected.id !== UserRole.Cashier && (
+                                <button type="button" onClick={handleDelete} disabled={users.some(u => u.role === selected.id)} title={users.some(u => u.role === selected.id) ? 'Assign its users another role first' : 'Delete role'} className="p-2 text-red-500 hover:text-red-700 disabled:text-gray-400 disabled:cursor-not-allowed">
+                                    <TrashIcon />
+                                </button>
+                            )}
+                        </div>
+                        {PERMISSION_GROUPS.map(group => (
+                            <div key={group.label} className="space-y-3">
+                                <h4 className="text-md font-semibold text-gray-800 dark:text-gray-200 border-b pb-2 dark:border-gray-600">{group.label}</h4>
+                                {group.permissions.map(permission => (
+                                    <ToggleSwitch
+                                        key={permission.id}
+                                        enabled={selected.permissions.includes(permission.id)}
+                                        onChange={(val) => handleToggle(permission.id, val)}
+                                        label={permission.label}
+                                    />
+                                ))}
+                            </div>
+                        ))}
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Cost and profit are encrypted. Granting or withdrawing "{getPermissionLabel('viewCost')}" changes which keys a user holds when their password is next set or the encryption key is rotated.
+                        </p>
+                    </div>
+                )}
+            </div>
+            {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+            <div className="flex justify-end gap-2 pt-4">
+                <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500">Cancel</button>
+                <button type="button" onClick={handleSave} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">Save Roles</button>
+            </div>
+        </div>
+    );
+};
+
+const PasswordPolicyModal: React.FC<{
+    onClose: () => void;
+}> = ({ onClose }) => {
+    const { passwordPolicy, savePasswordPolicy } = useAuth();
+    const [minLength, setMinLength] = useState(String(passwordPolicy.minLength));
+    const [rejectCommon, setRejectCommon] = useState(passwordPolicy.rejectCommon);
+    const [error, setError] = useState('');
+
+    const handleSave = async () => {
+        setError('');
+        const result = await savePasswordPolicy({ minLength: Number(minLength), rejectCommon });
+        if (result.success) onClose();
+        else setError(result.message || 'Failed to save the password policy.');
     };
 
     return (
-        <div className="space-y-6">
+        <div className="space-y-4">
             <p className="text-sm text-gray-600 dark:text-gray-400">
-                Configure what actions users with the 'Cashier' role are permitted to perform throughout the application.
+                Applies whenever a password is set: new users, password changes and recovery. Existing passwords keep working until they are changed.
             </p>
-            <div className="space-y-4">
-                <h4 className="text-md font-semibold text-gray-800 dark:text-gray-200 border-b pb-2 mb-2 dark:border-gray-600">Page Access</h4>
-                <ToggleSwitch
-                    enabled={!!localPermissions.canViewDashboard}
-                    onChange={(val) => handleToggle('canViewDashboard', val)}
-                    label="Can View Dashboard Page"
-                />
-                 <ToggleSwitch
-                    enabled={!!localPermissions.canViewInventory}
-                    onChange={(val) => handleToggle('canViewInventory', val)}
-                    label="Can View Inventory Page"
-                />
-                <ToggleSwitch
-                    enabled={!!localPermissions.canManageCustomers}
-                    onChange={(val) => handleToggle('canManageCustomers', val)}
-                    label="Can View Customers Page"
-                />
-                <ToggleSwitch
-                    enabled={!!localPermissions.canViewReports}
-                    onChange={(val) => handleToggle('canViewReports', val)}
-                    label="Can View Reports Page"
-                />
-                <ToggleSwitch
-                    enabled={!!localPermissions.canViewAnalysis}
-                    onChange={(val) => handleToggle('canViewAnalysis', val)}
-                    label="Can View Analysis Page"
-                />
-
-                <h4 className="text-md font-semibold text-gray-800 dark:text-gray-200 border-b pb-2 mb-2 pt-4 dark:border-gray-600">Action & Settings Permissions</h4>
-                <ToggleSwitch
-                    enabled={!!localPermissions.canProcessReturns}
-                    onChange={(val) => handleToggle('canProcessReturns', val)}
-                    label="Can Process Returns in POS"
-                />
-                 <ToggleSwitch
-                    enabled={!!localPermissions.canEditOwnProfile}
-                    onChange={(val) => handleToggle('canEditOwnProfile', val)}
-                    label="Can Edit Own Profile"
-                />
-                 <ToggleSwitch
-                    enabled={!!localPermissions.canEditBehaviorSettings}
-                    onChange={(val) => handleToggle('canEditBehaviorSettings', val)}
-                    label="Can Edit Behavior Settings"
-                />
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Minimum Length</label>
+                <input type="number" min={MIN_PASSWORD_LENGTH} max={128} value={minLength} onChange={e => setMinLength(e.target.value)} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200" />
             </div>
+            <ToggleSwitch enabled={rejectCommon} onChange={setRejectCommon} label="Refuse common and breached passwords" />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+                Passwords are checked against a list bundled with the app; they are never sent anywhere.
+            </p>
+            {error && <p className="text-red-500 text-sm text-center">{error}</p>}
             <div className="flex justify-end gap-2 pt-4">
                 <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500">Cancel</button>
-                <button type="button" onClick={handleSave} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">Save Permissions</button>
+                <button type="button" onClick={handleSave} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">Save Policy</button>
             </div>
         </div>
     );
@@ -229,6 +303,35 @@ const ShiftDetailsModal: React.FC<{ shift: Shift; onClose: () => void }> = ({ sh
                     </div>
                 )}
 
+                {shift.overrides && shift.overrides.length > 0 && (
+                    <div className="mt-6">
+                        <p className="text-xs font-bold text-gray-600 dark:text-gray-400 uppercase mb-1">Approved Overrides ({shift.overrides.length})</p>
+                        <table className="w-full text-xs text-left text-gray-700 dark:text-gray-300">
+                            <thead className="text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                                <tr>
+                                    <th className="py-1 pr-2">Time</th>
+                                    <th className="py-1 pr-2">Action</th>
+                                    <th className="py-1 pr-2">Requested By</th>
+                                    <th className="py-1">Approved By</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                                {shift.overrides.map(override => (
+                                    <tr key={override.id}>
+                                        <td className="py-1 pr-2 whitespace-nowrap align-top">{formatDateTime(override.date)}</td>
+                                        <td className="py-1 pr-2 align-top">
+                                            <p className="font-medium text-gray-900 dark:text-white">{OVERRIDE_ACTION_LABELS[override.action]}</p>
+                                            <p className="text-gray-500 dark:text-gray-400">{override.detail}{override.salePublicId && <span className="font-mono"> · {override.salePublicId}</span>}</p>
+                                        </td>
+                                        <td className="py-1 pr-2 align-top">{override.requestedByName}</td>
+                                        <td className="py-1 align-top">{override.approvedByName}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
                 {shift.notes && (
                     <div className="mt-6">
                         <p className="text-xs font-bold text-gray-600 dark:text-gray-400 uppercase mb-1">Notes</p>
@@ -253,11 +356,12 @@ const ShiftDetailsModal: React.FC<{ shift: Shift; onClose: () => void }> = ({ sh
 type SortableUserKeys = 'username' | 'role';
 
 const UsersList: React.FC = () => {
-    const { users, currentUser, addUser, updateUser, deleteUser } = useAuth();
+    const { users, currentUser, roles, currentRole, can, addUser, updateUser, deleteUser } = useAuth();
     const { usersViewState, onUsersViewUpdate, showToast } = useUIState();
     const { paginationConfig } = useSettings();
     const [isUserModalOpen, setIsUserModalOpen] = useState(false);
-    const [isPermissionsModalOpen, setIsPermissionsModalOpen] = useState(false);
+    const [isRolesModalOpen, setIsRolesModalOpen] = useState(false);
+    const [isPolicyModalOpen, setIsPolicyModalOpen] = useState(false);
     const [editingUser, setEditingUser] = useState<User | null>(null);
     const [userToDelete, setUserToDelete] = useState<User | null>(null);
     const [formError, setFormError] = useState('');
@@ -276,14 +380,16 @@ const UsersList: React.FC = () => {
     const filteredAndSortedUsers = useMemo(() => {
         const filtered = users.filter(u => u.username.toLowerCase().includes(searchTerm.toLowerCase()));
         
+        const sortValue = (user: User) => sortConfig.key === 'role' ? getUserRole(roles, user).name : user.username;
         return filtered.sort((a, b) => {
-            const valA = a[sortConfig.key];
-            const valB = b[sortConfig.key];
-            const comparison = valA.localeCompare(valB);
+            const comparison = sortValue(a).localeCompare(sortValue(b));
             return sortConfig.direction === 'ascending' ? comparison : -comparison;
         });
 
-    }, [users, searchTerm, sortConfig]);
+    }, [users, roles, searchTerm, sortConfig]);
+
+    // Admins are edited in Settings > Profile; others only by users whose role covers theirs
+    const canManage = (user: User) => can('manageUsers') && !!currentRole && canAssignRole(currentRole, getUserRole(roles, user));
 
     const totalItems = filteredAndSortedUsers.length;
     const totalPages = Math.ceil(totalItems / itemsPerPage);
@@ -294,12 +400,12 @@ const UsersList: React.FC = () => {
         );
     }, [filteredAndSortedUsers, currentPage, itemsPerPage]);
 
-    const handleUserFormSubmit = async (userId: string | null, data: { username: string, email: string, pass: string }) => {
+    const handleUserFormSubmit = async (userId: string | null, data: { username: string, email: string, pass: string, role: string }) => {
         setFormError('');
         const isEditMode = !!userId;
         const result = await (isEditMode
-            ? updateUser(userId!, data.username, data.pass, data.email)
-            : addUser(data.username, data.pass, UserRole.Cashier, data.email));
+            ? updateUser(userId!, data.username, data.pass, data.email, data.role)
+            : addUser(data.username, data.pass, data.role, data.email));
         
         if (result.success) {
             showToast(`User ${isEditMode ? 'updated' : 'added'} successfully!`, 'success');
@@ -379,14 +485,23 @@ const UsersList: React.FC = () => {
                     />
                 </div>
                 <div className="flex gap-2 w-full sm:w-auto">
-                    <button onClick={() => setIsPermissionsModalOpen(true)} className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 flex items-center gap-2 justify-center flex-1 sm:flex-none">
-                        <ShieldCheckIcon className="w-5 h-5" />
-                        <span>Permissions</span>
-                    </button>
-                    <button onClick={openAddModal} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 justify-center flex-1 sm:flex-none">
-                        <PlusIcon />
-                        <span>Add User</span>
-                    </button>
+                    {currentRole?.id === UserRole.Admin && (
+                        <button onClick={() => setIsRolesModalOpen(true)} className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 flex items-center gap-2 justify-center flex-1 sm:flex-none">
+                            <ShieldCheckIcon className="w-5 h-5" />
+                            <span>Roles</span>
+                        </button>
+                    )}
+                    {currentRole?.id === UserRole.Admin && (
+                        <button onClick={() => setIsPolicyModalOpen(true)} className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 flex items-center gap-2 justify-center flex-1 sm:flex-none">
+                            <span>Password Policy</span>
+                        </button>
+                    )}
+                    {can('manageUsers') && (
+                        <button onClick={openAddModal} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 justify-center flex-1 sm:flex-none">
+                            <PlusIcon />
+                            <span>Add User</span>
+                        </button>
+                    )}
                 </div>
             </div>
 
@@ -405,11 +520,11 @@ const UsersList: React.FC = () => {
                     <tr key={user.id}>
                         <td data-label="Username" className="px-6 py-4 font-medium text-gray-900 dark:text-white whitespace-nowrap">{user.username} {user.id === currentUser?.id && <span className="text-xs font-normal text-gray-500 dark:text-gray-400">(You)</span>}</td>
                         <td data-label="Email" className="px-6 py-4">{user.email || '-'}</td>
-                        <td data-label="Role" className="px-6 py-4">{user.role}</td>
+                        <td data-label="Role" className="px-6 py-4">{getUserRole(roles, user).name}</td>
                         <td data-label="Actions" className="px-6 py-4 text-right space-x-2">
                             <button
                             onClick={() => openEditModal(user)}
-                            disabled={user.role === UserRole.Admin}
+                            disabled={!canManage(user)}
                             className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 p-1 disabled:text-gray-400 disabled:cursor-not-allowed"
                             aria-label={`Edit user ${user.username}`}
                             >
@@ -417,7 +532,7 @@ const UsersList: React.FC = () => {
                             </button>
                             <button
                             onClick={() => handleDeleteClick(user)}
-                            disabled={user.id === currentUser?.id || user.role === UserRole.Admin}
+                            disabled={user.id === currentUser?.id || !canManage(user)}
                             className="text-red-500 hover:text-red-700 p-1 disabled:text-gray-400 disabled:cursor-not-allowed"
                             aria-label={`Delete user ${user.username}`}
                             >
@@ -441,8 +556,12 @@ const UsersList: React.FC = () => {
                 <UserForm user={editingUser} onSubmit={handleUserFormSubmit} onCancel={closeUserModal} errorMessage={formError} />
             </Modal>
 
-            <Modal isOpen={isPermissionsModalOpen} onClose={() => setIsPermissionsModalOpen(false)} title="Cashier Role Permissions" size="md">
-                <PermissionsModal onClose={() => setIsPermissionsModalOpen(false)} />
+            <Modal isOpen={isRolesModalOpen} onClose={() => setIsRolesModalOpen(false)} title="Roles & Permissions" size="lg">
+                <RolesModal onClose={() => setIsRolesModalOpen(false)} />
+            </Modal>
+
+            <Modal isOpen={isPolicyModalOpen} onClose={() => setIsPolicyModalOpen(false)} title="Password Policy" size="sm">
+                <PasswordPolicyModal onClose={() => setIsPolicyModalOpen(false)} />
             </Modal>
 
             <Modal isOpen={!!userToDelete} onClose={() => setUserToDelete(null)} title="Confirm Deletion" size="sm">
@@ -502,6 +621,7 @@ const ShiftsList: React.FC = () => {
                             <th className="px-6 py-3 text-right">Cash Sales</th>
                             <th className="px-6 py-3 text-right">Closing Cash</th>
                             <th className="px-6 py-3 text-right">Difference</th>
+                            <th className="px-6 py-3 text-right">Overrides</th>
                             <th className="px-6 py-3">Notes</th>
                         </tr>
                     </thead>
@@ -533,11 +653,12 @@ const ShiftsList: React.FC = () => {
                                 }`}>
                                     {shift.status === 'Closed' ? formatCurrency(shift.difference || 0) : '-'}
                                 </td>
+                                <td className="px-6 py-4 text-right">{shift.overrides?.length || 0}</td>
                                 <td className="px-6 py-4 max-w-xs truncate" title={shift.notes}>{shift.notes || '-'}</td>
                             </tr>
                         ))}
                         {paginatedShifts.length === 0 && (
-                            <tr><td colSpan={10} className="px-6 py-8 text-center text-gray-500">No shift history found.</td></tr>
+                            <tr><td colSpan={11} className="px-6 py-8 text-center text-gray-500">No shift history found.</td></tr>
                         )}
                     </tbody>
                 </table>
@@ -560,7 +681,8 @@ const ShiftsList: React.FC = () => {
 };
 
 export const Users: React.FC = () => {
-    const [activeTab, setActiveTab] = useState<'users' | 'shifts'>('users');
+    const { can } = useAuth();
+    const [activeTab, setActiveTab] = useState<'users' | 'shifts' | 'audit'>('users');
 
     return (
         <div className="p-6">
@@ -579,11 +701,19 @@ export const Users: React.FC = () => {
                     >
                         Shifts
                     </button>
+                    {can('viewAuditLog') && (
+                        <button 
+                            onClick={() => setActiveTab('audit')}
+                            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${activeTab === 'audit' ? 'bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 shadow' : 'text-gray-600 dark:text-gray-300'}`}
+                        >
+                            Audit Log
+                        </button>
+                    )}
                 </div>
             </div>
 
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-                {activeTab === 'users' ? <UsersList /> : <ShiftsList />}
+                {activeTab === 'users' ? <UsersList /> : activeTab === 'shifts' ? <ShiftsList /> : <AuditLogView />}
             </div>
         </div>
     );
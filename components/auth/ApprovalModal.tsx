@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { Modal } from '../common/Modal';
+import { useAuth } from '../context/AuthContext';
+import { OverrideAction, User } from '../../types';
+import { getUserRole, hasPermission } from '../../utils/permissions';
+import { OVERRIDE_ACTION_LABELS } from '../../utils/overrides';
+
+/**
+ * Asks a supervisor to approve a restricted register action with their PIN on this device or their
+ * password. The cashier stays signed in; only the approver's name is kept, with the action.
+ */
+export const ApprovalModal: React.FC<{
+    request: { action: OverrideAction; detail: string } | null;
+    onApprove: (approver: User) => void;
+    onCancel: () => void;
+}> = ({ request, onApprove, onCancel }) => {
+    const { users, roles, currentUser, pinUserIds, verifyApprover } = useAuth();
+    const [userId, setUserId] = useState('');
+    const [secret, setSecret] = useState('');
+    const [usePassword, setUsePassword] = useState(false);
+    const [error, setError] = useState('');
+    const [isVerifying, setIsVerifying] = useState(false);
+
+    const approvers = users.filter(u => u.id !== currentUser?.id && u.id !== 'guest' && hasPermission(getUserRole(roles, u), 'approveOverrides'));
+    const hasPin = pinUserIds.includes(userId);
+    const method = hasPin && !usePassword ? 'pin' : 'password';
+
+    useEffect(() => {
+        if (request) {
+            setUserId(approvers.find(u => pinUserIds.includes(u.id))?.id || approvers[0]?.id || '');
+            setSecret('');
+            setUsePassword(false);
+            setError('');
+        }
+    }, [request]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setIsVerifying(true);
+        const result = await verifyApprover(userId, secret, method);
+        setIsVerifying(false);
+        if (!result.success || !result.approver) {
+            setSecret('');
+            setError(result.message || 'Could not verify the approver.');
+            return;
+        }
+        onApprove(result.approver);
+    };
+
+    return (
+        <Modal isOpen={!!request} onClose={onCancel} title="Supervisor Approval" size="sm">
+            {request && (
+                <div className="space-y-4">
+                    <div className="p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+                        <p className="text-sm font-semibold text-yellow-800 dark:text-yellow-200">{OVERRIDE_ACTION_LABELS[request.action]}</p>
+                        <p className="text-sm text-yellow-700 dark:text-yellow-300">{request.detail}</p>
+                    </div>
+                    {approvers.length === 0 ? (
+                        <>
+                            <p className="text-sm text-gray-600 dark:text-gray-300">No other user of this workspace can approve overrides. An Admin can grant "Approve register overrides" to a role under Users.</p>
+                            <div className="flex justify-end">
+                                <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500">Close</button>
+                            </div>
+                        </>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Approver</label>
+                                <select value={userId} onChange={e => { setUserId(e.target.value); setSecret(''); setUsePassword(false); setError(''); }} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200">
+                                    {approvers.map(u => <option key={u.id} value={u.id}>{u.username} ({getUserRole(roles, u).name})</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{method === 'pin' ? 'PIN' : 'Password'}</label>
+                                {method === 'pin' ? (
+                                    <input type="password" inputMode="numeric" autoComplete="off" value={secret} onChange={e => setSecret(e.target.value.replace(/\D/g, ''))} required maxLength={8} autoFocus className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 text-center tracking-widest font-mono" placeholder="••••" />
+                                ) : (
+                                    <input type="password" autoComplete="off" value={secret} onChange={e => setSecret(e.target.value)} required autoFocus className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200" />
+                                )}
+                                {hasPin && (
+                                    <button type="button" onClick={() => { setUsePassword(p => !p); setSecret(''); setError(''); }} className="text-xs text-blue-600 dark:text-blue-400 hover:underline mt-1">
+                                        {usePassword ? 'Use PIN instead' : 'Use password instead'}
+                                    </button>
+                                )}
+                            </div>
+                            {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+                            <div className="flex justify-end gap-2 pt-2">
+                                <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500">Cancel</button>
+                                <button type="submit" disabled={isVerifying || !userId} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">Approve</button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+            )}
+        </Modal>
+    );
+};
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { UserIcon } from '../Icons';
+
+/**
+ * Shown while the session is locked. The keys are gone from memory and storage; the session, open
+ * shift and POS cart are kept, so unlocking returns to the register as it was.
+ */
+export const LockScreen: React.FC = () => {
+    const { users, currentUser, currentWorkspace, pinUserIds, unlock, logout } = useAuth();
+    const [userId, setUserId] = useState(currentUser?.id || '');
+    const [secret, setSecret] = useState('');
+    const [usePassword, setUsePassword] = useState(false);
+    const [error, setError] = useState('');
+    const [isUnlocking, setIsUnlocking] = useState(false);
+
+    const hasPin = pinUserIds.includes(userId);
+    const method = hasPin && !usePassword ? 'pin' : 'password';
+    const selectableUsers = users.filter(u => u.id !== 'guest');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setIsUnlocking(true);
+        const result = await unlock(userId, secret, method);
+        setIsUnlocking(false);
+        if (!result.success) {
+            setSecret('');
+            setError(result.message || 'Could not unlock.');
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col justify-center items-center p-4 transition-colors duration-300">
+            <div className="w-full max-w-sm bg-white dark:bg-gray-800 shadow-2xl rounded-2xl p-8">
+                <div className="flex flex-col items-center mb-6">
+                    <div className="p-3 bg-gray-100 dark:bg-gray-700 rounded-full mb-3"><UserIcon /></div>
+                    <h1 className="text-xl font-bold text-gray-800 dark:text-white">Locked</h1>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{currentWorkspace?.name}</p>
+                </div>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">User</label>
+                        <select value={userId} onChange={e => { setUserId(e.target.value); setSecret(''); setUsePassword(false); setError(''); }} className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100">
+                            {selectableUsers.map(u => <option key={u.id} value={u.id}>{u.username}{u.id === currentUser?.id ? ' (locked session)' : ''}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{method === 'pin' ? 'PIN' : 'Password'}</label>
+                        {method === 'pin' ? (
+                            <input type="password" inputMode="numeric" autoComplete="off" value={secret} onChange={e => setSecret(e.target.value.replace(/\D/g, ''))} required maxLength={8} autoFocus className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-center tracking-widest font-mono" placeholder="••••" />
+                        ) : (
+                            <input type="password" value={secret} onChange={e => setSecret(e.target.value)} required autoFocus className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100" placeholder="••••••••" />
+                        )}
+                        {hasPin && (
+                            <button type="button" onClick={() => { setUsePassword(p => !p); setSecret(''); setError(''); }} className="text-xs text-blue-600 dark:text-blue-400 hover:underline mt-1">
+                                {usePassword ? 'Use PIN instead' : 'Use password instead'}
+                            </button>
+                        )}
+                    </div>
+                    {error && <p className="text-red-500 text-sm text-center bg-red-50 dark:bg-red-900/20 p-2 rounded-md">{error}</p>}
+                    <button type="submit" disabled={isUnlocking} className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg shadow-md disabled:opacity-50">
+                        Unlock
+                    </button>
+                </form>
+                <button onClick={logout} className="w-full text-center text-sm text-gray-500 dark:text-gray-400 hover:underline mt-4">
+                    Log out
+                </button>
+            </div>
+        </div>
+    );
+};
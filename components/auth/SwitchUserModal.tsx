@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { Modal } from '../common/Modal';
+import { useAuth } from '../context/AuthContext';
+import { getUserRole } from '../../utils/permissions';
+
+/**
+ * Hands the register to another user without logging out: the open shift, cart and held orders stay.
+ * Users with a PIN on this device enter it; others (or anyone locked out of their PIN) use their password.
+ */
+export const SwitchUserModal: React.FC<{ isOpen: boolean; onClose: () => void; }> = ({ isOpen, onClose }) => {
+    const { users, roles, currentUser, pinUserIds, switchUser } = useAuth();
+    const [userId, setUserId] = useState('');
+    const [secret, setSecret] = useState('');
+    const [usePassword, setUsePassword] = useState(false);
+    const [error, setError] = useState('');
+    const [isSwitching, setIsSwitching] = useState(false);
+
+    const otherUsers = users.filter(u => u.id !== currentUser?.id && u.id !== 'guest');
+    const hasPin = pinUserIds.includes(userId);
+    const method = hasPin && !usePassword ? 'pin' : 'password';
+
+    useEffect(() => {
+        if (isOpen) {
+            setUserId(otherUsers.find(u => pinUserIds.includes(u.id))?.id || otherUsers[0]?.id || '');
+            setSecret('');
+            setUsePassword(false);
+            setError('');
+        }
+    }, [isOpen]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setIsSwitching(true);
+        const result = await switchUser(userId, secret, method);
+        setIsSwitching(false);
+        if (!result.success) {
+            setSecret('');
+            setError(result.message || 'Could not switch user.');
+        }
+        // On success the app remounts for the new user, closing this modal
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Switch User" size="sm">
+            {otherUsers.length === 0 ? (
+                <p className="text-sm text-gray-600 dark:text-gray-300">There are no other users in this workspace.</p>
+            ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-300">The open shift and the current cart stay on the register.</p>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">User</label>
+                        <select value={userId} onChange={e => { setUserId(e.target.value); setSecret(''); setUsePassword(false); setError(''); }} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200">
+                            {otherUsers.map(u => <option key={u.id} value={u.id}>{u.username} ({getUserRole(roles, u).name})</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{method === 'pin' ? 'PIN' : 'Password'}</label>
+                        {method === 'pin' ? (
+                            <input type="password" inputMode="numeric" autoComplete="off" value={secret} onChange={e => setSecret(e.target.value.replace(/\D/g, ''))} required maxLength={8} autoFocus className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 text-center tracking-widest font-mono" placeholder="••••" />
+                        ) : (
+                            <input type="password" value={secret} onChange={e => setSecret(e.target.value)} required autoFocus className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200" />
+                        )}
+                        {hasPin && (
+                            <button type="button" onClick={() => { setUsePassword(p => !p); setSecret(''); setError(''); }} className="text-xs text-blue-600 dark:text-blue-400 hover:underline mt-1">
+                                {usePassword ? 'Use PIN instead' : 'Use password instead'}
+                            </button>
+                        )}
+                    </div>
+                    {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+                    <div className="flex justify-end gap-2 pt-2">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500">Cancel</button>
+                        <button type="submit" disabled={isSwitching || !userId} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">Switch</button>
+                    </div>
+                </form>
+            )}
+        </Modal>
+    );
+};
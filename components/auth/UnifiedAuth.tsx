@@ -1,12 +1,20 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { User, Workspace } from '../../types';
 import { useAuth } from '../context/AuthContext';
 import { UserIcon, SearchIcon, ShieldCheckIcon, CheckCircleIcon, ClipboardIcon, TagIcon } from '../Icons';
 import { Modal } from '../common/Modal';
+import { DEFAULT_PASSWORD_POLICY, checkPassword } from '../../utils/passwordPolicy';
+import { RecoveryShareError, combineRecoveryShares } from '../../utils/shamir';
 
 export const UnifiedAuth: React.FC = () => {
-    const { login, loginByEmail, registerBusiness, enterGuestMode, resetPassword } = useAuth();
-    const [mode, setMode] = useState<'login' | 'register' | 'recovery'>('login');
+    const { login, loginByEmail, loginWithPin, getPinLogins, registerBusiness, enterGuestMode, resetPassword } = useAuth();
+    const [mode, setMode] = useState<'pin' | 'login' | 'register' | 'recovery'>('login');
+
+    // PIN State (users who set a PIN on this device)
+    const [pinLogins, setPinLogins] = useState<{ workspace: Workspace, users: User[] }[]>([]);
+    const [pinUser, setPinUser] = useState(''); // `${workspaceId}:${userId}`
+    const [pin, setPin] = useState('');
     
     // Login State
     const [loginIdentifier, setLoginIdentifier] = useState(''); // Can be storeCode or email
@@ -22,6 +30,8 @@ export const UnifiedAuth: React.FC = () => {
     // Recovery State
     const [recEmail, setRecEmail] = useState('');
     const [recKey, setRecKey] = useState('');
+    const [recUseShares, setRecUseShares] = useState(false);
+    const [recShares, setRecShares] = useState(''); // One share per line
     const [recNewPassword, setRecNewPassword] = useState('');
 
     const [error, setError] = useState('');
@@ -33,6 +43,22 @@ export const UnifiedAuth: React.FC = () => {
     const [copiedStoreCode, setCopiedStoreCode] = useState(false);
     const [isSavedConfirmed, setIsSavedConfirmed] = useState(false);
 
+    const loadPinLogins = async () => {
+        const logins = await getPinLogins();
+        setPinLogins(logins);
+        return logins;
+    };
+
+    const firstPinUser = (logins: { workspace: Workspace, users: User[] }[]) => `${logins[0].workspace.id}:${logins[0].users[0].id}`;
+
+    useEffect(() => {
+        loadPinLogins().then(logins => {
+            if (logins.length === 0) return;
+            setMode('pin');
+            setPinUser(firstPinUser(logins));
+        });
+    }, []);
+
     // Determine if loginIdentifier looks like an email
     const isLoginEmail = loginIdentifier.includes('@');
 
@@ -41,7 +67,18 @@ export const UnifiedAuth: React.FC = () => {
         setError('');
         setSuccessMessage('');
 
-        if (mode === 'login') {
+        if (mode === 'pin') {
+            const [workspaceId, userId] = pinUser.split(':');
+            const result = await loginWithPin(workspaceId, userId, pin);
+            if (!result.success) {
+                setPin('');
+                setError(result.message || 'Login failed.');
+                // Too many wrong PINs erase the user's PIN on this device
+                const logins = await loadPinLogins();
+                if (logins.length === 0) setMode('login');
+                else if (!logins.some(({ workspace, users }) => users.some(u => `${workspace.id}:${u.id}` === pinUser))) setPinUser(firstPinUser(logins));
+            }
+        } else if (mode === 'login') {
             if (isLoginEmail) {
                 // Login by Email
                 const result = await loginByEmail(loginIdentifier, password);
@@ -56,8 +93,9 @@ export const UnifiedAuth: React.FC = () => {
                 }
             }
         } else if (mode === 'register') {
-            if (regPassword.length < 4) {
-                setError("Password must be at least 4 characters.");
+            const passwordError = await checkPassword(regPassword, DEFAULT_PASSWORD_POLICY);
+            if (passwordError) {
+                setError(passwordError);
                 return;
             }
             const result = await registerBusiness(regBusinessName, regUsername, regEmail, regPassword);
@@ -72,11 +110,17 @@ export const UnifiedAuth: React.FC = () => {
                 setError(result.message || 'Registration failed.');
             }
         } else if (mode === 'recovery') {
-            if (recNewPassword.length < 4) {
-                setError("New Password must be at least 4 characters.");
-                return;
+            let key = recKey;
+            if (recUseShares) {
+                try {
+                    key = await combineRecoveryShares(recShares.split('\n').filter(line => line.trim()));
+                } catch (e) {
+                    setError(e instanceof RecoveryShareError ? e.message : 'Could not combine the recovery shares.');
+                    return;
+                }
             }
-            const result = await resetPassword(recEmail, recKey, recNewPassword);
+            // The workspace's password policy is checked by resetPassword
+            const result = await resetPassword(recEmail, key, recNewPassword);
             if (result.success) {
                 setSuccessMessage("Password reset successfully! Redirecting to login...");
                 setTimeout(() => {
@@ -124,6 +168,18 @@ export const UnifiedAuth: React.FC = () => {
 
             <div className="w-full max-w-md bg-white dark:bg-gray-800 shadow-2xl rounded-2xl overflow-hidden">
                 <div className="flex border-b border-gray-100 dark:border-gray-700">
+                    {pinLogins.length > 0 && (
+                        <button 
+                            onClick={() => { setMode('pin'); setError(''); setSuccessMessage(''); }}
+                            className={`flex-1 py-4 text-sm font-semibold transition-all ${
+                                mode === 'pin' 
+                                ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-600 bg-blue-50/50 dark:bg-blue-900/10' 
+                                : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+                            }`}
+                        >
+                            PIN
+                        </button>
+                    )}
                     <button 
                         onClick={() => { setMode('login'); setError(''); setSuccessMessage(''); }}
                         className={`flex-1 py-4 text-sm font-semibold transition-all ${
@@ -148,6 +204,40 @@ export const UnifiedAuth: React.FC = () => {
 
                 <div className="p-8">
                     <form onSubmit={handleSubmit} className="space-y-5">
+                        {mode === 'pin' && (
+                            <>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">User</label>
+                                    <select 
+                                        value={pinUser} 
+                                        onChange={e => { setPinUser(e.target.value); setPin(''); setError(''); }} 
+                                        className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                                    >
+                                        {pinLogins.map(({ workspace, users }) => (
+                                            <optgroup key={workspace.id} label={`${workspace.name} (${workspace.alias})`}>
+                                                {users.map(u => <option key={u.id} value={`${workspace.id}:${u.id}`}>{u.username}</option>)}
+                                            </optgroup>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">PIN</label>
+                                    <input 
+                                        type="password" 
+                                        inputMode="numeric"
+                                        autoComplete="off"
+                                        value={pin} 
+                                        onChange={e => setPin(e.target.value.replace(/\D/g, ''))} 
+                                        required 
+                                        maxLength={8}
+                                        autoFocus
+                                        className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-center tracking-widest font-mono"
+                                        placeholder="••••"
+                                    />
+                                </div>
+                            </>
+                        )}
+
                         {mode === 'login' && (
                             <>
                                 <div>
@@ -271,17 +361,38 @@ export const UnifiedAuth: React.FC = () => {
                                         placeholder="admin@example.com"
                                     />
                                 </div>
-                                <div>
-                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Recovery Key</label>
-                                    <textarea 
-                                        value={recKey} 
-                                        onChange={e => setRecKey(e.target.value)} 
-                                        required 
-                                        rows={3}
-                                        className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-mono text-xs"
-                                        placeholder="Paste your long base64 recovery key string here..."
-                                    />
-                                </div>
+                                {recUseShares ? (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Recovery Shares</label>
+                                        <textarea 
+                                            value={recShares} 
+                                            onChange={e => setRecShares(e.target.value)} 
+                                            required 
+                                            rows={5}
+                                            className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-mono text-xs"
+                                            placeholder="One share per line, as printed on the cards (RKS1...). Scan a card's QR code with any phone to copy its share."
+                                        />
+                                    </div>
+                                ) : (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Recovery Key</label>
+                                        <textarea 
+                                            value={recKey} 
+                                            onChange={e => setRecKey(e.target.value)} 
+                                            required 
+                                            rows={3}
+                                            className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-mono text-xs"
+                                            placeholder="Paste your long base64 recovery key string here..."
+                                        />
+                                    </div>
+                                )}
+                                <button 
+                                    type="button"
+                                    onClick={() => { setRecUseShares(v => !v); setError(''); }}
+                                    className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                                >
+                                    {recUseShares ? 'Use the recovery key instead' : 'Recover with split key shares instead'}
+                                </button>
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">New Password</label>
                                     <input 
@@ -310,7 +421,7 @@ export const UnifiedAuth: React.FC = () => {
                             type="submit" 
                             className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg shadow-md hover:shadow-lg transform hover:-translate-y-0.5 transition-all duration-200"
                         >
-                            {mode === 'login' ? 'Log In' : mode === 'register' ? 'Create Business' : 'Reset Password'}
+                            {mode === 'login' || mode === 'pin' ? 'Log In' : mode === 'register' ? 'Create Business' : 'Reset Password'}
                         </button>
                     </form>
                 </div>
@@ -0,0 +1,37 @@
+import React, { useState, useEffect } from 'react';
+import { Money } from '../../types';
+import { useSettings } from '../context/SettingsContext';
+import { parseMoneyInput, toMoneyInput } from '../../utils/money';
+
+interface MoneyInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'type'> {
+  value: Money;
+  onChange: (value: Money) => void;
+}
+
+/**
+ * Number input edited in major units (e.g. 12.50) for a Money value held in minor units (1250).
+ * Keeps the typed text while it parses to the current value, so partial input like "12." survives.
+ */
+export const MoneyInput: React.FC<MoneyInputProps> = ({ value, onChange, ...inputProps }) => {
+  const { currencyExponent } = useSettings();
+  const [text, setText] = useState(() => toMoneyInput(value, currencyExponent));
+
+  useEffect(() => {
+    if ((parseMoneyInput(text, currencyExponent) ?? 0) !== value) setText(toMoneyInput(value, currencyExponent));
+  }, [value, currencyExponent]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setText(e.target.value);
+    onChange(parseMoneyInput(e.target.value, currencyExponent) ?? 0);
+  };
+
+  return (
+    <input
+      type="number"
+      step={10 ** -currencyExponent}
+      {...inputProps}
+      value={text}
+      onChange={handleChange}
+    />
+  );
+};
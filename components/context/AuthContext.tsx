@@ -1,10 +1,18 @@
 
-import React, { createContext, useContext, ReactNode, useState, useCallback, useEffect, useRef } from 'react';
-import { User, UserRole, Workspace } from '../../types';
+import React, { createContext, useContext, ReactNode, useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { useLiveQuery } from "dexie-react-hooks";
+import { User, UserRole, Workspace, KeyClass, Role, Permission, CashierPermissions, PasswordPolicy } from '../../types';
 import { db, getFromDB, setInDB } from '../../utils/db';
-import { generateSalt, deriveKeyFromPassword, generateDataKey, wrapKey, unwrapKey, exportKey, importKey, computeKeyCheckValue, validateKeyCheckValue } from '../../utils/crypto';
-import { generateUniqueNanoID, generateUUIDv7 } from '../../utils/idGenerator';
+import { generateSalt, deriveKeyWithKdf, CURRENT_KDF, isKdfOutdated, generateDataKey, wrapKey, unwrapKey, exportKey, computeKeyCheckValue, validateKeyCheckValue, KeySet, exportKeySet, importKeySet, wrapClassKeys, unwrapClassKeys, rewrapUserKeys } from '../../utils/crypto';
+import { generateUniqueNanoID, generateUUIDv7, generateNanoID } from '../../utils/idGenerator';
+import { KeyRotationState, KeyRotationProgress, getKeyRotationState, beginKeyRotation, unlockKeyRotation, reencryptWorkspaceData, keyRotationStateKey } from '../../utils/keyRotation';
 import { INITIAL_PRODUCTS, INITIAL_CUSTOMERS, INITIAL_SUPPLIERS, DEFAULT_CATEGORIES } from '../../constants';
+import { PIN_PATTERN, getPinUnlocks, setPinUnlock, removePinUnlock, unlockWithPin, pinUnlocksKey } from '../../utils/pinUnlock';
+import { ADMIN_ROLE, resolveRoles, getUserRole, hasPermission, canAssignRole, getRoleKeyClasses, permissionDenied, describeRoleChanges, findUsersWithChangedKeys } from '../../utils/permissions';
+import { tabCoordinator } from '../../services/TabCoordinator';
+import { recordAuditEvent } from '../../utils/audit';
+import { DEFAULT_PASSWORD_POLICY, MIN_PASSWORD_LENGTH, checkPassword } from '../../utils/passwordPolicy';
+import { InventoryService } from '../../services/InventoryService';
 
 interface AuthContextType {
     users: User[]; // Users of the CURRENT workspace
@@ -15,14 +23,47 @@ interface AuthContextType {
     loginByEmail: (email: string, pass: string) => Promise<{ success: boolean, message?: string }>;
     registerBusiness: (businessName: string, username: string, email: string, pass: string) => Promise<{ success: boolean, message?: string, recoveryKey?: string, storeCode?: string }>;
     logout: () => void;
+
+    // PIN sign-in with keys cached on this device (see utils/pinUnlock.ts)
+    pinUserIds: string[]; // Users of the current workspace with a PIN on this device
+    getPinLogins: () => Promise<{ workspace: Workspace, users: User[] }[]>;
+    loginWithPin: (workspaceId: string, userId: string, pin: string) => Promise<{ success: boolean, message?: string }>;
+    // Hands the register to another user of the workspace; the open shift and cart are kept
+    switchUser: (userId: string, secret: string, method?: 'pin' | 'password') => Promise<{ success: boolean, message?: string }>;
+    setPin: (password: string, pin: string) => Promise<{ success: boolean, message?: string }>;
+    removePin: () => Promise<void>;
+
+    // Locking clears the keys but keeps the session (and the persisted POS cart) for the unlock
+    isLocked: boolean;
+    lock: () => Promise<void>;
+    // Unlocks as the locked user, or as another user of the workspace taking over the register
+    unlock: (userId: string, secret: string, method?: 'pin' | 'password') => Promise<{ success: boolean, message?: string }>;
+    // Checks a supervisor's PIN or password for a register override; the session stays as it is
+    verifyApprover: (userId: string, secret: string, method?: 'pin' | 'password') => Promise<{ success: boolean, message?: string, approver?: User }>;
     
-    addUser: (username: string, pass: string, role: UserRole, email?: string) => Promise<{ success: boolean, message?: string }>;
-    updateUser: (userId: string, newUsername: string, newPassword?: string, newEmail?: string) => Promise<{ success: boolean, message?: string, recoveryKey?: string }>;
+    // Roles of the current workspace, Admin first (see utils/permissions.ts)
+    roles: Role[];
+    rolesLoaded: boolean;
+    currentRole: Role | null;
+    can: (permission: Permission) => boolean;
+    saveRoles: (roles: Role[]) => Promise<{ success: boolean, message?: string }>;
+
+    // Rules for new passwords of the current workspace (see utils/passwordPolicy.ts)
+    passwordPolicy: PasswordPolicy;
+    savePasswordPolicy: (policy: PasswordPolicy) => Promise<{ success: boolean, message?: string }>;
+
+    addUser: (username: string, pass: string, role: string, email?: string) => Promise<{ success: boolean, message?: string }>;
+    // A new role with different key classes (see getRoleKeyClasses) needs a new password to re-wrap the keys
+    updateUser: (userId: string, newUsername: string, newPassword?: string, newEmail?: string, newRole?: string) => Promise<{ success: boolean, message?: string, recoveryKey?: string }>;
     deleteUser: (userId: string) => { success: boolean; message?: string };
     recoverAccount: (username: string, recoveryKey: string, newPassword: string) => Promise<{ success: boolean; message?: string }>;
     resetPassword: (email: string, recoveryKey: string, newPass: string) => Promise<{ success: boolean, message?: string }>;
     getDecryptedKey: (password: string) => Promise<string | null>;
     verifyUserPassword: (password: string) => Promise<boolean>;
+
+    // Data key rotation (Admin only). Resumes a pending rotation if one exists.
+    rotateEncryptionKey: (password: string, onProgress?: (progress: KeyRotationProgress) => void) => Promise<{ success: boolean, message?: string, recoveryKey?: string, temporaryPasswords?: { username: string, password: string }[], unreadableFields?: number }>;
+    getPendingKeyRotation: () => Promise<KeyRotationState | undefined>;
     
     // Special Guest Mode
     enterGuestMode: () => Promise<void>;
@@ -31,6 +72,8 @@ interface AuthContextType {
     
     // Key revision to force app refresh on decryption repair
     encryptionRevision: number;
+    // Whether this session holds the key for a class (restricted fields are redacted otherwise)
+    canDecrypt: (keyClass: KeyClass) => boolean;
 
     // Session Settings
     sessionPersistence: 'session' | 'local';
@@ -45,6 +88,67 @@ export const useAuth = () => {
     return context;
 };
 
+// Users from before key classes existed only hold the DEK, which then stands in for every class
+const legacyKeySet = (general: CryptoKey): KeySet => ({ general, financial: general, pii: general });
+
+// Unlocks the DEK and every class key wrapped for the user. Throws if the password is wrong.
+const unlockUserKeys = async (user: User, kek: CryptoKey): Promise<KeySet> => {
+    const general = await unwrapKey(user.encryptedDEK!, kek);
+    if (!user.encryptedClassKeys) return legacyKeySet(general);
+    return { ...(await unwrapClassKeys(user.encryptedClassKeys, kek)), general };
+};
+
+// Unlocks a user's keys with their password, or with the PIN cached for them on this device
+const unlockWithSecret = async (workspaceId: string, user: User, secret: string, method: 'pin' | 'password'): Promise<{ keys?: KeySet, message?: string }> => {
+    if (method === 'password') {
+        if (!user.encryptedDEK || !user.salt) return { message: 'Account corrupted. Please use Recovery.' };
+        try {
+            return { keys: await unlockUserKeys(user, await deriveKeyWithKdf(secret, user.salt, user.kdf)) };
+        } catch (e) {
+            return { message: 'Invalid password.' };
+        }
+    }
+    const result = await unlockWithPin(workspaceId, user.id, secret);
+    if (result.keys) return { keys: user.encryptedClassKeys ? result.keys : legacyKeySet(result.keys.general!) };
+    if (result.attemptsLeft > 0) return { message: `Wrong PIN. ${result.attemptsLeft} attempt${result.attemptsLeft === 1 ? '' : 's'} left.` };
+    return { message: 'PIN sign-in is locked for this user on this device. Sign in with your password to set a new PIN.' };
+};
+
+/**
+ * Re-wraps a user's keys under CURRENT_KDF once they signed in with their password, so raised
+ * parameters reach existing accounts without a password change. Returns the user as now stored.
+ * If the wrap cannot be replaced (or changed meanwhile, e.g. by a key rotation) the old one is
+ * kept and the next sign-in tries again.
+ */
+const upgradeUserKdf = async (workspaceId: string, user: User, password: string, keys: KeySet): Promise<User> => {
+    if (!isKdfOutdated(user.kdf) || !user.encryptedDEK) return user;
+    try {
+        const upgraded = await rewrapUserKeys(user, password, keys);
+        const usersKey = `ims-${workspaceId}-users`;
+        return await db.transaction('rw', db.keyval, async () => {
+            const wsUsers: User[] = (await db.keyval.get(usersKey))?.value || [];
+            if (wsUsers.find(u => u.id === user.id)?.encryptedDEK !== user.encryptedDEK) return user;
+            await db.keyval.put({ key: usersKey, value: wsUsers.map(u => u.id === user.id ? upgraded : u) });
+            return upgraded;
+        });
+    } catch (e) {
+        console.error("Failed to upgrade the key derivation", e);
+        return user;
+    }
+};
+
+// A workspace setting like the roles, so it reaches every device with the settings sync
+const getPasswordPolicy = async (workspaceId: string): Promise<PasswordPolicy> =>
+    ((await db.settings.get(`${workspaceId}:passwordPolicy`))?.value as PasswordPolicy | undefined) || DEFAULT_PASSWORD_POLICY;
+
+// Recovery keys of legacy users stay a bare DEK so previously issued keys keep validating
+const exportRecoveryKey = (user: User, keys: KeySet): Promise<string> => {
+    if (!user.encryptedClassKeys) return exportKey(keys.general!);
+    const granted: KeySet = { general: keys.general };
+    for (const keyClass of Object.keys(user.encryptedClassKeys) as KeyClass[]) granted[keyClass] = keys[keyClass];
+    return exportKeySet(granted);
+};
+
 // Helper function to thoroughly clean up guest data
 const cleanupGuestData = async () => {
     const guestId = 'guest_workspace';
@@ -55,7 +159,7 @@ const cleanupGuestData = async () => {
 
     try {
         // 1. Clear actual data tables. 
-        await (db as any).transaction('rw', db.products, db.sales, db.customers, db.purchaseOrders, db.suppliers, db.users, db.workspaces, db.shifts, db.heldOrders, db.categories, db.inventoryAdjustments, db.notifications, async () => {
+        await (db as any).transaction('rw', db.products, db.sales, db.customers, db.purchaseOrders, db.suppliers, db.users, db.workspaces, db.shifts, db.heldOrders, db.categories, db.inventoryAdjustments, db.notifications, db.quarantinedRecords, db.journalEntries, db.syncConflicts, db.settings, db.auditLog, async () => {
             await db.products.where('workspaceId').equals(guestId).delete();
             await db.sales.where('workspaceId').equals(guestId).delete();
             await db.customers.where('workspaceId').equals(guestId).delete();
@@ -68,6 +172,11 @@ const cleanupGuestData = async () => {
             await db.categories.where('workspaceId').equals(guestId).delete();
             await db.inventoryAdjustments.where('workspaceId').equals(guestId).delete();
             await db.notifications.where('workspaceId').equals(guestId).delete();
+            await db.quarantinedRecords.where('workspaceId').equals(guestId).delete();
+            await db.journalEntries.where('workspaceId').equals(guestId).delete();
+            await db.syncConflicts.where('workspaceId').equals(guestId).delete();
+            await db.settings.where('workspaceId').equals(guestId).delete();
+            await db.auditLog.where('workspaceId').equals(guestId).delete();
         });
 
         // 2. Clear LocalStorage/KeyVal settings for guest
@@ -87,6 +196,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const [currentUser, setCurrentUser] = useState<User | null>(null);
     const [users, setUsers] = useState<User[]>([]); // Local state of users for the current workspace
     const [encryptionRevision, setEncryptionRevision] = useState(0);
+    const [pinUserIds, setPinUserIds] = useState<string[]>([]);
+    const [isLocked, setIsLocked] = useState(false);
 
     // Session Settings State
     const [sessionPersistence, setSessionPersistenceState] = useState<'session' | 'local'>(() => {
@@ -99,20 +210,71 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         // Clear Guest Data immediately before state reset
         if (isGuest) {
             await cleanupGuestData();
+        } else if (currentWorkspace && currentUser) {
+            await recordAuditEvent(currentWorkspace.id, currentUser, 'logout', 'Signed out');
         }
 
         db.setEncryptionKey(null);
         setCurrentUser(null);
         setCurrentWorkspace(null);
         setUsers([]);
+        setIsLocked(false);
         
         // Clear key from BOTH storages to be safe
         sessionStorage.removeItem('ims-key');
         localStorage.removeItem('ims-key');
         
         await db.keyval.delete('ims-session');
+        tabCoordinator.broadcast({ type: 'logout' });
     }, [currentWorkspace, currentUser]);
 
+    // Ends this tab's session only, after another tab logged out or changed the keys. The shared
+    // storage was already updated by that tab.
+    const endTabSession = useCallback(() => {
+        db.setEncryptionKey(null);
+        setCurrentUser(null);
+        setCurrentWorkspace(null);
+        setUsers([]);
+        setIsLocked(false);
+        sessionStorage.removeItem('ims-key');
+    }, []);
+
+    // Locks this tab only, after another tab locked the workspace
+    const lockTab = useCallback(() => {
+        db.setEncryptionKey(null);
+        sessionStorage.removeItem('ims-key');
+        setIsLocked(true);
+    }, []);
+
+    useEffect(() => tabCoordinator.onEvent(event => {
+        if (event.type === 'logout') endTabSession();
+        // The keys this tab holds no longer match the data; log in again to unlock the new ones
+        if (event.type === 'keys-changed' && event.workspaceId === currentWorkspace?.id) endTabSession();
+        // Another user took over the register; the previous user's session must not stay open here
+        if (event.type === 'user-switched' && event.workspaceId === currentWorkspace?.id) endTabSession();
+        if (event.type === 'lock' && event.workspaceId === currentWorkspace?.id) lockTab();
+    }), [currentWorkspace, endTabSession, lockTab]);
+
+    const loadPinUserIds = useCallback(async () => {
+        setPinUserIds(currentWorkspace ? Object.keys(await getPinUnlocks(currentWorkspace.id)) : []);
+    }, [currentWorkspace]);
+
+    useEffect(() => { loadPinUserIds(); }, [loadPinUserIds]);
+
+    // Role definitions are a workspace setting, so custom roles reach every device with the settings sync.
+    // Until they are first saved, the Cashier role comes from the old cashier permissions setting.
+    const roleSettings = useLiveQuery(async () => {
+        if (!currentWorkspace) return null;
+        const [stored, legacy] = await db.settings.bulkGet([`${currentWorkspace.id}:roles`, `${currentWorkspace.id}:cashierPermissions`]);
+        return { stored: (stored?.value as Role[] | undefined) || null, legacy: (legacy?.value as CashierPermissions | undefined) || null };
+    }, [currentWorkspace?.id]);
+    const rolesLoaded = roleSettings !== undefined;
+    const roles = useMemo(() => resolveRoles(roleSettings?.stored || null, roleSettings?.legacy || null), [roleSettings]);
+    const currentRole = useMemo(() => currentUser ? getUserRole(roles, currentUser) : null, [roles, currentUser]);
+    const can = useCallback((permission: Permission) => !!currentRole && hasPermission(currentRole, permission), [currentRole]);
+    const keyClassesOf = useCallback((role: string) => getRoleKeyClasses(getUserRole(roles, { role })), [roles]);
+    const passwordPolicy = useLiveQuery(() => currentWorkspace ? getPasswordPolicy(currentWorkspace.id) : DEFAULT_PASSWORD_POLICY, [currentWorkspace?.id]) || DEFAULT_PASSWORD_POLICY;
+
     // Handle Session Persistence Mode Switch
     const setSessionPersistence = (mode: 'session' | 'local') => {
         setSessionPersistenceState(mode);
@@ -120,7 +282,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
         // Move Key if currently logged in
         if (db.encryptionKey) {
-            exportKey(db.encryptionKey).then(exported => {
+            exportKeySet(db.getKeySet()).then(exported => {
                 if (mode === 'local') {
                     localStorage.setItem('ims-key', exported);
                     sessionStorage.removeItem('ims-key');
@@ -136,7 +298,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     useEffect(() => {
         const restoreSession = async () => {
             try {
-                const session = await getFromDB<{ workspaceId: string, userId: string }>('ims-session');
+                const session = await getFromDB<{ workspaceId: string, userId: string, locked?: boolean }>('ims-session');
                 if (session && session.workspaceId && session.userId) {
                     const ws = await db.workspaces.get(session.workspaceId);
                     if (!ws) return;
@@ -145,6 +307,15 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                     const wsUsers = await getFromDB<User[]>(`ims-${ws.id}-users`) || [];
                     const user = wsUsers.find(u => u.id === session.userId);
 
+                    if (user && session.locked) {
+                        // Locked before the reload; the keys were cleared, so show the lock screen
+                        setUsers(wsUsers);
+                        setCurrentWorkspace(ws);
+                        setCurrentUser(user);
+                        setIsLocked(true);
+                        return;
+                    }
+
                     if (user) {
                         // Attempt to restore key. Check sessionStorage first, then localStorage.
                         let storedKey = sessionStorage.getItem('ims-key');
@@ -154,8 +325,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
                         if (storedKey) {
                             try {
-                                const key = await importKey(storedKey);
-                                db.setEncryptionKey(key);
+                                const keys = await importKeySet(storedKey);
+                                db.setEncryptionKey(keys.general!, user.encryptedClassKeys ? keys : legacyKeySet(keys.general!));
                             } catch (e) {
                                 console.error("Key restore failed", e);
                                 // Key invalid, force logout
@@ -185,11 +356,11 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         restoreSession();
     }, [logout]);
 
-    const persistSession = async (user: User, workspace: Workspace, key: CryptoKey | null) => {
+    const persistSession = async (user: User, workspace: Workspace, keys: KeySet | null) => {
         try {
             await setInDB('ims-session', { workspaceId: workspace.id, userId: user.id });
-            if (key) {
-                const exported = await exportKey(key);
+            if (keys) {
+                const exported = await exportKeySet(keys);
                 if (sessionPersistence === 'local') {
                     localStorage.setItem('ims-key', exported);
                     sessionStorage.removeItem('ims-key'); // Clean up potential session key
@@ -249,13 +420,13 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
             // 3. Cryptographic Challenge
             // Instead of comparing passwords, we try to unlock the data key.
-            let dek: CryptoKey | null = null;
+            let keys: KeySet | null = null;
             try {
                 if (user.encryptedDEK && user.salt) {
-                    const kek = await deriveKeyFromPassword(pass, user.salt);
+                    const kek = await deriveKeyWithKdf(pass, user.salt, user.kdf);
                     // If this succeeds, the password is correct
-                    dek = await unwrapKey(user.encryptedDEK, kek);
-                    db.setEncryptionKey(dek);
+                    keys = await unlockUserKeys(user, kek);
+                    db.setEncryptionKey(keys.general!, keys);
                 } else {
                     // Fallback for Guest Mode (No Encryption)
                     if (user.id !== 'guest') {
@@ -270,12 +441,15 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 return { success: false, message: 'Invalid password.' };
             }
 
-            await persistSession(user, workspace, dek);
+            // The password is known now, so keys wrapped under outdated parameters can be re-wrapped
+            const signedIn = keys ? await upgradeUserKdf(workspace.id, user, pass, keys) : user;
+            await persistSession(signedIn, workspace, keys);
+            await recordAuditEvent(workspace.id, signedIn, 'login', 'Signed in with store code and password');
 
             // 4. Set Session
-            setUsers(wsUsers);
+            setUsers(wsUsers.map(u => u.id === signedIn.id ? signedIn : u));
             setCurrentWorkspace(workspace);
-            setCurrentUser(user);
+            setCurrentUser(signedIn);
             
             return { success: true };
         } catch (e) {
@@ -308,12 +482,12 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             }
 
             // 2. Cryptographic Challenge
-            let dek: CryptoKey | null = null;
+            let keys: KeySet | null = null;
             try {
                 if (foundUser.encryptedDEK && foundUser.salt) {
-                    const kek = await deriveKeyFromPassword(pass, foundUser.salt);
-                    dek = await unwrapKey(foundUser.encryptedDEK, kek);
-                    db.setEncryptionKey(dek);
+                    const kek = await deriveKeyWithKdf(pass, foundUser.salt, foundUser.kdf);
+                    keys = await unlockUserKeys(foundUser, kek);
+                    db.setEncryptionKey(keys.general!, keys);
                 } else {
                     // Fallback for Guest
                     if (foundUser.id !== 'guest') {
@@ -326,12 +500,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 return { success: false, message: 'Invalid password.' };
             }
 
-            await persistSession(foundUser, foundWorkspace, dek);
+            const signedIn = keys ? await upgradeUserKdf(foundWorkspace.id, foundUser, pass, keys) : foundUser;
+            await persistSession(signedIn, foundWorkspace, keys);
+            await recordAuditEvent(foundWorkspace.id, signedIn, 'login', 'Signed in with email and password');
 
             // 3. Set Session
-            setUsers(foundUsersArray);
+            setUsers(foundUsersArray.map(u => u.id === signedIn.id ? signedIn : u));
             setCurrentWorkspace(foundWorkspace);
-            setCurrentUser(foundUser);
+            setCurrentUser(signedIn);
 
             return { success: true };
 
@@ -341,8 +517,140 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
     }, [sessionPersistence]);
 
+    const getPinLogins = useCallback(async () => {
+        const logins: { workspace: Workspace, users: User[] }[] = [];
+        for (const workspace of await db.workspaces.toArray()) {
+            const unlocks = await getPinUnlocks(workspace.id);
+            if (Object.keys(unlocks).length === 0) continue;
+            const wsUsers = await getFromDB<User[]>(`ims-${workspace.id}-users`) || [];
+            const pinUsers = wsUsers.filter(u => unlocks[u.id]);
+            if (pinUsers.length > 0) logins.push({ workspace, users: pinUsers });
+        }
+        return logins;
+    }, []);
+
+    const loginWithPin = useCallback(async (workspaceId: string, userId: string, pin: string): Promise<{ success: boolean, message?: string }> => {
+        try {
+            const workspace = await db.workspaces.get(workspaceId);
+            const wsUsers = await getFromDB<User[]>(`ims-${workspaceId}-users`) || [];
+            const user = wsUsers.find(u => u.id === userId);
+            if (!workspace || !user) return { success: false, message: 'User not found.' };
+
+            const { keys, message } = await unlockWithSecret(workspaceId, user, pin, 'pin');
+            if (!keys) return { success: false, message };
+            db.setEncryptionKey(keys.general!, keys);
+            await persistSession(user, workspace, keys);
+            await recordAuditEvent(workspaceId, user, 'login', 'Signed in with PIN');
+
+            setUsers(wsUsers);
+            setCurrentWorkspace(workspace);
+            setCurrentUser(user);
+            return { success: true };
+        } catch (e) {
+            console.error(e);
+            return { success: false, message: 'Login failed due to an error.' };
+        }
+    }, [sessionPersistence]);
+
+    const switchUser = useCallback(async (userId: string, secret: string, method: 'pin' | 'password' = 'pin'): Promise<{ success: boolean, message?: string }> => {
+        if (!currentWorkspace || !currentUser) return { success: false, message: 'No active session.' };
+        const user = users.find(u => u.id === userId);
+        if (!user) return { success: false, message: 'User not found.' };
+        if (user.id === currentUser.id) return { success: true };
+
+        const { keys, message } = await unlockWithSecret(currentWorkspace.id, user, secret, method);
+        if (!keys) {
+            await loadPinUserIds();
+            return { success: false, message };
+        }
+        db.setEncryptionKey(keys.general!, keys);
+        const signedIn = method === 'password' ? await upgradeUserKdf(currentWorkspace.id, user, secret, keys) : user;
+        await persistSession(signedIn, currentWorkspace, keys);
+        await recordAuditEvent(currentWorkspace.id, signedIn, 'login', `Took over the register from ${currentUser.username} with ${method === 'pin' ? 'PIN' : 'password'}`);
+        if (signedIn !== user) setUsers(prev => prev.map(u => u.id === signedIn.id ? signedIn : u));
+        setCurrentUser(signedIn);
+        // Remounts the app, so nothing read with the previous user's keys stays on screen
+        setEncryptionRevision(prev => prev + 1);
+        tabCoordinator.broadcast({ type: 'user-switched', workspaceId: currentWorkspace.id });
+        return { success: true };
+    }, [users, currentWorkspace, currentUser, sessionPersistence, loadPinUserIds]);
+
+    const setPin = useCallback(async (password: string, pin: string): Promise<{ success: boolean, message?: string }> => {
+        if (!currentWorkspace || !currentUser || currentUser.id === 'guest') return { success: false, message: 'No active session.' };
+        if (!PIN_PATTERN.test(pin)) return { success: false, message: 'PIN must be 4 to 8 digits.' };
+
+        const { keys, message } = await unlockWithSecret(currentWorkspace.id, currentUser, password, 'password');
+        if (!keys) return { success: false, message };
+        try {
+            await setPinUnlock(currentWorkspace.id, currentUser.id, keys, pin);
+        } catch (e) {
+            console.error("setPin failed", e);
+            return { success: false, message: 'Failed to save the PIN on this device.' };
+        }
+        await loadPinUserIds();
+        return { success: true };
+    }, [currentWorkspace, currentUser, loadPinUserIds]);
+
+    const removePin = useCallback(async () => {
+        if (!currentWorkspace || !currentUser) return;
+        await removePinUnlock(currentWorkspace.id, currentUser.id);
+        await loadPinUserIds();
+    }, [currentWorkspace, currentUser, loadPinUserIds]);
+
+    const lock = useCallback(async () => {
+        if (!currentWorkspace || !currentUser || currentUser.id === 'guest') return;
+        db.setEncryptionKey(null);
+        sessionStorage.removeItem('ims-key');
+        localStorage.removeItem('ims-key');
+        await setInDB('ims-session', { workspaceId: currentWorkspace.id, userId: currentUser.id, locked: true });
+        setIsLocked(true);
+        tabCoordinator.broadcast({ type: 'lock', workspaceId: currentWorkspace.id });
+    }, [currentWorkspace, currentUser]);
+
+    const unlock = useCallback(async (userId: string, secret: string, method: 'pin' | 'password' = 'password'): Promise<{ success: boolean, message?: string }> => {
+        if (!currentWorkspace || !currentUser) return { success: false, message: 'No active session.' };
+        const user = users.find(u => u.id === userId);
+        if (!user) return { success: false, message: 'User not found.' };
+
+        const { keys, message } = await unlockWithSecret(currentWorkspace.id, user, secret, method);
+        if (!keys) {
+            await loadPinUserIds();
+            return { success: false, message };
+        }
+        db.setEncryptionKey(keys.general!, keys);
+        const signedIn = method === 'password' ? await upgradeUserKdf(currentWorkspace.id, user, secret, keys) : user;
+        await persistSession(signedIn, currentWorkspace, keys);
+        await recordAuditEvent(currentWorkspace.id, signedIn, 'login', user.id === currentUser.id
+            ? `Unlocked the session with ${method === 'pin' ? 'PIN' : 'password'}`
+            : `Took over the locked session of ${currentUser.username} with ${method === 'pin' ? 'PIN' : 'password'}`);
+        if (signedIn !== user) setUsers(prev => prev.map(u => u.id === signedIn.id ? signedIn : u));
+        setCurrentUser(signedIn);
+        setIsLocked(false);
+        if (user.id !== currentUser.id) tabCoordinator.broadcast({ type: 'user-switched', workspaceId: currentWorkspace.id });
+        return { success: true };
+    }, [users, currentWorkspace, currentUser, sessionPersistence, loadPinUserIds]);
+
+    const verifyApprover = useCallback(async (userId: string, secret: string, method: 'pin' | 'password' = 'pin'): Promise<{ success: boolean, message?: string, approver?: User }> => {
+        if (!currentWorkspace || !currentUser) return { success: false, message: 'No active session.' };
+        const user = users.find(u => u.id === userId);
+        if (!user || user.id === 'guest') return { success: false, message: 'User not found.' };
+        if (!hasPermission(getUserRole(roles, user), 'approveOverrides')) return { success: false, message: `${user.username} cannot approve overrides.` };
+
+        // The keys are only proof of the secret; they are dropped, not installed
+        const { keys, message } = await unlockWithSecret(currentWorkspace.id, user, secret, method);
+        if (!keys) {
+            await loadPinUserIds();
+            return { success: false, message };
+        }
+        return { success: true, approver: user };
+    }, [users, roles, currentWorkspace, currentUser, loadPinUserIds]);
+
     const registerBusiness = useCallback(async (businessName: string, username: string, email: string, pass: string): Promise<{ success: boolean, message?: string, recoveryKey?: string, storeCode?: string }> => {
         try {
+            // A new workspace has no policy of its own yet
+            const passwordError = await checkPassword(pass, DEFAULT_PASSWORD_POLICY);
+            if (passwordError) return { success: false, message: passwordError };
+
             // Check global uniqueness for email
             if (await isEmailTakenGlobally(email)) {
                 return { success: false, message: 'This email is already registered with another business.' };
@@ -361,10 +669,13 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
             // 2. Create Crypto Keys
             const salt = generateSalt();
-            const kek = await deriveKeyFromPassword(pass, salt);
+            const kek = await deriveKeyWithKdf(pass, salt, CURRENT_KDF);
             const dek = await generateDataKey();
             const encryptedDEK = await wrapKey(dek, kek);
-            const recoveryKey = await exportKey(dek);
+            // Separate keys for restricted field classes, only wrapped for roles granted them
+            const keys: KeySet = { general: dek, financial: await generateDataKey(), pii: await generateDataKey() };
+            const encryptedClassKeys = await wrapClassKeys(keys, getRoleKeyClasses(ADMIN_ROLE), kek);
+            const recoveryKey = await exportKeySet(keys);
             
             // COMPUTE KEY CHECK VALUE (SHA-256 hash of raw DEK)
             const keyCheckValue = await computeKeyCheckValue(dek);
@@ -378,6 +689,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 salt,
                 encryptedDEK,
                 keyCheckValue, // Store Key Check Value
+                encryptedClassKeys,
+                kdf: CURRENT_KDF,
                 workspaceId
             };
 
@@ -387,7 +700,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
             // 5. Seed Initial Data
             // We enable encryption momentarily to ensure data is encrypted with the new DEK
-            db.setEncryptionKey(dek);
+            db.setEncryptionKey(dek, keys);
 
             // Generate Map for Category IDs to maintain relationships and ensure global uniqueness
             const categoryMap = new Map<string, string>();
@@ -421,7 +734,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 sync_status: 'pending' as const 
             }));
             
-            await db.products.bulkAdd(products);
+            await new InventoryService(db, workspaceId).createProducts(products, 'Opening stock');
             await db.categories.bulkAdd(categories);
             await db.customers.bulkAdd(customers);
             
@@ -435,7 +748,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             await db.suppliers.bulkAdd(suppliers);
 
             // Persist session immediately to allow auto-login behavior consistency
-            await persistSession(newUser, newWorkspace, dek);
+            await persistSession(newUser, newWorkspace, keys);
 
             db.setEncryptionKey(null); // Lock DB after seeding (login will unlock it properly)
 
@@ -459,9 +772,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
         // 2. Generate new ephemeral key for this guest session (Encryption still used for data protection simulation)
         const key = await generateDataKey();
-        db.setEncryptionKey(key);
+        db.setEncryptionKey(key, legacyKeySet(key));
 
-        await persistSession(guestUser, guestWs, key);
+        await persistSession(guestUser, guestWs, db.getKeySet());
 
         // 3. Initialize guest user in memory/keyval (keyval is not encrypted by middleware, so safe)
         const existingUsers = [guestUser];
@@ -477,11 +790,17 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }, [sessionPersistence]);
 
     // User Management (Scoped to current workspace)
-    const addUser = useCallback(async (username: string, pass: string, role: UserRole, email?: string): Promise<{ success: boolean, message?: string }> => {
-        if (!currentWorkspace) return { success: false, message: 'No active workspace.' };
+    const addUser = useCallback(async (username: string, pass: string, role: string, email?: string): Promise<{ success: boolean, message?: string }> => {
+        if (!currentWorkspace || !currentRole) return { success: false, message: 'No active workspace.' };
+        if (!can('manageUsers')) return permissionDenied('manageUsers');
+        const newRole = roles.find(r => r.id === role);
+        if (!newRole) return { success: false, message: 'Role not found.' };
+        if (!canAssignRole(currentRole, newRole)) return { success: false, message: `You cannot assign the ${newRole.name} role.` };
         if (users.some(u => u.username.toLowerCase() === username.toLowerCase())) {
             return { success: false, message: 'Username taken.' };
         }
+        const passwordError = await checkPassword(pass, passwordPolicy);
+        if (passwordError) return { success: false, message: passwordError };
         if (email) {
             if (users.some(u => u.email?.toLowerCase() === email.toLowerCase())) {
                 return { success: false, message: 'Email already in use in this workspace.' };
@@ -500,8 +819,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             }
 
             const salt = generateSalt();
-            const kek = await deriveKeyFromPassword(pass, salt);
+            const kek = await deriveKeyWithKdf(pass, salt, CURRENT_KDF);
             const encryptedDEK = await wrapKey(currentDEK, kek);
+            // Workspaces with key classes grant the new user only the classes of their role
+            const encryptedClassKeys = currentUser?.encryptedClassKeys ? await wrapClassKeys(db.getKeySet(), getRoleKeyClasses(newRole), kek) : undefined;
             
             // COMPUTE KEY CHECK VALUE (Consistency for all users)
             const keyCheckValue = await computeKeyCheckValue(currentDEK);
@@ -514,30 +835,51 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 salt,
                 encryptedDEK,
                 keyCheckValue, // Add KCV to user record
+                encryptedClassKeys,
+                kdf: CURRENT_KDF,
                 workspaceId: currentWorkspace.id
             };
 
             const updatedUsers = [...users, newUser];
             setUsers(updatedUsers);
             await setInDB(`ims-${currentWorkspace.id}-users`, updatedUsers);
+            if (currentUser) recordAuditEvent(currentWorkspace.id, currentUser, 'permissionChange', `Added user ${username} with the ${newRole.name} role`);
             
             return { success: true };
         } catch (error) {
             console.error("addUser failed", error);
             return { success: false, message: "Failed to secure user credentials." };
         }
-    }, [users, currentWorkspace]);
+    }, [users, currentWorkspace, currentUser, currentRole, roles, can, passwordPolicy]);
 
-    const updateUser = useCallback(async (userId: string, newUsername: string, newPassword?: string, newEmail?: string): Promise<{ success: boolean, message?: string, recoveryKey?: string }> => {
-        if (!currentWorkspace) return { success: false, message: 'No active workspace.' };
+    const updateUser = useCallback(async (userId: string, newUsername: string, newPassword?: string, newEmail?: string, newRole?: string): Promise<{ success: boolean, message?: string, recoveryKey?: string }> => {
+        if (!currentWorkspace || !currentRole) return { success: false, message: 'No active workspace.' };
         
         const userIndex = users.findIndex(u => u.id === userId);
         if (userIndex === -1) return { success: false, message: 'User not found.' };
         
         const user = users[userIndex];
+        const requiredPermission: Permission = userId === currentUser?.id ? 'editOwnProfile' : 'manageUsers';
+        if (!can(requiredPermission)) return permissionDenied(requiredPermission);
+        if (userId !== currentUser?.id && !canAssignRole(currentRole, getUserRole(roles, user))) {
+            return { success: false, message: `You cannot edit users with the ${getUserRole(roles, user).name} role.` };
+        }
+        const role = newRole || user.role;
+        if (role !== user.role) {
+            const assigned = roles.find(r => r.id === role);
+            if (!assigned) return { success: false, message: 'Role not found.' };
+            if (!canAssignRole(currentRole, assigned)) return { success: false, message: `You cannot assign the ${assigned.name} role.` };
+            if (user.encryptedClassKeys && !newPassword && keyClassesOf(role).join() !== keyClassesOf(user.role).join()) {
+                return { success: false, message: `The ${assigned.name} role holds different encryption keys. Set a new password for the user to change it.` };
+            }
+        }
         if (users.some(u => u.id !== userId && u.username.toLowerCase() === newUsername.toLowerCase())) {
             return { success: false, message: 'Username taken.' };
         }
+        if (newPassword) {
+            const passwordError = await checkPassword(newPassword, passwordPolicy);
+            if (passwordError) return { success: false, message: passwordError };
+        }
         if (newEmail) {
             if (users.some(u => u.id !== userId && u.email?.toLowerCase() === newEmail.toLowerCase())) {
                 return { success: false, message: 'Email already in use in this workspace.' };
@@ -550,7 +892,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             }
         }
 
-        let updatedUser = { ...user, username: newUsername, email: newEmail };
+        let updatedUser = { ...user, username: newUsername, email: newEmail, role };
         let recoveryKey: string | undefined;
 
         if (newPassword) {
@@ -559,15 +901,19 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
              if (currentDEK) {
                  try {
                      const salt = generateSalt();
-                     const kek = await deriveKeyFromPassword(newPassword, salt);
+                     const kek = await deriveKeyWithKdf(newPassword, salt, CURRENT_KDF);
                      const encryptedDEK = await wrapKey(currentDEK, kek);
                      
                      // If we are changing the current user's password, update these fields
                      updatedUser.salt = salt;
+                     updatedUser.kdf = CURRENT_KDF;
                      updatedUser.encryptedDEK = encryptedDEK;
+                     if (user.encryptedClassKeys) {
+                         updatedUser.encryptedClassKeys = await wrapClassKeys(db.getKeySet(), keyClassesOf(role), kek);
+                     }
 
                      if (currentUser?.id === userId) {
-                         recoveryKey = await exportKey(currentDEK);
+                         recoveryKey = await exportRecoveryKey(updatedUser, db.getKeySet());
                      }
                  } catch (e) {
                      console.error("updateUser crypto failed", e);
@@ -584,19 +930,29 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         newUsers[userIndex] = updatedUser;
         setUsers(newUsers);
         await setInDB(`ims-${currentWorkspace.id}-users`, newUsers);
+        if (currentUser && role !== user.role) {
+            recordAuditEvent(currentWorkspace.id, currentUser, 'permissionChange', `${newUsername}: ${getUserRole(roles, user).name} role changed to ${getUserRole(roles, updatedUser).name}`);
+        }
         
         if (currentUser?.id === userId) setCurrentUser(updatedUser);
 
         return { success: true, recoveryKey };
-    }, [users, currentWorkspace, currentUser]);
+    }, [users, currentWorkspace, currentUser, currentRole, roles, can, keyClassesOf, passwordPolicy]);
 
     const deleteUser = useCallback((userId: string) => {
-        if (!currentWorkspace) return { success: false, message: 'No active workspace.' };
+        if (!currentWorkspace || !currentRole) return { success: false, message: 'No active workspace.' };
         if (userId === currentUser?.id) return { success: false, message: 'Cannot delete self.' };
+        if (!can('manageUsers')) return permissionDenied('manageUsers');
+        const user = users.find(u => u.id === userId);
+        if (user && !canAssignRole(currentRole, getUserRole(roles, user))) {
+            return { success: false, message: `You cannot delete users with the ${getUserRole(roles, user).name} role.` };
+        }
         
         const newUsers = users.filter(u => u.id !== userId);
         setUsers(newUsers);
         setInDB(`ims-${currentWorkspace.id}-users`, newUsers);
+        removePinUnlock(currentWorkspace.id, userId).then(loadPinUserIds);
+        if (user && currentUser) recordAuditEvent(currentWorkspace.id, currentUser, 'permissionChange', `Deleted user ${user.username} (${getUserRole(roles, user).name})`);
         
         // Record deletion
         db.deletedRecords.add({
@@ -607,13 +963,70 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         });
         
         return { success: true };
-    }, [users, currentWorkspace, currentUser]);
+    }, [users, currentWorkspace, currentUser, currentRole, roles, can, loadPinUserIds]);
+
+    // Admin only: a role editor could otherwise grant themselves anything
+    const saveRoles = useCallback(async (updatedRoles: Role[]): Promise<{ success: boolean, message?: string }> => {
+        if (!currentWorkspace || currentRole?.id !== UserRole.Admin) return { success: false, message: 'Only Administrators can edit roles.' };
+        const stored = updatedRoles.filter(role => role.id !== UserRole.Admin).map(role => ({ ...role, name: role.name.trim() }));
+        const names = stored.map(role => role.name.toLowerCase());
+        if (names.some(name => !name || name === 'admin')) return { success: false, message: 'Every role needs a name other than Admin.' };
+        if (new Set(names).size !== names.length) return { success: false, message: 'Role names must be unique.' };
+        if (!stored.some(role => role.id === UserRole.Cashier)) return { success: false, message: 'The Cashier role cannot be removed.' };
+        const orphaned = users.find(u => u.role !== UserRole.Admin && !stored.some(role => role.id === u.role));
+        if (orphaned) return { success: false, message: `${orphaned.username} still has the ${getUserRole(roles, orphaned).name} role. Assign them another role first.` };
+        // Like reassigning a user: the keys wrapped for them must match what their role may read
+        const [rekeyed] = findUsersWithChangedKeys(roles, stored, users);
+        if (rekeyed) {
+            return { success: false, message: `${rekeyed.username} has the ${getUserRole(roles, rekeyed).name} role, and seeing costs changes the encryption keys of its users. Give them another role with a new password first.` };
+        }
+
+        const id = `${currentWorkspace.id}:roles`;
+        try {
+            await db.transaction('rw', db.settings, async () => {
+                const existing = await db.settings.get(id);
+                await db.settings.put({ ...existing, id, key: 'roles', workspaceId: currentWorkspace.id, value: stored, sync_status: 'pending', updated_at: new Date().toISOString() });
+            });
+            const changes = describeRoleChanges(roles, stored);
+            if (currentUser && changes.length > 0) recordAuditEvent(currentWorkspace.id, currentUser, 'permissionChange', changes.join('. '));
+            return { success: true };
+        } catch (e) {
+            console.error("saveRoles failed", e);
+            return { success: false, message: 'Failed to save roles.' };
+        }
+    }, [users, currentWorkspace, currentUser, currentRole, roles]);
+
+    // Admin only, like the roles: a weaker policy lowers the bar for every account
+    const savePasswordPolicy = useCallback(async (policy: PasswordPolicy): Promise<{ success: boolean, message?: string }> => {
+        if (!currentWorkspace || currentRole?.id !== UserRole.Admin) return { success: false, message: 'Only Administrators can change the password policy.' };
+        if (!Number.isInteger(policy.minLength) || policy.minLength < MIN_PASSWORD_LENGTH || policy.minLength > 128) {
+            return { success: false, message: `Minimum length must be a whole number from ${MIN_PASSWORD_LENGTH} to 128.` };
+        }
+
+        const id = `${currentWorkspace.id}:passwordPolicy`;
+        const value: PasswordPolicy = { minLength: policy.minLength, rejectCommon: policy.rejectCommon };
+        try {
+            await db.transaction('rw', db.settings, async () => {
+                const existing = await db.settings.get(id);
+                await db.settings.put({ ...existing, id, key: 'passwordPolicy', workspaceId: currentWorkspace.id, value, sync_status: 'pending', updated_at: new Date().toISOString() });
+            });
+            if (currentUser) {
+                recordAuditEvent(currentWorkspace.id, currentUser, 'permissionChange', `Password policy: at least ${value.minLength} characters, common passwords ${value.rejectCommon ? 'refused' : 'allowed'}`);
+            }
+            return { success: true };
+        } catch (e) {
+            console.error("savePasswordPolicy failed", e);
+            return { success: false, message: 'Failed to save the password policy.' };
+        }
+    }, [currentWorkspace, currentUser, currentRole]);
 
     const recoverAccount = useCallback(async (username: string, recoveryKeyBase64: string, newPassword: string): Promise<{ success: boolean, message?: string }> => {
         if (!currentWorkspace) return { success: false, message: 'No active session.' };
         
         const user = users.find(u => u.username === username);
         if (!user) return { success: false, message: 'User not found.' };
+        const passwordError = await checkPassword(newPassword, passwordPolicy);
+        if (passwordError) return { success: false, message: passwordError };
 
         // VALIDATE RECOVERY KEY CHECK VALUE
         if (user.keyCheckValue) {
@@ -624,12 +1037,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
 
         try {
-            const dek = await importKey(recoveryKeyBase64);
+            const keys = await importKeySet(recoveryKeyBase64);
+            const dek = keys.general!;
             const salt = generateSalt();
-            const kek = await deriveKeyFromPassword(newPassword, salt);
+            const kek = await deriveKeyWithKdf(newPassword, salt, CURRENT_KDF);
             const encryptedDEK = await wrapKey(dek, kek);
+            const encryptedClassKeys = user.encryptedClassKeys ? await wrapClassKeys(keys, keyClassesOf(user.role), kek) : undefined;
 
-            const updatedUser = { ...user, salt, encryptedDEK };
+            const updatedUser = { ...user, salt, kdf: CURRENT_KDF, encryptedDEK, encryptedClassKeys };
             const newUsers = users.map(u => u.id === user.id ? updatedUser : u);
             
             setUsers(newUsers);
@@ -637,7 +1052,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             
             // If recovering self, update session and encryption key in db instance
             if (currentUser?.id === user.id) {
-                db.setEncryptionKey(dek);
+                db.setEncryptionKey(dek, encryptedClassKeys ? keys : legacyKeySet(dek));
                 setCurrentUser(updatedUser);
                 setEncryptionRevision(prev => prev + 1); // Triggers app-wide re-render to fetch fresh decrypted data
             }
@@ -646,7 +1061,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         } catch (e) {
             return { success: false, message: 'Invalid key format.' };
         }
-    }, [users, currentWorkspace, currentUser]);
+    }, [users, currentWorkspace, currentUser, keyClassesOf, passwordPolicy]);
 
     const resetPassword = useCallback(async (email: string, recoveryKey: string, newPass: string) => {
         // 1. Find User by Email globally (across all workspaces)
@@ -678,6 +1093,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
 
         const user = foundUser;
+        const passwordError = await checkPassword(newPass, await getPasswordPolicy(foundWorkspace.id));
+        if (passwordError) return { success: false, message: passwordError };
         
         // 3. VALIDATE RECOVERY KEY CHECK VALUE
         if (user.keyCheckValue) {
@@ -691,15 +1108,16 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         
         // 4. Crypto Magic: Unwrap/Rewrap using the recovery key (which IS the DEK in base64)
         try {
-            // Import the raw DEK from recovery key string
-            const dek = await importKey(recoveryKey);
+            // Import the raw DEK (and any class keys) from recovery key string
+            const keys = await importKeySet(recoveryKey);
             
             // Generate new credentials
             const salt = generateSalt();
-            const kek = await deriveKeyFromPassword(newPass, salt);
-            const encryptedDEK = await wrapKey(dek, kek); // Re-wrap DEK with new KEK (derived from newPass)
+            const kek = await deriveKeyWithKdf(newPass, salt, CURRENT_KDF);
+            const encryptedDEK = await wrapKey(keys.general!, kek); // Re-wrap DEK with new KEK (derived from newPass)
+            const encryptedClassKeys = user.encryptedClassKeys ? await wrapClassKeys(keys, getRoleKeyClasses(ADMIN_ROLE), kek) : undefined;
 
-            const updatedUser = { ...user, salt, encryptedDEK };
+            const updatedUser = { ...user, salt, kdf: CURRENT_KDF, encryptedDEK, encryptedClassKeys };
             
             foundUsersArray[foundUserIndex] = updatedUser;
             await setInDB(usersKey, foundUsersArray);
@@ -714,9 +1132,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const getDecryptedKey = useCallback(async (password: string): Promise<string | null> => {
         if (!currentUser || !currentUser.encryptedDEK || !currentUser.salt) return null;
         try {
-            const kek = await deriveKeyFromPassword(password, currentUser.salt);
-            const dek = await unwrapKey(currentUser.encryptedDEK, kek);
-            return await exportKey(dek);
+            const kek = await deriveKeyWithKdf(password, currentUser.salt, currentUser.kdf);
+            return await exportRecoveryKey(currentUser, await unlockUserKeys(currentUser, kek));
         } catch (e) {
             return null;
         }
@@ -730,7 +1147,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         if (!currentUser.salt || !currentUser.encryptedDEK) return false;
 
         try {
-            const kek = await deriveKeyFromPassword(password, currentUser.salt);
+            const kek = await deriveKeyWithKdf(password, currentUser.salt, currentUser.kdf);
             // Attempt to unwrap. If password is wrong, this fails.
             await unwrapKey(currentUser.encryptedDEK, kek);
             return true;
@@ -739,6 +1156,112 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
     }, [currentUser]);
 
+    const canDecrypt = useCallback((keyClass: KeyClass) => db.canDecrypt(keyClass), [currentUser, encryptionRevision]);
+
+    const getPendingKeyRotation = useCallback(async () => {
+        if (!currentWorkspace) return undefined;
+        return getKeyRotationState(currentWorkspace.id);
+    }, [currentWorkspace]);
+
+    const rotateEncryptionKey = useCallback(async (password: string, onProgress?: (progress: KeyRotationProgress) => void) => {
+        if (!currentWorkspace || !currentUser) return { success: false, message: 'No active session.' };
+        if (currentUser.role !== UserRole.Admin || currentUser.id === 'guest') return { success: false, message: 'Only Administrators can rotate the encryption key.' };
+        if (!currentUser.salt || !currentUser.encryptedDEK) return { success: false, message: 'Account has no encryption key.' };
+
+        // 1. Unlock the key currently protecting the data. Users are only re-wrapped at the very end,
+        // so this is still the old key when resuming an interrupted rotation.
+        let oldKeys: KeySet;
+        try {
+            const kek = await deriveKeyWithKdf(password, currentUser.salt, currentUser.kdf);
+            oldKeys = await unlockUserKeys(currentUser, kek);
+        } catch (e) {
+            return { success: false, message: 'Invalid password.' };
+        }
+
+        // 2. Start a new rotation or pick up the pending one
+        let state = await getKeyRotationState(currentWorkspace.id);
+        let newKeys: KeySet;
+        try {
+            if (state) {
+                if (state.startedByUserId !== currentUser.id) {
+                    const starter = users.find(u => u.id === state!.startedByUserId);
+                    return { success: false, message: `A key rotation started by ${starter?.username || 'another administrator'} is pending. Only they can resume it.` };
+                }
+                newKeys = await unlockKeyRotation(state, password);
+            } else {
+                ({ state, newKeys } = await beginKeyRotation(currentWorkspace.id, currentUser.id, password));
+            }
+        } catch (e) {
+            console.error("Key rotation could not be started", e);
+            return { success: false, message: 'Could not unlock the pending key rotation.' };
+        }
+
+        // 3. Re-encrypt. New writes from this session already use the new key; reads fall back to the old one.
+        db.setEncryptionKey(newKeys.general!, newKeys);
+        db.setPreviousKeys(oldKeys);
+        try {
+            state = await reencryptWorkspaceData(state, oldKeys, newKeys, onProgress);
+        } catch (e) {
+            console.error("Key rotation interrupted", e);
+            return { success: false, message: 'Re-encryption was interrupted. Enter your password again to resume.' };
+        }
+
+        // 4. Re-wrap the new key for every user. Other users' passwords are unknown, so they get a
+        // temporary password which the administrator hands over (and they change after signing in).
+        try {
+            const usersKey = `ims-${currentWorkspace.id}-users`;
+            const wsUsers = await getFromDB<User[]>(usersKey) || [];
+            const keyCheckValue = await computeKeyCheckValue(newKeys.general!);
+            const temporaryPasswords: { username: string, password: string }[] = [];
+
+            const rewrapped: User[] = [];
+            for (const user of wsUsers) {
+                if (user.id === 'guest') { rewrapped.push(user); continue; }
+                let userPassword = password;
+                if (user.id !== currentUser.id) {
+                    userPassword = generateNanoID(10);
+                    temporaryPasswords.push({ username: user.username, password: userPassword });
+                }
+                const salt = generateSalt();
+                const kek = await deriveKeyWithKdf(userPassword, salt, CURRENT_KDF);
+                rewrapped.push({
+                    ...user,
+                    salt,
+                    kdf: CURRENT_KDF,
+                    encryptedDEK: await wrapKey(newKeys.general!, kek),
+                    encryptedClassKeys: await wrapClassKeys(newKeys, keyClassesOf(user.role), kek),
+                    keyCheckValue
+                });
+            }
+
+            // Swap the users and finish the rotation atomically. PINs cached the old keys, so they are dropped.
+            await db.transaction('rw', db.keyval, async () => {
+                await db.keyval.put({ key: usersKey, value: rewrapped });
+                await db.keyval.delete(keyRotationStateKey(currentWorkspace.id));
+                await db.keyval.delete(pinUnlocksKey(currentWorkspace.id));
+            });
+
+            const updatedSelf = rewrapped.find(u => u.id === currentUser.id)!;
+            db.setEncryptionKey(newKeys.general!, newKeys);
+            await persistSession(updatedSelf, currentWorkspace, newKeys);
+            setUsers(rewrapped);
+            setCurrentUser(updatedSelf);
+            setPinUserIds([]);
+            setEncryptionRevision(prev => prev + 1);
+            tabCoordinator.broadcast({ type: 'keys-changed', workspaceId: currentWorkspace.id });
+
+            return {
+                success: true,
+                recoveryKey: await exportKeySet(newKeys),
+                temporaryPasswords,
+                unreadableFields: state.unreadable
+            };
+        } catch (e) {
+            console.error("Key rotation failed while re-wrapping user keys", e);
+            return { success: false, message: 'Failed to update user keys. Enter your password again to resume.' };
+        }
+    }, [users, currentWorkspace, currentUser, sessionPersistence, keyClassesOf]);
+
     // Deprecated, maintained for backward compatibility within file
     const updateStoreCode = useCallback(async (newCode: string): Promise<{ success: boolean, message?: string }> => {
         return updateBusinessDetails(currentWorkspace?.name || '', newCode);
@@ -768,10 +1291,13 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const value = {
         users, currentUser, currentWorkspace,
         login, loginByEmail, registerBusiness, logout, enterGuestMode,
+        pinUserIds, getPinLogins, loginWithPin, switchUser, setPin, removePin,
+        isLocked, lock, unlock, verifyApprover,
+        roles, rolesLoaded, currentRole, can, saveRoles, passwordPolicy, savePasswordPolicy,
         addUser, updateUser, deleteUser, recoverAccount, resetPassword, getDecryptedKey,
-        verifyUserPassword,
+        verifyUserPassword, rotateEncryptionKey, getPendingKeyRotation,
         updateStoreCode, updateBusinessDetails,
-        encryptionRevision,
+        encryptionRevision, canDecrypt,
         sessionPersistence, setSessionPersistence
     };
 
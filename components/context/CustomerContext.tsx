@@ -5,6 +5,8 @@ import { Customer } from '../../types';
 import { INITIAL_CUSTOMERS } from '../../constants';
 import { generateUUIDv7, generateUniqueNanoID } from '../../utils/idGenerator';
 import { db } from '../../utils/db';
+import { permissionDenied } from '../../utils/permissions';
+import { useAuth } from './AuthContext';
 
 interface CustomerContextType {
     customers: Customer[];
@@ -24,7 +26,8 @@ export const useCustomers = () => {
 };
 
 export const CustomerProvider: React.FC<{ children: ReactNode; workspaceId: string }> = ({ children, workspaceId }) => {
-    
+    const { can } = useAuth();
+
     // Filter customers by workspaceId
     const customers = useLiveQuery(() => db.customers.where('workspaceId').equals(workspaceId).toArray(), [workspaceId]) || [];
 
@@ -41,6 +44,7 @@ export const CustomerProvider: React.FC<{ children: ReactNode; workspaceId: stri
     }, [workspaceId]);
 
     const addCustomer = useCallback(async (customerData: Omit<Customer, 'id' | 'dateAdded' | 'workspaceId'>) => {
+        if (!can('manageCustomers')) return permissionDenied('manageCustomers');
         if (customers.some(c => c.name.toLowerCase() === customerData.name.toLowerCase() && c.phone === customerData.phone)) {
             return { success: false, message: 'A customer with this name and phone number already exists.' };
         }
@@ -64,9 +68,10 @@ export const CustomerProvider: React.FC<{ children: ReactNode; workspaceId: stri
             console.error("Add Customer Failed:", error);
             return { success: false, message: "Failed to add customer." };
         }
-    }, [customers, workspaceId]);
+    }, [customers, workspaceId, can]);
 
     const updateCustomer = useCallback(async (id: string, customerData: Partial<Omit<Customer, 'id' | 'dateAdded' | 'workspaceId'>>) => {
+        if (!can('manageCustomers')) return permissionDenied('manageCustomers');
         if (!id) return { success: false, message: "Invalid ID" };
         
         try {
@@ -87,9 +92,10 @@ export const CustomerProvider: React.FC<{ children: ReactNode; workspaceId: stri
             console.error("Update Customer Failed:", error);
             return { success: false, message: "Failed to update customer in database." };
         }
-    }, []);
+    }, [can]);
 
     const deleteCustomer = useCallback((id: string) => {
+        if (!can('manageCustomers')) return permissionDenied('manageCustomers');
         (db as any).transaction('rw', db.customers, db.deletedRecords, async () => {
             await db.customers.delete(id);
             await db.deletedRecords.add({
@@ -100,7 +106,7 @@ export const CustomerProvider: React.FC<{ children: ReactNode; workspaceId: stri
             });
         });
         return { success: true };
-    }, []);
+    }, [can]);
 
     const getCustomerById = useCallback((id: string) => {
         return customers.find(c => c.id === id);
@@ -1,26 +1,33 @@
-import React, { createContext, useContext, ReactNode, useCallback, useEffect } from 'react';
+import React, { createContext, useContext, ReactNode, useCallback, useEffect, useMemo } from 'react';
 import { useLiveQuery } from "dexie-react-hooks";
 import { Product, InventoryAdjustment, PriceHistoryEntry, User, Category, ProductVariant, NotificationType, CartItem } from '../../types';
 import { INITIAL_PRODUCTS, DEFAULT_CATEGORIES, INITIAL_SUPPLIERS } from '../../constants';
 import { useAuth } from './AuthContext';
 import { useUIState } from './UIStateContext';
+import { useSettings } from './SettingsContext';
 import { db } from '../../utils/db';
+import { resolveAdjustmentSource } from '../../utils/migrations';
 import { generateUUIDv7 } from '../../utils/idGenerator';
+import { InventoryService, StockMovementRef, calculateTotalStock } from '../../services/InventoryService';
+import { useIsLeaderTab } from '../../hooks/useTabCoordination';
+import { PermissionError, permissionDenied } from '../../utils/permissions';
+import { recordAuditEvent } from '../../utils/audit';
+
+export type { StockMovementRef };
 
 interface ProductContextType {
     products: Product[];
     categories: Category[];
     inventoryAdjustments: InventoryAdjustment[];
-    addProduct: (product: Omit<Product, 'id' | 'stock' | 'priceHistory' | 'workspaceId'>) => void;
-    updateProduct: (updatedProduct: Product) => void;
+    addProduct: (product: Omit<Product, 'id' | 'stock' | 'priceHistory' | 'workspaceId'>) => Promise<{ success: boolean; message?: string }>;
+    updateProduct: (updatedProduct: Product) => Promise<{ success: boolean; message?: string }>;
     deleteProduct: (productId: string, force?: boolean) => Promise<{ success: boolean; message?: string }>;
     addCategory: (categoryData: Omit<Category, 'id' | 'workspaceId'>) => { success: boolean; message?: string };
     updateCategory: (categoryId: string, categoryData: Omit<Category, 'id' | 'workspaceId'>) => { success: boolean; message?: string };
     deleteCategory: (categoryId: string) => { success: boolean; message?: string };
     deleteVariant: (productId: string, variantId: string, force?: boolean) => Promise<{ success: boolean; message: string }>;
     receiveStock: (productId: string, quantity: number, variantId?: string) => void;
-    adjustStock: (productId: string, newStockLevel: number, reason: string, variantId?: string) => void;
-    removeStockHistoryByReason: (reasonPrefix: string) => void;
+    adjustStockBy: (productId: string, quantity: number, reason: string, variantId?: string, source?: StockMovementRef) => void;
     importProducts: (newProducts: Omit<Product, 'id' | 'workspaceId'>[]) => Promise<{ success: boolean; message: string }>;
     factoryReset: (adminUser: User) => void;
     bulkDeleteProducts: (productIds: string[]) => Promise<{ success: boolean; message: string }>;
@@ -37,14 +44,17 @@ export const useProducts = () => {
 };
 
 export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: string }> = ({ children, workspaceId }) => {
-    const { currentUser } = useAuth();
+    const { currentUser, can } = useAuth();
     const { addNotification } = useUIState();
+    const { formatCurrency } = useSettings();
     
     // Reactive Data from Dexie, filtered by workspaceId
     const products = useLiveQuery(() => db.products.where('workspaceId').equals(workspaceId).toArray(), [workspaceId]) || [];
     const categories = useLiveQuery(() => db.categories.where('workspaceId').equals(workspaceId).toArray(), [workspaceId]) || [];
     const inventoryAdjustments = useLiveQuery(() => db.inventoryAdjustments.where('workspaceId').equals(workspaceId).toArray(), [workspaceId]) || [];
 
+    const inventoryService = useMemo(() => new InventoryService(db, workspaceId), [workspaceId]);
+
     // Seeding logic
     useEffect(() => {
         const seedData = async () => {
@@ -85,36 +95,43 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
                     sync_status: 'pending' as const
                 }));
 
-                await db.products.bulkAdd(newProducts);
+                await inventoryService.createProducts(newProducts, 'Opening stock');
                 await db.categories.bulkAdd(newCategories);
                 await db.suppliers.bulkAdd(newSuppliers);
             }
         };
         seedData();
     }, [workspaceId]);
-    
-    const addStockHistory = useCallback(async (productId: string, quantity: number, reason: string, variantId?: string) => {
-        const newAdjustment: InventoryAdjustment = {
-            id: `adj_${generateUUIDv7()}`,
-            productId,
-            variantId,
-            quantity,
-            reason,
-            date: new Date().toISOString(),
-            sync_status: 'pending',
-            workspaceId
+
+    // Back-fills run in the leader tab only, so two tabs never book the same entries
+    const isLeaderTab = useIsLeaderTab();
+
+    // Back-fill sourceType/sourceId on legacy adjustments whose reason was encrypted during the schema upgrade
+    useEffect(() => {
+        const backfillAdjustmentSources = async () => {
+            if (!workspaceId || !db.encryptionKey || !isLeaderTab) return;
+            const legacy = await db.inventoryAdjustments.where('workspaceId').equals(workspaceId).filter(adj => !adj.sourceType).toArray();
+            if (legacy.length === 0) return;
+
+            const updatedAt = new Date().toISOString();
+            const updated: InventoryAdjustment[] = [];
+            for (const adj of legacy) {
+                if (typeof adj.reason !== 'string') continue;
+                updated.push({ ...adj, ...(await resolveAdjustmentSource(adj.reason, db.sales, db.purchaseOrders)), sync_status: 'pending', updated_at: updatedAt });
+            }
+            await db.inventoryAdjustments.bulkPut(updated);
         };
-        await db.inventoryAdjustments.add(newAdjustment);
-    }, [workspaceId]);
+        backfillAdjustmentSources().catch(e => console.error("Failed to back-fill adjustment sources", e));
+    }, [workspaceId, isLeaderTab]);
 
-    const calculateTotalStock = (product: Product): number => {
-        if (product.variants && product.variants.length > 0) {
-            return product.variants.reduce((sum, v) => sum + v.stock, 0);
-        }
-        return product.stock;
-    };
+    // Book the stock movements recorded by sessions without the financial key
+    useEffect(() => {
+        if (!isLeaderTab) return;
+        inventoryService.backfillPendingStockEntries().catch(e => console.error("Failed to book pending stock movements", e));
+    }, [inventoryService, isLeaderTab]);
     
-    const addProduct = async (productData: Omit<Product, 'id' | 'stock' | 'priceHistory' | 'workspaceId'>) => {
+    const addProduct = async (productData: Omit<Product, 'id' | 'stock' | 'priceHistory' | 'workspaceId'>): Promise<{ success: boolean; message?: string }> => {
+        if (!can('editProducts')) return permissionDenied('editProducts');
         const newProduct: Product = {
             ...productData,
             id: `prod_${generateUUIDv7()}`,
@@ -127,16 +144,41 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
         if (newProduct.variants) {
              newProduct.variants = newProduct.variants.map(v => ({...v, priceHistory: v.priceHistory || []}));
         }
-        await db.products.add(newProduct);
+        await inventoryService.createProducts([newProduct], 'Initial stock');
+        return { success: true };
+    };
+
+    // Product, or product and variant options, as the audit log names them
+    const getStockItemName = (product: Product | undefined, variantId?: string) => {
+        const variant = variantId ? product?.variants.find(v => v.id === variantId) : undefined;
+        const name = product?.name || 'Unknown product';
+        return variant ? `${name} (${Object.values(variant.options).join(' / ')})` : name;
     };
 
-    const updateProduct = async (updatedProductData: Product) => {
+    const updateProduct = async (updatedProductData: Product): Promise<{ success: boolean; message?: string }> => {
+        if (!can('editProducts')) return permissionDenied('editProducts');
         const oldProduct = await db.products.get(updatedProductData.id);
-        if (!oldProduct || !currentUser) return;
-        if (oldProduct.workspaceId !== workspaceId) return; // Security check
+        if (!oldProduct || !currentUser) return { success: false, message: 'Product not found.' };
+        if (oldProduct.workspaceId !== workspaceId) return { success: false, message: 'Access denied.' };
+
+        const pricesChanged = oldProduct.retailPrice !== updatedProductData.retailPrice || oldProduct.costPrice !== updatedProductData.costPrice ||
+            (updatedProductData.variants || []).some(v => {
+                const old = oldProduct.variants.find(o => o.id === v.id);
+                return !!old && (old.retailPrice !== v.retailPrice || old.costPrice !== v.costPrice);
+            });
+        if (pricesChanged && !can('editPrices')) return permissionDenied('editPrices');
         
-        const updatedProduct = { ...updatedProductData, sync_status: 'pending' as const, updated_at: new Date().toISOString() };
-        updatedProduct.stock = calculateTotalStock(updatedProduct);
+        // Stock only changes through movements: saved variants keep their balance, new ones start at 0
+        // and get the stock entered for them as an opening movement once saved
+        const newVariantStock = (updatedProductData.variants || [])
+            .filter(v => !oldProduct.variants.some(old => old.id === v.id) && v.stock)
+            .map(v => ({ variantId: v.id, quantity: v.stock }));
+        const updatedProduct = {
+            ...updatedProductData,
+            variants: updatedProductData.variants || [],
+            sync_status: 'pending' as const,
+            updated_at: new Date().toISOString()
+        };
 
         // Handle Base Product Price History
         const priceHistory: PriceHistoryEntry[] = [...(updatedProduct.priceHistory || [])];
@@ -197,10 +239,39 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
             });
         }
 
-        await db.products.put(updatedProduct);
+        // A sale or pull may have moved stock since the product was read: the balances are taken from the
+        // stored product in the same transaction as the write, so those movements are not overwritten
+        const saved = await db.transaction('rw', db.products, async () => {
+            const current = await db.products.get(updatedProduct.id);
+            if (!current) return false;
+            updatedProduct.variants = updatedProduct.variants.map(v => ({ ...v, stock: current.variants.find(c => c.id === v.id)?.stock ?? 0 }));
+            updatedProduct.stock = current.stock;
+            updatedProduct.stock = calculateTotalStock(updatedProduct);
+            await db.products.put(updatedProduct);
+            return true;
+        });
+        if (!saved) return { success: false, message: 'Product not found.' };
+        // Cost prices are only visible with viewCost, so the log says that they changed, not to what
+        const describePriceChange = (name: string, before: { retailPrice: number; costPrice: number }, after: { retailPrice: number; costPrice: number }) => [
+            ...(before.retailPrice !== after.retailPrice ? [`${name}: retail price ${formatCurrency(before.retailPrice)} to ${formatCurrency(after.retailPrice)}`] : []),
+            ...(before.costPrice !== after.costPrice ? [`${name}: cost price changed`] : []),
+        ];
+        const priceChanges = [
+            ...describePriceChange(updatedProduct.name, oldProduct, updatedProduct),
+            ...updatedProduct.variants.flatMap(variant => {
+                const oldVariant = oldProduct.variants.find(v => v.id === variant.id);
+                return oldVariant ? describePriceChange(getStockItemName(updatedProduct, variant.id), oldVariant, variant) : [];
+            }),
+        ];
+        if (priceChanges.length > 0) recordAuditEvent(workspaceId, currentUser, 'priceChange', priceChanges.join('. '));
+        for (const { variantId, quantity } of newVariantStock) {
+            await inventoryService.adjustStockBy(updatedProduct.id, quantity, 'Initial stock', variantId, { type: 'opening' });
+        }
+        return { success: true };
     };
 
     const deleteProduct = async (productId: string, force: boolean = false): Promise<{ success: boolean; message?: string }> => {
+        if (!can('editProducts')) return permissionDenied('editProducts');
         if (!productId || typeof productId !== 'string') return { success: false, message: 'Invalid Product ID.' };
 
         const product = await db.products.get(productId);
@@ -289,6 +360,7 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
     };
 
     const deleteVariant = async (productId: string, variantId: string, force: boolean = false): Promise<{ success: boolean; message: string }> => {
+        if (!can('editProducts')) return permissionDenied('editProducts');
         if (!productId || !variantId || typeof productId !== 'string' || typeof variantId !== 'string') return { success: false, message: 'Invalid ID.' };
 
         const product = await db.products.get(productId);
@@ -370,6 +442,7 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
     };
 
     const bulkDeleteProducts = async (productIds: string[]): Promise<{ success: boolean; message: string }> => {
+        if (!can('editProducts')) return permissionDenied('editProducts');
         const productsToDelete = products.filter(p => productIds.includes(p.id));
         const deletable = productsToDelete.filter(p => p.stock <= 0);
         const failedCount = productsToDelete.length - deletable.length;
@@ -434,9 +507,11 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
     };
 
     const bulkUpdateProductCategories = (productIds: string[], categoryIds: string[], action: 'add' | 'replace' | 'remove') => {
+        if (!can('editProducts')) return permissionDenied('editProducts');
         const productsToUpdate = products.filter(p => productIds.includes(p.id));
         
-        const updatedProducts = productsToUpdate.map(p => {
+        const updatedAt = new Date().toISOString();
+        const updates = productsToUpdate.map(p => {
             let newCategoryIds = [...p.categoryIds];
             const targetIds = new Set(categoryIds);
             
@@ -449,14 +524,20 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
             } else if (action === 'remove') {
                 newCategoryIds = newCategoryIds.filter(id => !targetIds.has(id));
             }
-            return { ...p, categoryIds: newCategoryIds, sync_status: 'pending' as const, updated_at: new Date().toISOString() };
+            return { id: p.id, categoryIds: newCategoryIds };
         });
 
-        db.products.bulkPut(updatedProducts);
+        // Only the categories are written: the stored stock balances belong to the stock ledger
+        db.transaction('rw', db.products, async () => {
+            for (const { id, categoryIds } of updates) {
+                await db.products.update(id, { categoryIds, sync_status: 'pending', updated_at: updatedAt });
+            }
+        });
         return { success: true, message: 'Categories updated.' };
     };
 
     const addCategory = (categoryData: Omit<Category, 'id' | 'workspaceId'>): { success: boolean, message?: string } => {
+        if (!can('editProducts')) return permissionDenied('editProducts');
         if (categories.some(c => c.name.toLowerCase() === categoryData.name.toLowerCase() && c.parentId === categoryData.parentId)) {
             return { success: false, message: 'A category with this name already exists at this level.' };
         }
@@ -471,6 +552,7 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
     };
 
     const updateCategory = (categoryId: string, categoryData: Omit<Category, 'id' | 'workspaceId'>): { success: boolean, message?: string } => {
+        if (!can('editProducts')) return permissionDenied('editProducts');
         const existing = categories.find(c => c.id === categoryId);
         if (!existing) return { success: false, message: "Category not found" };
         
@@ -485,6 +567,7 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
     };
 
     const deleteCategory = (categoryId: string): { success: boolean, message?: string } => {
+        if (!can('editProducts')) return permissionDenied('editProducts');
         // Update children
         const childrenToReparent = categories.filter(c => c.parentId === categoryId);
         childrenToReparent.forEach(c => {
@@ -510,80 +593,21 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
         return { success: true };
     };
     
-    const receiveStock = async (productId: string, quantity: number, variantId?: string) => {
+    const receiveStock = (productId: string, quantity: number, variantId?: string) => {
+        if (!can('adjustStock')) throw new PermissionError('adjustStock');
         if (!productId) return;
-        const product = await db.products.get(productId);
-        if (!product || product.workspaceId !== workspaceId) return;
-        const newStockLevel = (variantId ? product.variants.find(v => v.id === variantId)?.stock : product.stock) || 0;
-        adjustStock(productId, newStockLevel + quantity, 'Stock Received', variantId);
+        inventoryService.receiveStock(productId, quantity, variantId);
+        if (currentUser) recordAuditEvent(workspaceId, currentUser, 'stockAdjustment', `${getStockItemName(products.find(p => p.id === productId), variantId)}: received ${quantity}`);
     };
 
-    const adjustStock = async (productId: string, newStockLevel: number, reason: string, variantId?: string) => {
-        if (!productId) return;
-        const product = await db.products.get(productId);
-        if (!product || product.workspaceId !== workspaceId) return;
-
-        let change = 0;
-        let updatedProduct = { ...product, sync_status: 'pending' as const, updated_at: new Date().toISOString() };
-        let productNameForNotify = product.name;
-        let oldStock = 0;
-
-        if (variantId) {
-            const variant = updatedProduct.variants.find(v => v.id === variantId);
-            if (variant) {
-                oldStock = variant.stock;
-                change = newStockLevel - variant.stock;
-                updatedProduct.variants = updatedProduct.variants.map(v => 
-                    v.id === variantId ? { ...v, stock: newStockLevel } : v
-                );
-                productNameForNotify = `${product.name} (${Object.values(variant.options).join(' / ')})`;
-            }
-        } else {
-            oldStock = updatedProduct.stock;
-            change = newStockLevel - updatedProduct.stock;
-            updatedProduct.stock = newStockLevel;
-        }
-        
-        updatedProduct.stock = calculateTotalStock(updatedProduct);
-        
-        if (change !== 0) {
-                await addStockHistory(productId, change, reason, variantId);
-                await db.products.put(updatedProduct);
-                
-                // Notifications
-                if (oldStock > 0 && newStockLevel <= 0) {
-                    addNotification(`Out of Stock: ${productNameForNotify}`, NotificationType.STOCK, variantId || productId);
-                } else if (oldStock > product.lowStockThreshold && newStockLevel <= product.lowStockThreshold) {
-                    addNotification(`Low Stock Warning: ${productNameForNotify} (${newStockLevel} left)`, NotificationType.STOCK, variantId || productId);
-                }
-        }
+    const adjustStockBy = (productId: string, quantity: number, reason: string, variantId?: string, source?: StockMovementRef) => {
+        if (!can('adjustStock')) throw new PermissionError('adjustStock');
+        inventoryService.adjustStockBy(productId, quantity, reason, variantId, source);
+        if (currentUser) recordAuditEvent(workspaceId, currentUser, 'stockAdjustment', `${getStockItemName(products.find(p => p.id === productId), variantId)}: ${quantity > 0 ? '+' : ''}${quantity} (${reason})`);
     };
 
-    const removeStockHistoryByReason = useCallback(async (reasonPrefix: string) => {
-        // Deleting adjustment records - filtered by workspace to be safe
-        const adjustments = await db.inventoryAdjustments
-            .where('workspaceId').equals(workspaceId)
-            .filter(adj => adj.reason.startsWith(reasonPrefix))
-            .toArray();
-            
-        const ids = adjustments.map(a => a.id);
-        
-        await (db as any).transaction('rw', db.inventoryAdjustments, db.deletedRecords, async () => {
-            if (ids.length > 0) {
-                await Promise.all(ids.map((id: string) => db.inventoryAdjustments.delete(id)));
-                const records = ids.map(id => ({
-                    id: String(id),
-                    table: 'inventoryAdjustments',
-                    deletedAt: new Date().toISOString(),
-                    sync_status: 'pending'
-                }));
-                // Use bulkPut to avoid errors on duplicates
-                await db.deletedRecords.bulkPut(records);
-            }
-        });
-    }, [workspaceId]);
-
     const importProducts = async (newProducts: Omit<Product, 'id' | 'workspaceId'>[]): Promise<{ success: boolean; message: string }> => {
+        if (!can('editProducts')) return permissionDenied('editProducts');
         const existingSkus = new Set(products.map(p => p.sku));
         const productsToAdd: Product[] = [];
         let skippedCount = 0;
@@ -608,7 +632,9 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
         });
 
         if (productsToAdd.length > 0) {
-            await db.products.bulkAdd(productsToAdd);
+            // Record opening stock of imported products against a single import batch
+            const importBatchId = `imp_${generateUUIDv7()}`;
+            await inventoryService.createProducts(productsToAdd, 'Imported from CSV', { type: 'import', id: importBatchId });
         }
         
         let message = '';
@@ -625,7 +651,9 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
         return { success: true, message: message.trim() };
     };
 
+    // Part of processing a return whose products were deleted since the sale
     const restoreDeletedProducts = async (items: CartItem[]): Promise<{ success: boolean; count: number }> => {
+        if (!can('processReturns')) return { success: false, count: 0 };
         const restoredIds = new Set<string>();
 
         // We wrap everything in a transaction to ensure category creation + cleanups + inserts happen atomically
@@ -702,18 +730,23 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
 
     const factoryReset = async (adminUser: User) => {
         // Clear all tables for this workspace
-        await (db as any).transaction('rw', db.products, db.categories, db.inventoryAdjustments, db.notifications, db.deletedRecords, db.suppliers, async () => {
+        await (db as any).transaction('rw', db.products, db.categories, db.inventoryAdjustments, db.notifications, db.deletedRecords, db.suppliers, db.quarantinedRecords, db.journalEntries, db.syncConflicts, async () => {
             await db.products.where('workspaceId').equals(workspaceId).delete();
             await db.categories.where('workspaceId').equals(workspaceId).delete();
             await db.inventoryAdjustments.where('workspaceId').equals(workspaceId).delete();
             await db.suppliers.where('workspaceId').equals(workspaceId).delete();
+            await db.quarantinedRecords.where('workspaceId').equals(workspaceId).delete();
+            await db.journalEntries.where('workspaceId').equals(workspaceId).delete();
+            await db.syncConflicts.where('workspaceId').equals(workspaceId).delete();
             // Reseed if Guest
             if (workspaceId === 'guest_workspace') {
-                await db.products.bulkAdd(INITIAL_PRODUCTS.map(p => ({...p, sync_status: 'pending', workspaceId})));
                 await db.categories.bulkAdd(DEFAULT_CATEGORIES.map(c => ({...c, sync_status: 'pending', workspaceId})));
                 await db.suppliers.bulkAdd(INITIAL_SUPPLIERS.map(s => ({...s, sync_status: 'pending', workspaceId})));
             }
         });
+        if (workspaceId === 'guest_workspace') {
+            await inventoryService.createProducts(INITIAL_PRODUCTS.map(p => ({...p, sync_status: 'pending' as const, workspaceId})), 'Opening stock');
+        }
     };
     
     const value = {
@@ -728,8 +761,7 @@ export const ProductProvider: React.FC<{ children: ReactNode; workspaceId: strin
         deleteCategory,
         deleteVariant,
         receiveStock,
-        adjustStock,
-        removeStockHistoryByReason,
+        adjustStockBy,
         importProducts,
         factoryReset,
         bulkDeleteProducts,
@@ -1,13 +1,23 @@
 
 import React, { createContext, useContext, ReactNode, useMemo, useEffect } from 'react';
 import { useLiveQuery } from "dexie-react-hooks";
-import { Sale, PurchaseOrder, POItem, Product, CartItem, Shift, PaymentType, HeldOrder, NotificationType } from '../../types';
-import { useProducts } from './ProductContext';
+import { Sale, PurchaseOrder, POItem, Product, Shift, HeldOrder, NotificationType, StockMovementSource, Money, Approval, OverrideAction } from '../../types';
 import { useUIState } from './UIStateContext';
 import { useAuth } from './AuthContext';
 import { useSettings } from './SettingsContext';
 import { generateUUIDv7, generateUniqueNanoID } from '../../utils/idGenerator';
-import { db } from '../../utils/db';
+import { db, getFieldKeyClass } from '../../utils/db';
+import { convertPendingMoneyFields } from '../../utils/migrations';
+import { MONEY_FIELDS, percentOf } from '../../utils/money';
+import { reverseEntriesForSources } from '../../utils/ledger';
+import { carryForwardMovements } from '../../utils/stockLedger';
+import { InventoryService, POReceiptItem } from '../../services/InventoryService';
+import { SalesService } from '../../services/SalesService';
+import { ShiftService } from '../../services/ShiftService';
+import { useIsLeaderTab } from '../../hooks/useTabCoordination';
+import { PermissionError, permissionDenied } from '../../utils/permissions';
+import { getDiscountableSubtotal, getDiscountLimit, getRequiredOverrides, isApprovalValid } from '../../utils/overrides';
+import { recordAuditEvent } from '../../utils/audit';
 
 interface SalesContextType {
     sales: Sale[];
@@ -16,17 +26,19 @@ interface SalesContextType {
     shifts: Shift[];
     processSale: (saleData: Omit<Sale, 'id' | 'date' | 'workspaceId'>) => Promise<Sale>;
     deleteSale: (saleId: string) => Promise<{ success: boolean; message?: string }>;
-    clearSales: (options?: { statuses?: (Sale['status'])[] }) => void;
+    clearSales: (options?: { statuses?: (Sale['status'])[] }) => Promise<void>;
     pruneData: (target: 'sales' | 'purchaseOrders', options: { days: number; statuses?: Sale['status'][] }) => Promise<{ success: boolean; message: string }>;
     addPurchaseOrder: (poData: Omit<PurchaseOrder, 'id' | 'workspaceId'>) => PurchaseOrder;
-    receivePOItems: (poId: string, items: { productId: string; variantId?: string; quantity: number }[]) => void;
+    receivePOItems: (poId: string, items: POReceiptItem[]) => void;
     deletePurchaseOrder: (poId: string) => Promise<{ success: boolean; message?: string }>;
     factoryReset: () => void;
     currentShift: Shift | null;
-    openShift: (float: number) => void;
-    closeShift: (actualCash: number, notes: string) => Promise<{ success: boolean; message?: string }>;
+    openShift: (float: Money) => Promise<void>;
+    closeShift: (actualCash: Money, notes: string) => Promise<{ success: boolean; message?: string }>;
     holdOrder: (order: Omit<HeldOrder, 'id' | 'date' | 'workspaceId'>) => void;
     deleteHeldOrder: (orderId: string) => void;
+    discardHeldOrder: (orderId: string, approval: Approval) => Promise<{ success: boolean; message?: string }>;
+    openDrawer: (approval: Approval) => Promise<{ success: boolean; message?: string }>;
 }
 
 const SalesContext = createContext<SalesContextType | null>(null);
@@ -38,8 +50,8 @@ export const useSales = () => {
 };
 
 export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string }> = ({ children, workspaceId }) => {
-    const { currentUser } = useAuth();
-    const { includeTaxInProfit } = useSettings();
+    const { currentUser, users, roles, can } = useAuth();
+    const { includeTaxInProfit, formatCurrency, formatDateTime, isDiscountEnabled, discountRate, discountThreshold, discountApprovalRate } = useSettings();
     
     // Reactive Data from Dexie, filtered by workspaceId
     const sales = useLiveQuery(async () => {
@@ -59,11 +71,18 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
 
     const heldOrders = useLiveQuery(() => db.heldOrders.where('workspaceId').equals(workspaceId).toArray(), [workspaceId]) || [];
     
-    const { products, adjustStock } = useProducts();
     const { addNotification, notifications } = useUIState();
 
+    const inventoryService = useMemo(() => new InventoryService(db, workspaceId), [workspaceId]);
+    const shiftService = useMemo(() => new ShiftService(db, workspaceId), [workspaceId]);
+    const salesService = useMemo(() => new SalesService(db, workspaceId, inventoryService, shiftService), [workspaceId, inventoryService, shiftService]);
+
+    // Background jobs run in the leader tab only, so other tabs do not repeat them
+    const isLeaderTab = useIsLeaderTab();
+
     // Check for overdue Purchase Orders
     useEffect(() => {
+        if (!isLeaderTab) return;
         const checkOverduePOs = () => {
             const now = new Date();
             purchaseOrders.forEach(po => {
@@ -88,168 +107,52 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
             });
         };
         checkOverduePOs();
-    }, [purchaseOrders, addNotification, notifications]);
-
-    const currentShift = useMemo(() => shifts.find(s => s.status === 'Open') || null, [shifts]);
-
-    // Helper to find adjustment IDs related to sales
-    const findRelatedAdjustmentIds = async (workspaceId: string, salePublicIds: string[]) => {
-        // Fetch all adjustments for workspace (filtered by workspaceId index)
-        const allAdjustments = await db.inventoryAdjustments.where('workspaceId').equals(workspaceId).toArray();
-        
-        // Filter in memory for reasons matching the sales
-        // This is necessary because 'reason' is not indexed and might be encrypted
-        return allAdjustments.filter(adj => {
-            if (!adj.reason) return false;
-            return salePublicIds.some(pubId => adj.reason.includes(`Sale #${pubId}`));
-        }).map(adj => adj.id);
-    };
-
-    const processSale = async (saleData: Omit<Sale, 'id' | 'date' | 'workspaceId'>): Promise<Sale> => {
-        let finalType: 'Sale' | 'Return' = saleData.total >= 0 ? 'Sale' : 'Return';
-        const isReturn = finalType === 'Return';
-        
-        const internalId = generateUUIDv7();
-        const prefix = isReturn ? 'RET-' : 'TRX-';
-        const publicId = generateUniqueNanoID<Sale>(sales, (s, id) => s.publicId === id, 8, prefix);
-
-        let originalSalePublicId: string | undefined = undefined;
-        if (saleData.originalSaleId) {
-            const originalSale = sales.find(s => s.id === saleData.originalSaleId);
-            originalSalePublicId = originalSale?.publicId;
-        }
-
-        // Recalculate profit based on current setting to ensure consistency at moment of sale creation
-        const safeTotal = parseFloat(String(saleData.total)) || 0;
-        const safeTax = parseFloat(String(saleData.tax)) || 0;
-        const safeCogs = parseFloat(String(saleData.cogs)) || 0;
-        
-        // Profit = (Total - Tax) - COGS if includeTaxInProfit is false
-        // Profit = Total - COGS if includeTaxInProfit is true
-        const revenue = safeTotal - (includeTaxInProfit ? 0 : safeTax);
-        const profit = revenue - safeCogs;
-
-        const newSale: Sale = {
-            ...saleData,
-            profit, // Override the profit from POS calculation with the context-aware one
-            type: finalType,
-            id: internalId,
-            publicId: publicId,
-            originalSalePublicId: originalSalePublicId,
-            date: new Date().toISOString(),
-            status: 'Completed',
-            sync_status: 'pending',
-            workspaceId
-        };
+    }, [purchaseOrders, addNotification, notifications, isLeaderTab]);
 
-        // Process each item for stock adjustment
-        for (const item of newSale.items) {
-            let product = products.find(p => p.id === item.productId);
-            // Fallback: If not found in live list (e.g. recently restored), fetch from DB
-            if (!product) {
-                product = await db.products.get(item.productId);
-            }
-
-            if (product) {
-                // If variant ID exists, check if it is still valid on the product.
-                // If product was restored as Simple (no variants), variantExists will be false.
-                const variantExists = item.variantId && product.variants?.some(v => v.id === item.variantId);
-                const targetVariantId = variantExists ? item.variantId : undefined;
-                
-                const currentStock = targetVariantId 
-                    ? product.variants.find(v => v.id === targetVariantId)?.stock 
-                    : product.stock;
-                
-                if (typeof currentStock !== 'undefined') {
-                    // Adjust Stock. Note: If it's a return, item.quantity is negative, so current - (-qty) = current + qty.
-                    adjustStock(item.productId, currentStock - item.quantity, `Sale #${newSale.publicId}`, targetVariantId);
-                }
+    // Fill in cost and profit of sales recorded by sessions without the financial key.
+    // Encrypted amounts still in major units are converted first, so costs are resolved in minor units.
+    useEffect(() => {
+        if (!isLeaderTab) return;
+        const convertPendingAmounts = async () => {
+            if (!workspaceId) return;
+            for (const tableName of Object.keys(MONEY_FIELDS)) {
+                await convertPendingMoneyFields(db.table(tableName), workspaceId, path => db.canDecrypt(getFieldKeyClass(tableName, path)));
             }
-        }
+        };
 
-        // Process updates to ORIGINAL sales if any items are returns linked to history
-        const salesToUpdate = new Map<string, CartItem[]>();
+        convertPendingAmounts()
+            .catch(e => console.error("Failed to convert pending amounts to minor units", e))
+            .then(() => salesService.backfillPendingCosts({ includeTaxInProfit }))
+            .catch(e => console.error("Failed to back-fill pending sale costs", e));
+    }, [salesService, includeTaxInProfit, isLeaderTab]);
 
-        newSale.items.forEach(item => {
-            if (item.quantity < 0 && item.originalSaleId) {
-                const existing = salesToUpdate.get(item.originalSaleId) || [];
-                existing.push(item);
-                salesToUpdate.set(item.originalSaleId, existing);
-            }
-        });
+    const currentShift = useMemo(() => shifts.find(s => s.status === 'Open') || null, [shifts]);
 
-        if (salesToUpdate.size > 0) {
-            for (const [rawSaleId, returnItems] of Array.from(salesToUpdate.entries())) {
-                const saleId = String(rawSaleId);
-                try {
-                    const sale = await db.sales.get(saleId);
-                    if (sale && sale.workspaceId === workspaceId) {
-                        const updatedItems = sale.items.map(origItem => {
-                            const matchingReturns = returnItems.filter(ri => 
-                                ri.productId === origItem.productId && 
-                                ri.variantId === origItem.variantId
-                            );
-                            if (matchingReturns.length > 0) {
-                                const quantityReturnedNow = matchingReturns.reduce((sum, ri) => sum + Math.abs(ri.quantity), 0);
-                                return { ...origItem, returnedQuantity: (origItem.returnedQuantity || 0) + quantityReturnedNow };
-                            }
-                            return origItem;
-                        });
-                        const allReturned = updatedItems.every(item => (item.returnedQuantity || 0) >= item.quantity);
-                        
-                        await db.sales.put({ 
-                            ...sale,
-                            items: updatedItems, 
-                            status: allReturned ? 'Refunded' : 'Partially Refunded',
-                            sync_status: 'pending',
-                            updated_at: new Date().toISOString()
-                        });
-                    }
-                } catch (e) {
-                    console.error(`Failed to update original sale history for ${saleId}:`, e);
-                }
-            }
-        }
+    // Helper to find adjustment IDs created by the given sales/returns/POs (via the sourceId index)
+    const findRelatedAdjustmentIds = async (sourceTypes: StockMovementSource[], sourceIds: string[]): Promise<string[]> => {
+        if (sourceIds.length === 0) return [];
+        const adjustments = await db.inventoryAdjustments
+            .where('sourceId').anyOf(sourceIds)
+            .filter(adj => adj.workspaceId === workspaceId && !!adj.sourceType && sourceTypes.includes(adj.sourceType))
+            .toArray();
+        return adjustments.map(adj => adj.id);
+    };
 
-        // Add sale to DB
-        await db.sales.add(newSale);
-
-        // Update shift
-        if (currentShift) {
-            const cashPayment = newSale.payments.find(p => p.type === PaymentType.Cash);
-            if (cashPayment && cashPayment.amount !== 0) {
-                const shiftId = currentShift.id;
-                const cashAmount = cashPayment.amount;
-
-                await (db as any).transaction('rw', db.shifts, async () => {
-                    const s = await db.shifts.get(shiftId);
-                    if (s) {
-                        const safeFloat = (val: any) => {
-                            const n = parseFloat(val);
-                            return isNaN(n) ? 0 : n;
-                        };
-
-                        const currentSales = safeFloat(s.cashSales);
-                        const currentRefunds = safeFloat(s.cashRefunds);
-                        
-                        // Use put with full object instead of update to ensure encryption middleware works correctly
-                        const updatedShift = {
-                            ...s,
-                            cashSales: cashAmount > 0 ? currentSales + cashAmount : currentSales,
-                            cashRefunds: cashAmount < 0 ? currentRefunds + Math.abs(cashAmount) : currentRefunds,
-                            sync_status: 'pending',
-                            updated_at: new Date().toISOString()
-                        };
-                        await db.shifts.put(updatedShift);
-                    }
-                }).catch((e: any) => console.error("Failed to update shift", e));
-            }
-        }
+    const isApproved = (approval: Approval | undefined, action: OverrideAction) => isApprovalValid(approval, action, users, roles);
 
-        return newSale;
+    const processSale = async (saleData: Omit<Sale, 'id' | 'date' | 'workspaceId'>): Promise<Sale> => {
+        // An exchange nets to a 'Sale' but still takes items back
+        if (saleData.items.some(item => item.quantity < 0) && !can('processReturns')) throw new PermissionError('processReturns');
+        const discountable = getDiscountableSubtotal(saleData.items);
+        const automaticDiscount = isDiscountEnabled && discountable >= discountThreshold ? percentOf(discountable, discountRate) : 0;
+        const unapproved = getRequiredOverrides(saleData, getDiscountLimit(saleData.items, discountApprovalRate, automaticDiscount))
+            .filter(action => !saleData.approvals?.some(approval => isApproved(approval, action)));
+        if (unapproved.length > 0) throw new PermissionError('approveOverrides');
+        return salesService.processSale(saleData, { includeTaxInProfit });
     };
 
     const deleteSale = async (saleId: string) => {
+        if (!can('deleteSales')) return permissionDenied('deleteSales');
         if (!saleId || typeof saleId !== 'string') return { success: false, message: "Invalid Sale ID." };
         
         const saleToDelete = await db.sales.get(saleId);
@@ -259,20 +162,20 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
         // Find associated returns
         const associatedReturns = await db.sales.where('originalSaleId').equals(saleId).toArray();
         
-        // Collect all IDs and Public IDs involved
+        // Collect all IDs involved
         const allSales = [saleToDelete, ...associatedReturns];
         const allSaleIds = allSales.map(s => s.id);
-        const allPublicIds = allSales.map(s => s.publicId || s.id);
 
         // Find related Inventory Adjustments (Stock History)
-        const adjIdsToDelete = await findRelatedAdjustmentIds(workspaceId, allPublicIds);
+        const adjIdsToDelete = await findRelatedAdjustmentIds(['sale', 'return'], allSaleIds);
         
         try {
-            await (db as any).transaction('rw', db.sales, db.deletedRecords, db.inventoryAdjustments, async () => {
+            await (db as any).transaction('rw', db.sales, db.deletedRecords, db.inventoryAdjustments, db.journalEntries, async () => {
                 const deletions: { id: string; table: string; deletedAt: string; sync_status: string }[] = [];
 
-                // 1. Delete Sales
+                // 1. Delete Sales, reversing what they booked in the ledger
                 await Promise.all(allSaleIds.map((id: string) => db.sales.delete(id)));
+                await reverseEntriesForSources(db, allSaleIds, `sale ${saleToDelete.publicId || saleToDelete.id} deleted`);
                 deletions.push(...allSaleIds.map(id => ({
                     id: String(id), 
                     table: 'sales', 
@@ -280,8 +183,9 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
                     sync_status: 'pending'
                 })));
                 
-                // 2. Delete Stock History (Adjustments)
+                // 2. Delete Stock History (Adjustments), keeping their net effect on stock
                 if (adjIdsToDelete.length > 0) {
+                    await carryForwardMovements(db, adjIdsToDelete, `Carried forward from deleted sale ${saleToDelete.publicId || saleToDelete.id}`);
                     await Promise.all(adjIdsToDelete.map(id => db.inventoryAdjustments.delete(id)));
                     // Record adjustment deletions too so they are removed from server
                     const adjDeletions = adjIdsToDelete.map(id => ({
@@ -299,14 +203,21 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
                 }
             });
 
+            if (currentUser) {
+                const returns = associatedReturns.length > 0 ? ` and its ${associatedReturns.length} return${associatedReturns.length === 1 ? '' : 's'}` : '';
+                recordAuditEvent(workspaceId, currentUser, 'saleDeletion', `${saleToDelete.type} ${saleToDelete.publicId || saleToDelete.id} of ${formatDateTime(saleToDelete.date)} (${formatCurrency(saleToDelete.total)})${returns}`);
+            }
             return { success: true, message: `Sale ${saleToDelete.publicId || saleToDelete.id} and associated records deleted.` };
         } catch (error) {
+            // The sale booked amounts this session cannot read, so it cannot reverse them
+            if (error instanceof PermissionError) return { success: false, message: error.message };
             console.error("Delete sale failed:", error);
             return { success: false, message: "Failed to delete sale." };
         }
     };
 
     const clearSales = async (options?: { statuses?: (Sale['status'])[] }) => {
+        if (!can('pruneData')) throw new PermissionError('pruneData');
         let salesToClear = sales;
         
         if (!options?.statuses) {
@@ -323,14 +234,15 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
         
         const allSales = [...salesToClear, ...relatedReturns];
         const allIds = allSales.map(s => s.id);
-        const allPublicIds = allSales.map(s => s.publicId || s.id);
 
-        const adjIdsToDelete = await findRelatedAdjustmentIds(workspaceId, allPublicIds);
+        const adjIdsToDelete = await findRelatedAdjustmentIds(['sale', 'return'], allIds);
         
-        await (db as any).transaction('rw', db.sales, db.deletedRecords, db.inventoryAdjustments, async () => {
+        await (db as any).transaction('rw', db.sales, db.deletedRecords, db.inventoryAdjustments, db.journalEntries, async () => {
             await Promise.all(allIds.map(id => db.sales.delete(id)));
+            await reverseEntriesForSources(db, allIds, 'sales cleared');
             
             if (adjIdsToDelete.length > 0) {
+                await carryForwardMovements(db, adjIdsToDelete, 'Carried forward from cleared sales');
                 await Promise.all(adjIdsToDelete.map(id => db.inventoryAdjustments.delete(id)));
             }
 
@@ -357,6 +269,7 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
     };
     
     const addPurchaseOrder = (poData: Omit<PurchaseOrder, 'id' | 'workspaceId'>): PurchaseOrder => {
+        if (!can('managePurchaseOrders')) throw new PermissionError('managePurchaseOrders');
         const internalId = generateUUIDv7();
         const publicId = generateUniqueNanoID<PurchaseOrder>(purchaseOrders, (p, id) => p.publicId === id, 6, 'PO-');
 
@@ -372,73 +285,47 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
         return newPO;
     };
     
-    const receivePOItems = (poId: string, items: { productId: string; variantId?: string; quantity: number }[]) => {
-        const po = purchaseOrders.find(p => p.id === poId);
-        if (!po) return;
-        const poRef = po.publicId || poId;
-
-        items.forEach(item => {
-            const product = products.find(p => p.id === item.productId);
-            if (product) {
-                const currentStock = item.variantId
-                    ? product.variants.find(v => v.id === item.variantId)?.stock
-                    : product.stock;
-                
-                if (typeof currentStock !== 'undefined') {
-                    adjustStock(item.productId, currentStock + item.quantity, `Received from PO #${poRef}`, item.variantId);
-                }
-            }
-        });
-
-        const updatedItems = po.items.map(item => {
-            const received = items.find(r => r.productId === item.productId && r.variantId === item.variantId);
-            if (received) {
-                return { ...item, quantityReceived: item.quantityReceived + received.quantity };
-            }
-            return item;
-        });
-        
-        const allReceived = updatedItems.every(item => item.quantityReceived >= item.quantityOrdered);
-        const newStatus = allReceived ? 'Received' : 'Partial';
-        if(newStatus !== po.status) {
-            addNotification(`PO #${po.publicId || po.id} is now ${newStatus}.`, NotificationType.PO, poId);
-        }
-        
-        // Use db.put to update the full object. This ensures that the encryption middleware
-        // sees a 'put' operation and correctly re-encrypts any sensitive fields in the 'items' array.
-        // 'db.update' would bypass encryption for nested arrays like 'items'.
-        const updatedPO = {
-            ...po,
-            items: updatedItems,
-            status: newStatus,
-            sync_status: 'pending' as const,
-            updated_at: new Date().toISOString()
-        };
-        db.purchaseOrders.put(updatedPO);
+    const receivePOItems = (poId: string, items: POReceiptItem[]) => {
+        if (!can('receivePurchaseOrders')) throw new PermissionError('receivePurchaseOrders');
+        inventoryService.receivePOItems(poId, items).catch(e => console.error("Failed to receive PO items", e));
     };
     
     const deletePurchaseOrder = async (poId: string) => {
+        if (!can('managePurchaseOrders')) return permissionDenied('managePurchaseOrders');
         const po = await db.purchaseOrders.get(poId);
         if(!po) return { success: false, message: 'Purchase Order not found.'};
         if (po.workspaceId !== workspaceId) return { success: false, message: 'Access denied.' };
+
+        const adjIdsToDelete = await findRelatedAdjustmentIds(['poReceipt'], [poId]);
         
-        await (db as any).transaction('rw', db.purchaseOrders, db.notifications, db.deletedRecords, async () => {
-            await db.notifications.where('relatedId').equals(poId).delete();
-            await db.purchaseOrders.delete(poId);
-            
-            // Use put to ensure robust upsert for sync records
-            await db.deletedRecords.put({
-                id: String(poId),
-                table: 'purchaseOrders',
-                deletedAt: new Date().toISOString(),
-                sync_status: 'pending'
+        try {
+            await (db as any).transaction('rw', db.purchaseOrders, db.notifications, db.inventoryAdjustments, db.deletedRecords, db.journalEntries, async () => {
+                await db.notifications.where('relatedId').equals(poId).delete();
+                await db.purchaseOrders.delete(poId);
+                if (adjIdsToDelete.length > 0) {
+                    await carryForwardMovements(db, adjIdsToDelete, `Carried forward from deleted PO #${po.publicId || po.id}`);
+                    await db.inventoryAdjustments.bulkDelete(adjIdsToDelete);
+                    // The receipts never happened, so neither did what they booked
+                    await reverseEntriesForSources(db, adjIdsToDelete, `PO #${po.publicId || po.id} deleted`);
+                }
+                
+                // Use bulkPut to ensure robust upsert for sync records
+                await db.deletedRecords.bulkPut([
+                    { id: String(poId), table: 'purchaseOrders', deletedAt: new Date().toISOString(), sync_status: 'pending' },
+                    ...adjIdsToDelete.map(id => ({ id: String(id), table: 'inventoryAdjustments', deletedAt: new Date().toISOString(), sync_status: 'pending' }))
+                ]);
             });
-        });
+        } catch (error) {
+            if (error instanceof PermissionError) return { success: false, message: error.message };
+            throw error;
+        }
         
         return { success: true, message: 'Purchase Order deleted.'};
     };
     
+    // Pruning only frees storage: the records happened, so their ledger entries are kept
     const pruneData = async (target: 'sales' | 'purchaseOrders', options: { days: number; statuses?: Sale['status'][] }): Promise<{ success: boolean; message: string }> => {
+        if (!can('pruneData')) return permissionDenied('pruneData');
         const cutoffDate = new Date();
         cutoffDate.setDate(cutoffDate.getDate() - options.days);
         
@@ -462,9 +349,8 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
             
             const allSales = [...salesToClear, ...relatedReturns];
             const allIds = allSales.map(s => s.id);
-            const allPublicIds = allSales.map(s => s.publicId || s.id);
 
-            const adjIdsToDelete = await findRelatedAdjustmentIds(workspaceId, allPublicIds);
+            const adjIdsToDelete = await findRelatedAdjustmentIds(['sale', 'return'], allIds);
             
             try {
                 await (db as any).transaction('rw', db.sales, db.deletedRecords, db.inventoryAdjustments, async () => {
@@ -479,6 +365,7 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
                     })));
                     
                     if (adjIdsToDelete.length > 0) {
+                        await carryForwardMovements(db, adjIdsToDelete, 'Carried forward from pruned sales');
                         await Promise.all(adjIdsToDelete.map(id => db.inventoryAdjustments.delete(id)));
                         deletions.push(...adjIdsToDelete.map(id => ({
                             id: String(id), 
@@ -501,13 +388,18 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
 
         if (target === 'purchaseOrders') {
             const toDeleteIds = purchaseOrders.filter(po => new Date(po.dateCreated) < cutoffDate).map(po => po.id);
+            const adjIdsToDelete = await findRelatedAdjustmentIds(['poReceipt'], toDeleteIds);
             
             try {
-                await (db as any).transaction('rw', db.purchaseOrders, db.notifications, db.deletedRecords, async () => {
+                await (db as any).transaction('rw', db.purchaseOrders, db.notifications, db.inventoryAdjustments, db.deletedRecords, async () => {
                     for(const id of toDeleteIds) {
                         await db.notifications.where('relatedId').equals(id).delete();
                     }
                     await Promise.all(toDeleteIds.map((id: string) => db.purchaseOrders.delete(id)));
+                    if (adjIdsToDelete.length > 0) {
+                        await carryForwardMovements(db, adjIdsToDelete, 'Carried forward from pruned purchase orders');
+                        await db.inventoryAdjustments.bulkDelete(adjIdsToDelete);
+                    }
                     
                     const deletions = toDeleteIds.map(id => ({
                         id: String(id), 
@@ -515,6 +407,12 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
                         deletedAt: new Date().toISOString(), 
                         sync_status: 'pending'
                     }));
+                    deletions.push(...adjIdsToDelete.map(id => ({
+                        id: String(id), 
+                        table: 'inventoryAdjustments', 
+                        deletedAt: new Date().toISOString(), 
+                        sync_status: 'pending'
+                    })));
                     await db.deletedRecords.bulkPut(deletions);
                 });
                 return { success: true, message: `Pruned ${toDeleteIds.length} purchase orders.`};
@@ -528,8 +426,9 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
     };
 
     const factoryReset = () => {
-        (db as any).transaction('rw', db.sales, db.purchaseOrders, db.shifts, db.heldOrders, db.notifications, db.deletedRecords, async () => {
+        (db as any).transaction('rw', db.sales, db.purchaseOrders, db.shifts, db.heldOrders, db.notifications, db.deletedRecords, db.journalEntries, async () => {
             await db.sales.where('workspaceId').equals(workspaceId).delete();
+            await db.journalEntries.where('workspaceId').equals(workspaceId).delete();
             await db.purchaseOrders.where('workspaceId').equals(workspaceId).delete();
             await db.shifts.where('workspaceId').equals(workspaceId).delete();
             await db.heldOrders.where('workspaceId').equals(workspaceId).delete();
@@ -537,64 +436,17 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
         });
     };
 
-    const openShift = (float: number) => {
+    const openShift = async (float: Money) => {
         if (currentShift) return;
-        const internalId = generateUUIDv7();
-        const publicId = generateUniqueNanoID<Shift>(shifts, (s, id) => s.publicId === id, 6, 'SHF-');
-        const newShift: Shift = {
-            id: internalId,
-            publicId: publicId,
-            openedByUserId: currentUser?.id || 'unknown',
-            openedByUserName: currentUser?.username || 'Unknown',
-            startTime: new Date().toISOString(),
-            startFloat: float,
-            status: 'Open',
-            cashSales: 0,
-            cashRefunds: 0,
-            sync_status: 'pending',
-            workspaceId
-        };
-        db.shifts.add(newShift);
-        addNotification(`Shift started by ${newShift.openedByUserName} with float ${float}`, NotificationType.USER);
+        const shift = await shiftService.openShift(float, currentUser);
+        if (shift) addNotification(`Shift started by ${shift.openedByUserName} with float ${formatCurrency(float)}`, NotificationType.USER);
     };
 
-    const closeShift = async (actualCash: number, notes: string): Promise<{ success: boolean; message?: string }> => {
+    const closeShift = async (actualCash: Money, notes: string): Promise<{ success: boolean; message?: string }> => {
         if (!currentShift) return { success: false, message: 'No active shift.' };
         
         try {
-            await (db as any).transaction('rw', db.shifts, async () => {
-                const s = await db.shifts.get(currentShift.id);
-                if (!s) throw new Error("Shift not found in DB");
-                
-                const safeFloat = (val: any) => {
-                    const n = parseFloat(val);
-                    return isNaN(n) ? 0 : n;
-                };
-
-                const safeStart = safeFloat(s.startFloat);
-                const safeSales = safeFloat(s.cashSales);
-                const safeRefunds = safeFloat(s.cashRefunds);
-                
-                const expectedCash = safeStart + safeSales - safeRefunds;
-                const difference = actualCash - expectedCash;
-
-                // Use put with full object instead of update to ensure encryption middleware works correctly
-                const updatedShift = {
-                    ...s,
-                    closedByUserId: currentUser?.id,
-                    closedByUserName: currentUser?.username,
-                    endTime: new Date().toISOString(),
-                    endFloat: expectedCash,
-                    actualCash,
-                    difference,
-                    notes,
-                    status: 'Closed',
-                    sync_status: 'pending',
-                    updated_at: new Date().toISOString()
-                };
-                await db.shifts.put(updatedShift);
-            });
-            
+            await shiftService.closeShift(actualCash, notes, currentUser);
             addNotification(`Shift closed by ${currentUser?.username}.`, NotificationType.USER);
             return { success: true };
         } catch (e) {
@@ -624,6 +476,22 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
         });
     };
 
+    // Deleting a held order from the list, as opposed to loading it into the cart, needs an approval
+    const discardHeldOrder = async (orderId: string, approval: Approval): Promise<{ success: boolean; message?: string }> => {
+        if (!isApproved(approval, 'deleteHeldOrder')) return permissionDenied('approveOverrides');
+        deleteHeldOrder(orderId);
+        await shiftService.recordOverrides([approval]);
+        return { success: true };
+    };
+
+    // The app drives no cash drawer, so opening one outside a sale is only recorded on the shift
+    const openDrawer = async (approval: Approval): Promise<{ success: boolean; message?: string }> => {
+        if (!isApproved(approval, 'openDrawer')) return permissionDenied('approveOverrides');
+        const shift = await shiftService.recordOverrides([approval]);
+        if (!shift) return { success: false, message: 'No active shift.' };
+        return { success: true };
+    };
+
     const value = {
         sales,
         purchaseOrders,
@@ -641,7 +509,9 @@ export const SalesProvider: React.FC<{ children: ReactNode; workspaceId: string
         openShift,
         closeShift,
         holdOrder,
-        deleteHeldOrder
+        deleteHeldOrder,
+        discardHeldOrder,
+        openDrawer
     };
 
     return <SalesContext.Provider value={value}>{children}</SalesContext.Provider>;
@@ -1,9 +1,14 @@
 
 import React, { createContext, useContext, ReactNode, useCallback, useMemo, useEffect } from 'react';
-import { CashierPermissions, Currency, PaginationConfig, PaginationTarget } from '../../types';
+import { Currency, Role, UserRole, Money, PaginationConfig, PaginationTarget, SyncProfile } from '../../types';
 import usePersistedState from '../../hooks/usePersistedState';
+import useWorkspaceSetting from '../../hooks/useWorkspaceSetting';
 import { DEFAULT_CURRENCIES } from '../../constants';
-import { syncService } from '../../services/SyncService';
+import { DEFAULT_SYNC_HISTORY_DAYS, syncService } from '../../services/SyncService';
+import { useIsLeaderTab } from '../../hooks/useTabCoordination';
+import { db } from '../../utils/db';
+import { getCurrencyExponent, toMajorUnits } from '../../utils/money';
+import { fromCashierPermissions } from '../../utils/permissions';
 
 interface SettingsContextType {
     workspaceId: string;
@@ -16,16 +21,15 @@ interface SettingsContextType {
     paginationConfig: PaginationConfig;
     setPaginationLimit: (target: PaginationTarget, limit: number) => void;
     currency: string;
-    setCurrency: (code: string) => void;
+    setCurrency: (code: string) => Promise<{ success: boolean, message?: string }>;
     currencies: Currency[];
     addCurrency: (currency: Currency) => { success: boolean, message?: string };
     updateCurrency: (code: string, data: Partial<Currency>) => { success: boolean, message?: string };
     deleteCurrency: (code: string) => { success: boolean, message?: string };
     currencyDisplay: 'symbol' | 'code';
     setCurrencyDisplay: (display: 'symbol' | 'code') => void;
-    formatCurrency: (amount: any) => string;
-    isIntegerCurrency: boolean;
-    setIsIntegerCurrency: (enabled: boolean) => void;
+    formatCurrency: (amount: Money | null | undefined) => string;
+    currencyExponent: number; // Decimal places of the active currency; stored Money is in its minor unit
     isTaxEnabled: boolean;
     setIsTaxEnabled: (enabled: boolean) => void;
     taxRate: number;
@@ -36,10 +40,10 @@ interface SettingsContextType {
     setIsDiscountEnabled: (enabled: boolean) => void;
     discountRate: number;
     setDiscountRate: (rate: number) => void;
-    discountThreshold: number;
-    setDiscountThreshold: (threshold: number) => void;
-    cashierPermissions: CashierPermissions;
-    setCashierPermissions: (permissions: CashierPermissions) => void;
+    discountThreshold: Money;
+    setDiscountThreshold: (threshold: Money) => void;
+    discountApprovalRate: number; // Custom discounts above this share of the sale need an approval
+    setDiscountApprovalRate: (rate: number) => void;
     restoreBackup: (data: any) => { success: boolean, message: string };
     storeAddress: string;
     setStoreAddress: (address: string) => void;
@@ -47,10 +51,20 @@ interface SettingsContextType {
     setStorePhone: (phone: string) => void;
     receiptFooter: string;
     setReceiptFooter: (footer: string) => void;
+    autoLockMinutes: number; // Idle minutes before the session locks; 0 never locks
+    setAutoLockMinutes: (minutes: number) => void;
     syncApiUrl: string;
     setSyncApiUrl: (url: string) => void;
     syncApiKey: string;
     setSyncApiKey: (key: string) => void;
+    syncEncryptPayloads: boolean;
+    setSyncEncryptPayloads: (enabled: boolean) => void;
+    syncProfile: SyncProfile;
+    setSyncProfile: (profile: SyncProfile) => void;
+    syncHistoryDays: number;
+    setSyncHistoryDays: (days: number) => void;
+    syncLive: boolean;
+    setSyncLive: (enabled: boolean) => void;
 }
 
 const SettingsContext = createContext<SettingsContextType | null>(null);
@@ -77,6 +91,7 @@ const DEFAULT_PAGINATION_CONFIG: PaginationConfig = {
     inventoryStockHistory: 10,
     inventoryPriceHistory: 10,
     shifts: 10,
+    auditLog: 20,
 };
 
 export const SettingsProvider: React.FC<{ children: ReactNode; workspaceId: string, workspaceName: string }> = ({ children, workspaceId, workspaceName }) => {
@@ -88,87 +103,101 @@ export const SettingsProvider: React.FC<{ children: ReactNode; workspaceId: stri
         return -new Date().getTimezoneOffset();
     }, []);
     
+    // Device preferences, kept on this device only
     const [theme, setTheme] = usePersistedState<'light' | 'dark' | 'system'>(`${ls_prefix}-theme`, 'system');
     const [timezoneOffsetMinutes, setTimezoneOffsetMinutes] = usePersistedState<number>(`${ls_prefix}-timezoneOffset`, detectedOffset);
     const [paginationConfig, setPaginationConfig] = usePersistedState<PaginationConfig>(`${ls_prefix}-paginationConfig`, DEFAULT_PAGINATION_CONFIG);
-    const [currencies, setCurrencies] = usePersistedState<Currency[]>(`${ls_prefix}-currencies`, DEFAULT_CURRENCIES);
-    const [currency, setCurrency] = usePersistedState<string>(`${ls_prefix}-currency`, 'USD');
-    const [currencyDisplay, setCurrencyDisplay] = usePersistedState<'symbol' | 'code'>(`${ls_prefix}-currencyDisplay`, 'symbol');
-    const [isIntegerCurrency, setIsIntegerCurrency] = usePersistedState<boolean>(`${ls_prefix}-isIntegerCurrency`, false);
-    const [isTaxEnabled, setIsTaxEnabled] = usePersistedState<boolean>(`${ls_prefix}-isTaxEnabled`, false);
-    const [taxRate, setTaxRate] = usePersistedState<number>(`${ls_prefix}-taxRate`, 0.08); // 8%
-    const [includeTaxInProfit, setIncludeTaxInProfit] = usePersistedState<boolean>(`${ls_prefix}-includeTaxInProfit`, false);
-    const [isDiscountEnabled, setIsDiscountEnabled] = usePersistedState<boolean>(`${ls_prefix}-isDiscountEnabled`, false);
-    const [discountRate, setDiscountRate] = usePersistedState<number>(`${ls_prefix}-discountRate`, 0.1); // 10%
-    const [discountThreshold, setDiscountThreshold] = usePersistedState<number>(`${ls_prefix}-discountThreshold`, 100);
-    const [cashierPermissions, setCashierPermissions] = usePersistedState<CashierPermissions>(`${ls_prefix}-cashierPermissions`, {
-        canProcessReturns: true,
-        canViewReports: true,
-        canViewAnalysis: false,
-        canEditOwnProfile: true,
-        canViewDashboard: false,
-        canViewInventory: false,
-        canEditBehaviorSettings: false,
-        canManageCustomers: false,
-    });
-    
-    const [storeAddress, setStoreAddress] = usePersistedState<string>(`${ls_prefix}-storeAddress`, '');
-    const [storePhone, setStorePhone] = usePersistedState<string>(`${ls_prefix}-storePhone`, '');
-    const [receiptFooter, setReceiptFooter] = usePersistedState<string>(`${ls_prefix}-receiptFooter`, 'Thank you for shopping with us!');
+
+    // Workspace settings, shared by every device through sync
+    const [currencies, setCurrencies, currenciesLoaded] = useWorkspaceSetting<Currency[]>(workspaceId, 'currencies', DEFAULT_CURRENCIES);
+    const [currency, setCurrencyCode, currencyLoaded] = useWorkspaceSetting<string>(workspaceId, 'currency', 'USD');
+    const [currencyDisplay, setCurrencyDisplay, currencyDisplayLoaded] = useWorkspaceSetting<'symbol' | 'code'>(workspaceId, 'currencyDisplay', 'symbol');
+    const [isTaxEnabled, setIsTaxEnabled, isTaxEnabledLoaded] = useWorkspaceSetting<boolean>(workspaceId, 'isTaxEnabled', false);
+    const [taxRate, setTaxRate, taxRateLoaded] = useWorkspaceSetting<number>(workspaceId, 'taxRate', 0.08); // 8%
+    const [includeTaxInProfit, setIncludeTaxInProfit, includeTaxInProfitLoaded] = useWorkspaceSetting<boolean>(workspaceId, 'includeTaxInProfit', false);
+    const [isDiscountEnabled, setIsDiscountEnabled, isDiscountEnabledLoaded] = useWorkspaceSetting<boolean>(workspaceId, 'isDiscountEnabled', false);
+    const [discountRate, setDiscountRate, discountRateLoaded] = useWorkspaceSetting<number>(workspaceId, 'discountRate', 0.1); // 10%
+    const [discountThreshold, setDiscountThreshold, discountThresholdLoaded] = useWorkspaceSetting<Money>(workspaceId, 'discountThreshold', 10000);
+    const [discountApprovalRate, setDiscountApprovalRate, discountApprovalRateLoaded] = useWorkspaceSetting<number>(workspaceId, 'discountApprovalRate', 0.1); // 10%
+    // Read and edited through AuthContext, which needs the roles for key wrapping; here for backups only
+    const [, setRoles] = useWorkspaceSetting<Role[] | null>(workspaceId, 'roles', null);
+
+    const [storeAddress, setStoreAddress, storeAddressLoaded] = useWorkspaceSetting<string>(workspaceId, 'storeAddress', '');
+    const [storePhone, setStorePhone, storePhoneLoaded] = useWorkspaceSetting<string>(workspaceId, 'storePhone', '');
+    const [receiptFooter, setReceiptFooter, receiptFooterLoaded] = useWorkspaceSetting<string>(workspaceId, 'receiptFooter', 'Thank you for shopping with us!');
+    const [autoLockMinutes, setAutoLockMinutes, autoLockMinutesLoaded] = useWorkspaceSetting<number>(workspaceId, 'autoLockMinutes', 0);
+    // The app is held back until these are read, so nothing prices, taxes or saves with the defaults
+    const settingsLoaded = currenciesLoaded && currencyLoaded && currencyDisplayLoaded && isTaxEnabledLoaded && taxRateLoaded
+        && includeTaxInProfitLoaded && isDiscountEnabledLoaded && discountRateLoaded && discountThresholdLoaded && discountApprovalRateLoaded
+        && storeAddressLoaded && storePhoneLoaded && receiptFooterLoaded && autoLockMinutesLoaded;
     
-    // Sync Settings
+    // Sync Settings (per device)
     const [syncApiUrl, setSyncApiUrl] = usePersistedState<string>(`${ls_prefix}-syncApiUrl`, '');
     const [syncApiKey, setSyncApiKey] = usePersistedState<string>(`${ls_prefix}-syncApiKey`, '');
+    const [syncEncryptPayloads, setSyncEncryptPayloads] = usePersistedState<boolean>(`${ls_prefix}-syncEncryptPayloads`, true);
+    const [syncProfile, setSyncProfile] = usePersistedState<SyncProfile>(`${ls_prefix}-syncProfile`, 'full');
+    const [syncHistoryDays, setSyncHistoryDays] = usePersistedState<number>(`${ls_prefix}-syncHistoryDays`, DEFAULT_SYNC_HISTORY_DAYS);
+    const [syncLive, setSyncLive] = usePersistedState<boolean>(`${ls_prefix}-syncLive`, false);
 
     // Configure sync service whenever settings change
     useEffect(() => {
-        syncService.configure(workspaceId, syncApiUrl, syncApiKey);
-    }, [workspaceId, syncApiUrl, syncApiKey]);
+        syncService.configure(workspaceId, syncApiUrl, syncApiKey, syncEncryptPayloads, syncProfile, syncHistoryDays);
+    }, [workspaceId, syncApiUrl, syncApiKey, syncEncryptPayloads, syncProfile, syncHistoryDays]);
 
-    // Auto-Sync Logic
+    // Auto-Sync Logic, in the leader tab only. Failed runs are retried by the service with backoff.
+    const isLeaderTab = useIsLeaderTab();
     useEffect(() => {
-        if (!syncApiUrl || !syncApiKey) return;
+        if (!syncApiUrl || !syncApiKey || !isLeaderTab) return;
 
         const handleOnline = () => {
             console.log("Network online - Triggering Sync");
-            syncService.sync();
+            syncService.sync('online');
         };
 
         window.addEventListener('online', handleOnline);
+        syncService.resumeRetry();
         
         // Periodic sync every 5 minutes if online
         const intervalId = setInterval(() => {
             if (navigator.onLine) {
-                syncService.sync();
+                syncService.sync('interval');
             }
         }, 5 * 60 * 1000);
 
         return () => {
             window.removeEventListener('online', handleOnline);
             clearInterval(intervalId);
+            syncService.cancelRetry();
         };
-    }, [syncApiUrl, syncApiKey]);
+    }, [workspaceId, syncApiUrl, syncApiKey, isLeaderTab]);
+
+    // Live stock updates, also in the leader tab only
+    useEffect(() => {
+        if (!syncApiUrl || !syncApiKey || !syncLive || !isLeaderTab) return;
+        syncService.startLive();
+        return () => syncService.stopLive();
+    }, [workspaceId, syncApiUrl, syncApiKey, syncLive, isLeaderTab]);
 
     const activeCurrency = useMemo(() => currencies.find(c => c.code === currency) || currencies[0] || { code: 'USD', symbol: '$', name: '' }, [currency, currencies]);
 
-    const formatCurrency = useCallback((amount: any) => {
-        const num = parseFloat(amount);
-        if (isNaN(num)) {
-             const displaySymbol = currencyDisplay === 'symbol' ? activeCurrency.symbol : activeCurrency.code;
-             return `${displaySymbol}${(0).toFixed(isIntegerCurrency ? 0 : 2)}`;
-        }
+    const currencyExponent = getCurrencyExponent(activeCurrency);
+
+    // Amounts are Money (minor units); shown in major units with the currency's decimal places
+    const formatCurrency = useCallback((amount: Money | null | undefined) => {
+        const minor = parseFloat(String(amount));
+        const num = isNaN(minor) ? 0 : toMajorUnits(minor, currencyExponent);
+        const displaySymbol = currencyDisplay === 'symbol' ? activeCurrency.symbol : activeCurrency.code;
 
         try {
-            const displaySymbol = currencyDisplay === 'symbol' ? activeCurrency.symbol : activeCurrency.code;
             const formatted = new Intl.NumberFormat(undefined, {
-                minimumFractionDigits: isIntegerCurrency ? 0 : 2,
-                maximumFractionDigits: isIntegerCurrency ? 0 : 2,
+                minimumFractionDigits: currencyExponent,
+                maximumFractionDigits: currencyExponent,
             }).format(num);
             return `${displaySymbol}${formatted}`;
         } catch (e) {
-            return `${activeCurrency.symbol}${num.toFixed(isIntegerCurrency ? 0 : 2)}`;
+            return `${activeCurrency.symbol}${num.toFixed(currencyExponent)}`;
         }
-    }, [activeCurrency, currencyDisplay, isIntegerCurrency]);
+    }, [activeCurrency, currencyDisplay, currencyExponent]);
     
     const formatDateTime = useCallback((dateInput: string | Date, options?: Intl.DateTimeFormatOptions) => {
         const date = typeof dateInput === 'string' ? new Date(dateInput) : dateInput;
@@ -194,6 +223,26 @@ export const SettingsProvider: React.FC<{ children: ReactNode; workspaceId: stri
         }
     }, [timezoneOffsetMinutes]);
 
+    // Stored amounts are minor units of the active currency, so its decimal places cannot change
+    // once the workspace has any: 1250 would turn from $12.50 into ¥1,250.
+    const hasStoredAmounts = async () => {
+        const [productCount, saleCount] = await Promise.all([
+            db.products.where('workspaceId').equals(workspaceId).count(),
+            db.sales.where('workspaceId').equals(workspaceId).count()
+        ]);
+        return productCount + saleCount > 0;
+    };
+
+    const setCurrency = async (code: string): Promise<{ success: boolean, message?: string }> => {
+        const next = currencies.find(c => c.code === code);
+        if (!next) return { success: false, message: 'Currency not found.' };
+        if (getCurrencyExponent(next) !== currencyExponent && await hasStoredAmounts()) {
+            return { success: false, message: `${next.code} uses ${getCurrencyExponent(next)} decimal places, but this workspace's amounts are stored with ${currencyExponent}. Switching would change every price.` };
+        }
+        setCurrencyCode(code);
+        return { success: true };
+    };
+
     const addCurrency = (c: Currency): { success: boolean, message?: string } => {
         if (currencies.some(curr => curr.code === c.code)) return { success: false, message: 'Currency code already exists.'};
         setCurrencies(prev => [...prev, c]);
@@ -201,6 +250,9 @@ export const SettingsProvider: React.FC<{ children: ReactNode; workspaceId: stri
     };
     
     const updateCurrency = (code: string, data: Partial<Currency>): { success: boolean, message?: string } => {
+        if (code === currency && data.exponent !== undefined && data.exponent !== currencyExponent) {
+            return { success: false, message: 'The decimal places of the active currency cannot be changed.' };
+        }
         setCurrencies(prev => prev.map(c => c.code === code ? {...c, ...data} : c));
         return { success: true };
     };
@@ -238,21 +290,32 @@ export const SettingsProvider: React.FC<{ children: ReactNode; workspaceId: stri
             }
 
             if (data.currencies) setCurrencies(data.currencies);
-            if (data.currency) setCurrency(data.currency);
+            if (data.currency) setCurrencyCode(data.currency);
             if (data.currencyDisplay) setCurrencyDisplay(data.currencyDisplay);
-            if (data.isIntegerCurrency !== undefined) setIsIntegerCurrency(data.isIntegerCurrency);
             if (data.isTaxEnabled !== undefined) setIsTaxEnabled(data.isTaxEnabled);
             if (data.taxRate) setTaxRate(data.taxRate);
             if (data.includeTaxInProfit !== undefined) setIncludeTaxInProfit(data.includeTaxInProfit);
             if (data.isDiscountEnabled !== undefined) setIsDiscountEnabled(data.isDiscountEnabled);
             if (data.discountRate) setDiscountRate(data.discountRate);
             if (data.discountThreshold) setDiscountThreshold(data.discountThreshold);
-            if (data.cashierPermissions) setCashierPermissions(data.cashierPermissions);
+            if (data.discountApprovalRate !== undefined) setDiscountApprovalRate(data.discountApprovalRate);
+            if (data.roles) {
+                setRoles(data.roles);
+            } else if (data.cashierPermissions) {
+                // Backups from before custom roles hold the Cashier toggles instead
+                const cashier: Role = { id: UserRole.Cashier, name: 'Cashier', permissions: fromCashierPermissions(data.cashierPermissions) };
+                setRoles(prev => [cashier, ...(prev || []).filter(role => role.id !== UserRole.Cashier)]);
+            }
             if (data.storeAddress) setStoreAddress(data.storeAddress);
             if (data.storePhone) setStorePhone(data.storePhone);
             if (data.receiptFooter) setReceiptFooter(data.receiptFooter);
+            if (data.autoLockMinutes !== undefined) setAutoLockMinutes(data.autoLockMinutes);
             if (data.syncApiUrl) setSyncApiUrl(data.syncApiUrl);
             if (data.syncApiKey) setSyncApiKey(data.syncApiKey);
+            if (data.syncEncryptPayloads !== undefined) setSyncEncryptPayloads(data.syncEncryptPayloads);
+            if (data.syncProfile) setSyncProfile(data.syncProfile);
+            if (data.syncHistoryDays) setSyncHistoryDays(data.syncHistoryDays);
+            if (data.syncLive !== undefined) setSyncLive(data.syncLive);
             return { success: true, message: 'Settings restored. The application will now reload.' };
         } catch (e) {
             return { success: false, message: 'Failed to restore settings from backup.' };
@@ -271,18 +334,24 @@ export const SettingsProvider: React.FC<{ children: ReactNode; workspaceId: stri
         currencies, addCurrency, updateCurrency, deleteCurrency,
         currencyDisplay, setCurrencyDisplay,
         formatCurrency,
-        isIntegerCurrency, setIsIntegerCurrency,
+        currencyExponent,
         isTaxEnabled, setIsTaxEnabled, taxRate, setTaxRate,
         includeTaxInProfit, setIncludeTaxInProfit,
         isDiscountEnabled, setIsDiscountEnabled, discountRate, setDiscountRate, discountThreshold, setDiscountThreshold,
-        cashierPermissions, setCashierPermissions,
+        discountApprovalRate, setDiscountApprovalRate,
         restoreBackup,
         storeAddress, setStoreAddress,
         storePhone, setStorePhone,
         receiptFooter, setReceiptFooter,
+        autoLockMinutes, setAutoLockMinutes,
         syncApiUrl, setSyncApiUrl,
-        syncApiKey, setSyncApiKey
+        syncApiKey, setSyncApiKey,
+        syncEncryptPayloads, setSyncEncryptPayloads,
+        syncProfile, setSyncProfile,
+        syncHistoryDays, setSyncHistoryDays,
+        syncLive, setSyncLive
     };
 
+    if (!settingsLoaded) return null;
     return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
 };
@@ -5,6 +5,7 @@ import { View, Toast, Notification, NotificationType, InventoryViewState, Report
 import usePersistedState from '../../hooks/usePersistedState';
 import { db } from '../../utils/db';
 import { generateUUIDv7 } from '../../utils/idGenerator';
+import { addNotification as addNotificationRecord } from '../../services/notifications';
 
 // Define initial states for each view's state
 const initialInventoryViewState: InventoryViewState = {
@@ -114,16 +115,7 @@ export const UIStateProvider: React.FC<{ children: ReactNode; workspaceId: strin
     const dismissToast = (id: string) => setToasts(prev => prev.filter(t => t.id !== id));
 
     const addNotification = (message: string, type: NotificationType, relatedId?: string) => {
-        const newNotification: Notification = { 
-            id: `notif_${generateUUIDv7()}`, 
-            timestamp: new Date().toISOString(), 
-            type, 
-            message, 
-            isRead: false, 
-            relatedId,
-            workspaceId
-        };
-        db.notifications.add(newNotification);
+        addNotificationRecord(db, workspaceId, message, type, relatedId);
     };
     
     const markNotificationAsRead = (id: string) => {
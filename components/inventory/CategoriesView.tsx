@@ -3,6 +3,7 @@ import React, { useState, useMemo } from 'react';
 import { useProducts } from '../context/ProductContext';
 import { useUIState } from '../context/UIStateContext';
 import { useSettings } from '../context/SettingsContext';
+import { useAuth } from '../context/AuthContext';
 import { Category, CategorySortKeys } from '../../types';
 import { Modal } from '../common/Modal';
 import { Pagination } from '../common/Pagination';
@@ -76,6 +77,8 @@ export const CategoriesView: React.FC = () => {
     const { categories, addCategory, updateCategory, deleteCategory } = useProducts();
     const { showToast, categoriesViewState, onCategoriesViewUpdate } = useUIState();
     const { paginationConfig } = useSettings();
+    const { can } = useAuth();
+    const canEditProducts = can('editProducts');
 
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingCategory, setEditingCategory] = useState<Category | null>(null);
@@ -203,9 +206,11 @@ export const CategoriesView: React.FC = () => {
                             className="w-full pl-10 pr-4 py-2 border rounded-lg bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-blue-500 focus:border-blue-500" 
                         />
                     </div>
-                    <button onClick={() => setIsModalOpen(true)} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 w-full sm:w-auto justify-center">
-                        <PlusIcon /> Add Category
-                    </button>
+                    {canEditProducts && (
+                        <button onClick={() => setIsModalOpen(true)} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 w-full sm:w-auto justify-center">
+                            <PlusIcon /> Add Category
+                        </button>
+                    )}
                 </div>
             </div>
             <div className="overflow-x-auto">
@@ -225,8 +230,12 @@ export const CategoriesView: React.FC = () => {
                                 </td>
                                 <td data-label="Parent" className="px-6 py-4">{categoryMap.get(cat.parentId || '')?.name || '-'}</td>
                                 <td data-label="Actions" className="px-6 py-4 flex items-center gap-2 justify-end">
-                                    <button onClick={() => { setEditingCategory(cat); setIsModalOpen(true); }} className="p-1 text-blue-500 hover:text-blue-700"><PencilIcon /></button>
-                                    <button onClick={() => setDeletingCategory(cat)} className="p-1 text-red-500"><TrashIcon /></button>
+                                    {canEditProducts && (
+                                        <>
+                                            <button onClick={() => { setEditingCategory(cat); setIsModalOpen(true); }} className="p-1 text-blue-500 hover:text-blue-700"><PencilIcon /></button>
+                                            <button onClick={() => setDeletingCategory(cat)} className="p-1 text-red-500"><TrashIcon /></button>
+                                        </>
+                                    )}
                                 </td>
                             </tr>
                         ))}
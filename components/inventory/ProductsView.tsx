@@ -4,8 +4,10 @@ import { Product, InventoryAdjustment, PriceHistoryEntry, Category, ProductVaria
 import { useProducts } from '../context/ProductContext';
 import { useUIState } from '../context/UIStateContext';
 import { useSettings } from '../context/SettingsContext';
+import { useAuth } from '../context/AuthContext';
 import { Modal } from '../common/Modal';
 import { Pagination } from '../common/Pagination';
+import { MoneyInput } from '../common/MoneyInput';
 import { SearchIcon, PlusIcon, PencilIcon, TrashIcon, AdjustIcon, HistoryIcon, ChevronUpIcon, ChevronDownIcon, ReceiveIcon, TagIcon, DangerIcon } from '../Icons';
 import { FilterMenu, FilterSelectItem } from '../common/FilterMenu';
 import { generateUUIDv7 } from '../../utils/idGenerator';
@@ -16,7 +18,9 @@ const VariationManager: React.FC<{
     variants: ProductVariant[];
     onVariationTypesChange: (types: ProductVariationType[]) => void;
     onVariantsChange: (variants: ProductVariant[]) => void;
-}> = ({ baseProduct, variationTypes, variants, onVariationTypesChange, onVariantsChange }) => {
+    savedVariantIds?: string[]; // Their stock only changes through stock adjustments
+    pricesLocked?: boolean; // The prices of saved variants need the editPrices permission
+}> = ({ baseProduct, variationTypes, variants, onVariationTypesChange, onVariantsChange, savedVariantIds = [], pricesLocked = false }) => {
 
     const addVariationType = () => {
         const newType: ProductVariationType = {
@@ -128,9 +132,9 @@ const VariationManager: React.FC<{
                                 <tr key={v.id} className="border-b dark:border-gray-600">
                                     <td className="p-2 font-medium text-gray-900 dark:text-white">{Object.values(v.options).join(' / ')}</td>
                                     <td className="p-1"><input type="text" value={v.skuSuffix} onChange={e => updateVariant(v.id, 'skuSuffix', e.target.value)} className="w-full rounded-md border-gray-300 dark:border-gray-600 text-sm p-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white" /></td>
-                                    <td className="p-1"><input type="number" value={v.retailPrice} onChange={e => updateVariant(v.id, 'retailPrice', parseFloat(e.target.value))} className="w-24 text-right rounded-md border-gray-300 dark:border-gray-600 text-sm p-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white" /></td>
-                                    <td className="p-1"><input type="number" value={v.costPrice} onChange={e => updateVariant(v.id, 'costPrice', parseFloat(e.target.value))} className="w-24 text-right rounded-md border-gray-300 dark:border-gray-600 text-sm p-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white" /></td>
-                                    <td className="p-1"><input type="number" value={v.stock} onChange={e => updateVariant(v.id, 'stock', parseInt(e.target.value, 10))} className="w-20 text-right rounded-md border-gray-300 dark:border-gray-600 text-sm p-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white" /></td>
+                                    <td className="p-1"><MoneyInput value={v.retailPrice} onChange={value => updateVariant(v.id, 'retailPrice', value)} disabled={pricesLocked && savedVariantIds.includes(v.id)} className="w-24 text-right rounded-md border-gray-300 dark:border-gray-600 text-sm p-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-60" /></td>
+                                    <td className="p-1"><MoneyInput value={v.costPrice} onChange={value => updateVariant(v.id, 'costPrice', value)} disabled={pricesLocked && savedVariantIds.includes(v.id)} className="w-24 text-right rounded-md border-gray-300 dark:border-gray-600 text-sm p-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-60" /></td>
+                                    <td className="p-1"><input type="number" value={v.stock} onChange={e => updateVariant(v.id, 'stock', parseInt(e.target.value, 10))} disabled={savedVariantIds.includes(v.id)} title={savedVariantIds.includes(v.id) ? 'Use Adjust Stock to change the stock of a saved variant' : undefined} className="w-20 text-right rounded-md border-gray-300 dark:border-gray-600 text-sm p-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-60" /></td>
                                     <td className="p-1 text-center"><button type="button" onClick={() => removeVariant(v.id)} className="text-red-500 hover:text-red-700 p-1"><TrashIcon /></button></td>
                                 </tr>
                             ))}
@@ -144,6 +148,8 @@ const VariationManager: React.FC<{
 
 const ProductForm: React.FC<{ product?: Product | null; onSubmit: (data: Omit<Product, 'id' | 'stock' | 'priceHistory'>) => void; onCancel: () => void; }> = ({ product, onSubmit, onCancel }) => {
     const { categories } = useProducts();
+    const { can } = useAuth();
+    const pricesLocked = !!product && !can('editPrices');
     const [formData, setFormData] = useState({
         sku: product?.sku || '',
         name: product?.name || '',
@@ -210,8 +216,8 @@ const ProductForm: React.FC<{ product?: Product | null; onSubmit: (data: Omit<Pr
                  <p className="text-sm text-gray-500 dark:text-gray-400 md:col-span-2">
                     {hasVariations ? 'Prices for variants are managed below. These values act as defaults.' : 'Enter default prices. You can specify different prices for variants later.'}
                 </p>
-                 <div><label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Default Retail Price</label><input type="number" name="retailPrice" value={formData.retailPrice} onChange={handleChange} required step="0.01" min="0" className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white" /></div>
-                <div><label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Default Cost Price</label><input type="number" name="costPrice" value={formData.costPrice} onChange={handleChange} required step="0.01" min="0" className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white" /></div>
+                 <div><label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Default Retail Price</label><MoneyInput name="retailPrice" value={formData.retailPrice} onChange={retailPrice => setFormData(prev => ({ ...prev, retailPrice }))} required min="0" disabled={pricesLocked} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-60" /></div>
+                <div><label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Default Cost Price</label><MoneyInput name="costPrice" value={formData.costPrice} onChange={costPrice => setFormData(prev => ({ ...prev, costPrice }))} required min="0" disabled={pricesLocked} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-60" /></div>
                 <div><label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Low Stock Threshold</label><input type="number" name="lowStockThreshold" value={formData.lowStockThreshold} onChange={handleChange} required min="0" className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white" /></div>
             </div>
 
@@ -221,6 +227,8 @@ const ProductForm: React.FC<{ product?: Product | null; onSubmit: (data: Omit<Pr
                 variants={formData.variants}
                 onVariationTypesChange={types => setFormData(p => ({ ...p, variationTypes: types }))}
                 onVariantsChange={vars => setFormData(p => ({ ...p, variants: vars }))}
+                savedVariantIds={product?.variants.map(v => v.id)}
+                pricesLocked={pricesLocked}
             />
 
              <div>
@@ -345,7 +353,7 @@ const ReceiveStockModal: React.FC<{ product: Product, variant?: ProductVariant,
 };
 
 const AdjustStockModal: React.FC<{ product: Product, variant?: ProductVariant, onClose: () => void }> = ({ product, variant, onClose }) => {
-    const { adjustStock } = useProducts();
+    const { adjustStockBy } = useProducts();
     const currentStock = variant ? variant.stock : product.stock;
     const itemName = variant ? `${product.name} (${Object.values(variant.options).join(' / ')})` : product.name;
     const [newStock, setNewStock] = useState(currentStock);
@@ -354,8 +362,9 @@ const AdjustStockModal: React.FC<{ product: Product, variant?: ProductVariant, o
     const isValid = reason.trim().length > 0;
 
     const handleSubmit = () => {
+        // Applied as the difference to the level shown, so sales made meanwhile are not overwritten
         if (newStock !== currentStock && isValid) {
-            adjustStock(product.id, newStock, reason, variant?.id);
+            adjustStockBy(product.id, newStock - currentStock, reason, variant?.id);
         }
         onClose();
     };
@@ -562,6 +571,11 @@ export const ProductsView: React.FC = () => {
     const { products, addProduct, updateProduct, deleteProduct, categories, bulkDeleteProducts, bulkUpdateProductCategories, deleteVariant } = useProducts();
     const { inventoryViewState, onInventoryViewUpdate, showToast } = useUIState();
     const { formatCurrency, paginationConfig } = useSettings();
+    const { canDecrypt, can } = useAuth();
+    const canEditProducts = can('editProducts');
+    const canAdjustStock = can('adjustStock');
+    const showFinancials = canDecrypt('financial'); // Cost prices are redacted without the financial key
+    const formatCost = (value: number) => showFinancials ? formatCurrency(value) : '—';
 
     const [isProductModalOpen, setIsProductModalOpen] = useState(false);
     const [editingProduct, setEditingProduct] = useState<Product | null>(null);
@@ -636,14 +650,13 @@ export const ProductsView: React.FC = () => {
 
     const paginatedProducts = useMemo(() => filteredAndSortedProducts.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage), [filteredAndSortedProducts, currentPage, itemsPerPage]);
 
-    const handleFormSubmit = (data: Omit<Product, 'id' | 'stock' | 'priceHistory'>) => {
-        if (editingProduct) {
-            updateProduct({ ...editingProduct, ...data });
-            showToast('Product updated successfully.', 'success');
-        } else {
-            addProduct(data);
-            showToast('Product added successfully.', 'success');
+    const handleFormSubmit = async (data: Omit<Product, 'id' | 'stock' | 'priceHistory'>) => {
+        const result = editingProduct ? await updateProduct({ ...editingProduct, ...data }) : await addProduct(data);
+        if (!result.success) {
+            showToast(result.message || 'Could not save the product.', 'error');
+            return;
         }
+        showToast(editingProduct ? 'Product updated successfully.' : 'Product added successfully.', 'success');
         setIsProductModalOpen(false);
     };
 
@@ -746,7 +759,7 @@ export const ProductsView: React.FC = () => {
                             <input type="text" value={searchTerm} onChange={e => onInventoryViewUpdate({ searchTerm: e.target.value })} placeholder="Search products..." className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-blue-500 focus:border-blue-500" />
                         </div>
                         <div className="flex items-center gap-4 w-full sm:w-auto">
-                            <button onClick={() => { setEditingProduct(null); setIsProductModalOpen(true); }} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 w-full sm:w-auto justify-center"><PlusIcon /> Add Product</button>
+                            {canEditProducts && <button onClick={() => { setEditingProduct(null); setIsProductModalOpen(true); }} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 w-full sm:w-auto justify-center"><PlusIcon /> Add Product</button>}
                             <FilterMenu activeFilterCount={(stockFilter !== 'All' ? 1 : 0) + (categoryFilter !== 'All' ? 1 : 0)}>
                                 <FilterSelectItem label="Stock Status" value={stockFilter} onChange={v => onInventoryViewUpdate({ stockFilter: v })} options={[{ value: 'All', label: 'All' }, { value: 'In Stock', label: 'In Stock' }, { value: 'Low Stock', label: 'Low Stock' }, { value: 'Out of Stock', label: 'Out of Stock' }]} />
                                 <FilterSelectItem label="Category" value={categoryFilter} onChange={v => onInventoryViewUpdate({ categoryFilter: v })} options={[{ value: 'All', label: 'All Categories' }, ...categoryOptions]} />
@@ -754,7 +767,7 @@ export const ProductsView: React.FC = () => {
                         </div>
                     </div>
                     
-                    {selectedProductIds.size > 0 && (
+                    {canEditProducts && selectedProductIds.size > 0 && (
                         <div className="bg-blue-50 dark:bg-blue-900/30 p-3 rounded-md flex flex-wrap items-center justify-between gap-4 border border-blue-200 dark:border-blue-800 animate-fadeIn">
                             <span className="font-medium text-blue-900 dark:text-blue-200">{selectedProductIds.size} item{selectedProductIds.size !== 1 ? 's' : ''} selected</span>
                             <div className="flex gap-2">
@@ -815,20 +828,24 @@ export const ProductsView: React.FC = () => {
                                 <td data-label="Categories" className="px-6 py-4 text-xs text-gray-500 dark:text-gray-400">{getCategoryNames(p.categoryIds)}</td>
                                 <td data-label="Stock" className="px-6 py-4">{p.stock}</td>
                                 <td data-label="Retail Price" className="px-6 py-4">{formatCurrency(p.retailPrice)}</td>
-                                <td data-label="Cost Price" className="px-6 py-4">{formatCurrency(p.costPrice)}</td>
+                                <td data-label="Cost Price" className="px-6 py-4">{formatCost(p.costPrice)}</td>
                                 <td data-label="Margin" className="px-6 py-4">
-                                    {p.variants.length === 0 && <MarginBadge margin={calculateMargin(p.retailPrice, p.costPrice)} />}
+                                    {showFinancials && p.variants.length === 0 && <MarginBadge margin={calculateMargin(p.retailPrice, p.costPrice)} />}
                                 </td>
                                 <td data-label="Actions" className="px-6 py-4 flex items-center gap-1 justify-end flex-nowrap">
                                     <button onClick={() => setHistoryModalData({product: p})} title="History" className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full"><HistoryIcon /></button>
-                                    {p.variants.length === 0 && (
+                                    {canAdjustStock && p.variants.length === 0 && (
                                         <>
                                             <button onClick={() => setReceivingProduct({product: p})} title="Receive Stock" className="p-2 text-green-500 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full"><ReceiveIcon /></button>
                                             <button onClick={() => setAdjustingProduct({product: p})} title="Adjust Stock" className="p-2 text-yellow-500 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full"><AdjustIcon /></button>
                                         </>
                                     )}
-                                    <button onClick={() => { setEditingProduct(p); setIsProductModalOpen(true); }} title="Edit Product" className="p-2 text-blue-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full"><PencilIcon /></button>
-                                    <button onClick={() => { setProductToDelete(p); setForceDelete(false); }} title="Delete Product" className="p-2 text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full"><TrashIcon /></button>
+                                    {canEditProducts && (
+                                        <>
+                                            <button onClick={() => { setEditingProduct(p); setIsProductModalOpen(true); }} title="Edit Product" className="p-2 text-blue-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full"><PencilIcon /></button>
+                                            <button onClick={() => { setProductToDelete(p); setForceDelete(false); }} title="Delete Product" className="p-2 text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full"><TrashIcon /></button>
+                                        </>
+                                    )}
                                 </td>
                             </tr>
                             {p.variants.length > 0 && p.variants.map(v => (
@@ -841,15 +858,19 @@ export const ProductsView: React.FC = () => {
                                     <td className="px-6 py-2"></td>
                                     <td className="px-6 py-2 text-sm">{v.stock}</td>
                                     <td className="px-6 py-2 text-sm">{formatCurrency(v.retailPrice)}</td>
-                                    <td className="px-6 py-2 text-sm">{formatCurrency(v.costPrice)}</td>
+                                    <td className="px-6 py-2 text-sm">{formatCost(v.costPrice)}</td>
                                     <td className="px-6 py-2 text-sm">
-                                        <MarginBadge margin={calculateMargin(v.retailPrice, v.costPrice)} />
+                                        {showFinancials && <MarginBadge margin={calculateMargin(v.retailPrice, v.costPrice)} />}
                                     </td>
                                     <td className="px-6 py-2 flex items-center gap-1 justify-end flex-nowrap">
                                         <button onClick={() => setHistoryModalData({product: p, variantId: v.id})} title="History" className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full scale-90"><HistoryIcon /></button>
-                                        <button onClick={() => setReceivingProduct({product: p, variant: v})} title="Receive Stock" className="p-2 text-green-500 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full"><ReceiveIcon /></button>
-                                        <button onClick={() => setAdjustingProduct({product: p, variant: v})} title="Adjust Stock" className="p-2 text-yellow-500 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full"><AdjustIcon /></button>
-                                        <button onClick={() => { setVariantToDelete({product: p, variant: v}); setForceDelete(false); }} title="Delete Variant" className="p-2 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-full scale-90"><TrashIcon /></button>
+                                        {canAdjustStock && (
+                                            <>
+                                                <button onClick={() => setReceivingProduct({product: p, variant: v})} title="Receive Stock" className="p-2 text-green-500 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full"><ReceiveIcon /></button>
+                                                <button onClick={() => setAdjustingProduct({product: p, variant: v})} title="Adjust Stock" className="p-2 text-yellow-500 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full"><AdjustIcon /></button>
+                                            </>
+                                        )}
+                                        {canEditProducts && <button onClick={() => { setVariantToDelete({product: p, variant: v}); setForceDelete(false); }} title="Delete Variant" className="p-2 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-full scale-90"><TrashIcon /></button>}
                                     </td>
                                 </tr>
                             ))}
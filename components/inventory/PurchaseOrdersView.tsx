@@ -5,6 +5,7 @@ import { useProducts } from '../context/ProductContext';
 import { useSales } from '../context/SalesContext';
 import { useSettings } from '../context/SettingsContext';
 import { useUIState } from '../context/UIStateContext';
+import { useAuth } from '../context/AuthContext';
 import { Modal } from '../common/Modal';
 import { Pagination } from '../common/Pagination';
 import { PlusIcon, SearchIcon, ChevronUpIcon, ChevronDownIcon, ReceiveIcon, TrashIcon, EyeIcon, PhotoIcon } from '../Icons';
@@ -13,6 +14,7 @@ import { Dropdown } from '../common/Dropdown';
 import { useLiveQuery } from "dexie-react-hooks";
 import { db } from '../../utils/db';
 import { VariantSelectionModal } from '../common/ProductVariantSelector';
+import { roundMoney, parseMoneyInput, toMoneyInput } from '../../utils/money';
 
 declare var html2canvas: any;
 
@@ -20,7 +22,7 @@ const POForm: React.FC<{
     onSubmit: (data: Omit<PurchaseOrder, 'id'>) => void;
     onCancel: () => void;
 }> = ({ onSubmit, onCancel }) => {
-    const { workspaceId, formatCurrency } = useSettings();
+    const { workspaceId, formatCurrency, currencyExponent } = useSettings();
     const { showToast } = useUIState();
     
     // Use LiveQuery to fetch encrypted suppliers correctly
@@ -78,7 +80,7 @@ const POForm: React.FC<{
                     productId: product.id, 
                     variantId: variant?.id, 
                     quantityOrdered: "1", 
-                    costPrice: cost.toString()
+                    costPrice: toMoneyInput(cost, currencyExponent)
                 }
             ];
         });
@@ -105,7 +107,7 @@ const POForm: React.FC<{
                             productId: p.id,
                             variantId: v.id,
                             quantityOrdered: Math.max(1, p.lowStockThreshold - v.stock + 5).toString(),
-                            costPrice: v.costPrice.toString()
+                            costPrice: toMoneyInput(v.costPrice, currencyExponent)
                         });
                     }
                 });
@@ -114,7 +116,7 @@ const POForm: React.FC<{
                     newItems.push({
                         productId: p.id,
                         quantityOrdered: Math.max(1, p.lowStockThreshold - p.stock + 5).toString(),
-                        costPrice: p.costPrice.toString()
+                        costPrice: toMoneyInput(p.costPrice, currencyExponent)
                     });
                 }
             }
@@ -163,7 +165,7 @@ const POForm: React.FC<{
             const product = products.find(p => p.id === item.productId);
             const variant = product?.variants.find(v => v.id === item.variantId);
             const qty = parseFloat(item.quantityOrdered) || 0;
-            const cost = parseFloat(item.costPrice) || 0;
+            const cost = parseMoneyInput(item.costPrice, currencyExponent) ?? 0;
             
             return {
                 productId: item.productId,
@@ -178,7 +180,7 @@ const POForm: React.FC<{
             };
         });
 
-        const totalCost = poItems.reduce((sum, item) => sum + (item.costPrice * item.quantityOrdered), 0);
+        const totalCost = roundMoney(poItems.reduce((sum, item) => sum + (item.costPrice * item.quantityOrdered), 0));
 
         onSubmit({
             supplierId: supplierId || '',
@@ -297,7 +299,7 @@ const POForm: React.FC<{
                                 const v = p?.variants.find(vary => vary.id === item.variantId);
                                 const name = v ? `${p?.name} (${Object.values(v.options).join('/')})` : p?.name;
                                 const qtyVal = parseFloat(item.quantityOrdered) || 0;
-                                const costVal = parseFloat(item.costPrice) || 0;
+                                const costVal = parseMoneyInput(item.costPrice, currencyExponent) ?? 0;
                                 
                                 return (
                                     <tr key={idx} className="bg-white dark:bg-gray-800 text-gray-900 dark:text-white">
@@ -313,13 +315,13 @@ const POForm: React.FC<{
                                         <td className="p-2 text-center">
                                             <input 
                                                 type="number" 
-                                                step="0.01" 
+                                                step={10 ** -currencyExponent} 
                                                 value={item.costPrice} 
                                                 onChange={e => handleItemChange(idx, 'costPrice', e.target.value)} 
                                                 className="w-full px-1 py-1 text-center border rounded bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                                             />
                                         </td>
-                                        <td className="p-2 text-right">{formatCurrency(qtyVal * costVal)}</td>
+                                        <td className="p-2 text-right">{formatCurrency(roundMoney(qtyVal * costVal))}</td>
                                         <td className="p-2 text-center">
                                             <button type="button" onClick={() => handleRemoveItem(idx)} className="text-red-500 hover:text-red-700"><TrashIcon className="h-4 w-4" /></button>
                                         </td>
@@ -439,6 +441,8 @@ export const PurchaseOrdersView: React.FC = () => {
     const { purchaseOrders, addPurchaseOrder, deletePurchaseOrder } = useSales();
     const { workspaceId, formatCurrency, formatDateTime, paginationConfig, workspaceName } = useSettings();
     const { poViewState, onPOViewUpdate, showToast } = useUIState();
+    const { can } = useAuth();
+    const canManagePOs = can('managePurchaseOrders');
     
     // LiveQuery for Suppliers
     const suppliers = useLiveQuery<Supplier[]>(() => db.suppliers.where('workspaceId').equals(workspaceId).toArray(), [workspaceId]) || [];
@@ -554,7 +558,7 @@ export const PurchaseOrdersView: React.FC = () => {
                         <input type="text" value={searchTerm} onChange={e => onPOViewUpdate({ searchTerm: e.target.value })} placeholder="Search POs..." className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-blue-500 focus:border-blue-500" />
                     </div>
                     <div className="flex items-center gap-4 w-full sm:w-auto">
-                        <button onClick={() => setIsFormOpen(true)} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 w-full sm:w-auto justify-center"><PlusIcon /> Create PO</button>
+                        {canManagePOs && <button onClick={() => setIsFormOpen(true)} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 w-full sm:w-auto justify-center"><PlusIcon /> Create PO</button>}
                         <FilterMenu activeFilterCount={(statusFilter !== 'All' ? 1 : 0) + (supplierFilter !== 'All' ? 1 : 0)}>
                             <FilterSelectItem label="Status" value={statusFilter} onChange={v => onPOViewUpdate({ statusFilter: v })} options={statusOptions} />
                             <FilterSelectItem label="Supplier" value={supplierFilter} onChange={v => onPOViewUpdate({ supplierFilter: v })} options={supplierOptions} />
@@ -593,10 +597,10 @@ export const PurchaseOrdersView: React.FC = () => {
                                 </td>
                                 <td data-label="Actions" className="px-6 py-4 flex items-center gap-2 justify-end">
                                     <button onClick={() => setViewingPO(po)} className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300" title="View Details"><EyeIcon /></button>
-                                    {po.status !== 'Received' && (
+                                    {can('receivePurchaseOrders') && po.status !== 'Received' && (
                                         <button onClick={() => setReceivingPO(po)} className="p-1 text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300" title="Receive Items"><ReceiveIcon /></button>
                                     )}
-                                    <button onClick={() => setPoToDelete(po)} className="p-1 text-red-500 hover:text-red-700" title="Delete PO"><TrashIcon /></button>
+                                    {canManagePOs && <button onClick={() => setPoToDelete(po)} className="p-1 text-red-500 hover:text-red-700" title="Delete PO"><TrashIcon /></button>}
                                 </td>
                             </tr>
                         ))}
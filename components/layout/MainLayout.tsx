@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { UserRole, View } from '../../types';
+import { View } from '../../types';
 import { Dashboard } from '../Dashboard';
 import { POS } from '../POS';
 import { Inventory } from '../Inventory';
@@ -10,7 +10,7 @@ import { Settings } from '../Settings';
 import { Analysis } from '../Analysis';
 import { Customers } from '../Customers';
 import { Users } from '../Users';
-import { DashboardIcon, POSIcon, InventoryIcon, ProcurementIcon, ReportsIcon, SettingsIcon, AnalysisIcon, UserIcon, ChevronDownIcon, LogoutIcon, UserGroupIcon, DangerIcon, UsersIcon, DownloadIcon, CloudCheckIcon } from '../Icons';
+import { DashboardIcon, POSIcon, InventoryIcon, ProcurementIcon, ReportsIcon, SettingsIcon, AnalysisIcon, UserIcon, ChevronDownIcon, LogoutIcon, UserGroupIcon, DangerIcon, UsersIcon, DownloadIcon, CloudCheckIcon, ShieldCheckIcon } from '../Icons';
 import { ToastContainer } from '../common/ToastContainer';
 import { Modal } from '../common/Modal';
 import { useAuth } from '../context/AuthContext';
@@ -18,6 +18,9 @@ import { useUIState } from '../context/UIStateContext';
 import { useSettings } from '../context/SettingsContext';
 import { useSales } from '../context/SalesContext';
 import { usePWAInstall } from '../../hooks/usePWAInstall';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
+import { SwitchUserModal } from '../auth/SwitchUserModal';
+import { VIEW_PERMISSIONS } from '../../utils/permissions';
 
 const OfflineIndicator = () => (
     <div className="flex items-center gap-1 px-3 py-1 rounded-full bg-red-100 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 text-xs font-bold animate-pulse">
@@ -36,14 +39,15 @@ const OfflineReadyIndicator = () => (
 );
 
 export const MainLayout: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwitchWorkspace }) => {
-    const { currentUser } = useAuth();
-    const { workspaceId, workspaceName, cashierPermissions } = useSettings();
+    const { currentUser, currentRole, can, lock } = useAuth();
+    const { workspaceId, workspaceName, syncApiUrl, syncApiKey } = useSettings();
     const { activeView, setActiveView, toasts, dismissToast, showToast } = useUIState();
     const { currentShift } = useSales();
     
     const [isProfileDropdownOpen, setIsProfileDropdownOpen] = useState(false);
     const [isAuthWarningModalOpen, setIsAuthWarningModalOpen] = useState(false);
     const [isShiftWarningOpen, setIsShiftWarningOpen] = useState(false);
+    const [isSwitchUserOpen, setIsSwitchUserOpen] = useState(false);
     const [isOnline, setIsOnline] = useState(navigator.onLine);
     const [isOfflineReady, setIsOfflineReady] = useState(false);
     
@@ -58,6 +62,7 @@ export const MainLayout: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwi
     const profileDropdownRef = useRef<HTMLDivElement>(null);
     const mainContentRef = useRef<HTMLElement>(null);
     const isGuest = workspaceId === 'guest_workspace';
+    const isSyncConfigured = !isGuest && !!syncApiUrl && !!syncApiKey;
     
     useEffect(() => {
         const handleOnline = () => setIsOnline(true);
@@ -109,28 +114,14 @@ export const MainLayout: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwi
         onSwitchWorkspace();
     };
 
-    const availableViews = useMemo(() => {
-        if (currentUser?.role === UserRole.Admin) {
-            return ['dashboard', 'pos', 'inventory', 'procurement', 'customers', 'users', 'reports', 'analysis', 'settings'] as View[];
-        }
-        // For Cashier
-        const views: View[] = [];
-        if (cashierPermissions.canViewDashboard) views.push('dashboard');
-        views.push('pos');
-        if (cashierPermissions.canViewInventory) {
-            views.push('inventory');
-            views.push('procurement');
-        }
-        if (cashierPermissions.canManageCustomers) views.push('customers');
-        if (cashierPermissions.canViewReports) views.push('reports');
-        if (cashierPermissions.canViewAnalysis) views.push('analysis');
-        views.push('settings');
-        return views;
-    }, [currentUser, cashierPermissions]);
+    const availableViews = useMemo(() => (Object.keys(VIEW_PERMISSIONS) as View[]).filter(view => {
+        const permission = VIEW_PERMISSIONS[view];
+        return !permission || can(permission);
+    }), [can]);
 
     useEffect(() => {
         if (!availableViews.includes(activeView)) {
-            setActiveView(availableViews[0] || 'pos');
+            setActiveView(availableViews[0] || 'settings');
         }
     }, [activeView, availableViews, setActiveView]);
 
@@ -185,19 +176,20 @@ export const MainLayout: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwi
                 <h1 className="text-xl font-bold text-blue-600 dark:text-blue-400 truncate flex-grow">{workspaceName}</h1>
                 <div className="flex items-center gap-1">
                     {isInstallable && <InstallButton />}
+                    {isSyncConfigured && <SyncStatusIndicator workspaceId={workspaceId} />}
                     {isOnline && isOfflineReady && <OfflineReadyIndicator />}
                     {!isOnline && <OfflineIndicator />}
                 </div>
             </div>
             <nav className="flex-grow p-4 space-y-2 overflow-y-auto">
-            {(currentUser.role === UserRole.Admin || cashierPermissions.canViewDashboard) && <NavItem view="dashboard" icon={<DashboardIcon />} label="Dashboard" />}
-            <NavItem view="pos" icon={<POSIcon />} label="Point of Sale" />
-            {(currentUser.role === UserRole.Admin || cashierPermissions.canViewInventory) && <NavItem view="inventory" icon={<InventoryIcon />} label="Inventory" />}
-            {(currentUser.role === UserRole.Admin || cashierPermissions.canViewInventory) && <NavItem view="procurement" icon={<ProcurementIcon />} label="Procurement" />}
-            {(currentUser.role === UserRole.Admin || cashierPermissions.canManageCustomers) && <NavItem view="customers" icon={<UserGroupIcon />} label="Customers" />}
-            {currentUser.role === UserRole.Admin && <NavItem view="users" icon={<UsersIcon />} label="Users" />}
-            {(currentUser.role === UserRole.Admin || cashierPermissions.canViewReports) && <NavItem view="reports" icon={<ReportsIcon />} label="Reports" />}
-            {(currentUser.role === UserRole.Admin || cashierPermissions.canViewAnalysis) && <NavItem view="analysis" icon={<AnalysisIcon />} label="Analysis" />}
+            {availableViews.includes('dashboard') && <NavItem view="dashboard" icon={<DashboardIcon />} label="Dashboard" />}
+            {availableViews.includes('pos') && <NavItem view="pos" icon={<POSIcon />} label="Point of Sale" />}
+            {availableViews.includes('inventory') && <NavItem view="inventory" icon={<InventoryIcon />} label="Inventory" />}
+            {availableViews.includes('procurement') && <NavItem view="procurement" icon={<ProcurementIcon />} label="Procurement" />}
+            {availableViews.includes('customers') && <NavItem view="customers" icon={<UserGroupIcon />} label="Customers" />}
+            {availableViews.includes('users') && <NavItem view="users" icon={<UsersIcon />} label="Users" />}
+            {availableViews.includes('reports') && <NavItem view="reports" icon={<ReportsIcon />} label="Reports" />}
+            {availableViews.includes('analysis') && <NavItem view="analysis" icon={<AnalysisIcon />} label="Analysis" />}
             </nav>
             <div className="p-4 border-t border-gray-200 dark:border-gray-700" ref={profileDropdownRef}>
                {isGuest ? (
@@ -217,7 +209,7 @@ export const MainLayout: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwi
                             <div className="p-2 bg-gray-200 dark:bg-gray-600 rounded-full"><UserIcon /></div>
                             <div className="flex-1">
                                 <p className="font-semibold text-sm truncate">{currentUser.username}</p>
-                                <p className="text-xs text-gray-500 dark:text-gray-400">{currentUser.role}</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">{currentRole?.name}</p>
                             </div>
                             <ChevronDownIcon className={`w-5 h-5 text-gray-500 transition-transform ${isProfileDropdownOpen ? 'rotate-180' : ''}`} />
                         </button>
@@ -227,6 +219,12 @@ export const MainLayout: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwi
                                     <button onClick={() => { setActiveView('settings'); setIsProfileDropdownOpen(false); }} className="w-full text-left flex items-center gap-3 px-3 py-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700">
                                         <SettingsIcon className="h-5 w-5" /> <span>Settings</span>
                                     </button>
+                                    <button onClick={() => { setIsSwitchUserOpen(true); setIsProfileDropdownOpen(false); }} className="w-full text-left flex items-center gap-3 px-3 py-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700">
+                                        <UsersIcon className="h-5 w-5" /> <span>Switch User</span>
+                                    </button>
+                                    <button onClick={() => { setIsProfileDropdownOpen(false); lock(); }} className="w-full text-left flex items-center gap-3 px-3 py-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700">
+                                        <ShieldCheckIcon className="h-5 w-5" /> <span>Lock</span>
+                                    </button>
                                     <div className="my-1 h-px bg-gray-200 dark:bg-gray-700"></div>
                                     <button onClick={handleSwitchWorkspaceWithDelay} className="w-full text-left flex items-center gap-3 px-3 py-2 rounded-md text-red-600 hover:bg-red-50 dark:hover:bg-gray-700 dark:hover:bg-opacity-50">
                                         <LogoutIcon className="h-5 w-5" /> <span>Logout</span>
@@ -244,6 +242,7 @@ export const MainLayout: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwi
                 <h1 className="text-lg font-bold text-blue-600 dark:text-blue-400 truncate flex-grow">{workspaceName}</h1>
                 <div className="flex items-center gap-1">
                     {isInstallable && <InstallButton />}
+                    {isSyncConfigured && <SyncStatusIndicator workspaceId={workspaceId} />}
                     {isOnline && isOfflineReady && <OfflineReadyIndicator />}
                     {!isOnline && <OfflineIndicator />}
                 </div>
@@ -252,14 +251,14 @@ export const MainLayout: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwi
         </main>
 
         <nav className="md:hidden fixed bottom-0 left-0 right-0 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 flex justify-start overflow-x-auto shadow-lg z-40 no-scrollbar">
-            {(currentUser.role === UserRole.Admin || cashierPermissions.canViewDashboard) && <BottomNavItem view="dashboard" icon={<DashboardIcon />} label="Dash" />}
-            <BottomNavItem view="pos" icon={<POSIcon />} label="POS" />
-            {(currentUser.role === UserRole.Admin || cashierPermissions.canViewInventory) && <BottomNavItem view="inventory" icon={<InventoryIcon />} label="Inv" />}
-            {(currentUser.role === UserRole.Admin || cashierPermissions.canViewInventory) && <BottomNavItem view="procurement" icon={<ProcurementIcon />} label="Proc" />}
-            {(currentUser.role === UserRole.Admin || cashierPermissions.canManageCustomers) && <BottomNavItem view="customers" icon={<UserGroupIcon />} label="Cust" />}
-            {currentUser.role === UserRole.Admin && <BottomNavItem view="users" icon={<UsersIcon />} label="Users" />}
-            {(currentUser.role === UserRole.Admin || cashierPermissions.canViewReports) && <BottomNavItem view="reports" icon={<ReportsIcon />} label="Rpts" />}
-            {(currentUser.role === UserRole.Admin || cashierPermissions.canViewAnalysis) && <BottomNavItem view="analysis" icon={<AnalysisIcon />} label="Analysis" />}
+            {availableViews.includes('dashboard') && <BottomNavItem view="dashboard" icon={<DashboardIcon />} label="Dash" />}
+            {availableViews.includes('pos') && <BottomNavItem view="pos" icon={<POSIcon />} label="POS" />}
+            {availableViews.includes('inventory') && <BottomNavItem view="inventory" icon={<InventoryIcon />} label="Inv" />}
+            {availableViews.includes('procurement') && <BottomNavItem view="procurement" icon={<ProcurementIcon />} label="Proc" />}
+            {availableViews.includes('customers') && <BottomNavItem view="customers" icon={<UserGroupIcon />} label="Cust" />}
+            {availableViews.includes('users') && <BottomNavItem view="users" icon={<UsersIcon />} label="Users" />}
+            {availableViews.includes('reports') && <BottomNavItem view="reports" icon={<ReportsIcon />} label="Rpts" />}
+            {availableViews.includes('analysis') && <BottomNavItem view="analysis" icon={<AnalysisIcon />} label="Analysis" />}
             <BottomNavItem view="settings" icon={<SettingsIcon />} label="Set" />
         </nav>
         <ToastContainer toasts={toasts} onDismiss={dismissToast} />
@@ -285,6 +284,9 @@ export const MainLayout: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwi
                     <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
                         You cannot switch workspaces while a shift is open. Please go to the POS and close your shift first.
                     </p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                        To hand the register to another cashier, use <strong>Switch User</strong> instead.
+                    </p>
                 </div>
                 <div className="flex justify-center pt-2">
                     <button onClick={() => setIsShiftWarningOpen(false)} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 w-full sm:w-auto">
@@ -294,6 +296,8 @@ export const MainLayout: React.FC<{ onSwitchWorkspace: () => void; }> = ({ onSwi
             </div>
         </Modal>
 
+        <SwitchUserModal isOpen={isSwitchUserOpen} onClose={() => setIsSwitchUserOpen(false)} />
+
         <Modal isOpen={isInstallModalOpen} onClose={closeInstallModal} title="Install App">
             <div className="space-y-6 text-center">
                 {isIOS ? (
@@ -0,0 +1,124 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { useLiveQuery } from "dexie-react-hooks";
+import { SyncJobState, SyncTrigger } from '../../types';
+import { Modal } from '../common/Modal';
+import { useUIState } from '../context/UIStateContext';
+import { db } from '../../utils/db';
+import { getSyncJobKey, syncService } from '../../services/SyncService';
+
+const TRIGGER_LABELS: Record<SyncTrigger, string> = {
+    manual: 'Manual',
+    online: 'Back online',
+    interval: 'Scheduled',
+    retry: 'Retry',
+};
+
+const formatTime = (iso?: string) => iso ? new Date(iso).toLocaleString() : 'Never';
+
+const isToday = (iso?: string) => !!iso && new Date(iso).toDateString() === new Date().toDateString();
+
+/**
+ * Header badge showing whether this till has synced today, opening the sync history.
+ */
+export const SyncStatusIndicator: React.FC<{ workspaceId: string }> = ({ workspaceId }) => {
+    const { showToast } = useUIState();
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isSyncing, setIsSyncing] = useState(false);
+
+    const state: SyncJobState = useLiveQuery(() => db.keyval.get(getSyncJobKey(workspaceId)), [workspaceId])?.value || { consecutiveFailures: 0 };
+    const isLive = useSyncExternalStore(listener => syncService.subscribeLive(listener), () => syncService.isLiveConnected());
+    const runs = useLiveQuery(() => db.syncLog.where('workspaceId').equals(workspaceId).reverse().sortBy('startedAt'), [workspaceId]) || [];
+
+    const failing = state.consecutiveFailures > 0;
+    const syncedToday = isToday(state.lastSuccessAt);
+
+    const badgeClass = failing
+        ? 'bg-red-100 dark:bg-red-900/30 border-red-200 dark:border-red-800 text-red-600 dark:text-red-400'
+        : syncedToday
+            ? 'bg-green-100 dark:bg-green-900/30 border-green-200 dark:border-green-800 text-green-700 dark:text-green-300'
+            : 'bg-orange-100 dark:bg-orange-900/30 border-orange-200 dark:border-orange-800 text-orange-600 dark:text-orange-400';
+    const label = failing ? 'Sync Failed' : syncedToday ? 'Synced' : 'Not Synced Today';
+    const title = failing
+        ? `${state.consecutiveFailures} failed attempt(s). Last success: ${formatTime(state.lastSuccessAt)}`
+        : `Last sync: ${formatTime(state.lastSuccessAt)}${isLive ? ' (live updates connected)' : ''}`;
+
+    const handleSyncNow = async () => {
+        setIsSyncing(true);
+        const result = await syncService.sync('manual');
+        setIsSyncing(false);
+        showToast(result.message || (result.success ? 'Sync complete' : 'Sync failed'), result.success ? 'success' : 'error');
+    };
+
+    return (
+        <>
+            <button
+                onClick={() => setIsHistoryOpen(true)}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full border text-xs font-bold ${badgeClass}`}
+                title={title}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                <span className="hidden lg:inline">{label}</span>
+                {isLive && !failing && <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" aria-label="Live updates connected" />}
+            </button>
+
+            <Modal isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} title="Sync History" size="lg">
+                <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <div>Last attempt: <span className="font-semibold">{formatTime(state.lastAttemptAt)}</span></div>
+                        <div>Last success: <span className="font-semibold">{formatTime(state.lastSuccessAt)}</span></div>
+                        {failing && (
+                            <>
+                                <div>Failed attempts in a row: <span className="font-semibold text-red-600 dark:text-red-400">{state.consecutiveFailures}</span></div>
+                                <div>Next retry: <span className="font-semibold">{formatTime(state.nextRetryAt)}</span></div>
+                                {state.lastError && <div className="col-span-2 text-red-600 dark:text-red-400">{state.lastError}</div>}
+                            </>
+                        )}
+                    </div>
+
+                    <div className="overflow-x-auto max-h-96">
+                        <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+                            <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-700 sticky top-0">
+                                <tr>
+                                    <th className="px-2 py-2">Time</th>
+                                    <th className="px-2 py-2">Trigger</th>
+                                    <th className="px-2 py-2">Result</th>
+                                    <th className="px-2 py-2 text-right">Pushed</th>
+                                    <th className="px-2 py-2 text-right">Pulled</th>
+                                    <th className="px-2 py-2 text-right">Deleted</th>
+                                    <th className="px-2 py-2 text-right">Conflicts</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {runs.length === 0 ? (
+                                    <tr><td colSpan={7} className="px-2 py-4 text-center text-gray-500 dark:text-gray-400">No sync runs yet.</td></tr>
+                                ) : runs.map(run => (
+                                    <tr key={run.id} className="border-b border-gray-200 dark:border-gray-700 align-top" title={run.message}>
+                                        <td className="px-2 py-2 whitespace-nowrap">{formatTime(run.startedAt)}</td>
+                                        <td className="px-2 py-2">{TRIGGER_LABELS[run.trigger]}</td>
+                                        <td className={`px-2 py-2 ${run.success ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                            {run.success ? 'OK' : 'Failed'}
+                                            {!run.success && run.message && <div className="text-xs text-gray-500 dark:text-gray-400">{run.message}</div>}
+                                        </td>
+                                        <td className="px-2 py-2 text-right">{run.pushed}{run.rejected > 0 && <span className="text-red-600 dark:text-red-400"> ({run.rejected} rejected)</span>}</td>
+                                        <td className="px-2 py-2 text-right">{run.pulled}</td>
+                                        <td className="px-2 py-2 text-right">{run.deleted}</td>
+                                        <td className="px-2 py-2 text-right">{run.conflicts}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setIsHistoryOpen(false)} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 rounded-md">Close</button>
+                        <button onClick={handleSyncNow} disabled={isSyncing} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">
+                            {isSyncing ? 'Syncing...' : 'Sync Now'}
+                        </button>
+                    </div>
+                </div>
+            </Modal>
+        </>
+    );
+};
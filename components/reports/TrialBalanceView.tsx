@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from 'react';
+import { useLiveQuery } from "dexie-react-hooks";
+import { JournalEntry } from '../../types';
+import { db } from '../../utils/db';
+import { computeTrialBalance } from '../../utils/ledger';
+import { useSettings } from '../context/SettingsContext';
+
+// Balances of every ledger account as of a date. Each account's balance sits in the debit or
+// credit column; the columns total to the same amount when the books balance.
+export const TrialBalanceView: React.FC = () => {
+    const { workspaceId, formatCurrency } = useSettings();
+    const [asOfDate, setAsOfDate] = useState(''); // yyyy-mm-dd, empty for all entries
+
+    const entries = useLiveQuery<JournalEntry[]>(() => db.journalEntries.where('workspaceId').equals(workspaceId).toArray(), [workspaceId]) || [];
+
+    const trialBalance = useMemo(() => {
+        const asOf = asOfDate ? new Date(`${asOfDate}T23:59:59.999`) : undefined;
+        return computeTrialBalance(entries, asOf);
+    }, [entries, asOfDate]);
+
+    const isBalanced = trialBalance.totalDebit === trialBalance.totalCredit;
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md">
+            <div className="p-4">
+                <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+                    <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">Trial Balance</h2>
+                    <div className="flex items-center gap-2">
+                        <label htmlFor="trial-balance-as-of" className="text-sm text-gray-600 dark:text-gray-300">As of</label>
+                        <input
+                            id="trial-balance-as-of"
+                            type="date"
+                            value={asOfDate}
+                            onChange={e => setAsOfDate(e.target.value)}
+                            className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                    </div>
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {trialBalance.entryCount} journal entries.
+                    {trialBalance.unreadableEntries > 0 && ` ${trialBalance.unreadableEntries} entries could not be decrypted and are not included.`}
+                </p>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400 responsive-table">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                        <tr>
+                            <th scope="col" className="px-6 py-3">Code</th>
+                            <th scope="col" className="px-6 py-3">Account</th>
+                            <th scope="col" className="px-6 py-3 text-right">Debit</th>
+                            <th scope="col" className="px-6 py-3 text-right">Credit</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {trialBalance.rows.length === 0 ? (
+                            <tr><td colSpan={4} className="px-6 py-4 text-center">No entries posted yet.</td></tr>
+                        ) : trialBalance.rows.map(row => (
+                            <tr key={row.account.code}>
+                                <td data-label="Code" className="px-6 py-4 font-mono">{row.account.code}</td>
+                                <td data-label="Account" className="px-6 py-4 font-medium text-gray-900 dark:text-white">{row.account.name}</td>
+                                <td data-label="Debit" className="px-6 py-4 text-right">{row.balance > 0 ? formatCurrency(row.balance) : ''}</td>
+                                <td data-label="Credit" className="px-6 py-4 text-right">{row.balance < 0 ? formatCurrency(-row.balance) : ''}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot className="font-semibold text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700">
+                        <tr>
+                            <td colSpan={2} className="px-6 py-3">
+                                Total
+                                {isBalanced ?
+                                    <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">Balanced</span> :
+                                    <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">Out of Balance</span>
+                                }
+                            </td>
+                            <td className="px-6 py-3 text-right">{formatCurrency(trialBalance.totalDebit)}</td>
+                            <td className="px-6 py-3 text-right">{formatCurrency(trialBalance.totalCredit)}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+        </div>
+    );
+};
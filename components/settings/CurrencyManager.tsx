@@ -3,18 +3,22 @@ import { Currency } from '../../types';
 import { useSettings } from '../context/SettingsContext';
 import { PlusIcon, PencilIcon, TrashIcon } from '../Icons';
 import { Modal } from '../common/Modal';
+import { getCurrencyExponent } from '../../utils/money';
 
 const CurrencyForm: React.FC<{
     currency?: Currency | null;
+    isActive: boolean;
     onSubmit: (data: Currency) => void;
     onCancel: () => void;
     errorMessage: string;
-}> = ({ currency, onSubmit, onCancel, errorMessage }) => {
+}> = ({ currency, isActive, onSubmit, onCancel, errorMessage }) => {
     const [formData, setFormData] = useState({
         name: currency?.name || '',
         code: currency?.code || '',
         symbol: currency?.symbol || '',
     });
+    // Empty means the ISO 4217 default for the code
+    const [exponent, setExponent] = useState(currency?.exponent !== undefined ? String(currency.exponent) : '');
     const isEditMode = !!currency;
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -24,7 +28,7 @@ const CurrencyForm: React.FC<{
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        onSubmit(formData);
+        onSubmit(exponent === '' ? formData : { ...formData, exponent: parseInt(exponent, 10) });
     };
 
     return (
@@ -41,6 +45,11 @@ const CurrencyForm: React.FC<{
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Symbol</label>
                 <input type="text" name="symbol" value={formData.symbol} onChange={handleChange} required placeholder="e.g., $" className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700" />
             </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Decimal Places</label>
+                <input type="number" min={0} max={4} step={1} value={exponent} onChange={e => setExponent(e.target.value)} placeholder={`Default: ${getCurrencyExponent({ code: formData.code })}`} disabled={isActive} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 disabled:bg-gray-100 dark:disabled:bg-gray-600" />
+                {isActive && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Amounts are stored in this currency's minor unit, so its decimal places cannot be changed while it is active.</p>}
+            </div>
             {errorMessage && <p className="text-red-500 text-sm">{errorMessage}</p>}
             <div className="flex justify-end gap-2 pt-4">
                 <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md">Cancel</button>
@@ -95,6 +104,11 @@ export const CurrencyManager: React.FC = () => {
         }
     };
     
+    const handleSelect = async (code: string) => {
+        const result = await setCurrency(code);
+        if (!result.success) setFeedback({ type: 'error', text: result.message || 'An error occurred.' });
+    };
+
     const confirmDelete = () => {
         if (!deletingCurrency) return;
         const result = deleteCurrency(deletingCurrency.code);
@@ -114,14 +128,14 @@ export const CurrencyManager: React.FC = () => {
                     <PlusIcon /> Add New
                 </button>
             </div>
-            {feedback && feedback.type === 'error' && isDeleteModalOpen && <p className="px-4 pb-2 text-sm text-red-500">{feedback.text}</p>}
+            {feedback && feedback.type === 'error' && !isFormModalOpen && <p className="px-4 pb-2 text-sm text-red-500">{feedback.text}</p>}
 
             <div className="max-h-60 overflow-y-auto border-t border-gray-200 dark:border-gray-700">
                 {currencies.map(c => (
-                     <div key={c.code} onClick={() => setCurrency(c.code)} role="button" className={`p-4 border-b dark:border-gray-700 flex items-center gap-4 hover:bg-gray-50 dark:hover:bg-gray-900/50 ${c.code === currency ? 'bg-blue-50 dark:bg-blue-900/50' : ''}`}>
+                     <div key={c.code} onClick={() => handleSelect(c.code)} role="button" className={`p-4 border-b dark:border-gray-700 flex items-center gap-4 hover:bg-gray-50 dark:hover:bg-gray-900/50 ${c.code === currency ? 'bg-blue-50 dark:bg-blue-900/50' : ''}`}>
                          <div className="flex-grow">
                             <p className="font-semibold text-gray-900 dark:text-white">{c.name} ({c.symbol})</p>
-                            <p className="text-sm text-gray-500 dark:text-gray-400">{c.code}</p>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">{c.code} &middot; {getCurrencyExponent(c)} decimal places</p>
                         </div>
                         <div className="flex items-center gap-2" onClick={e => e.stopPropagation()}>
                             <button onClick={() => handleEditClick(c)} className="p-1.5 text-blue-500 hover:text-blue-700"><PencilIcon /></button>
@@ -138,7 +152,7 @@ export const CurrencyManager: React.FC = () => {
                 ))}
             </div>
             <Modal isOpen={isFormModalOpen} onClose={() => setIsFormModalOpen(false)} title={editingCurrency ? 'Edit Currency' : 'Add New Currency'} size="sm">
-                <CurrencyForm currency={editingCurrency} onSubmit={handleFormSubmit} onCancel={() => setIsFormModalOpen(false)} errorMessage={feedback?.text || ''}/>
+                <CurrencyForm currency={editingCurrency} isActive={editingCurrency?.code === currency} onSubmit={handleFormSubmit} onCancel={() => setIsFormModalOpen(false)} errorMessage={feedback?.text || ''}/>
             </Modal>
             <Modal isOpen={isDeleteModalOpen} onClose={() => setIsDeleteModalOpen(false)} title="Confirm Delete" size="sm">
                 {deletingCurrency && (
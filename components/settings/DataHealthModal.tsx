@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { Modal } from '../common/Modal';
+import { QuarantinedRecord } from '../../types';
+import { useSettings } from '../context/SettingsContext';
+import { useUIState } from '../context/UIStateContext';
+import { useAuth } from '../context/AuthContext';
+import { parseMoneyInput } from '../../utils/money';
+import {
+    scanEncryptedData, reenterFieldValue, recomputeFromLineItems, quarantineRecord, listQuarantinedRecords,
+    releaseQuarantinedRecord, discardQuarantinedRecord, getFieldInputKind, isRecomputableField,
+    DecryptionIssue, DecryptionIssueField, DecryptionScanResult, DecryptionScanProgress
+} from '../../utils/integrity';
+
+const TABLE_LABELS: Record<string, string> = {
+    products: 'Product',
+    sales: 'Sale',
+    customers: 'Customer',
+    suppliers: 'Supplier',
+    purchaseOrders: 'Purchase Order',
+    shifts: 'Shift',
+    inventoryAdjustments: 'Stock Adjustment',
+    heldOrders: 'Held Order',
+    journalEntries: 'Journal Entry',
+};
+
+const issueKey = (issue: DecryptionIssue) => `${issue.table}:${issue.recordId}`;
+const fieldKey = (issue: DecryptionIssue, field: DecryptionIssueField) => `${issueKey(issue)}:${field.path}:${field.entryIndex ?? ''}`;
+
+const FieldRepair: React.FC<{
+    issue: DecryptionIssue;
+    field: DecryptionIssueField;
+    disabled: boolean;
+    onSave: (value: any) => void;
+}> = ({ issue, field, disabled, onSave }) => {
+    const [input, setInput] = useState('');
+    const kind = getFieldInputKind(issue.table, field.path);
+    const { showToast } = useUIState();
+    const { currencyExponent } = useSettings();
+
+    const handleSave = () => {
+        if (kind === 'money') {
+            const value = parseMoneyInput(input, currencyExponent);
+            if (input.trim() === '' || value === null) { showToast('Enter a valid amount.', 'error'); return; }
+            onSave(value);
+        } else if (kind === 'number') {
+            const value = Number(input);
+            if (input.trim() === '' || isNaN(value)) { showToast('Enter a valid number.', 'error'); return; }
+            onSave(value);
+        } else {
+            onSave(input);
+        }
+    };
+
+    if (kind === 'history') {
+        return <button onClick={() => onSave([])} disabled={disabled} className="text-xs px-2 py-1 bg-gray-200 dark:bg-gray-600 rounded-md text-gray-900 dark:text-white disabled:opacity-50">Clear History</button>;
+    }
+
+    return (
+        <div className="flex items-center gap-2">
+            <input type={kind === 'text' ? 'text' : 'number'} value={input} onChange={e => setInput(e.target.value)} placeholder="New value" className="w-32 p-1 text-sm border rounded-md bg-white dark:bg-gray-700 dark:border-gray-600 text-gray-900 dark:text-white" />
+            <button onClick={handleSave} disabled={disabled} className="text-xs px-2 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">Save</button>
+        </div>
+    );
+};
+
+export const DataHealthModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+    const { workspaceId, includeTaxInProfit } = useSettings();
+    const { canDecrypt } = useAuth();
+    const { showToast } = useUIState();
+
+    const [scanResult, setScanResult] = useState<DecryptionScanResult | null>(null);
+    const [scanProgress, setScanProgress] = useState<DecryptionScanProgress | null>(null);
+    const [isScanning, setIsScanning] = useState(false);
+    const [busyKey, setBusyKey] = useState<string | null>(null);
+    const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+
+    const refreshQuarantined = async () => setQuarantined(await listQuarantinedRecords(workspaceId));
+
+    useEffect(() => {
+        if (isOpen) refreshQuarantined();
+    }, [isOpen, workspaceId]);
+
+    const handleScan = async () => {
+        setIsScanning(true);
+        try {
+            setScanResult(await scanEncryptedData(workspaceId, setScanProgress));
+        } catch (error) {
+            console.error('Decryption scan failed', error);
+            showToast('The scan could not be completed.', 'error');
+        } finally {
+            setIsScanning(false);
+            setScanProgress(null);
+        }
+    };
+
+    // Drops repaired fields from the report, and the record once nothing is left to repair
+    const markRepaired = (issue: DecryptionIssue, repaired: (field: DecryptionIssueField) => boolean) => {
+        setScanResult(prev => prev && {
+            ...prev,
+            issues: prev.issues
+                .map(i => issueKey(i) === issueKey(issue) ? { ...i, fields: i.fields.filter(f => !repaired(f)) } : i)
+                .filter(i => i.fields.length > 0)
+        });
+    };
+
+    const runRepair = async (key: string, repair: () => Promise<void>) => {
+        setBusyKey(key);
+        try {
+            await repair();
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Repair failed.', 'error');
+        } finally {
+            setBusyKey(null);
+        }
+    };
+
+    const handleReenter = (issue: DecryptionIssue, field: DecryptionIssueField, value: any) => runRepair(fieldKey(issue, field), async () => {
+        await reenterFieldValue(issue, field, value);
+        markRepaired(issue, f => f === field);
+        showToast('Value saved.', 'success');
+    });
+
+    const handleRecompute = (issue: DecryptionIssue) => runRepair(issueKey(issue), async () => {
+        const count = await recomputeFromLineItems(issue, { includeTaxInProfit });
+        markRepaired(issue, f => isRecomputableField(issue.table, f.path));
+        showToast(`Recomputed ${count} field(s) from line items.`, 'success');
+    });
+
+    const handleQuarantine = (issue: DecryptionIssue) => runRepair(issueKey(issue), async () => {
+        await quarantineRecord(issue);
+        markRepaired(issue, () => true);
+        await refreshQuarantined();
+        showToast('Record moved to quarantine.', 'success');
+    });
+
+    const handleRelease = (entry: QuarantinedRecord) => runRepair(entry.id, async () => {
+        await releaseQuarantinedRecord(entry.id);
+        await refreshQuarantined();
+        showToast('Record restored.', 'success');
+    });
+
+    const handleDiscard = (entry: QuarantinedRecord) => runRepair(entry.id, async () => {
+        await discardQuarantinedRecord(entry.id);
+        await refreshQuarantined();
+        showToast('Quarantined record discarded.', 'success');
+    });
+
+    const issues = scanResult?.issues || [];
+
+    return (
+        <Modal isOpen={isOpen} onClose={isScanning ? () => {} : onClose} title="Data Health" size="lg">
+            <div className="space-y-6">
+                <div className="flex items-start justify-between gap-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-300">
+                        Checks every encrypted record of this workspace for fields that cannot be decrypted with your keys.
+                        {(!canDecrypt('financial') || !canDecrypt('pii')) && ' Fields your role cannot decrypt are skipped.'}
+                    </p>
+                    <button onClick={handleScan} disabled={isScanning || !!busyKey} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap">
+                        {isScanning ? 'Scanning...' : scanResult ? 'Scan Again' : 'Start Scan'}
+                    </button>
+                </div>
+
+                {scanProgress && (
+                    <div>
+                        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                            <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${Math.round((scanProgress.tableIndex / scanProgress.tableCount) * 100)}%` }} />
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Checking {scanProgress.table} ({scanProgress.recordsScanned} records so far)</p>
+                    </div>
+                )}
+
+                {scanResult && !isScanning && (
+                    <div className="space-y-3">
+                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                            {scanResult.recordsScanned} records and {scanResult.fieldsChecked} fields checked
+                            {scanResult.fieldsSkipped > 0 && `, ${scanResult.fieldsSkipped} skipped`}.
+                            {issues.length === 0 ? ' No problems found.' : ` ${issues.length} record(s) need attention.`}
+                        </p>
+                        {issues.map(issue => (
+                            <div key={issueKey(issue)} className="p-3 border border-orange-200 dark:border-orange-900/50 rounded-lg bg-orange-50 dark:bg-orange-900/10">
+                                <div className="flex items-center justify-between gap-2">
+                                    <h4 className="font-semibold text-gray-900 dark:text-white">{TABLE_LABELS[issue.table] || issue.table} <span className="font-mono text-sm">{issue.label}</span></h4>
+                                    <div className="flex gap-2">
+                                        {issue.recomputable && (
+                                            <button onClick={() => handleRecompute(issue)} disabled={!!busyKey} className="text-xs px-2 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50">Recompute from Items</button>
+                                        )}
+                                        <button onClick={() => handleQuarantine(issue)} disabled={!!busyKey} className="text-xs px-2 py-1 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50">Quarantine</button>
+                                    </div>
+                                </div>
+                                <ul className="mt-2 space-y-2">
+                                    {issue.fields.map(field => (
+                                        <li key={fieldKey(issue, field)} className="flex items-center justify-between gap-4 text-sm">
+                                            <span className="text-gray-700 dark:text-gray-300">
+                                                <span className="font-mono">{field.path}</span>
+                                                {field.entryLabel && ` (${field.entryLabel})`}
+                                                <span className="text-orange-700 dark:text-orange-300"> &mdash; {field.problem === 'undecryptable' ? 'cannot be decrypted' : 'still encrypted after decryption'}</span>
+                                            </span>
+                                            <FieldRepair issue={issue} field={field} disabled={!!busyKey} onSave={value => handleReenter(issue, field, value)} />
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {quarantined.length > 0 && (
+                    <div className="border-t pt-4 dark:border-gray-700">
+                        <h3 className="text-lg font-semibold text-gray-800 dark:text-white">Quarantine</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">These records are hidden from the app. Restore them once the right key is available (e.g. after Emergency Key Repair), or discard them.</p>
+                        <ul className="mt-3 space-y-2">
+                            {quarantined.map(entry => (
+                                <li key={entry.id} className="flex items-center justify-between gap-4 text-sm">
+                                    <span className="text-gray-700 dark:text-gray-300">
+                                        {TABLE_LABELS[entry.table] || entry.table} <span className="font-mono">{entry.row?.publicId || entry.recordId}</span>
+                                        <span className="block text-xs text-gray-500 dark:text-gray-400">{new Date(entry.quarantinedAt).toLocaleString()}: {entry.reason}</span>
+                                    </span>
+                                    <div className="flex gap-2">
+                                        <button onClick={() => handleRelease(entry)} disabled={!!busyKey} className="text-xs px-2 py-1 bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 rounded-md disabled:opacity-50">Restore</button>
+                                        <button onClick={() => handleDiscard(entry)} disabled={!!busyKey} className="text-xs px-2 py-1 bg-gray-200 dark:bg-gray-600 rounded-md text-gray-900 dark:text-white disabled:opacity-50">Discard</button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
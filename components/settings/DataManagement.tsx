@@ -1,15 +1,50 @@
 
-import React, { useState, useRef, useMemo } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { Modal } from '../common/Modal';
-import { ExportIcon, ImportIcon, DangerIcon, ShieldCheckIcon, CheckCircleIcon, ClipboardIcon, EyeIcon } from '../Icons';
-import { Product, Sale, PruneTarget } from '../../types';
+import { ExportIcon, ImportIcon, DangerIcon, ShieldCheckIcon, CheckCircleIcon, ClipboardIcon, EyeIcon, BugIcon } from '../Icons';
+import { Product, Sale, PruneTarget, UserRole, Currency } from '../../types';
 import { Dropdown } from '../common/Dropdown';
+import { DataHealthModal } from './DataHealthModal';
 import { useAuth } from '../context/AuthContext';
 import { useProducts } from '../context/ProductContext';
 import { useSales } from '../context/SalesContext';
 import { useSettings } from '../context/SettingsContext';
 import { useUIState } from '../context/UIStateContext';
-import { db } from '../../utils/db'; // Direct DB access for full backup
+import { db, DB_NAME } from '../../utils/db'; // Direct DB access for full backup
+import { InventoryService } from '../../services/InventoryService';
+import { listMigrationFailures, MigrationFailure, MigrationHistoryEntry } from '../../utils/migrations';
+import { KeyRotationProgress, KeyRotationState } from '../../utils/keyRotation';
+import { recordAuditEvent } from '../../utils/audit';
+import { MAX_SHARES, RecoveryShareError, splitRecoveryKey } from '../../utils/shamir';
+import { RecoveryShareCards } from './RecoveryShareCards';
+import { MONEY_FIELDS, mapMoneyFields, convertMoneyValue, getCurrencyExponent, parseMoneyInput, toMoneyInput } from '../../utils/money';
+
+// Backups before 3.0 hold amounts in major units
+const MINOR_UNITS_BACKUP_VERSION = 3;
+
+/**
+ * Converts the amounts of a pre-3.0 backup to minor units, and pins the exponent they were
+ * converted with on its active currency (as the money-minor-units migration does).
+ */
+const upgradeLegacyBackup = (backupData: any) => {
+    const settings = backupData.settings || {};
+    const currencies: Currency[] = settings.currencies || [];
+    const active = currencies.find(c => c.code === settings.currency) || { code: settings.currency || 'USD' };
+    const exponent = settings.isIntegerCurrency ? 0 : getCurrencyExponent(active);
+
+    const { isIntegerCurrency, ...rest } = settings;
+    const upgradedSettings = {
+        ...rest,
+        ...(settings.currencies && { currencies: currencies.map(c => c.code === active.code ? { ...c, exponent } : c) }),
+        ...(settings.discountThreshold !== undefined && { discountThreshold: convertMoneyValue(settings.discountThreshold, exponent) })
+    };
+
+    const tables: Record<string, any[]> = { ...backupData.tables };
+    for (const tableName of Object.keys(MONEY_FIELDS)) {
+        if (tables[tableName]) tables[tableName] = tables[tableName].map(row => mapMoneyFields(tableName, row, value => convertMoneyValue(value, exponent)));
+    }
+    return { ...backupData, settings: upgradedSettings, tables };
+};
 
 const StatusCheckbox: React.FC<{
     label: string;
@@ -28,12 +63,12 @@ const StatusCheckbox: React.FC<{
 );
 
 export const DataManagement: React.FC = () => {
-    const { currentUser, getDecryptedKey, recoverAccount, verifyUserPassword } = useAuth();
+    const { currentUser, currentWorkspace, roles, can, getDecryptedKey, recoverAccount, verifyUserPassword, rotateEncryptionKey, getPendingKeyRotation } = useAuth();
     const { products, importProducts, factoryReset: productReset } = useProducts();
     const { sales, clearSales, factoryReset: salesReset, pruneData: pruneSalesData } = useSales();
     const { 
-        workspaceId, workspaceName, itemsPerPage, currency, currencies, currencyDisplay, isIntegerCurrency, isTaxEnabled, taxRate, isDiscountEnabled,
-        discountRate, discountThreshold, cashierPermissions, restoreBackup: restoreSettings, timezoneOffsetMinutes, storeAddress, storePhone, receiptFooter
+        workspaceId, workspaceName, itemsPerPage, currency, currencies, currencyDisplay, currencyExponent, isTaxEnabled, taxRate, isDiscountEnabled,
+        discountRate, discountThreshold, discountApprovalRate, restoreBackup: restoreSettings, timezoneOffsetMinutes, storeAddress, storePhone, receiptFooter, autoLockMinutes
     } = useSettings();
     const { factoryReset: uiReset, pruneData: pruneUiData, showToast } = useUIState();
     
@@ -41,6 +76,7 @@ export const DataManagement: React.FC = () => {
     const [isBackupRestoreOpen, setIsBackupRestoreOpen] = useState(false);
     const [isDangerZoneOpen, setIsDangerZoneOpen] = useState(false);
     const [isSecurityOpen, setIsSecurityOpen] = useState(false);
+    const [isDataHealthOpen, setIsDataHealthOpen] = useState(false);
     
     // State for Import/Export Modal
     const [activeImpExpTab, setActiveImpExpTab] = useState<'export' | 'import'>('export');
@@ -51,13 +87,22 @@ export const DataManagement: React.FC = () => {
     const [backupFile, setBackupFile] = useState<File | null>(null);
     const [restorePassword, setRestorePassword] = useState('');
     const backupFileInputRef = useRef<HTMLInputElement>(null);
+    const [migrationHistory, setMigrationHistory] = useState<MigrationHistoryEntry[]>([]);
+    const [migrationFailures, setMigrationFailures] = useState<MigrationFailure[]>([]);
 
     // State for Security (View Key / Recovery)
-    const [securityAction, setSecurityAction] = useState<'viewKey' | 'repairKey' | null>(null);
+    const [securityAction, setSecurityAction] = useState<'viewKey' | 'splitKey' | 'repairKey' | 'rotateKey' | null>(null);
     const [securityPassword, setSecurityPassword] = useState('');
     const [revealedKey, setRevealedKey] = useState<string | null>(null);
     const [copiedKey, setCopiedKey] = useState(false);
     const [repairKeyInput, setRepairKeyInput] = useState('');
+    const [pendingRotation, setPendingRotation] = useState<KeyRotationState | undefined>();
+    const [rotationProgress, setRotationProgress] = useState<KeyRotationProgress | null>(null);
+    const [isRotating, setIsRotating] = useState(false);
+    const [temporaryPasswords, setTemporaryPasswords] = useState<{ username: string, password: string }[] | null>(null);
+    const [shareTotal, setShareTotal] = useState(3);
+    const [shareThreshold, setShareThreshold] = useState(2);
+    const [recoveryShares, setRecoveryShares] = useState<string[] | null>(null);
 
     // State for Danger Zone
     const [dangerAction, setDangerAction] = useState<'clearSales' | 'factoryReset' | 'pruneData' | null>(null);
@@ -74,6 +119,19 @@ export const DataManagement: React.FC = () => {
     const [pruneDays, setPruneDays] = useState<number>(90);
     const [pruneStatuses, setPruneStatuses] = useState<NonNullable<Sale['status']>[]>([]);
 
+    // Check for an interrupted key rotation when the security modal opens
+    useEffect(() => {
+        if (!isSecurityOpen) return;
+        getPendingKeyRotation().then(setPendingRotation);
+    }, [isSecurityOpen, getPendingKeyRotation]);
+
+    // Load schema migration history when the backup modal opens
+    useEffect(() => {
+        if (!isBackupRestoreOpen) return;
+        db.migrationHistory.orderBy('version').toArray().then(setMigrationHistory).catch(e => console.error("Failed to load migration history", e));
+        listMigrationFailures(DB_NAME).then(setMigrationFailures).catch(e => console.error("Failed to load migration failures", e));
+    }, [isBackupRestoreOpen]);
+
     const handleClearStatusChange = (status: NonNullable<Sale['status']>, checked: boolean) => {
         setClearSaleStatuses(prev => checked ? [...prev, status] : prev.filter(s => s !== status));
     };
@@ -99,11 +157,13 @@ export const DataManagement: React.FC = () => {
         let headers: string[], rows: string[];
         if (type === 'sales') {
             headers = ['sale_id', 'sale_date', 'sale_type', 'payment_type', 'sale_status', 'original_sale_id', 'sale_subtotal', 'sale_tax', 'sale_total', 'item_sku', 'item_name', 'item_quantity', 'item_retail_price', 'item_returned_quantity'];
-            const flattenedData = data.flatMap((sale: Sale) => sale.items.map(item => ({ sale_id: sale.id, sale_date: sale.date, sale_type: sale.type, payment_type: sale.payments.map(p => p.type).join('/'), sale_status: sale.status || '', original_sale_id: sale.originalSaleId || '', sale_subtotal: sale.subtotal, sale_tax: sale.tax, sale_total: sale.total, item_sku: item.sku, item_name: item.name, item_quantity: item.quantity, item_retail_price: item.retailPrice, item_returned_quantity: item.returnedQuantity || 0 })));
+            const flattenedData = data.flatMap((sale: Sale) => sale.items.map(item => ({ sale_id: sale.id, sale_date: sale.date, sale_type: sale.type, payment_type: sale.payments.map(p => p.type).join('/'), sale_status: sale.status || '', original_sale_id: sale.originalSaleId || '', sale_subtotal: toMoneyInput(sale.subtotal, currencyExponent), sale_tax: toMoneyInput(sale.tax, currencyExponent), sale_total: toMoneyInput(sale.total, currencyExponent), item_sku: item.sku, item_name: item.name, item_quantity: item.quantity, item_retail_price: toMoneyInput(item.retailPrice, currencyExponent), item_returned_quantity: item.returnedQuantity || 0 })));
             rows = flattenedData.map(row => headers.map(header => { let value = (row as any)[header]; return (typeof value === 'string' && value.includes(',')) ? `"${value}"` : value; }).join(','));
         } else {
+            // Prices are exported in major units, as the import expects them
             headers = Object.keys(data[0]);
-            rows = data.map(row => headers.map(header => { let value = (row as any)[header]; return (typeof value === 'string' && value.includes(',')) ? `"${value}"` : value; }).join(','));
+            const priceRows = data.map((product: Product) => ({ ...product, retailPrice: toMoneyInput(product.retailPrice, currencyExponent), costPrice: toMoneyInput(product.costPrice, currencyExponent) }));
+            rows = priceRows.map(row => headers.map(header => { let value = (row as any)[header]; return (typeof value === 'string' && value.includes(',')) ? `"${value}"` : value; }).join(','));
         }
         return [headers.join(','), ...rows].join('\n');
     };
@@ -140,7 +200,7 @@ export const DataManagement: React.FC = () => {
                 const values = rows[i].trim().split(',');
                 const productData: any = {};
                 header.forEach((h, index) => productData[h] = values[index]);
-                newProducts.push({ sku: productData.sku, name: productData.name, retailPrice: parseFloat(productData.retailPrice), costPrice: parseFloat(productData.costPrice), stock: parseInt(productData.stock, 10), lowStockThreshold: parseInt(productData.lowStockThreshold, 10), priceHistory: [], categoryIds: [], variationTypes: [], variants: [] });
+                newProducts.push({ sku: productData.sku, name: productData.name, retailPrice: parseMoneyInput(productData.retailPrice, currencyExponent) ?? NaN, costPrice: parseMoneyInput(productData.costPrice, currencyExponent) ?? NaN, stock: parseInt(productData.stock, 10), lowStockThreshold: parseInt(productData.lowStockThreshold, 10), priceHistory: [], categoryIds: [], variationTypes: [], variants: [] });
             }
             const result = importProducts(newProducts);
             showToast(result.message, result.success ? 'success' : 'error');
@@ -152,7 +212,7 @@ export const DataManagement: React.FC = () => {
         try {
             // Gather data from Dexie tables, explicitly filtering by workspaceId
             const allTables: Record<string, any[]> = {};
-            const tableNames = ['products', 'sales', 'customers', 'purchaseOrders', 'suppliers', 'users', 'shifts', 'heldOrders', 'categories', 'inventoryAdjustments', 'notifications'];
+            const tableNames = ['products', 'sales', 'customers', 'purchaseOrders', 'suppliers', 'users', 'shifts', 'heldOrders', 'categories', 'inventoryAdjustments', 'notifications', 'journalEntries'];
             
             for (const tableName of tableNames) {
                 // IMPORTANT: Filter by workspaceId to only backup the current business's data
@@ -161,15 +221,15 @@ export const DataManagement: React.FC = () => {
 
             const backupData = { 
                 metadata: {
-                    version: "2.0", // Bumped version for workspace support
+                    version: "3.0", // Amounts in minor units
                     timestamp: new Date().toISOString(),
                     workspaceName,
                     workspaceId
                 },
                 settings: {
-                    itemsPerPage, currency, currencies, currencyDisplay, isIntegerCurrency, 
-                    isTaxEnabled, taxRate, isDiscountEnabled, discountRate, discountThreshold, 
-                    cashierPermissions, theme: 'system', timezoneOffsetMinutes, storeAddress, storePhone, receiptFooter
+                    itemsPerPage, currency, currencies, currencyDisplay, 
+                    isTaxEnabled, taxRate, isDiscountEnabled, discountRate, discountThreshold, discountApprovalRate,
+                    roles: roles.filter(role => role.id !== UserRole.Admin), theme: 'system', timezoneOffsetMinutes, storeAddress, storePhone, receiptFooter, autoLockMinutes
                 },
                 tables: allTables
             };
@@ -195,7 +255,10 @@ export const DataManagement: React.FC = () => {
         
         try {
             const fileContent = await backupFile.text();
-            const backupData = JSON.parse(fileContent);
+            let backupData = JSON.parse(fileContent);
+            if (!(parseFloat(backupData.metadata?.version) >= MINOR_UNITS_BACKUP_VERSION)) {
+                backupData = upgradeLegacyBackup(backupData);
+            }
             
             // 1. Restore Settings (State)
             if (backupData.settings) {
@@ -208,6 +271,8 @@ export const DataManagement: React.FC = () => {
                     const tablesToRestore = Object.keys(backupData.tables);
                     
                     for (const tableName of tablesToRestore) {
+                        // The audit log outlives restores (it records them), so a backup file never replaces it
+                        if (tableName === 'auditLog') continue;
                         if ((db as any)[tableName]) { // Check if table exists in schema
                             // CRITICAL: Delete ONLY current workspace data
                             await (db as any).table(tableName).where('workspaceId').equals(workspaceId).delete();
@@ -228,7 +293,10 @@ export const DataManagement: React.FC = () => {
                         }
                     }
                 });
+                // Backups from before the stock ledger hold stock that no movement explains
+                await new InventoryService(db, workspaceId).addOpeningBalances();
             }
+            await recordAuditEvent(workspaceId, currentUser!, 'backupRestore', `Restored ${backupFile.name} (backup of ${backupData.metadata?.workspaceName || 'an unknown workspace'} taken ${backupData.metadata?.timestamp || 'at an unknown time'})`);
 
             showToast('Database restored successfully. Reloading...', 'success');
             setTimeout(() => window.location.reload(), 2000);
@@ -249,6 +317,18 @@ export const DataManagement: React.FC = () => {
         }
     };
 
+    const handleSplitRecoveryKey = async () => {
+        if (!securityPassword) { showToast('Password required.', 'error'); return; }
+        const key = await getDecryptedKey(securityPassword);
+        if (!key) { showToast('Incorrect password or key not found.', 'error'); return; }
+        try {
+            setRecoveryShares(await splitRecoveryKey(key, shareTotal, shareThreshold));
+            setSecurityPassword('');
+        } catch (e) {
+            showToast(e instanceof RecoveryShareError ? e.message : 'Failed to split the recovery key.', 'error');
+        }
+    };
+
     const handleCopyKey = () => {
         if (revealedKey) {
             navigator.clipboard.writeText(revealedKey);
@@ -275,12 +355,39 @@ export const DataManagement: React.FC = () => {
         }
     };
 
+    const handleRotateKey = async () => {
+        if (!securityPassword) { showToast('Password required.', 'error'); return; }
+
+        setIsRotating(true);
+        const result = await rotateEncryptionKey(securityPassword, setRotationProgress);
+        setIsRotating(false);
+        setRotationProgress(null);
+        setSecurityPassword('');
+
+        if (result.success) {
+            setPendingRotation(undefined);
+            setRevealedKey(result.recoveryKey || null);
+            setTemporaryPasswords(result.temporaryPasswords || []);
+            if (result.unreadableFields) {
+                showToast(`Key rotated. ${result.unreadableFields} field(s) could not be decrypted and were left unchanged.`, 'error');
+            } else {
+                showToast('Encryption key rotated successfully.', 'success');
+            }
+        } else {
+            setPendingRotation(await getPendingKeyRotation());
+            showToast(result.message || 'Key rotation failed.', 'error');
+        }
+    };
+
     const closeSecurityModal = () => {
+        if (isRotating) return; // Keep the progress visible until re-encryption settles
         setIsSecurityOpen(false);
         setSecurityAction(null);
         setSecurityPassword('');
         setRevealedKey(null);
         setRepairKeyInput('');
+        setTemporaryPasswords(null);
+        setRecoveryShares(null);
     }
 
     const dangerDetails = useMemo(() => {
@@ -318,17 +425,25 @@ export const DataManagement: React.FC = () => {
         }
         
         if (dangerAction === 'clearSales') { 
-            clearSales(allClearStatusesSelected ? undefined : { statuses: clearSaleStatuses });
+            try {
+                await clearSales(allClearStatusesSelected ? undefined : { statuses: clearSaleStatuses });
+            } catch (e: any) {
+                setDangerError(e.message || 'Failed to clear sales data.');
+                return;
+            }
+            recordAuditEvent(workspaceId, currentUser!, 'prune', `Cleared ${allClearStatusesSelected ? 'all sales' : `sales with status ${clearSaleStatuses.join(', ')}`}`);
             showToast(`Successfully cleared sales data${allClearStatusesSelected ? '' : ' for selected statuses'}.`, 'success');
         }
         if (dangerAction === 'factoryReset') { 
             factoryReset();
+            recordAuditEvent(workspaceId, currentUser!, 'prune', 'Factory reset');
             showToast('Factory reset completed successfully.', 'success');
             setIsDangerZoneOpen(false); // Close main menu on full reset
         }
         if (dangerAction === 'pruneData') {
             // Await the async pruneData result
             const result = await pruneData(pruneTarget, { days: pruneDays, statuses: pruneTarget === 'sales' ? pruneStatuses : undefined });
+            if (result.success) recordAuditEvent(workspaceId, currentUser!, 'prune', `Pruned ${pruneTarget} older than ${pruneDays} days: ${result.message}`);
             showToast(result.message, result.success ? 'success' : 'error');
         }
 
@@ -376,8 +491,20 @@ export const DataManagement: React.FC = () => {
                         </div>
                     </div>
                 </button>
+                <button onClick={() => setIsDataHealthOpen(true)} className={buttonStyle}>
+                    <div className="flex items-center gap-4">
+                        <div className="p-3 bg-orange-100 dark:bg-orange-900/50 rounded-lg">
+                            <BugIcon className="h-6 w-6 text-orange-600 dark:text-orange-400" />
+                        </div>
+                        <div>
+                            <h3 className="font-semibold text-lg text-gray-800 dark:text-gray-100">Data Health</h3>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">Find and repair records that fail to decrypt.</p>
+                        </div>
+                    </div>
+                </button>
             </div>
 
+            {(can('pruneData') || currentUser?.role === UserRole.Admin) && (
             <div className="mt-4 p-4 border border-red-300 dark:border-red-700 rounded-lg bg-red-50 dark:bg-red-900/20">
               <div className="flex items-start gap-4">
                 <DangerIcon className="h-6 w-6 text-red-500 flex-shrink-0 mt-1" />
@@ -392,6 +519,7 @@ export const DataManagement: React.FC = () => {
                 </div>
               </div>
             </div>
+            )}
 
             {/* Import/Export Modal */}
             <Modal isOpen={isImportExportOpen} onClose={() => setIsImportExportOpen(false)} title="Import / Export Data (CSV)" size="md">
@@ -436,6 +564,27 @@ export const DataManagement: React.FC = () => {
                             <div className="flex justify-end pt-2"><button onClick={handleRestoreBackup} disabled={!backupFile || !restorePassword} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400">Restore Data</button></div>
                         </div>
                     </div>
+                    <div className="border-t pt-6 dark:border-gray-700">
+                        <h3 className="text-lg font-semibold text-gray-800 dark:text-white">Database Schema</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">Current version: <strong>v{db.verno}</strong>. A snapshot is taken automatically before every upgrade.</p>
+                        {migrationHistory.length > 0 && (
+                            <ul className="mt-3 space-y-1 text-sm">
+                                {migrationHistory.map(m => (
+                                    <li key={m.id} className="flex justify-between gap-4 text-gray-700 dark:text-gray-300">
+                                        <span><span className="font-mono text-xs">v{m.version}</span> {m.description}</span>
+                                        <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{new Date(m.appliedAt).toLocaleDateString()}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        {migrationFailures.length > 0 && (
+                            <div className="mt-3 p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300 space-y-1">
+                                {migrationFailures.map(f => (
+                                    <p key={f.id}>{new Date(f.failedAt).toLocaleString()}: v{f.fromVersion} &rarr; v{f.toVersion} failed{f.restored ? ' (restored from snapshot)' : ''}. {f.message}</p>
+                                ))}
+                            </div>
+                        )}
+                    </div>
                 </div>
             </Modal>
 
@@ -448,11 +597,32 @@ export const DataManagement: React.FC = () => {
                             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-3">Reveal the raw recovery key. You can use this to reset your password if forgotten.</p>
                             <button onClick={() => setSecurityAction('viewKey')} className="px-4 py-2 bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 rounded-md hover:bg-blue-200 dark:hover:bg-blue-900/50">Reveal Key</button>
                         </div>
+                        {currentUser?.role === UserRole.Admin && currentUser.id !== 'guest' && (
+                            <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+                                <h4 className="font-semibold text-gray-900 dark:text-white">Split Recovery Key</h4>
+                                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-3">Print the recovery key as shares for several keepers, such as co-owners and your accountant. Any chosen number of them recover the account together; fewer reveal nothing.</p>
+                                <button onClick={() => setSecurityAction('splitKey')} className="px-4 py-2 bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 rounded-md hover:bg-blue-200 dark:hover:bg-blue-900/50">Split Key</button>
+                            </div>
+                        )}
                         <div className="p-4 border border-orange-200 dark:border-orange-900/50 rounded-lg bg-orange-50 dark:bg-orange-900/10">
                             <h4 className="font-semibold text-orange-900 dark:text-orange-200">Emergency Key Repair</h4>
                             <p className="text-sm text-orange-800 dark:text-orange-300 mt-1 mb-3">If your data appears encrypted/garbled even when logged in, re-enter your recovery key here to fix access.</p>
                             <button onClick={() => setSecurityAction('repairKey')} className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700">Repair Access</button>
                         </div>
+                        {currentUser?.role === UserRole.Admin && currentUser.id !== 'guest' && (
+                            <div className="p-4 border border-red-200 dark:border-red-900/50 rounded-lg bg-red-50 dark:bg-red-900/10">
+                                <h4 className="font-semibold text-red-900 dark:text-red-200">Rotate Encryption Key</h4>
+                                {pendingRotation ? (
+                                    <p className="text-sm text-red-800 dark:text-red-300 mt-1 mb-3">A key rotation started on {new Date(pendingRotation.startedAt).toLocaleString()} was interrupted after {pendingRotation.processed} records. Some data may be unreadable until it is resumed.</p>
+                                ) : (
+                                    <p className="text-sm text-red-800 dark:text-red-300 mt-1 mb-3">Replace the data key after a staff member leaves or a recovery key leaks. All encrypted data is re-encrypted, and every other user receives a temporary password.</p>
+                                )}
+                                {!pendingRotation && !currentUser.encryptedClassKeys && (
+                                    <p className="text-sm font-medium text-red-800 dark:text-red-300 mb-3">This workspace predates restricted keys: every user can decrypt cost and profit. Rotating the key restricts them to administrators.</p>
+                                )}
+                                <button onClick={() => setSecurityAction('rotateKey')} className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700">{pendingRotation ? 'Resume Rotation' : 'Rotate Key'}</button>
+                            </div>
+                        )}
                     </div>
                 ) : securityAction === 'viewKey' ? (
                     <div className="space-y-4">
@@ -480,6 +650,87 @@ export const DataManagement: React.FC = () => {
                             </>
                         )}
                     </div>
+                ) : securityAction === 'splitKey' ? (
+                    <div className="space-y-4">
+                        {!recoveryShares ? (
+                            <>
+                                <div className="flex gap-4">
+                                    <div className="flex-1">
+                                        <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">Shares</label>
+                                        <input type="number" min={2} max={MAX_SHARES} value={shareTotal} onChange={e => setShareTotal(Number(e.target.value))} className="w-full p-2 border rounded-md bg-white dark:bg-gray-700 dark:border-gray-600 text-gray-900 dark:text-white" />
+                                    </div>
+                                    <div className="flex-1">
+                                        <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">Needed to Recover</label>
+                                        <input type="number" min={2} max={shareTotal} value={shareThreshold} onChange={e => setShareThreshold(Number(e.target.value))} className="w-full p-2 border rounded-md bg-white dark:bg-gray-700 dark:border-gray-600 text-gray-900 dark:text-white" />
+                                    </div>
+                                </div>
+                                <p className="text-sm text-gray-600 dark:text-gray-300">Enter your current password to split the recovery key.</p>
+                                <input type="password" value={securityPassword} onChange={e => setSecurityPassword(e.target.value)} className="w-full p-2 border rounded-md bg-white dark:bg-gray-700 dark:border-gray-600 text-gray-900 dark:text-white" placeholder="Password" />
+                                <div className="flex justify-end gap-2">
+                                    <button onClick={closeSecurityModal} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 rounded-md text-gray-900 dark:text-white">Cancel</button>
+                                    <button onClick={handleSplitRecoveryKey} className="px-4 py-2 bg-blue-600 text-white rounded-md">Split</button>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <p className="text-sm font-bold text-red-600 dark:text-red-400">Print the cards now and give each keeper one. They are not stored anywhere.</p>
+                                <p className="text-sm text-gray-600 dark:text-gray-300">Rotating the encryption key makes these shares useless; split the new key then.</p>
+                                <RecoveryShareCards shares={recoveryShares} workspaceName={currentWorkspace?.name || ''} storeCode={currentWorkspace?.alias} />
+                                <div className="flex justify-end gap-2 no-print">
+                                    <button onClick={() => window.print()} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-900 dark:text-white rounded-md hover:bg-gray-300 dark:hover:bg-gray-500">Print</button>
+                                    <button onClick={closeSecurityModal} className="px-4 py-2 bg-blue-600 text-white rounded-md">Done</button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                ) : securityAction === 'rotateKey' ? (
+                    <div className="space-y-4">
+                        {!revealedKey ? (
+                            <>
+                                <p className="text-sm text-gray-600 dark:text-gray-300">
+                                    {pendingRotation && pendingRotation.startedByUserId !== currentUser?.id
+                                        ? 'This rotation was started by another administrator and can only be resumed by them.'
+                                        : 'Close other tabs of this app before continuing. Enter your current password to start. If the rotation is interrupted, it resumes from where it stopped.'}
+                                </p>
+                                <input type="password" value={securityPassword} onChange={e => setSecurityPassword(e.target.value)} disabled={isRotating} className="w-full p-2 border rounded-md bg-white dark:bg-gray-700 dark:border-gray-600 text-gray-900 dark:text-white" placeholder="Password" />
+                                {rotationProgress && (
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        Re-encrypting {rotationProgress.table} ({rotationProgress.tableIndex + 1}/{rotationProgress.tableCount}) - {rotationProgress.processed} records done
+                                    </p>
+                                )}
+                                <div className="flex justify-end gap-2">
+                                    <button onClick={closeSecurityModal} disabled={isRotating} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 rounded-md text-gray-900 dark:text-white disabled:opacity-50">Cancel</button>
+                                    <button onClick={handleRotateKey} disabled={isRotating} className="px-4 py-2 bg-red-600 text-white rounded-md disabled:opacity-50">{isRotating ? 'Rotating...' : pendingRotation ? 'Resume' : 'Rotate'}</button>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <p className="text-sm font-bold text-red-600 dark:text-red-400">Your previous recovery key no longer works. Save this new one now.</p>
+                                <div className="relative">
+                                    <textarea readOnly value={revealedKey} className="w-full h-24 p-3 rounded-md bg-gray-100 dark:bg-gray-700 font-mono text-xs break-all text-gray-900 dark:text-gray-200" />
+                                    <button onClick={handleCopyKey} className="absolute top-2 right-2 p-1 bg-white dark:bg-gray-600 rounded shadow-sm">
+                                        {copiedKey ? <CheckCircleIcon className="w-4 h-4 text-green-500" /> : <ClipboardIcon className="w-4 h-4 text-gray-500" />}
+                                    </button>
+                                </div>
+                                {temporaryPasswords && temporaryPasswords.length > 0 && (
+                                    <div>
+                                        <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">Other users must sign in with these temporary passwords and then change them:</p>
+                                        <ul className="text-sm divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+                                            {temporaryPasswords.map(entry => (
+                                                <li key={entry.username} className="flex justify-between px-3 py-2 text-gray-900 dark:text-white">
+                                                    <span>{entry.username}</span>
+                                                    <span className="font-mono">{entry.password}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
+                                <div className="flex justify-end">
+                                    <button onClick={closeSecurityModal} className="px-4 py-2 bg-blue-600 text-white rounded-md">Done</button>
+                                </div>
+                            </>
+                        )}
+                    </div>
                 ) : (
                     <div className="space-y-4">
                         <p className="text-sm text-gray-600 dark:text-gray-300">Enter your saved Recovery Key to restore access to the database for this user.</p>
@@ -499,9 +750,12 @@ export const DataManagement: React.FC = () => {
                 )}
             </Modal>
 
+            <DataHealthModal isOpen={isDataHealthOpen} onClose={() => setIsDataHealthOpen(false)} />
+
             {/* Danger Zone Menu Modal */}
             <Modal isOpen={isDangerZoneOpen} onClose={closeDangerZoneMenu} title="Danger Zone" size="lg">
                 <div className="py-6 space-y-6">
+                    {can('pruneData') && <>
                     <div className="p-4 border border-red-200 dark:border-red-900/50 rounded-lg">
                         <h3 className="font-semibold text-red-700 dark:text-red-300">Prune Old Data</h3>
                         <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">Permanently delete old records to reduce data size.</p>
@@ -512,11 +766,14 @@ export const DataManagement: React.FC = () => {
                         <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">Permanently delete sales records. Stock levels will NOT be changed.</p>
                         <button onClick={() => setDangerAction('clearSales')} className="mt-2 text-sm font-medium px-4 py-2 bg-red-50 hover:bg-red-100 text-red-700 border border-red-200 rounded-md">Clear Sales...</button>
                     </div>
+                    </>}
+                    {currentUser?.role === UserRole.Admin && (
                     <div className="p-4 border border-red-200 dark:border-red-900/50 rounded-lg">
                         <h3 className="font-semibold text-red-700 dark:text-red-300">Factory Reset</h3>
                         <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">Delete all products, sales, and cashier accounts for this workspace.</p>
                         <button onClick={() => setDangerAction('factoryReset')} className="mt-2 text-sm font-medium px-4 py-2 bg-red-50 hover:bg-red-100 text-red-700 border border-red-200 rounded-md">Factory Reset...</button>
                     </div>
+                    )}
                 </div>
             </Modal>
             
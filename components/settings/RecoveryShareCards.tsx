@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+
+declare var qrcode: any;
+
+// The share as a QR code image, or null when the QR library could not be loaded (offline before it was cached)
+const shareQrDataUrl = (share: string): string | null => {
+    if (typeof qrcode === 'undefined') return null;
+    const qr = qrcode(0, 'M');
+    qr.addData(share);
+    qr.make();
+    return qr.createDataURL(4, 2);
+};
+
+// The heading fields of a share as written by splitRecoveryKey (utils/shamir.ts)
+const describeShare = (share: string) => {
+    const [, setId, threshold, total, index] = share.split('.');
+    return { setId, threshold, total, index };
+};
+
+/**
+ * One printable card per recovery share, with the share as a QR code and as text to type in
+ * when there is nothing to scan it with.
+ */
+export const RecoveryShareCards: React.FC<{ shares: string[]; workspaceName: string; storeCode?: string }> = ({ shares, workspaceName, storeCode }) => {
+    const cards = useMemo(() => shares.map(share => ({ share, qr: shareQrDataUrl(share), ...describeShare(share) })), [shares]);
+
+    return (
+        <div className="printable-area grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {cards.map(card => (
+                <div key={card.index} className="p-4 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg break-inside-avoid text-gray-900 dark:text-gray-100">
+                    <p className="font-bold">Recovery Share {card.index} of {card.total}</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">{workspaceName}{storeCode ? ` (${storeCode})` : ''} - set {card.setId}</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">Any {card.threshold} shares of this set rebuild the recovery key. This card alone reveals nothing.</p>
+                    {card.qr ? (
+                        <img src={card.qr} alt={`Recovery share ${card.index}`} className="mx-auto my-2 bg-white p-1" />
+                    ) : (
+                        <p className="text-xs text-orange-600 dark:text-orange-400 my-2">QR code unavailable offline. Keep the text below.</p>
+                    )}
+                    <p className="font-mono text-[10px] leading-tight break-all">{card.share}</p>
+                </div>
+            ))}
+        </div>
+    );
+};
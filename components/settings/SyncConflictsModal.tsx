@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { useLiveQuery } from "dexie-react-hooks";
+import { SyncConflict } from '../../types';
+import { Modal } from '../common/Modal';
+import { useSettings } from '../context/SettingsContext';
+import { useUIState } from '../context/UIStateContext';
+import { db } from '../../utils/db';
+import { MONEY_FIELDS } from '../../utils/money';
+import { ConflictChoice, resolveSyncConflict } from '../../utils/syncMerge';
+
+const TABLE_LABELS: Record<string, string> = {
+    products: 'Product',
+    categories: 'Category',
+    sales: 'Sale',
+    customers: 'Customer',
+    purchaseOrders: 'Purchase Order',
+    suppliers: 'Supplier',
+    users: 'User',
+    shifts: 'Shift',
+    heldOrders: 'Held Order',
+    inventoryAdjustments: 'Stock Adjustment',
+    notifications: 'Notification',
+    journalEntries: 'Journal Entry',
+};
+
+const ConflictValue: React.FC<{ table: string; field: string; value: any }> = ({ table, field, value }) => {
+    const { formatCurrency } = useSettings();
+    if (value === undefined) return <span className="italic text-gray-400">not set</span>;
+    if (value === null) return <span className="italic text-gray-400">hidden</span>;
+    if (Array.isArray(value)) return <span>{value.length} entries</span>;
+    if (typeof value === 'object') return <span className="font-mono text-xs break-all">{JSON.stringify(value)}</span>;
+    if (typeof value === 'number' && MONEY_FIELDS[table]?.includes(field)) return <span>{formatCurrency(value)}</span>;
+    return <span className="break-all">{String(value)}</span>;
+};
+
+const ConflictCard: React.FC<{ conflict: SyncConflict; busy: boolean; onResolve: (choices: Record<string, ConflictChoice>) => void }> = ({ conflict, busy, onResolve }) => {
+    const record = useLiveQuery(() => (db as any).table(conflict.table).get(conflict.recordId), [conflict.table, conflict.recordId]);
+    const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+    useEffect(() => {
+        setChoices(Object.fromEntries(conflict.fields.map(field => [field, 'local' as ConflictChoice])));
+    }, [conflict.id, conflict.fields.join(',')]);
+
+    const chooseAll = (choice: ConflictChoice) => onResolve(Object.fromEntries(conflict.fields.map(field => [field, choice])));
+
+    return (
+        <div className="p-3 border border-orange-200 dark:border-orange-900/50 rounded-lg bg-orange-50 dark:bg-orange-900/10">
+            <div className="flex items-center justify-between gap-2">
+                <h4 className="font-semibold text-gray-900 dark:text-white">{TABLE_LABELS[conflict.table] || conflict.table} <span className="font-mono text-sm">{conflict.label}</span></h4>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{new Date(conflict.detectedAt).toLocaleString()}</span>
+            </div>
+            <table className="w-full mt-2 text-sm text-left text-gray-700 dark:text-gray-300">
+                <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                    <tr>
+                        <th className="py-1 pr-2">Field</th>
+                        <th className="py-1 pr-2">This Device</th>
+                        <th className="py-1">Other Device</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {conflict.fields.map(field => (
+                        <tr key={field} className="align-top">
+                            <td className="py-1 pr-2 font-mono">{field}</td>
+                            {(['local', 'remote'] as ConflictChoice[]).map(side => (
+                                <td key={side} className="py-1 pr-2">
+                                    <label className="flex items-start gap-2 cursor-pointer">
+                                        <input
+                                            type="radio"
+                                            name={`${conflict.id}:${field}`}
+                                            checked={choices[field] === side}
+                                            onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                                            className="mt-1"
+                                        />
+                                        {record && <ConflictValue table={conflict.table} field={field} value={side === 'local' ? record[field] : record.syncRemote?.[field]} />}
+                                    </label>
+                                </td>
+                            ))}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div className="flex justify-end gap-2 mt-3">
+                <button onClick={() => chooseAll('local')} disabled={busy} className="text-xs px-2 py-1 bg-gray-200 dark:bg-gray-600 rounded-md text-gray-900 dark:text-white disabled:opacity-50">Keep All Local</button>
+                <button onClick={() => chooseAll('remote')} disabled={busy} className="text-xs px-2 py-1 bg-gray-200 dark:bg-gray-600 rounded-md text-gray-900 dark:text-white disabled:opacity-50">Use All Remote</button>
+                <button onClick={() => onResolve(choices)} disabled={busy} className="text-xs px-2 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">Save Merged</button>
+            </div>
+        </div>
+    );
+};
+
+export const SyncConflictsModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+    const { workspaceId } = useSettings();
+    const { showToast } = useUIState();
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const conflicts = useLiveQuery(() => db.syncConflicts.where('workspaceId').equals(workspaceId).sortBy('detectedAt'), [workspaceId]) || [];
+
+    const handleResolve = async (conflict: SyncConflict, choices: Record<string, ConflictChoice>) => {
+        setBusyId(conflict.id);
+        try {
+            await resolveSyncConflict(db, conflict.id, choices);
+            showToast('Conflict resolved. The record will sync on the next run.', 'success');
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Failed to resolve conflict.', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Sync Conflicts" size="lg">
+            <div className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                    These records were changed on this device and on another one before they synced. Changes to different fields were merged; pick which value to keep for the fields below. A record is not synced until its conflict is resolved.
+                </p>
+                {conflicts.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No conflicts.</p>
+                ) : conflicts.map(conflict => (
+                    <ConflictCard key={conflict.id} conflict={conflict} busy={!!busyId} onResolve={choices => handleResolve(conflict, choices)} />
+                ))}
+            </div>
+        </Modal>
+    );
+};
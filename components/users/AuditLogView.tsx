@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from "dexie-react-hooks";
+import { AuditAction, AuditEntry } from '../../types';
+import { db } from '../../utils/db';
+import { AUDIT_ACTION_LABELS, AuditChainStatus, auditLogToCsv, verifyAuditChain } from '../../utils/audit';
+import { Pagination } from '../common/Pagination';
+import { ExportIcon } from '../Icons';
+import { useSettings } from '../context/SettingsContext';
+
+// The workspace's audit log on this device, newest first, with the result of checking its hash chain
+export const AuditLogView: React.FC = () => {
+    const { workspaceId, workspaceName, formatDateTime, paginationConfig } = useSettings();
+    const [actionFilter, setActionFilter] = useState<AuditAction | ''>('');
+    const [userFilter, setUserFilter] = useState('');
+    const [fromDate, setFromDate] = useState(''); // yyyy-mm-dd, empty for no bound
+    const [toDate, setToDate] = useState('');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [currentPage, setCurrentPage] = useState(1);
+    const [chainStatus, setChainStatus] = useState<AuditChainStatus | null>(null);
+    const itemsPerPage = paginationConfig.auditLog || 20;
+
+    const entries = useLiveQuery<AuditEntry[]>(() => db.auditLog.where('workspaceId').equals(workspaceId).toArray(), [workspaceId]) || [];
+
+    useEffect(() => {
+        let cancelled = false;
+        verifyAuditChain(entries).then(status => { if (!cancelled) setChainStatus(status); });
+        return () => { cancelled = true; };
+    }, [entries]);
+
+    const auditUsers = useMemo(() => {
+        const names = new Map<string, string>();
+        entries.forEach(e => names.set(e.userId, e.userName));
+        return [...names].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+    }, [entries]);
+
+    const filteredEntries = useMemo(() => {
+        const from = fromDate ? new Date(`${fromDate}T00:00:00`) : null;
+        const to = toDate ? new Date(`${toDate}T23:59:59.999`) : null;
+        const term = searchTerm.trim().toLowerCase();
+        return entries
+            .filter(e => !actionFilter || e.action === actionFilter)
+            .filter(e => !userFilter || e.userId === userFilter)
+            .filter(e => (!from || new Date(e.date) >= from) && (!to || new Date(e.date) <= to))
+            .filter(e => !term || (e.detail || '').toLowerCase().includes(term) || e.userName.toLowerCase().includes(term))
+            .sort((a, b) => b.seq - a.seq);
+    }, [entries, actionFilter, userFilter, fromDate, toDate, searchTerm]);
+
+    useEffect(() => setCurrentPage(1), [actionFilter, userFilter, fromDate, toDate, searchTerm]);
+
+    const totalPages = Math.ceil(filteredEntries.length / itemsPerPage);
+    const paginatedEntries = filteredEntries.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+
+    const handleExport = () => {
+        const csv = auditLogToCsv([...filteredEntries].sort((a, b) => a.seq - b.seq));
+        const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `${workspaceName}-audit-log-${new Date().toISOString().split('T')[0]}.csv`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    };
+
+    const inputClassName = "px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-200 focus:ring-blue-500 focus:border-blue-500 text-sm";
+
+    return (
+        <>
+            {chainStatus && (chainStatus.intact ? (
+                <div className="p-3 mb-4 rounded-md text-sm bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200">
+                    Chain intact: all {chainStatus.count} entries match their hashes.
+                </div>
+            ) : (
+                <div className="p-3 mb-4 rounded-md text-sm bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200">
+                    The log was tampered with at entry #{chainStatus.brokenAtSeq}: {chainStatus.reason} Entries from #{chainStatus.brokenAtSeq} on cannot be trusted.
+                </div>
+            ))}
+
+            <div className="flex flex-wrap items-end gap-3 mb-4">
+                <input type="text" value={searchTerm} onChange={e => setSearchTerm(e.target.value)} placeholder="Search details..." className={`${inputClassName} flex-grow min-w-[12rem]`} />
+                <select value={actionFilter} onChange={e => setActionFilter(e.target.value as AuditAction | '')} className={inputClassName}>
+                    <option value="">All actions</option>
+                    {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>)}
+                </select>
+                <select value={userFilter} onChange={e => setUserFilter(e.target.value)} className={inputClassName}>
+                    <option value="">All users</option>
+                    {auditUsers.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                </select>
+                <label className="text-sm text-gray-600 dark:text-gray-300 flex items-center gap-2">
+                    From <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className={inputClassName} />
+                </label>
+                <label className="text-sm text-gray-600 dark:text-gray-300 flex items-center gap-2">
+                    To <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className={inputClassName} />
+                </label>
+                <button onClick={handleExport} disabled={filteredEntries.length === 0} className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50">
+                    <ExportIcon className="h-4 w-4" /> Export CSV
+                </button>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400 responsive-table">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400 sticky top-0 z-10">
+                        <tr>
+                            <th className="px-6 py-3">#</th>
+                            <th className="px-6 py-3">Time</th>
+                            <th className="px-6 py-3">User</th>
+                            <th className="px-6 py-3">Action</th>
+                            <th className="px-6 py-3">Detail</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {paginatedEntries.map(entry => {
+                            const isUntrusted = chainStatus && !chainStatus.intact && entry.seq >= chainStatus.brokenAtSeq;
+                            return (
+                                <tr key={entry.id} className={isUntrusted ? 'bg-red-50 dark:bg-red-900/10' : 'bg-white dark:bg-gray-800'}>
+                                    <td data-label="#" className="px-6 py-4 font-mono text-xs" title={entry.hash}>{entry.seq}</td>
+                                    <td data-label="Time" className="px-6 py-4 whitespace-nowrap">{formatDateTime(entry.date)}</td>
+                                    <td data-label="User" className="px-6 py-4 text-gray-900 dark:text-white">{entry.userName}</td>
+                                    <td data-label="Action" className="px-6 py-4 whitespace-nowrap">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</td>
+                                    <td data-label="Detail" className="px-6 py-4">{entry.detail ?? <span className="italic">Unreadable</span>}</td>
+                                </tr>
+                            );
+                        })}
+                        {paginatedEntries.length === 0 && (
+                            <tr><td colSpan={5} className="px-6 py-8 text-center text-gray-500">No audit entries found.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+            <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                onPageChange={setCurrentPage}
+                itemsPerPage={itemsPerPage}
+                totalItems={filteredEntries.length}
+            />
+        </>
+    );
+};
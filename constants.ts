@@ -8,13 +8,14 @@ export const DEFAULT_CATEGORIES: Category[] = [
     { id: 'cat_apparel', name: 'Apparel', parentId: null, workspaceId: '' },
 ];
 
+// Prices are in minor units of the default currency (USD cents)
 export const INITIAL_PRODUCTS: Product[] = [
   {
     id: 'prod_1',
     sku: 'HW-LAP-001',
     name: 'ProBook Laptop 15"',
-    retailPrice: 1299.99,
-    costPrice: 850.00,
+    retailPrice: 129999,
+    costPrice: 85000,
     stock: 25,
     lowStockThreshold: 10,
     priceHistory: [],
@@ -27,8 +28,8 @@ export const INITIAL_PRODUCTS: Product[] = [
     id: 'prod_2',
     sku: 'HW-MON-002',
     name: 'UltraWide Monitor 29"',
-    retailPrice: 499.99,
-    costPrice: 320.50,
+    retailPrice: 49999,
+    costPrice: 32050,
     stock: 40,
     lowStockThreshold: 15,
     priceHistory: [],
@@ -41,8 +42,8 @@ export const INITIAL_PRODUCTS: Product[] = [
     id: 'prod_3',
     sku: 'AC-KBD-003',
     name: 'Mechanical Keyboard',
-    retailPrice: 149.99,
-    costPrice: 95.00,
+    retailPrice: 14999,
+    costPrice: 9500,
     stock: 75,
     lowStockThreshold: 20,
     priceHistory: [],
@@ -55,8 +56,8 @@ export const INITIAL_PRODUCTS: Product[] = [
     id: 'prod_4',
     sku: 'AC-MSE-004',
     name: 'Wireless Ergonomic Mouse',
-    retailPrice: 79.99,
-    costPrice: 45.00,
+    retailPrice: 7999,
+    costPrice: 4500,
     stock: 120,
     lowStockThreshold: 30,
     priceHistory: [],
@@ -69,8 +70,8 @@ export const INITIAL_PRODUCTS: Product[] = [
     id: 'prod_5',
     sku: 'HW-CAM-005',
     name: '4K Webcam Pro',
-    retailPrice: 199.99,
-    costPrice: 130.00,
+    retailPrice: 19999,
+    costPrice: 13000,
     stock: 8,
     lowStockThreshold: 10,
     priceHistory: [],
@@ -83,8 +84,8 @@ export const INITIAL_PRODUCTS: Product[] = [
     id: 'prod_6',
     sku: 'AC-HDP-006',
     name: 'Noise-Cancelling Headphones',
-    retailPrice: 249.99,
-    costPrice: 180.00,
+    retailPrice: 24999,
+    costPrice: 18000,
     stock: 50,
     lowStockThreshold: 15,
     priceHistory: [],
@@ -97,8 +98,8 @@ export const INITIAL_PRODUCTS: Product[] = [
     id: 'prod_7',
     sku: 'AP-TSH-007',
     name: 'Classic Crew T-Shirt',
-    retailPrice: 24.99,
-    costPrice: 10.00,
+    retailPrice: 2499,
+    costPrice: 1000,
     stock: 127,
     lowStockThreshold: 10,
     priceHistory: [],
@@ -116,12 +117,12 @@ export const INITIAL_PRODUCTS: Product[] = [
       },
     ],
     variants: [
-      { id: 'var_1', options: { Color: 'White', Size: 'S' }, skuSuffix: 'WH-S', retailPrice: 24.99, costPrice: 10.00, stock: 20, priceHistory: [] },
-      { id: 'var_2', options: { Color: 'White', Size: 'M' }, skuSuffix: 'WH-M', retailPrice: 24.99, costPrice: 10.00, stock: 30, priceHistory: [] },
-      { id: 'var_3', options: { Color: 'White', Size: 'L' }, skuSuffix: 'WH-L', retailPrice: 24.99, costPrice: 10.00, stock: 15, priceHistory: [] },
-      { id: 'var_4', options: { Color: 'Black', Size: 'S' }, skuSuffix: 'BK-S', retailPrice: 24.99, costPrice: 10.00, stock: 22, priceHistory: [] },
-      { id: 'var_5', options: { Color: 'Black', Size: 'M' }, skuSuffix: 'BK-M', retailPrice: 24.99, costPrice: 10.00, stock: 28, priceHistory: [] },
-      { id: 'var_6', options: { Color: 'Black', Size: 'L' }, skuSuffix: 'BK-L', retailPrice: 24.99, costPrice: 10.00, stock: 12, priceHistory: [] },
+      { id: 'var_1', options: { Color: 'White', Size: 'S' }, skuSuffix: 'WH-S', retailPrice: 2499, costPrice: 1000, stock: 20, priceHistory: [] },
+      { id: 'var_2', options: { Color: 'White', Size: 'M' }, skuSuffix: 'WH-M', retailPrice: 2499, costPrice: 1000, stock: 30, priceHistory: [] },
+      { id: 'var_3', options: { Color: 'White', Size: 'L' }, skuSuffix: 'WH-L', retailPrice: 2499, costPrice: 1000, stock: 15, priceHistory: [] },
+      { id: 'var_4', options: { Color: 'Black', Size: 'S' }, skuSuffix: 'BK-S', retailPrice: 2499, costPrice: 1000, stock: 22, priceHistory: [] },
+      { id: 'var_5', options: { Color: 'Black', Size: 'M' }, skuSuffix: 'BK-M', retailPrice: 2499, costPrice: 1000, stock: 28, priceHistory: [] },
+      { id: 'var_6', options: { Color: 'Black', Size: 'L' }, skuSuffix: 'BK-L', retailPrice: 2499, costPrice: 1000, stock: 12, priceHistory: [] },
     ],
     workspaceId: '',
   },
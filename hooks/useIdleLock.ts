@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+// Shared by the tabs, so activity in one keeps the others from locking
+const LAST_ACTIVITY_KEY = 'ims-last-activity';
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 1000;
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Calls `onIdle` once no tab of the app has seen user activity for `minutes`. 0 disables it.
+ */
+export function useIdleLock(minutes: number, onIdle: () => void) {
+    const onIdleRef = useRef(onIdle);
+    onIdleRef.current = onIdle;
+
+    useEffect(() => {
+        if (!minutes || minutes <= 0) return;
+
+        let lastWrite = 0;
+        const recordActivity = () => {
+            const now = Date.now();
+            if (now - lastWrite < ACTIVITY_WRITE_INTERVAL_MS) return;
+            lastWrite = now;
+            localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+        };
+        const checkIdle = () => {
+            const lastActivity = Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+            if (Date.now() - lastActivity >= minutes * 60 * 1000) onIdleRef.current();
+        };
+
+        // Mounting (e.g. just after unlocking) counts as activity
+        recordActivity();
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, recordActivity, { passive: true }));
+        // Timers are throttled in the background, so also check when the tab is shown again
+        document.addEventListener('visibilitychange', checkIdle);
+        const intervalId = setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+
+        return () => {
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity));
+            document.removeEventListener('visibilitychange', checkIdle);
+            clearInterval(intervalId);
+        };
+    }, [minutes]);
+}
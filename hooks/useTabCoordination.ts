@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+import { tabCoordinator } from '../services/TabCoordinator';
+
+const subscribe = (listener: () => void) => tabCoordinator.subscribe(listener);
+
+/**
+ * Whether this tab leads the others and should run background jobs (see services/TabCoordinator.ts).
+ */
+export const useIsLeaderTab = (): boolean =>
+    useSyncExternalStore(subscribe, () => tabCoordinator.isLeader());
+
+/**
+ * Whether the register of the workspace is also open in another tab.
+ */
+export const useRegisterOpenElsewhere = (workspaceId: string): boolean =>
+    useSyncExternalStore(subscribe, () => tabCoordinator.isRegisterOpenElsewhere(workspaceId));
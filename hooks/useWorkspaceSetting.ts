@@ -0,0 +1,38 @@
+import React, { useCallback } from 'react';
+import { useLiveQuery } from "dexie-react-hooks";
+import { db } from '../utils/db';
+
+/**
+ * Like `usePersistedState`, for settings shared by every device of a workspace. Values live in the
+ * synced `settings` table, so a change made on another device shows up here once it is pulled.
+ * Nothing is stored until the setting is first changed, so defaults never overwrite synced values.
+ * The third element is false until the stored value has been read; the value is the default until
+ * then, so callers should not compute with it or write it back before.
+ */
+function useWorkspaceSetting<T>(workspaceId: string, key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>, boolean] {
+    const id = `${workspaceId}:${key}`;
+    // null once read and not stored, undefined while loading
+    const record = useLiveQuery(async () => (await db.settings.get(id)) ?? null, [id]);
+    const value: T = record ? record.value : initialValue;
+
+    const setValue = useCallback((valueOrFn: React.SetStateAction<T>) => {
+        db.transaction('rw', db.settings, async () => {
+            const existing = await db.settings.get(id);
+            const current: T = existing !== undefined ? existing.value : initialValue;
+            const newValue = valueOrFn instanceof Function ? valueOrFn(current) : valueOrFn;
+            await db.settings.put({
+                ...existing,
+                id,
+                key,
+                workspaceId,
+                value: newValue,
+                sync_status: 'pending',
+                updated_at: new Date().toISOString()
+            });
+        }).catch(error => console.error(`Failed to save setting "${key}"`, error));
+    }, [id]);
+
+    return [value, setValue, record !== undefined];
+}
+
+export default useWorkspaceSetting;
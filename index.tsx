@@ -3,6 +3,8 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { AuthProvider } from './components/context/AuthContext';
+import { openDatabase } from './utils/db';
+import { tabCoordinator } from './services/TabCoordinator';
 import 'recharts'; // Dummy import to satisfy dependency checker
 
 const rootElement = document.getElementById('root');
@@ -11,10 +13,32 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <AuthProvider>
-      <App />
-    </AuthProvider>
-  </React.StrictMode>
-);
+
+// Elect the tab that runs background jobs (sync, back-fills, overdue checks)
+tabCoordinator.start();
+
+// Run pending schema migrations before anything touches the database
+openDatabase()
+  .then(() => {
+    root.render(
+      <React.StrictMode>
+        <AuthProvider>
+          <App />
+        </AuthProvider>
+      </React.StrictMode>
+    );
+  })
+  .catch(error => {
+    console.error("Database upgrade failed", error);
+    root.render(
+      <div className="flex items-center justify-center h-screen p-6 bg-gray-100 dark:bg-gray-900">
+        <div className="max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg text-center">
+          <h1 className="text-lg font-bold text-red-600 dark:text-red-400">Database Update Failed</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+            Your data has been left unchanged. Please reload the page, and contact support if the problem persists.
+          </p>
+          <p className="mt-4 text-xs font-mono text-gray-500 dark:text-gray-400 break-all">{error instanceof Error ? error.message : String(error)}</p>
+        </div>
+      </div>
+    );
+  });
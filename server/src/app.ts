@@ -0,0 +1,131 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { LiveChannel } from './live.js';
+import { PushPayload, SYNCED_TABLES, SyncStore } from './store.js';
+
+export interface SyncServerOptions {
+    corsOrigin?: string;
+    maxBodyBytes?: number;
+    live?: LiveChannel; // Serves /sync/live and relays accepted pushes to it
+}
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<any> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+            reject(new HttpError(413, 'Payload too large'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+        } catch {
+            reject(new HttpError(400, 'Invalid JSON body'));
+        }
+    });
+    req.on('error', reject);
+});
+
+/**
+ * Authenticates a request by its bearer API key. The key must belong to the workspace named in
+ * X-Workspace-ID, so a key for one workspace can never read or write another.
+ */
+const authenticate = (store: SyncStore, req: IncomingMessage): string => {
+    const header = req.headers['authorization'] || '';
+    const key = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+    if (!key) throw new HttpError(401, 'Missing API key');
+
+    const workspaceId = store.authenticate(key);
+    if (!workspaceId) throw new HttpError(401, 'Invalid API key');
+    if (req.headers['x-workspace-id'] !== workspaceId) throw new HttpError(403, 'API key is not valid for this workspace');
+    return workspaceId;
+};
+
+/**
+ * Creates the HTTP server for the endpoints SyncService calls: POST /sync/push,
+ * GET /sync/pull?last_sync=<timestamp>[&tables=<a,b>][&history_from=<timestamp>][&ledger_sources=<a,b>],
+ * GET /sync/record?table=<table>&id=<id or receipt number> and GET /sync/ledger?source_id=<id>,
+ * plus the WebSocket of `options.live`.
+ */
+export function createSyncServer(store: SyncStore, options: SyncServerOptions = {}): Server {
+    const { corsOrigin = '*', maxBodyBytes = 10 * 1024 * 1024, live } = options;
+
+    const send = (res: ServerResponse, status: number, body?: unknown) => {
+        res.writeHead(status, {
+            'Access-Control-Allow-Origin': corsOrigin,
+            'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Workspace-ID, X-Client-ID',
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+            ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        });
+        res.end(body !== undefined ? JSON.stringify(body) : undefined);
+    };
+
+    const server = createServer(async (req, res) => {
+        try {
+            const url = new URL(req.url || '/', 'http://localhost');
+
+            if (req.method === 'OPTIONS') return send(res, 204);
+            if (req.method === 'GET' && url.pathname === '/health') return send(res, 200, { status: 'ok' });
+
+            if (req.method === 'POST' && url.pathname === '/sync/push') {
+                const workspaceId = authenticate(store, req);
+                const payload = await readJsonBody(req, maxBodyBytes);
+                if (!payload || typeof payload !== 'object' || Array.isArray(payload)) throw new HttpError(400, 'Expected an object of records by table');
+                const since = store.currentTimestamp();
+                const result = store.push(workspaceId, payload as PushPayload);
+                live?.publish(workspaceId, since, req.headers['x-client-id'] as string | undefined);
+                return send(res, 200, { success: true, ...result });
+            }
+
+            if (req.method === 'GET' && url.pathname === '/sync/pull') {
+                const workspaceId = authenticate(store, req);
+                const since = url.searchParams.get('last_sync') || new Date(0).toISOString();
+                if (isNaN(Date.parse(since))) throw new HttpError(400, 'Invalid last_sync timestamp');
+                const tables = url.searchParams.get('tables');
+                const historyFrom = url.searchParams.get('history_from');
+                if (historyFrom && isNaN(Date.parse(historyFrom))) throw new HttpError(400, 'Invalid history_from timestamp');
+                const ledgerSources = url.searchParams.get('ledger_sources');
+                return send(res, 200, store.pull(workspaceId, new Date(since).toISOString(), {
+                    tables: tables !== null ? tables.split(',').filter(Boolean) : undefined,
+                    historyFrom: historyFrom ? new Date(historyFrom).toISOString() : undefined,
+                    ledgerSources: ledgerSources !== null ? ledgerSources.split(',').filter(Boolean) : undefined
+                }));
+            }
+
+            if (req.method === 'GET' && url.pathname === '/sync/record') {
+                const workspaceId = authenticate(store, req);
+                const table = url.searchParams.get('table') || '';
+                const id = url.searchParams.get('id') || '';
+                if (!SYNCED_TABLES.includes(table) || !id) throw new HttpError(400, 'Expected a synced table and an id');
+                const record = store.getRecord(workspaceId, table, id);
+                if (!record) throw new HttpError(404, 'Record not found');
+                return send(res, 200, { record });
+            }
+
+            if (req.method === 'GET' && url.pathname === '/sync/ledger') {
+                const workspaceId = authenticate(store, req);
+                const sourceId = url.searchParams.get('source_id') || '';
+                if (!sourceId) throw new HttpError(400, 'Expected a source_id');
+                return send(res, 200, { records: store.getLedgerEntries(workspaceId, sourceId) });
+            }
+
+            throw new HttpError(404, 'Not found');
+        } catch (error) {
+            if (error instanceof HttpError) return send(res, error.status, { error: error.message });
+            console.error('Sync server error:', error);
+            send(res, 500, { error: 'Internal server error' });
+        }
+    });
+    if (live) server.on('upgrade', live.handleUpgrade);
+    return server;
+}
@@ -0,0 +1,43 @@
+import { SyncStore } from './store.js';
+
+const USAGE = `Usage:
+  npm run keys -- create <workspaceId> [label]
+  npm run keys -- list [workspaceId]
+  npm run keys -- revoke <keyId>`;
+
+const [command, ...args] = process.argv.slice(2);
+const store = new SyncStore(process.env.DATABASE_PATH || 'sync.db');
+
+try {
+    switch (command) {
+        case 'create': {
+            const [workspaceId, ...label] = args;
+            if (!workspaceId) throw new Error(USAGE);
+            const { id, key } = store.createApiKey(workspaceId, label.join(' '));
+            console.log(`Created key ${id} for workspace ${workspaceId}.`);
+            console.log(`API key (shown only once): ${key}`);
+            break;
+        }
+        case 'list': {
+            const keys = store.listApiKeys(args[0]);
+            if (keys.length === 0) console.log('No API keys.');
+            for (const k of keys) {
+                console.log(`${k.id}  ${k.workspaceId}  ${k.label || '-'}  created ${k.createdAt}${k.revokedAt ? `  revoked ${k.revokedAt}` : ''}`);
+            }
+            break;
+        }
+        case 'revoke': {
+            if (!args[0]) throw new Error(USAGE);
+            if (!store.revokeApiKey(args[0])) throw new Error(`No active key with id ${args[0]}.`);
+            console.log(`Revoked key ${args[0]}.`);
+            break;
+        }
+        default:
+            throw new Error(USAGE);
+    }
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+} finally {
+    store.close();
+}
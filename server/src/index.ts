@@ -0,0 +1,22 @@
+import { createSyncServer } from './app.js';
+import { LiveChannel } from './live.js';
+import { SyncStore } from './store.js';
+
+const port = Number(process.env.PORT) || 8787;
+const store = new SyncStore(process.env.DATABASE_PATH || 'sync.db');
+const live = new LiveChannel(store);
+const server = createSyncServer(store, { corsOrigin: process.env.CORS_ORIGIN || '*', live });
+
+server.listen(port, () => {
+    console.log(`IMS sync server listening on port ${port}`);
+});
+
+const shutdown = () => {
+    live.close();
+    server.close(() => {
+        store.close();
+        process.exit(0);
+    });
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
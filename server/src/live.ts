@@ -0,0 +1,111 @@
+import { IncomingMessage } from 'node:http';
+import { Duplex } from 'node:stream';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { SyncStore } from './store.js';
+
+// Tables whose changes are relayed live. Must match LIVE_TABLES in services/SyncService.ts.
+export const LIVE_TABLES = ['products', 'inventoryAdjustments', 'heldOrders'];
+
+const AUTH_TIMEOUT_MS = 10 * 1000;
+// Connections that miss a ping for this long are dropped
+const PING_INTERVAL_MS = 30 * 1000;
+
+interface LiveClient {
+    workspaceId: string;
+    clientId: string;
+    alive: boolean;
+}
+
+/**
+ * LiveChannel
+ * Serves GET /sync/live, a WebSocket over which devices receive the product, stock movement and held order changes
+ * other devices push, within moments instead of at their next pull. Browsers cannot set headers on a
+ * WebSocket, so a socket authenticates with its first message, `{type: 'auth', apiKey, workspaceId,
+ * clientId}`; the server answers `{type: 'ready'}` and then sends `{type: 'changes', changes, deleted}`
+ * in the shape of a pull. Devices never write over the socket: changes still go through POST /sync/push.
+ */
+export class LiveChannel {
+    private wss = new WebSocketServer({ noServer: true, maxPayload: 16 * 1024 });
+    private clients = new Map<WebSocket, LiveClient>();
+    private pingTimer: ReturnType<typeof setInterval>;
+
+    constructor(private store: SyncStore) {
+        this.pingTimer = setInterval(() => {
+            for (const [ws, client] of this.clients) {
+                if (!client.alive) {
+                    ws.terminate();
+                    continue;
+                }
+                client.alive = false;
+                ws.ping();
+            }
+        }, PING_INTERVAL_MS);
+    }
+
+    /**
+     * Handler for the HTTP server's 'upgrade' event.
+     */
+    handleUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        if (url.pathname !== '/sync/live') {
+            socket.destroy();
+            return;
+        }
+        this.wss.handleUpgrade(req, socket, head, ws => this.handleConnection(ws));
+    };
+
+    /**
+     * Sends the live changes a device pushed after `since` to the workspace's other devices.
+     */
+    publish(workspaceId: string, since: string, fromClientId?: string) {
+        const targets = [...this.clients].filter(([ws, client]) =>
+            client.workspaceId === workspaceId && client.clientId !== fromClientId && ws.readyState === WebSocket.OPEN);
+        if (targets.length === 0) return;
+
+        const { changes, deleted } = this.store.pull(workspaceId, since, { tables: LIVE_TABLES });
+        const liveDeleted = deleted.filter(tombstone => LIVE_TABLES.includes(tombstone.table));
+        if (Object.keys(changes).length === 0 && liveDeleted.length === 0) return;
+
+        const message = JSON.stringify({ type: 'changes', changes, deleted: liveDeleted });
+        for (const [ws] of targets) ws.send(message);
+    }
+
+    close() {
+        clearInterval(this.pingTimer);
+        for (const ws of this.clients.keys()) ws.terminate();
+        this.wss.close();
+    }
+
+    private handleConnection(ws: WebSocket) {
+        const authTimer = setTimeout(() => ws.close(4401, 'Authentication timeout'), AUTH_TIMEOUT_MS);
+
+        ws.on('message', (raw: RawData) => {
+            if (this.clients.has(ws)) return;
+            clearTimeout(authTimer);
+
+            let message: any;
+            try {
+                message = JSON.parse(raw.toString());
+            } catch {
+                return ws.close(4400, 'Invalid message');
+            }
+            if (message?.type !== 'auth' || typeof message.apiKey !== 'string' || typeof message.clientId !== 'string') {
+                return ws.close(4400, 'Expected an auth message');
+            }
+            const workspaceId = this.store.authenticate(message.apiKey);
+            if (!workspaceId || workspaceId !== message.workspaceId) return ws.close(4401, 'Invalid API key');
+
+            this.clients.set(ws, { workspaceId, clientId: message.clientId, alive: true });
+            ws.send(JSON.stringify({ type: 'ready' }));
+        });
+        ws.on('pong', () => {
+            const client = this.clients.get(ws);
+            if (client) client.alive = true;
+        });
+        ws.on('close', () => {
+            clearTimeout(authTimer);
+            this.clients.delete(ws);
+        });
+        ws.on('error', error => console.error('Live channel error:', error));
+    }
+}
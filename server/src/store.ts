@@ -0,0 +1,293 @@
+import Database from 'better-sqlite3';
+import { createHash, randomBytes } from 'node:crypto';
+
+// Tables the client syncs. Must match TABLES_TO_SYNC in services/SyncService.ts.
+export const SYNCED_TABLES = [
+    'products',
+    'categories',
+    'sales',
+    'customers',
+    'purchaseOrders',
+    'suppliers',
+    'users',
+    'shifts',
+    'heldOrders',
+    'inventoryAdjustments',
+    'notifications',
+    'journalEntries',
+    'settings'
+];
+
+// Date field limiting each history table in a scoped pull. Must match HISTORY_DATE_FIELDS in services/SyncService.ts.
+export const HISTORY_DATE_FIELDS: Record<string, string> = {
+    sales: 'date',
+    journalEntries: 'date',
+    notifications: 'timestamp',
+    purchaseOrders: 'dateCreated',
+    shifts: 'endTime'
+};
+
+// Part of the data a device replicates: some tables, only recent records of history tables, and only
+// the journal entries booked for some kinds of source. Records without the date (e.g. open shifts)
+// are always in scope.
+export interface PullScope {
+    tables?: string[];
+    historyFrom?: string;
+    ledgerSources?: string[]; // `sourceType`s of the journal entries in scope
+}
+
+export interface Tombstone {
+    id: string;
+    table: string;
+    deletedAt?: string;
+}
+
+// Body of POST /sync/push: pending records by table, plus the client's deletedRecords tombstones
+export type PushPayload = Record<string, any[]> & { deletedRecords?: Tombstone[] };
+
+export type RejectionReason = 'stale' | 'deleted' | 'unknown_table';
+
+// Outcome of one pushed record or tombstone. Tombstones are acknowledged under table 'deletedRecords'.
+export interface PushAck {
+    table: string;
+    id: string;
+    status: 'accepted' | 'rejected';
+    revision?: number; // Revision the record was stored as
+    reason?: RejectionReason;
+}
+
+export interface PushResult {
+    acks: PushAck[];
+    timestamp: string;
+}
+
+// Body of GET /sync/pull, as SyncService expects it
+export interface PullResult {
+    changes: Record<string, any[]>;
+    deleted: Array<{ id: string; table: string }>;
+    timestamp: string;
+}
+
+export interface ApiKeyInfo {
+    id: string;
+    workspaceId: string;
+    label: string;
+    createdAt: string;
+    revokedAt: string | null;
+}
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+/**
+ * SyncStore
+ * SQLite storage of every workspace's synced records, tombstones and API keys.
+ * Each change gets a server timestamp from a clock that never goes backwards, so a client
+ * pulling with the timestamp of its previous pull sees every change made since exactly once.
+ */
+export class SyncStore {
+    private db: Database.Database;
+
+    constructor(path: string) {
+        this.db = new Database(path);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS records (
+                workspace_id TEXT NOT NULL,
+                table_name TEXT NOT NULL,
+                id TEXT NOT NULL,
+                data TEXT,
+                revision INTEGER NOT NULL,
+                deleted INTEGER NOT NULL DEFAULT 0,
+                server_updated_at TEXT NOT NULL,
+                PRIMARY KEY (workspace_id, table_name, id)
+            );
+            CREATE INDEX IF NOT EXISTS records_changes ON records (workspace_id, server_updated_at);
+            CREATE TABLE IF NOT EXISTS api_keys (
+                id TEXT PRIMARY KEY,
+                key_hash TEXT NOT NULL UNIQUE,
+                workspace_id TEXT NOT NULL,
+                label TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                revoked_at TEXT
+            );
+            CREATE TABLE IF NOT EXISTS meta (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL
+            );
+        `);
+    }
+
+    close() {
+        this.db.close();
+    }
+
+    // Must be called inside a transaction, so concurrent writers cannot hand out the same timestamp
+    private nextTimestamp(): string {
+        const row = this.db.prepare(`SELECT value FROM meta WHERE key = 'clock'`).get() as { value: string } | undefined;
+        const last = row ? Number(row.value) : 0;
+        const next = Math.max(Date.now(), last + 1);
+        this.db.prepare(`INSERT INTO meta (key, value) VALUES ('clock', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`).run(String(next));
+        return new Date(next).toISOString();
+    }
+
+    currentTimestamp(): string {
+        const row = this.db.prepare(`SELECT value FROM meta WHERE key = 'clock'`).get() as { value: string } | undefined;
+        return new Date(row ? Number(row.value) : 0).toISOString();
+    }
+
+    // --- API keys ---
+
+    /**
+     * Creates an API key for a workspace. Only its hash is stored, so the key is returned this once.
+     */
+    createApiKey(workspaceId: string, label: string = ''): { id: string; key: string } {
+        const id = randomBytes(4).toString('hex');
+        const key = `ims_${id}_${randomBytes(24).toString('base64url')}`;
+        this.db.prepare(`INSERT INTO api_keys (id, key_hash, workspace_id, label, created_at) VALUES (?, ?, ?, ?, ?)`)
+            .run(id, hashKey(key), workspaceId, label, new Date().toISOString());
+        return { id, key };
+    }
+
+    revokeApiKey(id: string): boolean {
+        const result = this.db.prepare(`UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL`).run(new Date().toISOString(), id);
+        return result.changes > 0;
+    }
+
+    listApiKeys(workspaceId?: string): ApiKeyInfo[] {
+        const rows = (workspaceId
+            ? this.db.prepare(`SELECT * FROM api_keys WHERE workspace_id = ? ORDER BY created_at`).all(workspaceId)
+            : this.db.prepare(`SELECT * FROM api_keys ORDER BY created_at`).all()) as any[];
+        return rows.map(row => ({ id: row.id, workspaceId: row.workspace_id, label: row.label, createdAt: row.created_at, revokedAt: row.revoked_at }));
+    }
+
+    /**
+     * Returns the workspace a key grants access to, or null if it is unknown or revoked.
+     */
+    authenticate(key: string): string | null {
+        const row = this.db.prepare(`SELECT workspace_id FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL`).get(hashKey(key)) as { workspace_id: string } | undefined;
+        return row?.workspace_id ?? null;
+    }
+
+    // --- Sync ---
+
+    /**
+     * Stores pushed records as the next revision of what the server holds, and applies tombstones.
+     * A record is only accepted if it is based on the stored revision; otherwise it is rejected as
+     * stale, and the client merges the newer version on its next pull before pushing again.
+     * A deleted record stays deleted: later pushes of it are rejected.
+     */
+    push(workspaceId: string, payload: PushPayload): PushResult {
+        const select = this.db.prepare(`SELECT revision, deleted FROM records WHERE workspace_id = ? AND table_name = ? AND id = ?`);
+        const upsert = this.db.prepare(`
+            INSERT INTO records (workspace_id, table_name, id, data, revision, deleted, server_updated_at)
+            VALUES (@workspaceId, @table, @id, @data, @revision, @deleted, @timestamp)
+            ON CONFLICT (workspace_id, table_name, id) DO UPDATE SET
+                data = excluded.data, revision = excluded.revision, deleted = excluded.deleted, server_updated_at = excluded.server_updated_at
+        `);
+
+        return this.db.transaction((): PushResult => {
+            const acks: PushAck[] = [];
+            const reject = (table: string, id: string, reason: RejectionReason) => acks.push({ table, id, status: 'rejected', reason });
+
+            for (const [table, records] of Object.entries(payload)) {
+                if (table === 'deletedRecords' || !Array.isArray(records)) continue;
+                for (const record of records) {
+                    if (!record || typeof record.id !== 'string') continue;
+                    if (!SYNCED_TABLES.includes(table)) {
+                        reject(table, record.id, 'unknown_table');
+                        continue;
+                    }
+                    const existing = select.get(workspaceId, table, record.id) as { revision: number; deleted: number } | undefined;
+                    if (existing?.deleted) {
+                        reject(table, record.id, 'deleted');
+                        continue;
+                    }
+                    if ((record.revision ?? 0) !== (existing?.revision ?? 0)) {
+                        reject(table, record.id, 'stale');
+                        continue;
+                    }
+                    const revision = (existing?.revision ?? 0) + 1;
+                    const { sync_status, ...data } = record;
+                    upsert.run({ workspaceId, table, id: record.id, data: JSON.stringify({ ...data, workspaceId, revision }), revision, deleted: 0, timestamp: this.nextTimestamp() });
+                    acks.push({ table, id: record.id, status: 'accepted', revision });
+                }
+            }
+
+            for (const tombstone of payload.deletedRecords || []) {
+                if (!tombstone || typeof tombstone.id !== 'string') continue;
+                if (!SYNCED_TABLES.includes(tombstone.table)) {
+                    reject('deletedRecords', tombstone.id, 'unknown_table');
+                    continue;
+                }
+                const existing = select.get(workspaceId, tombstone.table, tombstone.id) as { revision: number; deleted: number } | undefined;
+                const revision = (existing?.revision ?? 0) + (existing?.deleted ? 0 : 1);
+                if (!existing?.deleted) {
+                    upsert.run({ workspaceId, table: tombstone.table, id: tombstone.id, data: null, revision, deleted: 1, timestamp: this.nextTimestamp() });
+                }
+                acks.push({ table: 'deletedRecords', id: tombstone.id, status: 'accepted', revision });
+            }
+
+            return { acks, timestamp: this.currentTimestamp() };
+        })();
+    }
+
+    /**
+     * Returns every record in scope changed or deleted after `since` (a timestamp returned by an
+     * earlier pull). Deletions are returned whatever the scope.
+     */
+    pull(workspaceId: string, since: string, scope: PullScope = {}): PullResult {
+        const conditions: string[] = [];
+        const params: unknown[] = [workspaceId, since];
+        if (scope.tables) {
+            conditions.push(`table_name IN (${scope.tables.map(() => '?').join(', ') || 'NULL'})`);
+            params.push(...scope.tables);
+        }
+        if (scope.historyFrom) {
+            const limited = Object.entries(HISTORY_DATE_FIELDS).map(([table, field]) => {
+                params.push(table, `$.${field}`, `$.${field}`, scope.historyFrom);
+                return `(table_name = ? AND json_extract(data, ?) IS NOT NULL AND json_extract(data, ?) < ?)`;
+            });
+            conditions.push(`NOT (${limited.join(' OR ')})`);
+        }
+        if (scope.ledgerSources) {
+            conditions.push(`(table_name <> 'journalEntries' OR json_extract(data, '$.sourceType') IN (${scope.ledgerSources.map(() => '?').join(', ') || 'NULL'}))`);
+            params.push(...scope.ledgerSources);
+        }
+        const scoped = conditions.length > 0 ? ` AND (deleted = 1 OR (${conditions.join(' AND ')}))` : '';
+
+        return this.db.transaction((): PullResult => {
+            const rows = this.db.prepare(`SELECT table_name, id, data, deleted FROM records WHERE workspace_id = ? AND server_updated_at > ?${scoped} ORDER BY server_updated_at`)
+                .all(...params) as Array<{ table_name: string; id: string; data: string | null; deleted: number }>;
+
+            const result: PullResult = { changes: {}, deleted: [], timestamp: this.currentTimestamp() };
+            for (const row of rows) {
+                if (row.deleted) {
+                    result.deleted.push({ id: row.id, table: row.table_name });
+                } else {
+                    (result.changes[row.table_name] ||= []).push(JSON.parse(row.data!));
+                }
+            }
+            return result;
+        })();
+    }
+
+    /**
+     * Returns a single record by id, or by receipt number (`publicId`), whatever its date.
+     * Lets a device with a limited scope fetch an older record on demand.
+     */
+    getRecord(workspaceId: string, table: string, idOrPublicId: string): any | null {
+        const row = this.db.prepare(`SELECT data FROM records WHERE workspace_id = ? AND table_name = ? AND deleted = 0 AND (id = ? OR json_extract(data, '$.publicId') = ?) LIMIT 1`)
+            .get(workspaceId, table, idOrPublicId, idOrPublicId) as { data: string } | undefined;
+        return row ? JSON.parse(row.data) : null;
+    }
+
+    /**
+     * Returns the journal entries booked for a record, reversals included, whatever their date.
+     * Fetched with an old receipt, so deleting it on the device reverses what it booked.
+     */
+    getLedgerEntries(workspaceId: string, sourceId: string): any[] {
+        const rows = this.db.prepare(`SELECT data FROM records WHERE workspace_id = ? AND table_name = 'journalEntries' AND deleted = 0 AND json_extract(data, '$.sourceId') = ?`)
+            .all(workspaceId, sourceId) as Array<{ data: string }>;
+        return rows.map(row => JSON.parse(row.data));
+    }
+}
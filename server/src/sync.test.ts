@@ -0,0 +1,153 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { WebSocket } from 'ws';
+import { createSyncServer } from './app.js';
+import { LiveChannel } from './live.js';
+import { SyncStore } from './store.js';
+
+// Two devices of one workspace talking to a server on an ephemeral port, the way SyncService does
+describe('sync server', () => {
+    const workspaceId = 'ws-test';
+    let store: SyncStore;
+    let live: LiveChannel;
+    let server: Server;
+    let baseUrl: string;
+    let apiKey: string;
+
+    before(async () => {
+        store = new SyncStore(':memory:');
+        live = new LiveChannel(store);
+        server = createSyncServer(store, { live });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        apiKey = store.createApiKey(workspaceId, 'test').key;
+    });
+
+    after(async () => {
+        live.close();
+        await new Promise(resolve => server.close(resolve));
+        store.close();
+    });
+
+    const headers = (clientId: string) => ({
+        'Authorization': `Bearer ${apiKey}`,
+        'X-Workspace-ID': workspaceId,
+        'X-Client-ID': clientId,
+        'Content-Type': 'application/json',
+    });
+
+    const push = async (clientId: string, payload: Record<string, unknown>) => {
+        const response = await fetch(`${baseUrl}/sync/push`, { method: 'POST', headers: headers(clientId), body: JSON.stringify(payload) });
+        assert.equal(response.status, 200);
+        return response.json() as Promise<{ acks: any[]; timestamp: string }>;
+    };
+
+    const pull = async (clientId: string, lastSync?: string) => {
+        const params = lastSync ? `?last_sync=${encodeURIComponent(lastSync)}` : '';
+        const response = await fetch(`${baseUrl}/sync/pull${params}`, { headers: headers(clientId) });
+        assert.equal(response.status, 200);
+        return response.json() as Promise<{ changes: Record<string, any[]>; deleted: any[]; timestamp: string }>;
+    };
+
+    // Opens the live channel and resolves once the server has accepted the socket
+    const connectLive = (clientId: string) => new Promise<{ ws: WebSocket; messages: any[] }>((resolve, reject) => {
+        const ws = new WebSocket(`${baseUrl.replace('http', 'ws')}/sync/live`);
+        const messages: any[] = [];
+        ws.on('open', () => ws.send(JSON.stringify({ type: 'auth', apiKey, workspaceId, clientId })));
+        ws.on('message', raw => {
+            const message = JSON.parse(raw.toString());
+            if (message.type === 'ready') resolve({ ws, messages });
+            else messages.push(message);
+        });
+        ws.on('error', reject);
+    });
+
+    const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+        const start = Date.now();
+        while (!condition()) {
+            if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for a live message');
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+    };
+
+    it('rejects requests without a valid key for the workspace', async () => {
+        const missing = await fetch(`${baseUrl}/sync/pull`, { headers: { 'X-Workspace-ID': workspaceId } });
+        assert.equal(missing.status, 401);
+        const otherWorkspace = await fetch(`${baseUrl}/sync/pull`, { headers: { ...headers('a'), 'X-Workspace-ID': 'other' } });
+        assert.equal(otherWorkspace.status, 403);
+    });
+
+    it('delivers one device\'s push to another device\'s pull and live channel', async () => {
+        const b = await connectLive('device-b');
+        const a = await connectLive('device-a');
+        try {
+            const { acks } = await push('device-a', {
+                products: [{ id: 'p1', name: 'Widget', revision: 0, sync_status: 'pending' }],
+                sales: [{ id: 's1', date: '2024-01-01T00:00:00.000Z', revision: 0 }],
+            });
+            assert.deepEqual(acks.map(ack => [ack.table, ack.id, ack.status, ack.revision]), [['products', 'p1', 'accepted', 1], ['sales', 's1', 'accepted', 1]]);
+
+            const pulled = await pull('device-b');
+            assert.deepEqual(pulled.changes.products, [{ id: 'p1', name: 'Widget', revision: 1, workspaceId }]);
+            assert.equal(pulled.changes.sales.length, 1);
+
+            // Only live tables are relayed, and never back to the device that pushed
+            await waitFor(() => b.messages.length > 0);
+            assert.deepEqual(b.messages, [{ type: 'changes', changes: { products: [{ id: 'p1', name: 'Widget', revision: 1, workspaceId }] }, deleted: [] }]);
+            await new Promise(resolve => setTimeout(resolve, 50));
+            assert.deepEqual(a.messages, []);
+
+            // A pull from the last timestamp only returns what changed since
+            assert.deepEqual((await pull('device-b', pulled.timestamp)).changes, {});
+        } finally {
+            a.ws.close();
+            b.ws.close();
+        }
+    });
+
+    it('accepts only writes based on the stored revision', async () => {
+        const first = await push('device-a', { customers: [{ id: 'c1', name: 'Ada', revision: 0 }] });
+        assert.equal(first.acks[0].status, 'accepted');
+
+        // Device B never pulled c1, so it creates it again from revision 0
+        const stale = await push('device-b', { customers: [{ id: 'c1', name: 'Ada L.', revision: 0 }] });
+        assert.deepEqual(stale.acks, [{ table: 'customers', id: 'c1', status: 'rejected', reason: 'stale' }]);
+
+        // Once based on the stored revision its edit goes through, and A's older base is now stale
+        const rebased = await push('device-b', { customers: [{ id: 'c1', name: 'Ada L.', revision: 1 }] });
+        assert.deepEqual(rebased.acks, [{ table: 'customers', id: 'c1', status: 'accepted', revision: 2 }]);
+        const late = await push('device-a', { customers: [{ id: 'c1', name: 'Ada Lovelace', revision: 1 }] });
+        assert.equal(late.acks[0].reason, 'stale');
+
+        const { changes } = await pull('device-a');
+        assert.equal(changes.customers.find(c => c.id === 'c1').name, 'Ada L.');
+    });
+
+    it('keeps deleted records deleted', async () => {
+        const deletion = await push('device-a', { deletedRecords: [{ id: 'c1', table: 'customers' }] });
+        assert.equal(deletion.acks[0].status, 'accepted');
+        const revived = await push('device-b', { customers: [{ id: 'c1', name: 'Ada', revision: 3 }] });
+        assert.equal(revived.acks[0].reason, 'deleted');
+        assert.ok((await pull('device-b')).deleted.some(tombstone => tombstone.id === 'c1' && tombstone.table === 'customers'));
+    });
+
+    it('limits a register\'s pull to the ledger entries of sales, and returns a record\'s entries on demand', async () => {
+        await push('device-a', {
+            journalEntries: [
+                { id: 'je1', sourceType: 'sale', sourceId: 's2', date: '2024-01-01T00:00:00.000Z', revision: 0 },
+                { id: 'je2', sourceType: 'sale', sourceId: 's2', reversesEntryId: 'je1', date: '2024-03-01T00:00:00.000Z', revision: 0 },
+                { id: 'je3', sourceType: 'inventoryAdjustment', sourceId: 'adj1', date: '2024-03-01T00:00:00.000Z', revision: 0 },
+            ],
+        });
+
+        const params = new URLSearchParams({ tables: 'sales,journalEntries', history_from: '2024-02-01T00:00:00.000Z', ledger_sources: 'sale' });
+        const scoped = await (await fetch(`${baseUrl}/sync/pull?${params}`, { headers: headers('device-b') })).json() as { changes: Record<string, any[]> };
+        assert.deepEqual(scoped.changes.journalEntries.map(entry => entry.id), ['je2']);
+
+        const ledger = await fetch(`${baseUrl}/sync/ledger?source_id=s2`, { headers: headers('device-b') });
+        assert.deepEqual(((await ledger.json()) as { records: any[] }).records.map(entry => entry.id).sort(), ['je1', 'je2']);
+        assert.equal((await fetch(`${baseUrl}/sync/ledger`, { headers: headers('device-b') })).status, 400);
+    });
+});
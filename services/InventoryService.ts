@@ -0,0 +1,199 @@
+import type { IMSDatabase } from '../utils/db';
+import { InventoryAdjustment, NotificationType, Product, PurchaseOrder, StockMovementSource } from '../types';
+import { generateUUIDv7 } from '../utils/idGenerator';
+import { postsStockEntry, postStockMovementEntry, stockEntryTables } from '../utils/ledger';
+import { buildOpeningMovements } from '../utils/stockLedger';
+import { addNotification } from './notifications';
+
+export interface StockMovementRef {
+    type: StockMovementSource;
+    id?: string;
+}
+
+export interface POReceiptItem {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+}
+
+export const calculateTotalStock = (product: Product): number => {
+    if (product.variants && product.variants.length > 0) {
+        return product.variants.reduce((sum, v) => sum + v.stock, 0);
+    }
+    return product.stock;
+};
+
+/**
+ * InventoryService
+ * Stock levels, their history and purchase order receipts of one workspace. Stock only changes
+ * through movements (see utils/stockLedger.ts).
+ */
+export class InventoryService {
+    constructor(private readonly database: IMSDatabase, private readonly workspaceId: string) {}
+
+    /**
+     * Records a stock movement, applies it to the product's cached balance and books it in the ledger,
+     * all in one transaction, so concurrent movements always add up. A variant that no longer exists
+     * (e.g. the product was restored without variants) falls back to the product's own stock.
+     * Returns the movement, or null if the product does not exist.
+     */
+    public async recordMovement(productId: string, quantity: number, reason: string, variantId?: string, source: StockMovementRef = { type: 'manual' }): Promise<InventoryAdjustment | null> {
+        const database = this.database;
+        // Valuing the movement needs product costs; without the financial key it is booked later (see backfillPendingStockEntries)
+        const costPending = postsStockEntry(source.type) && !database.canDecrypt('financial');
+        let adjustment: InventoryAdjustment | null = null;
+        let levels: { before: number; after: number; product: Product } | null = null;
+
+        await (database as any).transaction('rw', database.products, database.inventoryAdjustments, ...stockEntryTables(database), async () => {
+            const product = await database.products.get(productId);
+            if (!product || product.workspaceId !== this.workspaceId) return;
+            const targetVariantId = variantId && product.variants?.some(v => v.id === variantId) ? variantId : undefined;
+
+            adjustment = {
+                id: `adj_${generateUUIDv7()}`,
+                productId,
+                variantId: targetVariantId,
+                quantity,
+                reason,
+                sourceType: source.type,
+                sourceId: source.id,
+                date: new Date().toISOString(),
+                sync_status: 'pending',
+                workspaceId: this.workspaceId
+            };
+            if (costPending) adjustment.costPending = true;
+            await database.inventoryAdjustments.add(adjustment);
+
+            // The balance is derived data: the movement is what syncs, so the product is not marked pending
+            const before = targetVariantId ? product.variants.find(v => v.id === targetVariantId)!.stock : product.stock;
+            const updated = targetVariantId
+                ? { ...product, variants: product.variants.map(v => v.id === targetVariantId ? { ...v, stock: v.stock + quantity } : v) }
+                : { ...product, stock: product.stock + quantity };
+            updated.stock = calculateTotalStock(updated);
+            await database.products.put(updated);
+            levels = { before, after: before + quantity, product };
+
+            if (!costPending) await postStockMovementEntry(database, adjustment);
+        });
+
+        if (levels) await this.notifyStockLevel(levels, adjustment!.variantId);
+        return adjustment;
+    }
+
+    private async notifyStockLevel({ before, after, product }: { before: number; after: number; product: Product }, variantId?: string) {
+        const variant = variantId ? product.variants.find(v => v.id === variantId) : undefined;
+        const name = variant ? `${product.name} (${Object.values(variant.options).join(' / ')})` : product.name;
+        if (before > 0 && after <= 0) {
+            await addNotification(this.database, this.workspaceId, `Out of Stock: ${name}`, NotificationType.STOCK, variantId || product.id);
+        } else if (before > product.lowStockThreshold && after <= product.lowStockThreshold) {
+            await addNotification(this.database, this.workspaceId, `Low Stock Warning: ${name} (${after} left)`, NotificationType.STOCK, variantId || product.id);
+        }
+    }
+
+    /**
+     * Changes stock by `quantity`, recording the movement and notifying when it runs low or out.
+     * Returns the change, 0 if nothing changed.
+     */
+    public async adjustStockBy(productId: string, quantity: number, reason: string, variantId?: string, source?: StockMovementRef): Promise<number> {
+        if (!productId || !quantity) return 0;
+        const adjustment = await this.recordMovement(productId, quantity, reason, variantId, source);
+        return adjustment ? quantity : 0;
+    }
+
+    /**
+     * Adds products, recording their initial stock as movements (source 'opening' unless given),
+     * so their balances are backed by the ledger like any other stock.
+     */
+    public async createProducts(products: Product[], reason: string, source: StockMovementRef = { type: 'opening' }): Promise<void> {
+        const database = this.database;
+        const openings = buildOpeningMovements(products, [], reason).map(m => ({ ...m, sourceType: source.type, sourceId: source.id }));
+        const costPending = postsStockEntry(source.type) && !database.canDecrypt('financial');
+
+        await (database as any).transaction('rw', database.products, database.inventoryAdjustments, ...stockEntryTables(database), async () => {
+            await database.products.bulkAdd(products);
+            for (const opening of openings) {
+                if (costPending) opening.costPending = true;
+                await database.inventoryAdjustments.add(opening);
+                if (!costPending) await postStockMovementEntry(database, opening);
+            }
+        });
+    }
+
+    /**
+     * Records opening movements for stock the ledger does not explain, e.g. after restoring a backup
+     * made before stock was kept as a ledger.
+     */
+    public async addOpeningBalances(): Promise<number> {
+        const database = this.database;
+        return await (database as any).transaction('rw', database.products, database.inventoryAdjustments, async () => {
+            const products = await database.products.where('workspaceId').equals(this.workspaceId).toArray();
+            const movements = await database.inventoryAdjustments.where('workspaceId').equals(this.workspaceId).toArray();
+            const openings = buildOpeningMovements(products, movements, 'Opening balance');
+            if (openings.length > 0) await database.inventoryAdjustments.bulkAdd(openings);
+            return openings.length;
+        });
+    }
+
+    public receiveStock(productId: string, quantity: number, variantId?: string): Promise<number> {
+        return this.adjustStockBy(productId, quantity, 'Stock Received', variantId);
+    }
+
+    /**
+     * Adds received quantities to stock and to the purchase order, updating its status.
+     */
+    public async receivePOItems(poId: string, items: POReceiptItem[]): Promise<PurchaseOrder | null> {
+        const po = await this.database.purchaseOrders.get(poId);
+        if (!po || po.workspaceId !== this.workspaceId) return null;
+        const poRef = po.publicId || poId;
+
+        for (const item of items) {
+            await this.adjustStockBy(item.productId, item.quantity, `Received from PO #${poRef}`, item.variantId, { type: 'poReceipt', id: po.id });
+        }
+
+        const updatedItems = po.items.map(item => {
+            const received = items.find(r => r.productId === item.productId && r.variantId === item.variantId);
+            if (received) {
+                return { ...item, quantityReceived: item.quantityReceived + received.quantity };
+            }
+            return item;
+        });
+
+        const allReceived = updatedItems.every(item => item.quantityReceived >= item.quantityOrdered);
+        const newStatus = allReceived ? 'Received' : 'Partial';
+        if (newStatus !== po.status) {
+            await addNotification(this.database, this.workspaceId, `PO #${poRef} is now ${newStatus}.`, NotificationType.PO, poId);
+        }
+
+        // Use put to update the full object. This ensures that the encryption middleware
+        // sees a 'put' operation and correctly re-encrypts any sensitive fields in the 'items' array.
+        // 'update' would bypass encryption for nested arrays like 'items'.
+        const updatedPO: PurchaseOrder = {
+            ...po,
+            items: updatedItems,
+            status: newStatus,
+            sync_status: 'pending',
+            updated_at: new Date().toISOString()
+        };
+        await this.database.purchaseOrders.put(updatedPO);
+        return updatedPO;
+    }
+
+    /**
+     * Books the stock movements recorded by sessions without the financial key.
+     */
+    public async backfillPendingStockEntries(): Promise<number> {
+        const database = this.database;
+        if (!database.canDecrypt('financial')) return 0;
+        const pending = await database.inventoryAdjustments.where('workspaceId').equals(this.workspaceId).filter(adj => !!adj.costPending).toArray();
+        if (pending.length === 0) return 0;
+
+        await (database as any).transaction('rw', database.inventoryAdjustments, ...stockEntryTables(database), async () => {
+            for (const adj of pending) {
+                const { costPending, ...rest } = adj;
+                await database.inventoryAdjustments.put({ ...rest, sync_status: 'pending', updated_at: new Date().toISOString() });
+                await postStockMovementEntry(database, rest);
+            }
+        });
+        return pending.length;
+    }
+}
@@ -0,0 +1,171 @@
+import type { IMSDatabase } from '../utils/db';
+import { CartItem, Money, PaymentType, Sale } from '../types';
+import { generateNanoID, generateUUIDv7 } from '../utils/idGenerator';
+import { roundMoney } from '../utils/money';
+import { postSaleCostEntry, postSaleEntry, stockEntryTables } from '../utils/ledger';
+import { InventoryService } from './InventoryService';
+import { ShiftService } from './ShiftService';
+
+export type NewSale = Omit<Sale, 'id' | 'date' | 'workspaceId'>;
+
+export interface SaleOptions {
+    includeTaxInProfit: boolean;
+}
+
+// Profit = (Total - Tax) - COGS if includeTaxInProfit is false
+// Profit = Total - COGS if includeTaxInProfit is true
+export const calculateProfit = (total: Money, tax: Money, cogs: Money, { includeTaxInProfit }: SaleOptions): Money =>
+    roundMoney(Number(total) || 0) - (includeTaxInProfit ? 0 : roundMoney(Number(tax) || 0)) - roundMoney(Number(cogs) || 0);
+
+/**
+ * Status of a sale once `items` carry their returned quantities.
+ */
+export const getRefundStatus = (items: CartItem[]): 'Refunded' | 'Partially Refunded' =>
+    items.every(item => (item.returnedQuantity || 0) >= item.quantity) ? 'Refunded' : 'Partially Refunded';
+
+/**
+ * SalesService
+ * Records sales and returns of one workspace: stock, refund status of the original sales,
+ * the ledger and the open shift's cash totals.
+ */
+export class SalesService {
+    constructor(
+        private readonly database: IMSDatabase,
+        private readonly workspaceId: string,
+        private readonly inventory: InventoryService = new InventoryService(database, workspaceId),
+        private readonly shifts: ShiftService = new ShiftService(database, workspaceId)
+    ) {}
+
+    public async processSale(saleData: NewSale, options: SaleOptions): Promise<Sale> {
+        const database = this.database;
+        const type: 'Sale' | 'Return' = saleData.total >= 0 ? 'Sale' : 'Return';
+        const isReturn = type === 'Return';
+
+        const originalSale = saleData.originalSaleId ? await database.sales.get(saleData.originalSaleId) : undefined;
+
+        // Without the financial key, item costs were read back redacted and cogs is meaningless.
+        // A session holding the key fills it in later (see backfillPendingCosts).
+        const costPending = !database.canDecrypt('financial');
+
+        const id = generateUUIDv7();
+        const publicId = await this.generatePublicId(isReturn ? 'RET-' : 'TRX-');
+        const sale: Sale = {
+            ...saleData,
+            // Recalculated with the current setting rather than taken from the POS
+            profit: calculateProfit(saleData.total, saleData.tax, saleData.cogs, options),
+            ...(costPending && { costPending }),
+            ...(saleData.approvals && { approvals: saleData.approvals.map(approval => ({ ...approval, saleId: id, salePublicId: publicId })) }),
+            type,
+            id,
+            publicId,
+            originalSalePublicId: originalSale?.publicId,
+            date: new Date().toISOString(),
+            status: 'Completed',
+            sync_status: 'pending',
+            workspaceId: this.workspaceId
+        };
+
+        // Stock movements, the original sales, the sale with its postings and the shift's cash are written
+        // together: if any of them fails (e.g. an entry does not balance), none of them is stored
+        await (database as any).transaction('rw', database.sales, database.inventoryAdjustments, database.notifications, database.shifts, ...stockEntryTables(database), async () => {
+            // Returned items have negative quantities, so they go back into stock
+            for (const item of sale.items) {
+                await this.inventory.adjustStockBy(item.productId, -item.quantity, `Sale #${sale.publicId}`, item.variantId, { type: isReturn ? 'return' : 'sale', id: sale.id });
+            }
+
+            await this.applyReturnsToOriginalSales(sale.items);
+
+            await database.sales.add(sale);
+            await postSaleEntry(database, sale);
+            if (!costPending) await postSaleCostEntry(database, sale);
+
+            const cashPayment = sale.payments.find(p => p.type === PaymentType.Cash);
+            if (cashPayment) await this.shifts.recordCashPayment(cashPayment.amount);
+            if (sale.approvals) await this.shifts.recordOverrides(sale.approvals);
+        });
+
+        return sale;
+    }
+
+    /**
+     * Adds returned quantities to the sales the items were returned from, updating their status.
+     * Runs inside processSale's transaction.
+     */
+    private async applyReturnsToOriginalSales(items: CartItem[]): Promise<void> {
+        const returnsBySale = new Map<string, CartItem[]>();
+        for (const item of items) {
+            if (item.quantity < 0 && item.originalSaleId) {
+                const saleId = String(item.originalSaleId);
+                returnsBySale.set(saleId, [...(returnsBySale.get(saleId) || []), item]);
+            }
+        }
+
+        for (const [saleId, returnItems] of returnsBySale.entries()) {
+            const sale = await this.database.sales.get(saleId);
+            if (!sale || sale.workspaceId !== this.workspaceId) continue;
+
+            const updatedItems = sale.items.map(origItem => {
+                const quantityReturnedNow = returnItems
+                    .filter(ri => ri.productId === origItem.productId && ri.variantId === origItem.variantId)
+                    .reduce((sum, ri) => sum + Math.abs(ri.quantity), 0);
+                return quantityReturnedNow > 0 ? { ...origItem, returnedQuantity: (origItem.returnedQuantity || 0) + quantityReturnedNow } : origItem;
+            });
+
+            await this.database.sales.put({
+                ...sale,
+                items: updatedItems,
+                status: getRefundStatus(updatedItems),
+                sync_status: 'pending',
+                updated_at: new Date().toISOString()
+            });
+        }
+    }
+
+    /**
+     * Fills in cost and profit of sales recorded by sessions without the financial key,
+     * and books their cost in the ledger.
+     */
+    public async backfillPendingCosts(options: SaleOptions): Promise<number> {
+        const database = this.database;
+        if (!database.canDecrypt('financial')) return 0;
+        const pending = await database.sales.where('workspaceId').equals(this.workspaceId).filter(s => !!s.costPending).toArray();
+        if (pending.length === 0) return 0;
+
+        const updated: Sale[] = [];
+        for (const sale of pending) {
+            const items: CartItem[] = [];
+            for (const item of sale.items) {
+                items.push({ ...item, costPrice: await this.resolveItemCost(item) });
+            }
+            const cogs = roundMoney(items.reduce((sum, item) => sum + item.costPrice * item.quantity, 0));
+            const { costPending, ...rest } = sale;
+            updated.push({ ...rest, items, cogs, profit: calculateProfit(sale.total, sale.tax, cogs, options), sync_status: 'pending', updated_at: new Date().toISOString() });
+        }
+        await (database as any).transaction('rw', database.sales, database.journalEntries, async () => {
+            await database.sales.bulkPut(updated);
+            for (const sale of updated) await postSaleCostEntry(database, sale);
+        });
+        return updated.length;
+    }
+
+    private async resolveItemCost(item: CartItem): Promise<Money> {
+        // Returns are costed at what the original sale was costed at
+        if (item.originalSaleId) {
+            const original = await this.database.sales.get(item.originalSaleId);
+            const originalItem = original?.items.find(i => i.productId === item.productId && i.variantId === item.variantId);
+            if (original && !original.costPending && originalItem) return Number(originalItem.costPrice) || 0;
+        }
+        const product = await this.database.products.get(item.productId);
+        const variant = item.variantId ? product?.variants.find(v => v.id === item.variantId) : undefined;
+        return Number(variant ? variant.costPrice : product?.costPrice) || 0;
+    }
+
+    // Checked against the publicId index rather than by loading every sale
+    private async generatePublicId(prefix: string): Promise<string> {
+        for (let attempt = 0; attempt < 50; attempt++) {
+            const id = prefix + generateNanoID(8);
+            if (await this.database.sales.where('publicId').equals(id).count() === 0) return id;
+        }
+        return `${prefix}${Date.now().toString(36).toUpperCase()}`;
+    }
+}
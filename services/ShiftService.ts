@@ -0,0 +1,124 @@
+import type { IMSDatabase } from '../utils/db';
+import { Approval, Money, Shift, User } from '../types';
+import { generateUUIDv7, generateUniqueNanoID } from '../utils/idGenerator';
+import { roundMoney } from '../utils/money';
+
+export type ShiftUser = Pick<User, 'id' | 'username'>;
+
+const safeMoney = (val: any): Money => roundMoney(Number(val) || 0);
+
+// Cash the drawer should hold: the opening float plus cash taken, less cash refunded
+export const getExpectedCash = (shift: Shift): Money =>
+    safeMoney(shift.startFloat) + safeMoney(shift.cashSales) - safeMoney(shift.cashRefunds);
+
+/**
+ * ShiftService
+ * Opens and closes cash drawer shifts of one workspace and keeps their cash totals.
+ */
+export class ShiftService {
+    constructor(private readonly database: IMSDatabase, private readonly workspaceId: string) {}
+
+    public async getOpenShift(): Promise<Shift | null> {
+        const open = await this.database.shifts.where('workspaceId').equals(this.workspaceId).filter(s => s.status === 'Open').first();
+        return open || null;
+    }
+
+    /**
+     * Opens a shift with the given float. Returns null if one is already open.
+     */
+    public async openShift(float: Money, user?: ShiftUser | null): Promise<Shift | null> {
+        const database = this.database;
+        return (database as any).transaction('rw', database.shifts, async () => {
+            const shifts = await database.shifts.where('workspaceId').equals(this.workspaceId).toArray();
+            if (shifts.some(s => s.status === 'Open')) return null;
+
+            const shift: Shift = {
+                id: generateUUIDv7(),
+                publicId: generateUniqueNanoID<Shift>(shifts, (s, id) => s.publicId === id, 6, 'SHF-'),
+                openedByUserId: user?.id || 'unknown',
+                openedByUserName: user?.username || 'Unknown',
+                startTime: new Date().toISOString(),
+                startFloat: float,
+                status: 'Open',
+                cashSales: 0,
+                cashRefunds: 0,
+                sync_status: 'pending',
+                workspaceId: this.workspaceId
+            };
+            await database.shifts.add(shift);
+            return shift;
+        });
+    }
+
+    /**
+     * Adds a cash payment to the open shift's totals: positive amounts are sales, negative ones refunds.
+     */
+    public async recordCashPayment(amount: Money): Promise<Shift | null> {
+        if (amount === 0) return null;
+        const database = this.database;
+        return (database as any).transaction('rw', database.shifts, async () => {
+            const shift = await this.getOpenShift();
+            if (!shift) return null;
+
+            // Use put with full object instead of update to ensure encryption middleware works correctly
+            const updatedShift: Shift = {
+                ...shift,
+                cashSales: amount > 0 ? safeMoney(shift.cashSales) + amount : safeMoney(shift.cashSales),
+                cashRefunds: amount < 0 ? safeMoney(shift.cashRefunds) + Math.abs(amount) : safeMoney(shift.cashRefunds),
+                sync_status: 'pending',
+                updated_at: new Date().toISOString()
+            };
+            await database.shifts.put(updatedShift);
+            return updatedShift;
+        });
+    }
+
+    /**
+     * Adds register overrides to the open shift's record of them. Returns null if no shift is open.
+     */
+    public async recordOverrides(approvals: Approval[]): Promise<Shift | null> {
+        if (approvals.length === 0) return null;
+        const database = this.database;
+        return (database as any).transaction('rw', database.shifts, async () => {
+            const shift = await this.getOpenShift();
+            if (!shift) return null;
+
+            const updatedShift: Shift = {
+                ...shift,
+                overrides: [...(shift.overrides || []), ...approvals],
+                sync_status: 'pending',
+                updated_at: new Date().toISOString()
+            };
+            await database.shifts.put(updatedShift);
+            return updatedShift;
+        });
+    }
+
+    /**
+     * Closes the open shift against the counted cash, recording the difference from the expected cash.
+     */
+    public async closeShift(actualCash: Money, notes: string, user?: ShiftUser | null): Promise<Shift> {
+        const database = this.database;
+        return (database as any).transaction('rw', database.shifts, async () => {
+            const shift = await this.getOpenShift();
+            if (!shift) throw new Error('No active shift.');
+
+            const expectedCash = getExpectedCash(shift);
+            const closedShift: Shift = {
+                ...shift,
+                closedByUserId: user?.id,
+                closedByUserName: user?.username,
+                endTime: new Date().toISOString(),
+                endFloat: expectedCash,
+                actualCash,
+                difference: actualCash - expectedCash,
+                notes,
+                status: 'Closed',
+                sync_status: 'pending',
+                updated_at: new Date().toISOString()
+            };
+            await database.shifts.put(closedShift);
+            return closedShift;
+        });
+    }
+}
@@ -1,5 +1,10 @@
-import { db, getFromDB, setInDB } from '../utils/db';
-import { SyncStatus } from '../types';
+import { liveQuery } from 'dexie';
+import { db, getFromDB, setInDB, omitRedactedFields, fillOmittedFields } from '../utils/db';
+import { MERGEABLE_TABLES, buildSyncConflict, getConflictId, reconcilePulledRecord, stripSyncShadows, toSyncSnapshot } from '../utils/syncMerge';
+import { SyncJobState, SyncLogEntry, SyncProfile, SyncStatus, SyncTrigger } from '../types';
+import { generateUUIDv7 } from '../utils/idGenerator';
+import { rebuildStockBalances, withLocalStock } from '../utils/stockLedger';
+import { tabCoordinator } from './TabCoordinator';
 
 const TABLES_TO_SYNC = [
     'products',
@@ -12,9 +17,112 @@ const TABLES_TO_SYNC = [
     'shifts',
     'heldOrders',
     'inventoryAdjustments',
-    'notifications'
+    'notifications',
+    'journalEntries',
+    'settings'
 ];
 
+// Back-office tables a register does not replicate. Stock movements are always replicated in
+// full, as stock levels are derived from them (see utils/stockLedger.ts).
+const REGISTER_EXCLUDED_TABLES = ['purchaseOrders'];
+// Ledger entries a register replicates: those of sales, so deleting a sale rung up on another
+// till reverses what it booked. Entries of other records still on the register are kept
+// (see getReversibleSourceIds).
+const REGISTER_LEDGER_SOURCES = ['sale'];
+
+// Date field limiting each history table when a device keeps only recent history.
+// Must match HISTORY_DATE_FIELDS in server/src/store.ts.
+const HISTORY_DATE_FIELDS: Record<string, string> = {
+    sales: 'date',
+    journalEntries: 'date',
+    notifications: 'timestamp',
+    purchaseOrders: 'dateCreated',
+    shifts: 'endTime'
+};
+
+export const DEFAULT_SYNC_HISTORY_DAYS = 30;
+
+interface PullScope {
+    tables: string[];
+    historyFrom?: string; // Older history records are not pulled, and evicted locally
+    ledgerSources?: string[]; // Journal entries of other source types are not pulled, and evicted locally
+}
+
+// Tables relayed over the live channel. Must match LIVE_TABLES in server/src/live.ts.
+const LIVE_TABLES = ['products', 'inventoryAdjustments', 'heldOrders'];
+// Local changes to them are pushed this long after the first one, so a sale's writes go out together
+const LIVE_PUSH_DELAY_MS = 1000;
+const LIVE_RECONNECT_BASE_DELAY_MS = 1000;
+const LIVE_RECONNECT_MAX_DELAY_MS = 60 * 1000;
+
+// Upper bound of a push request body; a larger record is sent on its own
+const MAX_BATCH_BYTES = 256 * 1024;
+const MAX_BATCH_RECORDS = 200;
+
+interface PushItem {
+    table: string; // 'deletedRecords' for tombstones
+    local: any; // The record as read before the push, for the compare-and-set
+    payload: any;
+}
+
+interface PushAck {
+    table: string;
+    id: string;
+    status: 'accepted' | 'rejected';
+    revision?: number;
+    reason?: string;
+}
+
+interface PushResponse {
+    acks?: PushAck[];
+}
+
+const toBatches = (items: PushItem[]): PushItem[][] => {
+    const batches: PushItem[][] = [];
+    let batch: PushItem[] = [];
+    let size = 0;
+    for (const item of items) {
+        const itemSize = JSON.stringify(item.payload).length;
+        if (batch.length > 0 && (size + itemSize > MAX_BATCH_BYTES || batch.length >= MAX_BATCH_RECORDS)) {
+            batches.push(batch);
+            batch = [];
+            size = 0;
+        }
+        batch.push(item);
+        size += itemSize;
+    }
+    if (batch.length > 0) batches.push(batch);
+    return batches;
+};
+
+// Backoff after failed runs: doubles from the base up to the cap, with jitter so tills that lost
+// the server together do not retry in step
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// Runs kept in the sync log per workspace
+const SYNC_LOG_LIMIT = 200;
+
+type SyncCounts = Pick<SyncLogEntry, 'pushed' | 'rejected' | 'pulled' | 'deleted' | 'conflicts'>;
+
+export interface SyncResult {
+    success: boolean;
+    message?: string;
+    counts?: Partial<SyncCounts>;
+}
+
+export const getSyncJobKey = (workspaceId: string) => `ims-${workspaceId}-syncJob`;
+const getLastSyncKey = (workspaceId: string) => `ims-${workspaceId}-lastSync`;
+const getSyncScopeKey = (workspaceId: string) => `ims-${workspaceId}-syncScope`;
+
+/**
+ * Delay before the next automatic run after `failures` consecutive failed ones.
+ */
+export const getRetryDelay = (failures: number): number => {
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(failures - 1, 0), RETRY_MAX_DELAY_MS);
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+};
+
 interface SyncResponse {
     changes: Record<string, any[]>;
     deleted: Array<{ id: string; table: string }>;
@@ -24,6 +132,10 @@ interface SyncResponse {
 /**
  * SyncService
  * Handles synchronization between local Dexie DB and remote REST API.
+ * Pushed records carry the `revision` they were based on; the server stores each accepted record as
+ * revision + 1 and returns that revision on pull, which is how concurrent edits are detected.
+ * With the 'register' profile a device pulls only what selling needs and the last days of history,
+ * and evicts older synced records; older receipts can still be fetched one by one (`fetchRecord`).
  */
 export class SyncService {
     private static instance: SyncService;
@@ -31,6 +143,22 @@ export class SyncService {
     private workspaceId: string | null = null;
     private apiUrl: string | null = null;
     private apiKey: string | null = null;
+    private sealPayloads: boolean = true;
+    private profile: SyncProfile = 'full';
+    private historyDays: number = DEFAULT_SYNC_HISTORY_DAYS;
+    // Records fetched on demand, kept until reload even when out of scope
+    private pinned = new Set<string>();
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    // Identifies this device to the live channel, so it is not sent back its own pushes
+    private readonly clientId = generateUUIDv7();
+    private liveEnabled = false;
+    private liveConnected = false;
+    private liveSocket: WebSocket | null = null;
+    private liveFailures = 0;
+    private liveReconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private livePushTimer: ReturnType<typeof setTimeout> | null = null;
+    private liveWatch: { unsubscribe(): void } | null = null;
+    private liveListeners = new Set<() => void>();
 
     private constructor() {}
 
@@ -41,10 +169,31 @@ export class SyncService {
         return SyncService.instance;
     }
 
-    public configure(workspaceId: string, apiUrl: string, apiKey: string) {
+    /**
+     * With `sealPayloads`, sensitive fields (ENCRYPTED_FIELDS) are pushed encrypted under the workspace
+     * keys, so the server only ever holds their ciphertext. Pulled records are opened either way.
+     * `historyDays` only applies to the 'register' profile.
+     */
+    public configure(workspaceId: string, apiUrl: string, apiKey: string, sealPayloads: boolean = true, profile: SyncProfile = 'full', historyDays: number = DEFAULT_SYNC_HISTORY_DAYS) {
         this.workspaceId = workspaceId;
         this.apiUrl = apiUrl.replace(/\/$/, ""); // Remove trailing slash
         this.apiKey = apiKey;
+        this.sealPayloads = sealPayloads;
+        this.profile = profile;
+        this.historyDays = Math.max(1, Math.floor(historyDays) || DEFAULT_SYNC_HISTORY_DAYS);
+        this.cancelRetry();
+    }
+
+    private getPullScope(): PullScope {
+        if (this.profile === 'full') return { tables: TABLES_TO_SYNC };
+        const historyFrom = new Date();
+        historyFrom.setHours(0, 0, 0, 0);
+        historyFrom.setDate(historyFrom.getDate() - this.historyDays);
+        return {
+            tables: TABLES_TO_SYNC.filter(table => !REGISTER_EXCLUDED_TABLES.includes(table)),
+            historyFrom: historyFrom.toISOString(),
+            ledgerSources: REGISTER_LEDGER_SOURCES
+        };
     }
 
     private async getHeaders(): Promise<Headers> {
@@ -56,13 +205,16 @@ export class SyncService {
         if (this.workspaceId) {
             headers.append('X-Workspace-ID', this.workspaceId);
         }
+        headers.append('X-Client-ID', this.clientId);
         return headers;
     }
 
     /**
-     * Checks for local changes (sync_status === 'pending') and pushes them to the backend.
+     * Checks for local changes (sync_status === 'pending') and pushes them to the backend in batches.
+     * Each batch is settled as soon as the server acknowledges it, so an interrupted push resumes with
+     * the records that are still pending.
      */
-    public async pushChanges(): Promise<{ success: boolean; message?: string }> {
+    public async pushChanges(): Promise<SyncResult> {
         if (!navigator.onLine) return { success: false, message: 'Offline' };
         if (!this.apiUrl) return { success: false, message: 'API URL not configured' };
         if (this.isSyncing) return { success: false, message: 'Sync already in progress' };
@@ -71,63 +223,59 @@ export class SyncService {
         console.log('SyncService: pushing changes...');
 
         try {
-            const payload: Record<string, any[]> = {};
-            let hasChanges = false;
+            const items: PushItem[] = [];
 
             // 1. Gather Created/Updated Records
             for (const table of TABLES_TO_SYNC) {
-                // @ts-ignore
-                const pendingRecords = await db[table].where('sync_status').equals('pending').toArray();
-                if (pendingRecords.length > 0) {
-                    payload[table] = pendingRecords;
-                    hasChanges = true;
+                // Records with unresolved conflicts wait until a user has picked their values.
+                const pendingRecords = await (db as any)[table].where('sync_status').equals('pending').filter((r: any) => !r.syncRemote).toArray();
+                for (const record of pendingRecords) {
+                    // Fields this session cannot decrypt are redacted placeholders; never push them.
+                    const payload = omitRedactedFields(table, stripSyncShadows(record));
+                    items.push({ table, local: record, payload: this.sealPayloads ? await db.sealEncryptedFields(table, payload) : payload });
                 }
             }
 
             // 2. Gather Deleted Records
             const pendingDeletions = await db.deletedRecords.where('sync_status').equals('pending').toArray();
-            if (pendingDeletions.length > 0) {
-                payload['deletedRecords'] = pendingDeletions;
-                hasChanges = true;
+            for (const tombstone of pendingDeletions) {
+                items.push({ table: 'deletedRecords', local: tombstone, payload: tombstone });
             }
 
-            if (!hasChanges) {
-                this.isSyncing = false;
-                return { success: true, message: 'No changes to push' };
+            if (items.length === 0) {
+                return { success: true, message: 'No changes to push', counts: { pushed: 0, rejected: 0 } };
             }
 
-            // 3. Send to Backend
-            const response = await fetch(`${this.apiUrl}/sync/push`, {
-                method: 'POST',
-                headers: await this.getHeaders(),
-                body: JSON.stringify(payload)
-            });
+            // 3. Send to Backend, one batch at a time
+            let accepted = 0;
+            const rejected: string[] = [];
+            for (const batch of toBatches(items)) {
+                const payload: Record<string, any[]> = {};
+                for (const item of batch) (payload[item.table] ||= []).push(item.payload);
 
-            if (!response.ok) {
-                throw new Error(`Sync failed: ${response.statusText}`);
-            }
+                const response = await fetch(`${this.apiUrl}/sync/push`, {
+                    method: 'POST',
+                    headers: await this.getHeaders(),
+                    body: JSON.stringify(payload)
+                });
 
-            // 4. Mark local records as synced on success
-            await (db as any).transaction('rw', [...TABLES_TO_SYNC.map(t => (db as any)[t]), db.deletedRecords], async () => {
-                for (const table of Object.keys(payload)) {
-                    if (table === 'deletedRecords') {
-                        // For deletions, we can remove them from the tombstone table once synced
-                        // OR mark them synced if we want to keep history. Removing is cleaner for local storage.
-                        const ids = payload[table].map((r: any) => r.id);
-                        await db.deletedRecords.bulkDelete(ids);
-                    } else {
-                        const items = payload[table];
-                        for (const item of items) {
-                            // Update sync_status to 'synced'
-                            // We use update to avoid overwriting newer changes if they happened during sync (race condition mitigation)
-                            // Ideally, check if updated_at hasn't changed. For simplicity:
-                            await (db as any)[table].update(item.id, { sync_status: 'synced' });
-                        }
-                    }
+                if (!response.ok) {
+                    throw new Error(accepted > 0
+                        ? `Sync failed after ${accepted} record(s) were pushed: ${response.statusText}`
+                        : `Sync failed: ${response.statusText}`);
                 }
-            });
 
-            return { success: true, message: 'Push successful' };
+                const { acks }: PushResponse = await response.json();
+                const result = await this.applyAcks(batch, acks);
+                accepted += result.accepted;
+                rejected.push(...result.rejected);
+            }
+
+            const counts = { pushed: accepted, rejected: rejected.length };
+            if (rejected.length > 0) {
+                return { success: true, message: `Pushed ${accepted} record(s); the server rejected ${rejected.length}: ${rejected.slice(0, 3).join('; ')}${rejected.length > 3 ? '; ...' : ''}`, counts };
+            }
+            return { success: true, message: 'Push successful', counts };
 
         } catch (error) {
             console.error('SyncService: Push failed', error);
@@ -137,10 +285,67 @@ export class SyncService {
         }
     }
 
+    /**
+     * Settles a pushed batch. A record is only marked synced if it was not edited while the push was in
+     * flight (compare-and-set on `updated_at`); an edited one stays pending, now based on the revision
+     * the server stored. Servers that do not acknowledge records individually accept the whole batch.
+     */
+    private async applyAcks(batch: PushItem[], acks: PushAck[] | undefined): Promise<{ accepted: number; rejected: string[] }> {
+        const ackFor = (item: PushItem): PushAck | undefined => acks
+            ? acks.find(ack => ack.table === item.table && ack.id === item.local.id)
+            : { table: item.table, id: item.local.id, status: 'accepted' };
+
+        let accepted = 0;
+        const rejected: string[] = [];
+        await (db as any).transaction('rw', [...TABLES_TO_SYNC.map(t => (db as any)[t]), db.deletedRecords], async () => {
+            for (const item of batch) {
+                const ack = ackFor(item);
+                if (!ack) continue; // Not processed; still pending, so the next push retries it
+
+                if (item.table === 'deletedRecords') {
+                    // Tombstones are removed once the server has them
+                    if (ack.status === 'accepted') {
+                        await db.deletedRecords.delete(item.local.id);
+                        accepted++;
+                    } else {
+                        await db.deletedRecords.update(item.local.id, { sync_status: 'error' });
+                        rejected.push(`deletion of ${item.local.id} (${ack.reason})`);
+                    }
+                    continue;
+                }
+
+                const table = (db as any)[item.table];
+                const current = await table.get(item.local.id);
+                if (!current) continue;
+                const unchanged = current.updated_at === item.local.updated_at;
+
+                if (ack.status === 'accepted') {
+                    // The pushed version is now the server's, and the merge base of further edits
+                    const { syncError, ...rest } = current;
+                    await table.put({
+                        ...rest,
+                        sync_status: unchanged ? 'synced' : 'pending',
+                        revision: ack.revision ?? (item.local.revision ?? 0) + 1,
+                        ...(MERGEABLE_TABLES.includes(item.table) && { syncBase: toSyncSnapshot(item.local) })
+                    });
+                    accepted++;
+                } else {
+                    // A stale record is merged with the server's version on the next pull, then pushed again.
+                    // Other rejections are kept as errors until the record is edited.
+                    if (ack.reason !== 'stale' && unchanged) {
+                        await table.put({ ...current, sync_status: 'error', syncError: ack.reason });
+                    }
+                    rejected.push(`${item.table} ${item.local.id} (${ack.reason})`);
+                }
+            }
+        });
+        return { accepted, rejected };
+    }
+
     /**
      * Pulls latest data from Backend.
      */
-    public async pullChanges(): Promise<{ success: boolean; message?: string }> {
+    public async pullChanges(): Promise<SyncResult> {
         if (!navigator.onLine) return { success: false, message: 'Offline' };
         if (!this.apiUrl) return { success: false, message: 'API URL not configured' };
         if (this.isSyncing) return { success: false, message: 'Sync already in progress' };
@@ -149,10 +354,22 @@ export class SyncService {
         console.log('SyncService: pulling changes...');
 
         try {
-            const lastSyncKey = `ims-${this.workspaceId}-lastSync`;
-            const lastSync = await getFromDB<string>(lastSyncKey) || new Date(0).toISOString();
+            const lastSyncKey = getLastSyncKey(this.workspaceId!);
+            const scope = this.getPullScope();
+
+            // A changed profile or history length may bring back records pulled before, so start over
+            const scopeKey = getSyncScopeKey(this.workspaceId!);
+            const scopeSignature = this.profile === 'full' ? 'full' : `${scope.tables.join(',')}:${this.historyDays}`;
+            const scopeChanged = (await getFromDB<string>(scopeKey) || 'full') !== scopeSignature;
+            const lastSync = (!scopeChanged && await getFromDB<string>(lastSyncKey)) || new Date(0).toISOString();
 
-            const response = await fetch(`${this.apiUrl}/sync/pull?last_sync=${lastSync}`, {
+            const params = new URLSearchParams({ last_sync: lastSync });
+            if (this.profile !== 'full') {
+                params.set('tables', scope.tables.join(','));
+                if (scope.historyFrom) params.set('history_from', scope.historyFrom);
+                if (scope.ledgerSources) params.set('ledger_sources', scope.ledgerSources.join(','));
+            }
+            const response = await fetch(`${this.apiUrl}/sync/pull?${params}`, {
                 method: 'GET',
                 headers: await this.getHeaders(),
             });
@@ -163,35 +380,25 @@ export class SyncService {
 
             const data: SyncResponse = await response.json();
 
-            await (db as any).transaction('rw', [...TABLES_TO_SYNC.map(t => (db as any)[t])], async () => {
-                // 1. Apply Changes/Inserts
-                if (data.changes) {
-                    for (const [table, records] of Object.entries(data.changes)) {
-                        if (TABLES_TO_SYNC.includes(table) && Array.isArray(records)) {
-                            // We use bulkPut to overwrite local data with server authority
-                            // Ensure we mark them as synced so we don't push them back
-                            const syncedRecords = records.map(r => ({ ...r, sync_status: 'synced' }));
-                            await (db as any)[table].bulkPut(syncedRecords);
-                        }
-                    }
-                }
-
-                // 2. Apply Deletions
-                if (data.deleted && Array.isArray(data.deleted)) {
-                    for (const del of data.deleted) {
-                        if (TABLES_TO_SYNC.includes(del.table)) {
-                            await (db as any)[del.table].delete(del.id);
-                        }
-                    }
-                }
-            });
+            const { pulled: pulledCount, deleted: deletedCount, conflicts: conflictCount } = await this.applyRemoteChanges(data);
 
             // 3. Update Last Sync Timestamp
             if (data.timestamp) {
                 await setInDB(lastSyncKey, data.timestamp);
+                await setInDB(scopeKey, scopeSignature);
             }
 
-            return { success: true, message: 'Pull successful' };
+            // 4. Free the space of synced records that left the scope
+            if (this.profile !== 'full') {
+                const evicted = await this.evictOutOfScope(scope);
+                if (evicted > 0) console.log(`SyncService: evicted ${evicted} record(s) outside the sync scope`);
+            }
+
+            const counts = { pulled: pulledCount, deleted: deletedCount, conflicts: conflictCount };
+            if (conflictCount > 0) {
+                return { success: true, message: `Pull successful. ${conflictCount} record(s) were edited on another device too; review them under Settings > Sync Settings.`, counts };
+            }
+            return { success: true, message: 'Pull successful', counts };
 
         } catch (error) {
             console.error('SyncService: Pull failed', error);
@@ -202,14 +409,366 @@ export class SyncService {
     }
 
     /**
-     * Run full sync cycle (Push then Pull)
+     * Run full sync cycle (Push then Pull), recording it in the sync log and the job state.
+     * After a failure, automatic runs wait out an exponential backoff; manual runs and coming back
+     * online try straight away.
      */
-    public async sync(): Promise<{ success: boolean; message?: string }> {
+    public async sync(trigger: SyncTrigger = 'manual'): Promise<SyncResult> {
+        if (!this.workspaceId) return { success: false, message: 'Workspace not configured' };
+        if (!navigator.onLine) return { success: false, message: 'Offline' };
+        if (!this.apiUrl) return { success: false, message: 'API URL not configured' };
+        if (this.isSyncing) return { success: false, message: 'Sync already in progress' };
+
+        // Automatic runs belong to the leader tab; any tab may sync on request
+        if (trigger !== 'manual' && !tabCoordinator.isLeader()) return { success: false, message: 'Another tab runs background sync' };
+
+        const workspaceId = this.workspaceId;
+        const state = await this.getJobState(workspaceId);
+        if ((trigger === 'interval' || trigger === 'retry') && state.nextRetryAt && new Date(state.nextRetryAt).getTime() > Date.now()) {
+            return { success: false, message: 'Waiting to retry' };
+        }
+
+        this.cancelRetry();
+        const startedAt = new Date().toISOString();
+        const result = await this.runSync();
+        const finishedAt = new Date().toISOString();
+
+        await this.recordRun(workspaceId, {
+            trigger,
+            startedAt,
+            finishedAt,
+            success: result.success,
+            pushed: result.counts?.pushed ?? 0,
+            rejected: result.counts?.rejected ?? 0,
+            pulled: result.counts?.pulled ?? 0,
+            deleted: result.counts?.deleted ?? 0,
+            conflicts: result.counts?.conflicts ?? 0,
+            message: result.message
+        });
+
+        if (result.success) {
+            await setInDB<SyncJobState>(getSyncJobKey(workspaceId), { lastAttemptAt: startedAt, lastSuccessAt: finishedAt, consecutiveFailures: 0 });
+        } else {
+            const consecutiveFailures = state.consecutiveFailures + 1;
+            const nextRetryAt = new Date(Date.now() + getRetryDelay(consecutiveFailures)).toISOString();
+            await setInDB<SyncJobState>(getSyncJobKey(workspaceId), { ...state, lastAttemptAt: startedAt, consecutiveFailures, nextRetryAt, lastError: result.message });
+            this.scheduleRetry(nextRetryAt);
+        }
+        return result;
+    }
+
+    private async runSync(): Promise<SyncResult> {
         const pushResult = await this.pushChanges();
-        if (!pushResult.success && pushResult.message !== 'No changes to push') return pushResult;
+        if (!pushResult.success) return pushResult;
 
         const pullResult = await this.pullChanges();
-        return pullResult;
+        const counts = { ...pushResult.counts, ...pullResult.counts };
+        if (!pullResult.success) return { ...pullResult, counts };
+        // Rejected pushes matter more than a routine pull message
+        return { success: true, message: pushResult.counts?.rejected ? pushResult.message : pullResult.message, counts };
+    }
+
+    /**
+     * Stores records and deletions received from the server, by a pull or over the live channel.
+     */
+    private async applyRemoteChanges(data: Pick<SyncResponse, 'changes' | 'deleted'>): Promise<{ pulled: number; deleted: number; conflicts: number }> {
+        // Open sealed fields before the transaction: awaiting Web Crypto inside it would let it commit
+        for (const [table, records] of Object.entries(data.changes || {})) {
+            if (Array.isArray(records)) data.changes[table] = await Promise.all(records.map(record => db.openSealedFields(table, record)));
+        }
+
+        let conflictCount = 0;
+        let pulledCount = 0;
+        let deletedCount = 0;
+        // Products whose stock must be re-derived from the ledger
+        const stockProductIds = new Set<string>();
+        await (db as any).transaction('rw', [...TABLES_TO_SYNC.map(t => (db as any)[t]), db.syncConflicts], async () => {
+            // 1. Apply Changes/Inserts
+            if (data.changes) {
+                for (const [table, records] of Object.entries(data.changes)) {
+                    if (TABLES_TO_SYNC.includes(table) && Array.isArray(records)) {
+                        // Server records replace local ones, except where the local copy was edited since it
+                        // last synced: those are merged, or kept with a conflict record (see utils/syncMerge.ts).
+                        // Restricted fields omitted by the pushing session keep their local values.
+                        const localRecords = await (db as any)[table].where('id').anyOf(records.map(r => r.id)).toArray();
+                        const localById = new Map<string, any>(localRecords.map((r: any) => [r.id, r]));
+                        const toStore: any[] = [];
+                        for (const pulled of records) {
+                            const local = localById.get(pulled.id);
+                            // Stock levels are not taken from other devices but derived from the movements
+                            const remote = table === 'products' ? withLocalStock(pulled, local) : pulled;
+                            if (table === 'products') stockProductIds.add(remote.id);
+                            if (table === 'inventoryAdjustments') stockProductIds.add(remote.productId);
+                            const reconciled = reconcilePulledRecord(table, local, fillOmittedFields(table, remote, local));
+                            if (!reconciled) continue;
+                            toStore.push(reconciled.record);
+                            if (reconciled.conflicts.length > 0) {
+                                await db.syncConflicts.put(buildSyncConflict(table, reconciled.record, reconciled.conflicts));
+                                conflictCount++;
+                            } else if (local?.syncRemote) {
+                                await db.syncConflicts.delete(getConflictId(table, remote.id));
+                            }
+                        }
+                        await (db as any)[table].bulkPut(toStore);
+                        pulledCount += records.length;
+                    }
+                }
+            }
+
+            // 2. Apply Deletions
+            if (data.deleted && Array.isArray(data.deleted)) {
+                for (const del of data.deleted) {
+                    if (TABLES_TO_SYNC.includes(del.table)) {
+                        if (del.table === 'inventoryAdjustments') {
+                            const movement = await db.inventoryAdjustments.get(del.id);
+                            if (movement) stockProductIds.add(movement.productId);
+                        }
+                        await (db as any)[del.table].delete(del.id);
+                        await db.syncConflicts.delete(getConflictId(del.table, del.id));
+                        deletedCount++;
+                    }
+                }
+            }
+
+            // 3. Re-derive the stock of products whose movements changed
+            await rebuildStockBalances(db, stockProductIds);
+        });
+        return { pulled: pulledCount, deleted: deletedCount, conflicts: conflictCount };
+    }
+
+    /**
+     * Deletes this workspace's synced records outside the pull scope. Pending and conflicted records
+     * stay until pushed or resolved, and nothing is tombstoned: the records still exist on the server.
+     * Ledger entries of records still on the device stay too, as deleting those records reverses them.
+     */
+    private async evictOutOfScope(scope: PullScope): Promise<number> {
+        let evicted = 0;
+        await (db as any).transaction('rw', TABLES_TO_SYNC.map(t => (db as any)[t]), async () => {
+            for (const table of TABLES_TO_SYNC) {
+                const inScope = scope.tables.includes(table);
+                const dateField = HISTORY_DATE_FIELDS[table];
+                const ledgerSources = table === 'journalEntries' ? scope.ledgerSources : undefined;
+                if (inScope && !(scope.historyFrom && dateField) && !ledgerSources) continue;
+                // Sales and purchase orders come earlier in TABLES_TO_SYNC, so this sees what they left
+                const keptSources = table === 'journalEntries' ? await this.getReversibleSourceIds() : null;
+
+                const ids: string[] = await (db as any)[table]
+                    .filter((r: any) => r.workspaceId === this.workspaceId
+                        && r.sync_status === 'synced'
+                        && !r.syncRemote
+                        && !this.pinned.has(`${table}:${r.id}`)
+                        && !keptSources?.has(r.sourceId)
+                        && (!inScope
+                            || (!!ledgerSources && !ledgerSources.includes(r.sourceType))
+                            || (!!scope.historyFrom && !!r[dateField] && r[dateField] < scope.historyFrom)))
+                    .primaryKeys();
+                if (ids.length > 0) {
+                    await (db as any)[table].bulkDelete(ids);
+                    evicted += ids.length;
+                }
+            }
+        });
+        return evicted;
+    }
+
+    // Sources of the ledger entries that deleting a record on this device reverses (see
+    // reverseEntriesForSources): its sales, and the receipts of its purchase orders
+    private async getReversibleSourceIds(): Promise<Set<string>> {
+        const workspaceId = this.workspaceId!;
+        const saleIds = await db.sales.where('workspaceId').equals(workspaceId).primaryKeys();
+        const poIds = new Set(await db.purchaseOrders.where('workspaceId').equals(workspaceId).primaryKeys());
+        const receiptIds = await db.inventoryAdjustments.where('workspaceId').equals(workspaceId)
+            .filter(adj => adj.sourceType === 'poReceipt' && !!adj.sourceId && poIds.has(adj.sourceId))
+            .primaryKeys();
+        return new Set([...saleIds, ...receiptIds].map(String));
+    }
+
+    /**
+     * Fetches one record from the server by id (or receipt number for sales) and stores it, e.g. an
+     * old receipt outside a register's history. It is kept until reload even if out of scope. A sale
+     * comes with its ledger entries, so deleting it on this device reverses them.
+     * Returns null when the server has no such record.
+     */
+    public async fetchRecord(table: string, idOrPublicId: string): Promise<any | null> {
+        if (!navigator.onLine) throw new Error('Offline');
+        if (!this.apiUrl) throw new Error('API URL not configured');
+        if (!TABLES_TO_SYNC.includes(table)) throw new Error(`Table ${table} is not synced`);
+
+        const params = new URLSearchParams({ table, id: idOrPublicId });
+        const response = await fetch(`${this.apiUrl}/sync/record?${params}`, {
+            method: 'GET',
+            headers: await this.getHeaders(),
+        });
+        if (response.status === 404) return null;
+        if (!response.ok) throw new Error(`Fetch failed: ${response.statusText}`);
+
+        const { record } = await response.json();
+        const remote = await db.openSealedFields(table, record);
+        const entries = table === 'sales' ? await this.fetchLedgerEntries(remote.id) : [];
+        this.pinned.add(`${table}:${remote.id}`);
+        return await (db as any).transaction('rw', (db as any)[table], db.journalEntries, async () => {
+            // Local copies are already reconciled by the regular pull
+            const localEntryIds = new Set((await db.journalEntries.bulkGet(entries.map(e => e.id))).filter(Boolean).map(e => e!.id));
+            await db.journalEntries.bulkPut(entries.filter(e => !localEntryIds.has(e.id)).map(e => reconcilePulledRecord('journalEntries', undefined, e)!.record));
+            const local = await (db as any)[table].get(remote.id);
+            if (local) return local;
+            const record = reconcilePulledRecord(table, undefined, remote)!.record;
+            await (db as any)[table].put(record);
+            return record;
+        });
+    }
+
+    private async fetchLedgerEntries(sourceId: string): Promise<any[]> {
+        const response = await fetch(`${this.apiUrl}/sync/ledger?${new URLSearchParams({ source_id: sourceId })}`, {
+            method: 'GET',
+            headers: await this.getHeaders(),
+        });
+        if (!response.ok) throw new Error(`Fetch failed: ${response.statusText}`);
+        const { records } = await response.json();
+        return Promise.all(records.map((entry: any) => db.openSealedFields('journalEntries', entry)));
+    }
+
+    // --- Live channel ---
+
+    /**
+     * Opens the live channel: local product and held order changes are pushed within a second, and
+     * those of other devices arrive as the server relays them. While disconnected it reconnects with
+     * backoff, and the regular polling sync keeps devices converging in the meantime.
+     */
+    public startLive() {
+        if (this.liveEnabled || !this.apiUrl || typeof WebSocket === 'undefined') return;
+        this.liveEnabled = true;
+        this.liveFailures = 0;
+        this.connectLive();
+
+        // Fires for writes from any tab, so the leader pushes sales rung up in other tabs too
+        this.liveWatch = liveQuery(() => Promise.all([
+            ...LIVE_TABLES.map(table => (db as any)[table].where('sync_status').equals('pending').count()),
+            db.deletedRecords.where('sync_status').equals('pending').count()
+        ])).subscribe({
+            next: (counts: number[]) => { if (counts.some(count => count > 0)) this.scheduleLivePush(); },
+            error: (error: unknown) => console.error('SyncService: live watch failed', error)
+        });
+    }
+
+    public stopLive() {
+        this.liveEnabled = false;
+        this.liveWatch?.unsubscribe();
+        this.liveWatch = null;
+        if (this.liveReconnectTimer) clearTimeout(this.liveReconnectTimer);
+        this.liveReconnectTimer = null;
+        if (this.livePushTimer) clearTimeout(this.livePushTimer);
+        this.livePushTimer = null;
+        const socket = this.liveSocket;
+        this.liveSocket = null;
+        socket?.close();
+        this.setLiveConnected(false);
+    }
+
+    public isLiveConnected(): boolean {
+        return this.liveConnected;
+    }
+
+    // Called whenever the live channel connects or disconnects
+    public subscribeLive(listener: () => void): () => void {
+        this.liveListeners.add(listener);
+        return () => { this.liveListeners.delete(listener); };
+    }
+
+    private connectLive() {
+        if (!this.apiUrl || !this.apiKey || !this.workspaceId) return;
+        const socket = new WebSocket(`${this.apiUrl.replace(/^http/, 'ws')}/sync/live`);
+        this.liveSocket = socket;
+
+        socket.onopen = () => {
+            socket.send(JSON.stringify({ type: 'auth', apiKey: this.apiKey, workspaceId: this.workspaceId, clientId: this.clientId }));
+        };
+        socket.onmessage = async (event: MessageEvent) => {
+            let message: any;
+            try {
+                message = JSON.parse(event.data);
+            } catch {
+                return;
+            }
+            if (message.type === 'ready') {
+                this.liveFailures = 0;
+                this.setLiveConnected(true);
+                // Catch up on what was missed while disconnected
+                this.pullChanges();
+            } else if (message.type === 'changes') {
+                try {
+                    await this.applyRemoteChanges(message);
+                } catch (error) {
+                    console.error('SyncService: Failed to apply live changes', error);
+                }
+            }
+        };
+        socket.onclose = () => {
+            if (this.liveSocket !== socket) return;
+            this.liveSocket = null;
+            this.setLiveConnected(false);
+            if (!this.liveEnabled) return;
+            const delay = Math.min(LIVE_RECONNECT_BASE_DELAY_MS * 2 ** this.liveFailures++, LIVE_RECONNECT_MAX_DELAY_MS);
+            this.liveReconnectTimer = setTimeout(() => {
+                this.liveReconnectTimer = null;
+                if (this.liveEnabled) this.connectLive();
+            }, delay);
+        };
+    }
+
+    private scheduleLivePush() {
+        if (this.livePushTimer || !this.liveConnected) return;
+        this.livePushTimer = setTimeout(async () => {
+            this.livePushTimer = null;
+            const result = await this.pushChanges();
+            // A running sync pushes what it finds; anything written after it is picked up here
+            if (!result.success && this.isSyncing) this.scheduleLivePush();
+        }, LIVE_PUSH_DELAY_MS);
+    }
+
+    private setLiveConnected(connected: boolean) {
+        if (this.liveConnected === connected) return;
+        this.liveConnected = connected;
+        this.liveListeners.forEach(listener => listener());
+    }
+
+    public async getJobState(workspaceId: string): Promise<SyncJobState> {
+        return await getFromDB<SyncJobState>(getSyncJobKey(workspaceId)) || { consecutiveFailures: 0 };
+    }
+
+    /**
+     * Re-arms the retry of a failed run, e.g. after a reload. Call after `configure`.
+     */
+    public async resumeRetry(): Promise<void> {
+        if (!this.workspaceId) return;
+        const state = await this.getJobState(this.workspaceId);
+        if (state.consecutiveFailures > 0) this.scheduleRetry(state.nextRetryAt || new Date().toISOString());
+    }
+
+    public cancelRetry() {
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+    }
+
+    private scheduleRetry(at: string) {
+        this.cancelRetry();
+        const delay = Math.max(new Date(at).getTime() - Date.now(), 0);
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.sync('retry');
+        }, delay);
+    }
+
+    private async recordRun(workspaceId: string, run: Omit<SyncLogEntry, 'id' | 'workspaceId'>) {
+        try {
+            await db.syncLog.add({ id: generateUUIDv7(), workspaceId, ...run });
+            const entries = await db.syncLog.where('workspaceId').equals(workspaceId).sortBy('startedAt');
+            if (entries.length > SYNC_LOG_LIMIT) {
+                await db.syncLog.bulkDelete(entries.slice(0, entries.length - SYNC_LOG_LIMIT).map(e => e.id));
+            }
+        } catch (error) {
+            console.error('SyncService: Failed to record sync run', error);
+        }
     }
 }
 
@@ -0,0 +1,147 @@
+import { generateUUIDv7 } from '../utils/idGenerator';
+
+const CHANNEL_NAME = 'ims-tabs';
+// Web Lock held by the leader tab until it closes; the other tabs queue for it
+const LEADER_LOCK = 'ims-leader';
+// Every tab holds a Web Lock of its own until it closes, so the others learn when it is gone
+const TAB_LOCK_PREFIX = 'ims-tab-';
+
+// Session events every other tab must act on
+export type TabEvent =
+    | { type: 'logout' }
+    | { type: 'keys-changed'; workspaceId: string }
+    | { type: 'user-switched'; workspaceId: string }
+    | { type: 'lock'; workspaceId: string };
+
+// `register` is the workspace whose register (POS) the tab has open
+type TabMessage =
+    | { type: 'hello' | 'presence'; tabId: string; register: string | null }
+    | { type: 'event'; tabId: string; event: TabEvent };
+
+const getLocks = (): LockManager | undefined => typeof navigator !== 'undefined' ? navigator.locks : undefined;
+
+/**
+ * TabCoordinator
+ * Coordinates the app's tabs. The tab holding the leader Web Lock alone runs background jobs such as
+ * automatic sync and back-fills; when it closes, the browser grants the lock to the next waiting tab.
+ * Over a BroadcastChannel, tabs relay session events and announce which register they have open.
+ * Until `start` is called (e.g. in scripts), or where Web Locks are unsupported, every tab leads.
+ */
+export class TabCoordinator {
+    private static instance: TabCoordinator;
+    readonly tabId = generateUUIDv7();
+    private channel: BroadcastChannel | null = null;
+    // The register each other open tab has open
+    private tabs = new Map<string, string | null>();
+    private register: string | null = null;
+    private started = false;
+    private leader = true;
+    private listeners = new Set<() => void>();
+    private eventListeners = new Set<(event: TabEvent) => void>();
+
+    private constructor() {}
+
+    public static getInstance(): TabCoordinator {
+        if (!TabCoordinator.instance) {
+            TabCoordinator.instance = new TabCoordinator();
+        }
+        return TabCoordinator.instance;
+    }
+
+    public start() {
+        if (this.started || typeof BroadcastChannel === 'undefined') return;
+        this.started = true;
+        this.channel = new BroadcastChannel(CHANNEL_NAME);
+        const locks = getLocks();
+        if (!locks) {
+            this.channel.onmessage = (e: MessageEvent<TabMessage>) => this.handleMessage(e.data);
+            return;
+        }
+
+        // Only announced once its own lock is held, so a tab watching it never mistakes it for closed
+        locks.request(`${TAB_LOCK_PREFIX}${this.tabId}`, () => {
+            this.channel!.onmessage = (e: MessageEvent<TabMessage>) => this.handleMessage(e.data);
+            this.post({ type: 'hello', tabId: this.tabId, register: this.register });
+            return new Promise<void>(() => {}); // Held until the tab closes
+        });
+        this.leader = false;
+        locks.request(LEADER_LOCK, () => {
+            this.leader = true;
+            this.notify();
+            return new Promise<void>(() => {});
+        });
+        this.notify();
+    }
+
+    public isLeader(): boolean {
+        return this.leader;
+    }
+
+    /**
+     * Whether another live tab has the register of this workspace open.
+     */
+    public isRegisterOpenElsewhere(workspaceId: string): boolean {
+        return [...this.tabs.values()].includes(workspaceId);
+    }
+
+    public setRegister(workspaceId: string | null) {
+        if (this.register === workspaceId) return;
+        this.register = workspaceId;
+        this.post({ type: 'presence', tabId: this.tabId, register: this.register });
+    }
+
+    /**
+     * Sends an event to every other tab.
+     */
+    public broadcast(event: TabEvent) {
+        this.post({ type: 'event', tabId: this.tabId, event });
+    }
+
+    public onEvent(listener: (event: TabEvent) => void): () => void {
+        this.eventListeners.add(listener);
+        return () => { this.eventListeners.delete(listener); };
+    }
+
+    // Called whenever leadership or another tab's register changes
+    public subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    private post(message: TabMessage) {
+        this.channel?.postMessage(message);
+    }
+
+    private handleMessage(message: TabMessage) {
+        if (!message || message.tabId === this.tabId) return;
+        switch (message.type) {
+            case 'hello':
+            case 'presence':
+                // Without Web Locks a closed tab would never be forgotten
+                if (!getLocks()) return;
+                if (!this.tabs.has(message.tabId)) this.watch(message.tabId);
+                this.tabs.set(message.tabId, message.register);
+                // Let a new tab learn about this one
+                if (message.type === 'hello') this.post({ type: 'presence', tabId: this.tabId, register: this.register });
+                break;
+            case 'event':
+                this.eventListeners.forEach(listener => listener(message.event));
+                return;
+        }
+        this.notify();
+    }
+
+    // Forgets another tab once it closes: its lock is then granted to this tab, which releases it at once
+    private watch(tabId: string) {
+        getLocks()!.request(`${TAB_LOCK_PREFIX}${tabId}`, () => {
+            this.tabs.delete(tabId);
+            this.notify();
+        });
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+export const tabCoordinator = TabCoordinator.getInstance();
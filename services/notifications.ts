@@ -0,0 +1,17 @@
+import type { IMSDatabase } from '../utils/db';
+import { Notification, NotificationType } from '../types';
+import { generateUUIDv7 } from '../utils/idGenerator';
+
+export async function addNotification(database: IMSDatabase, workspaceId: string, message: string, type: NotificationType, relatedId?: string): Promise<Notification> {
+    const notification: Notification = {
+        id: `notif_${generateUUIDv7()}`,
+        timestamp: new Date().toISOString(),
+        type,
+        message,
+        isRead: false,
+        relatedId,
+        workspaceId
+    };
+    await database.notifications.add(notification);
+    return notification;
+}
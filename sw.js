@@ -1,5 +1,5 @@
 
-const CACHE_NAME = 'ims-pos-v10';
+const CACHE_NAME = 'ims-pos-v11';
 const URLS_TO_CACHE = [
   '/',
   '/index.html',
@@ -8,7 +8,8 @@ const URLS_TO_CACHE = [
   'https://cdn.tailwindcss.com',
   'https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap',
   'https://cdnjs.cloudflare.com/ajax/libs/html2canvas/1.4.1/html2canvas.min.js',
-  'https://cdn.jsdelivr.net/npm/marked/marked.min.js'
+  'https://cdn.jsdelivr.net/npm/marked/marked.min.js',
+  'https://cdn.jsdelivr.net/npm/qrcode-generator@1.4.4/qrcode.js'
 ];
 
 // Install event - cache core assets immediately
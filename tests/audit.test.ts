@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { db } from '../utils/db';
+import { generateDataKey } from '../utils/crypto';
+import { generateUUIDv7 } from '../utils/idGenerator';
+import { AUDIT_GENESIS_HASH, auditLogToCsv, hashAuditEntry, recordAuditEvent, verifyAuditChain } from '../utils/audit';
+
+const actor = { id: 'u1', username: 'ada' };
+
+beforeAll(async () => {
+    const general = await generateDataKey();
+    db.setEncryptionKey(general, { general });
+});
+
+afterAll(() => {
+    db.setEncryptionKey(null);
+});
+
+// A workspace of its own with three entries, read back as the audit log view reads them
+const recordLog = async () => {
+    const workspaceId = `ws-${generateUUIDv7()}`;
+    await recordAuditEvent(workspaceId, actor, 'login', 'Signed in');
+    await recordAuditEvent(workspaceId, actor, 'priceChange', 'Widget: 5.00 -> 6.00');
+    await recordAuditEvent(workspaceId, actor, 'saleDeletion', 'Sale TRX-1');
+    const entries = await db.auditLog.where('workspaceId').equals(workspaceId).toArray();
+    return entries.sort((a, b) => a.seq - b.seq);
+};
+
+describe('audit log', () => {
+    it('chains each entry to the one before it', async () => {
+        const entries = await recordLog();
+        expect(entries.map(e => e.seq)).toEqual([1, 2, 3]);
+        expect(entries[0].prevHash).toBe(AUDIT_GENESIS_HASH);
+        expect(entries[1].prevHash).toBe(entries[0].hash);
+        expect(entries[2].prevHash).toBe(entries[1].hash);
+        expect(await verifyAuditChain(entries)).toEqual({ intact: true, count: 3 });
+    });
+
+    it('keeps the order of appends made without waiting', async () => {
+        const workspaceId = `ws-${generateUUIDv7()}`;
+        await Promise.all(['a', 'b', 'c', 'd'].map(detail => recordAuditEvent(workspaceId, actor, 'stockAdjustment', detail)));
+        const entries = await db.auditLog.where('workspaceId').equals(workspaceId).sortBy('seq');
+        expect(entries.map(e => e.detail)).toEqual(['a', 'b', 'c', 'd']);
+        expect((await verifyAuditChain(entries)).intact).toBe(true);
+    });
+
+    it('detects an entry whose contents were changed', async () => {
+        const entries = await recordLog();
+        entries[1] = { ...entries[1], detail: 'Widget: 5.00 -> 5.50' };
+        expect(await verifyAuditChain(entries)).toEqual({ intact: false, count: 3, brokenAtSeq: 2, reason: 'Its contents were changed.' });
+    });
+
+    it('detects an edit whose hash was recomputed, at the entry after it', async () => {
+        const entries = await recordLog();
+        const { id, hash, ...fields } = { ...entries[1], userName: 'someone else' };
+        entries[1] = { id, ...fields, hash: await hashAuditEntry(fields) };
+        expect(await verifyAuditChain(entries)).toMatchObject({ intact: false, brokenAtSeq: 3, reason: 'It does not follow the entry before it.' });
+    });
+
+    it('detects deleted and reordered entries', async () => {
+        const entries = await recordLog();
+        expect(await verifyAuditChain([entries[0], entries[2]])).toMatchObject({ intact: false, brokenAtSeq: 3, reason: 'Entry 2 is missing.' });
+
+        // Swapping positions: each entry is renumbered to the other's place
+        const swapped = [entries[0], { ...entries[2], seq: 2 }, { ...entries[1], seq: 3 }];
+        expect(await verifyAuditChain(swapped)).toMatchObject({ intact: false, brokenAtSeq: 2, reason: 'It does not follow the entry before it.' });
+    });
+
+    it('exports the chain with its hashes', async () => {
+        const entries = await recordLog();
+        const lines = auditLogToCsv(entries).split('\n');
+        expect(lines[0]).toBe('seq,date,action,user_id,user_name,detail,prev_hash,hash');
+        expect(lines[2]).toBe(`2,${entries[1].date},priceChange,u1,ada,Widget: 5.00 -> 6.00,${entries[0].hash},${entries[1].hash}`);
+        expect(auditLogToCsv([{ ...entries[0], detail: 'Said "hi", left' }]).split('\n')[1]).toContain('"Said ""hi"", left"');
+    });
+});
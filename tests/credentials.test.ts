@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { User, UserRole } from '../types';
+import {
+    CURRENT_KDF, LEGACY_KDF, computeKeyCheckValue, deriveKeyWithKdf, generateDataKey, generateSalt, isKdfOutdated,
+    rewrapUserKeys, unwrapClassKeys, unwrapKey, wrapClassKeys, wrapKey
+} from '../utils/crypto';
+import { DEFAULT_PASSWORD_POLICY, MIN_PASSWORD_LENGTH, checkPassword, isCommonPassword } from '../utils/passwordPolicy';
+import { loadCommonPasswords } from '../utils/commonPasswords';
+
+const password = 'correct horse battery';
+
+describe('key derivation', () => {
+    it('treats users without recorded parameters as legacy and outdated', () => {
+        expect(isKdfOutdated(undefined)).toBe(true);
+        expect(isKdfOutdated(LEGACY_KDF)).toBe(true);
+        expect(isKdfOutdated(CURRENT_KDF)).toBe(false);
+        expect(isKdfOutdated({ ...CURRENT_KDF, iterations: CURRENT_KDF.iterations * 2 })).toBe(false);
+    });
+
+    it('derives a different key for other parameters, and refuses unknown algorithms', async () => {
+        const salt = generateSalt();
+        const key = await generateDataKey();
+        const wrapped = await wrapKey(key, await deriveKeyWithKdf(password, salt, LEGACY_KDF));
+        await expect(unwrapKey(wrapped, await deriveKeyWithKdf(password, salt, { ...LEGACY_KDF, iterations: 1000 }))).rejects.toThrow();
+        await expect(deriveKeyWithKdf(password, salt, { algorithm: 'Argon2id', iterations: 3 } as any)).rejects.toThrow('Unsupported key derivation: Argon2id');
+    });
+
+    it('re-wraps a legacy user\'s keys under the current parameters without changing them', async () => {
+        const keys = { general: await generateDataKey(), financial: await generateDataKey() };
+        const salt = generateSalt();
+        const legacyKek = await deriveKeyWithKdf(password, salt);
+        const legacy = {
+            id: 'u1', username: 'ada', role: UserRole.Admin, workspaceId: 'ws', salt,
+            encryptedDEK: await wrapKey(keys.general, legacyKek),
+            encryptedClassKeys: await wrapClassKeys(keys, ['financial'], legacyKek),
+        } as User;
+
+        const upgraded = await rewrapUserKeys(legacy, password, keys);
+        expect(upgraded.kdf).toEqual(CURRENT_KDF);
+        expect(upgraded.salt).not.toBe(salt);
+        expect(upgraded.encryptedDEK).not.toBe(legacy.encryptedDEK);
+
+        const kek = await deriveKeyWithKdf(password, upgraded.salt!, upgraded.kdf);
+        expect(await computeKeyCheckValue(await unwrapKey(upgraded.encryptedDEK!, kek))).toBe(await computeKeyCheckValue(keys.general));
+        const classKeys = await unwrapClassKeys(upgraded.encryptedClassKeys, kek);
+        expect(await computeKeyCheckValue(classKeys.financial!)).toBe(await computeKeyCheckValue(keys.financial));
+
+        // The old wrapping no longer opens the new one
+        await expect(unwrapKey(upgraded.encryptedDEK!, legacyKek)).rejects.toThrow();
+    });
+
+    it('does not grant class keys the user did not hold', async () => {
+        const keys = { general: await generateDataKey(), financial: await generateDataKey() };
+        const cashier = { id: 'u2', username: 'bob', role: UserRole.Cashier, workspaceId: 'ws', encryptedClassKeys: {} } as User;
+        const upgraded = await rewrapUserKeys(cashier, password, keys, { ...CURRENT_KDF, iterations: 1000 });
+        expect(upgraded.encryptedClassKeys).toEqual({});
+        expect((await rewrapUserKeys({ ...cashier, encryptedClassKeys: undefined }, password, keys, upgraded.kdf)).encryptedClassKeys).toBeUndefined();
+    });
+});
+
+describe('password policy', () => {
+    it('requires the policy\'s length, but never less than the minimum', async () => {
+        expect(await checkPassword('short', DEFAULT_PASSWORD_POLICY)).toBe('Password must be at least 8 characters.');
+        expect(await checkPassword('abc', { minLength: 1, rejectCommon: false })).toBe(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+        expect(await checkPassword('abcd', { minLength: 1, rejectCommon: false })).toBeNull();
+    });
+
+    it('rejects common passwords whatever their case, when the policy asks to', async () => {
+        expect(await isCommonPassword(' Password123 ')).toBe(true);
+        expect(await checkPassword('Password123', DEFAULT_PASSWORD_POLICY)).toMatch(/too common/);
+        expect(await checkPassword('Password123', { ...DEFAULT_PASSWORD_POLICY, rejectCommon: false })).toBeNull();
+        expect(await checkPassword(password, DEFAULT_PASSWORD_POLICY)).toBeNull();
+    });
+
+    it('checks against tens of thousands of breached passwords', async () => {
+        expect((await loadCommonPasswords()).size).toBeGreaterThan(40000);
+        for (const breached of ['butterfly1', 'chocolate1', '1q2w3e4r5t6y', 'Lakers24']) {
+            expect(await checkPassword(breached, DEFAULT_PASSWORD_POLICY)).toMatch(/too common/);
+        }
+        expect(await isCommonPassword('Tr0ub4dor&3')).toBe(false);
+    });
+});
@@ -0,0 +1,241 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import Dexie from 'dexie';
+import { db, IMSDatabase, omitRedactedFields, fillOmittedFields } from '../utils/db';
+import { generateDataKey, getEncryptedKeyClass, isEncryptedValue, KeySet } from '../utils/crypto';
+import { generateUUIDv7 } from '../utils/idGenerator';
+
+const opened: Dexie[] = [];
+
+const openTestDatabase = async (name = `test-${generateUUIDv7()}`) => {
+    const database = new IMSDatabase(name);
+    await database.open();
+    opened.push(database);
+    return database;
+};
+
+// The rows as stored, without the encryption middleware
+const openRaw = async (name: string) => {
+    const raw = new Dexie(name);
+    await raw.open();
+    opened.push(raw);
+    return raw;
+};
+
+const generateKeys = async (): Promise<KeySet> => ({
+    general: await generateDataKey(),
+    financial: await generateDataKey(),
+    pii: await generateDataKey(),
+});
+
+// What a cashier holds: every class but financial
+const withoutFinancial = ({ financial, ...keys }: KeySet): KeySet => keys;
+
+const product = {
+    id: 'p1', workspaceId: 'ws', sku: 'SKU1', name: 'Widget', categoryIds: [], price: 500, costPrice: 300, stock: 0,
+    priceHistory: [], sync_status: 'pending', updated_at: '2024-01-01T00:00:00.000Z',
+    variants: [{ id: 'v1', name: 'Red', sku: 'SKU1-R', price: 550, costPrice: 320, stock: 0 }],
+};
+
+afterEach(() => {
+    opened.splice(0).forEach(database => database.close());
+});
+
+describe('encryption middleware', () => {
+    it('stores encrypted fields under their key class and reads them back', async () => {
+        const database = await openTestDatabase();
+        const keys = await generateKeys();
+        database.setEncryptionKey(keys.general!, keys);
+
+        await database.customers.put({ id: 'c1', workspaceId: 'ws', name: 'Ada', email: 'ada@example.com', phone: '555', dateAdded: '2024-01-01' } as any);
+        await database.products.put(product as any);
+
+        const raw = await openRaw(database.name);
+        const storedCustomer = await raw.table('customers').get('c1');
+        expect(storedCustomer.name).toBe('Ada'); // Indexed, so never encrypted
+        expect(isEncryptedValue(storedCustomer.email)).toBe(true);
+        expect(getEncryptedKeyClass(storedCustomer.email)).toBe('pii');
+
+        const storedProduct = await raw.table('products').get('p1');
+        expect(getEncryptedKeyClass(storedProduct.costPrice)).toBe('financial');
+        expect(getEncryptedKeyClass(storedProduct.variants[0].costPrice)).toBe('financial');
+        expect(storedProduct.price).toBe(500);
+
+        expect((await database.customers.get('c1'))?.email).toBe('ada@example.com');
+        const read = await database.products.get('p1');
+        expect(read?.costPrice).toBe(300);
+        expect(read?.variants[0].costPrice).toBe(320);
+    });
+
+    it('keeps a transaction open across encrypted reads and writes', async () => {
+        const database = await openTestDatabase();
+        const keys = await generateKeys();
+        database.setEncryptionKey(keys.general!, keys);
+        await database.products.put(product as any);
+
+        await database.transaction('rw', database.products, database.customers, async () => {
+            const read = await database.products.get('p1');
+            await database.products.put({ ...read!, costPrice: 310 });
+            await database.customers.put({ id: 'c1', workspaceId: 'ws', name: 'Ada', email: 'ada@example.com', dateAdded: '2024-01-01' } as any);
+            expect((await database.products.where('workspaceId').equals('ws').toArray())[0].costPrice).toBe(310);
+        });
+        expect((await database.customers.get('c1'))?.email).toBe('ada@example.com');
+    });
+
+    it('decrypts rows read through a cursor', async () => {
+        const database = await openTestDatabase();
+        const keys = await generateKeys();
+        database.setEncryptionKey(keys.general!, keys);
+        await database.products.bulkPut([product, { ...product, id: 'p2', costPrice: 400 }] as any);
+
+        expect((await database.products.filter(p => p.costPrice === 400).first())?.id).toBe('p2');
+        const costs: number[] = [];
+        await database.products.where('workspaceId').equals('ws').each(p => { costs.push(p.costPrice); });
+        expect(costs).toEqual([300, 400]);
+        expect((await database.products.where('workspaceId').equals('ws').keys()).length).toBe(2);
+    });
+
+    it('decrypts rows read through a cursor inside a transaction', async () => {
+        const database = await openTestDatabase();
+        const keys = await generateKeys();
+        database.setEncryptionKey(keys.general!, keys);
+        await database.products.bulkPut([product, { ...product, id: 'p2', costPrice: 400 }, { ...product, id: 'p3', costPrice: 400 }] as any);
+
+        await database.transaction('rw', database.products, database.customers, async () => {
+            const ids = await database.products.filter(p => p.costPrice === 400).primaryKeys();
+            expect(ids).toEqual(['p2', 'p3']);
+            await database.products.bulkDelete(ids);
+        });
+        expect(await database.products.count()).toBe(1);
+    });
+
+    it('updates encrypted rows in place and reads them back in bulk', async () => {
+        const database = await openTestDatabase();
+        const keys = await generateKeys();
+        database.setEncryptionKey(keys.general!, keys);
+        await database.products.put(product as any);
+
+        await database.products.update('p1', { categoryIds: ['c1'] });
+        await database.products.where('workspaceId').equals('ws').modify({ sync_status: 'synced' });
+
+        const [read, missing] = await database.products.bulkGet(['p1', 'p2']);
+        expect(read).toMatchObject({ categoryIds: ['c1'], sync_status: 'synced', costPrice: 300, variants: [{ costPrice: 320 }] });
+        expect(missing).toBeUndefined();
+        expect(getEncryptedKeyClass((await (await openRaw(database.name)).table('products').get('p1')).costPrice)).toBe('financial');
+    });
+
+    it('encrypts the customer copied onto a held order under the pii key', async () => {
+        const database = await openTestDatabase();
+        const keys = await generateKeys();
+        database.setEncryptionKey(keys.general!, keys);
+
+        const customer = { id: 'c1', name: 'Ada', email: 'ada@example.com', phone: '555', address: '1 Main St', dateAdded: '2024-01-01' };
+        await database.heldOrders.put({ id: 'h1', workspaceId: 'ws', date: '2024-01-01', items: [], customer, discount: null, isTaxExempt: false, note: '' } as any);
+
+        const stored = await (await openRaw(database.name)).table('heldOrders').get('h1');
+        for (const field of ['name', 'email', 'phone', 'address']) {
+            expect(getEncryptedKeyClass(stored.customer[field])).toBe('pii');
+        }
+        expect(stored.customer.id).toBe('c1');
+        expect((await database.heldOrders.get('h1'))?.customer).toEqual(customer);
+    });
+
+    it('redacts fields of classes the session was not granted and keeps them when saving', async () => {
+        const name = `test-${generateUUIDv7()}`;
+        const keys = await generateKeys();
+        const admin = await openTestDatabase(name);
+        admin.setEncryptionKey(keys.general!, keys);
+        await admin.products.put(product as any);
+
+        const cashier = await openTestDatabase(name);
+        cashier.setEncryptionKey(keys.general!, withoutFinancial(keys));
+        const redacted = await cashier.products.get('p1');
+        expect(redacted?.costPrice).toBeNull();
+        expect(redacted?.variants[0].costPrice).toBeNull();
+
+        await cashier.products.put({ ...redacted!, name: 'Blue Widget' });
+        const saved = await admin.products.get('p1');
+        expect(saved?.name).toBe('Blue Widget');
+        expect(saved?.costPrice).toBe(300);
+        expect(saved?.variants[0].costPrice).toBe(320);
+    });
+
+    it('holds new restricted values from a session without the class key under the general key', async () => {
+        const name = `test-${generateUUIDv7()}`;
+        const keys = await generateKeys();
+        const cashier = await openTestDatabase(name);
+        cashier.setEncryptionKey(keys.general!, withoutFinancial(keys));
+        await cashier.products.put({ ...product, id: 'p2' } as any);
+
+        const stored = await (await openRaw(name)).table('products').get('p2');
+        expect(getEncryptedKeyClass(stored.costPrice)).toBe('general');
+
+        const admin = await openTestDatabase(name);
+        admin.setEncryptionKey(keys.general!, keys);
+        expect((await admin.products.get('p2'))?.costPrice).toBe(300);
+    });
+
+    it('falls back to the previous keys while a rotation is re-encrypting', async () => {
+        const name = `test-${generateUUIDv7()}`;
+        const oldKeys = await generateKeys();
+        const before = await openTestDatabase(name);
+        before.setEncryptionKey(oldKeys.general!, oldKeys);
+        await before.customers.put({ id: 'c1', workspaceId: 'ws', name: 'Ada', email: 'ada@example.com', dateAdded: '2024-01-01' } as any);
+
+        const newKeys = await generateKeys();
+        const rotating = await openTestDatabase(name);
+        rotating.setEncryptionKey(newKeys.general!, newKeys);
+        expect((await rotating.customers.get('c1'))?.email).toBeNull();
+        rotating.setPreviousKeys(oldKeys);
+        expect((await rotating.customers.get('c1'))?.email).toBe('ada@example.com');
+    });
+});
+
+describe('sealed sync payloads', () => {
+    it('seals and opens every encrypted field, shadow copies included', async () => {
+        const database = await openTestDatabase();
+        const keys = await generateKeys();
+        database.setEncryptionKey(keys.general!, keys);
+
+        const record = { ...product, syncBase: { costPrice: 250, variants: product.variants } };
+        const sealed = await database.sealEncryptedFields('products', record);
+        expect(getEncryptedKeyClass(sealed.costPrice)).toBe('financial');
+        expect(getEncryptedKeyClass(sealed.syncBase.costPrice)).toBe('financial');
+        expect(getEncryptedKeyClass(sealed.variants[0].costPrice)).toBe('financial');
+        expect(sealed.name).toBe('Widget');
+
+        expect(await database.openSealedFields('products', sealed)).toEqual(record);
+    });
+
+    it('leaves fields sealed that the session cannot read', async () => {
+        const keys = await generateKeys();
+        const admin = await openTestDatabase();
+        admin.setEncryptionKey(keys.general!, keys);
+        const sealed = await admin.sealEncryptedFields('products', product);
+
+        const cashier = await openTestDatabase();
+        cashier.setEncryptionKey(keys.general!, withoutFinancial(keys));
+        const opened = await cashier.openSealedFields('products', sealed);
+        expect(opened.costPrice).toBe(sealed.costPrice);
+        expect(opened.priceHistory).toBe(sealed.priceHistory);
+        expect(opened.name).toBe('Widget');
+    });
+
+    it('omits redacted fields from a push and fills them back from the local copy', async () => {
+        const keys = await generateKeys();
+        // Both ask the shared database which classes this session can read
+        db.setEncryptionKey(keys.general!, withoutFinancial(keys));
+
+        const redacted = { ...product, costPrice: null, variants: [{ ...product.variants[0], costPrice: null }] };
+        const pushed = omitRedactedFields('products', redacted);
+        expect('costPrice' in pushed).toBe(false);
+        expect('costPrice' in pushed.variants[0]).toBe(false);
+        expect(pushed.price).toBe(500);
+
+        const local = { ...product, costPrice: '__ENC__:financial:stored', variants: [{ ...product.variants[0], costPrice: '__ENC__:financial:variant' }] };
+        const filled = fillOmittedFields('products', { ...pushed, name: 'Renamed' }, local);
+        expect(filled.name).toBe('Renamed');
+        expect(filled.costPrice).toBe(local.costPrice);
+        expect(filled.variants[0].costPrice).toBe(local.variants[0].costPrice);
+        db.setEncryptionKey(null);
+    });
+});
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import Dexie from 'dexie';
+import { IMSDatabase } from '../utils/db';
+import { MIGRATIONS, LATEST_SCHEMA_VERSION, getInstalledVersion, createMigrationSnapshot, restoreMigrationSnapshot } from '../utils/migrations';
+import { generateUUIDv7 } from '../utils/idGenerator';
+
+const opened: Dexie[] = [];
+
+afterEach(() => {
+    opened.splice(0).forEach(database => database.close());
+});
+
+const ENCRYPTED = '__ENC__:financial:c2VhbGVk';
+
+// A database as the first shipped schema (v7) left it, with data in every shape the migrations handle
+async function createV7Database(name: string) {
+    const legacy = new Dexie(name);
+    legacy.version(7).stores(MIGRATIONS[0].stores as Record<string, string>);
+    await legacy.open();
+    await legacy.table('workspaces').put({ id: 'ws', name: 'Shop' });
+    await legacy.table('keyval').bulkPut([
+        { key: 'ims-ws-currency', value: 'USD' },
+        { key: 'ims-ws-discountThreshold', value: 100 },
+        { key: 'ims-ws-receiptFooter', value: 'Thanks!' },
+    ]);
+    await legacy.table('products').put({ id: 'p1', workspaceId: 'ws', sku: 'SKU1', name: 'Widget', categoryIds: [], retailPrice: 5, costPrice: 2, stock: 10, variants: [] });
+    await legacy.table('sales').put({
+        id: 's1', publicId: 'TRX-1', workspaceId: 'ws', date: '2024-01-01T10:00:00.000Z', type: 'Sale', status: 'Completed',
+        subtotal: 12.5, discount: 0, tax: 0, total: 12.5, cogs: ENCRYPTED, profit: ENCRYPTED,
+        items: [{ productId: 'p1', quantity: 1, retailPrice: 12.5, costPrice: 4 }], payments: [{ type: 'Cash', amount: 12.5 }]
+    });
+    await legacy.table('purchaseOrders').put({ id: 'po1', publicId: 'PO-1', workspaceId: 'ws', supplierId: 'sup', status: 'Received', dateCreated: '2024-01-01', totalCost: 20, items: [] });
+    await legacy.table('inventoryAdjustments').bulkPut([
+        { id: 'a1', workspaceId: 'ws', productId: 'p1', date: '2024-01-01', quantity: -1, reason: 'Sale #TRX-1', sync_status: 'synced' },
+        { id: 'a2', workspaceId: 'ws', productId: 'p1', date: '2024-01-01', quantity: 5, reason: 'Received from PO #PO-1', sync_status: 'synced' },
+        { id: 'a3', workspaceId: 'ws', productId: 'p1', date: '2024-01-01', quantity: -1, reason: 'Damaged in storage', sync_status: 'synced' },
+        { id: 'a4', workspaceId: 'ws', productId: 'p1', date: '2024-01-01', quantity: 0, reason: ENCRYPTED, sync_status: 'synced' },
+    ]);
+    legacy.close();
+}
+
+const openUpgraded = async (name: string) => {
+    const database = new IMSDatabase(name);
+    await database.open();
+    opened.push(database);
+    return database;
+};
+
+describe('schema migrations', () => {
+    it('records the full history on a fresh install', async () => {
+        const database = await openUpgraded(`test-${generateUUIDv7()}`);
+        const history = await database.migrationHistory.toArray();
+        expect(history.map(entry => entry.version).sort((a, b) => a - b)).toEqual(MIGRATIONS.filter(m => m.version > 7).map(m => m.version));
+        expect(database.verno).toBe(LATEST_SCHEMA_VERSION);
+    });
+
+    it('upgrades a v7 database to the latest schema', async () => {
+        const name = `test-${generateUUIDv7()}`;
+        await createV7Database(name);
+        expect(await getInstalledVersion(name)).toBe(7);
+
+        const database = await openUpgraded(name);
+        expect(database.verno).toBe(LATEST_SCHEMA_VERSION);
+        expect(await database.migrationHistory.count()).toBe(MIGRATIONS.filter(m => m.version > 7).length);
+
+        // adjustment-sources: linked by their reason, and marked for sync
+        const adjustments = await database.inventoryAdjustments.bulkGet(['a1', 'a2', 'a3', 'a4']);
+        expect(adjustments.map(a => [a?.sourceType, a?.sourceId])).toEqual([
+            ['sale', 's1'],
+            ['poReceipt', 'po1'],
+            ['unknown', undefined],
+            [undefined, undefined], // Encrypted reasons wait for a session with the key
+        ]);
+        expect(adjustments.slice(0, 3).every(a => a?.sync_status === 'pending' && !!a.updated_at)).toBe(true);
+        expect(adjustments[3]?.sync_status).toBe('synced');
+
+        // money-minor-units: plaintext amounts converted, encrypted ones left pending
+        const sale = (await database.sales.get('s1'))!;
+        expect(sale.total).toBe(1250);
+        expect(sale.items[0].costPrice).toBe(400);
+        expect(sale.payments[0].amount).toBe(1250);
+        expect(sale.cogs).toBe(ENCRYPTED);
+        expect(sale.pendingMinorUnits).toEqual({ exponent: 2, paths: ['cogs', 'profit'] });
+        expect((await database.purchaseOrders.get('po1'))?.totalCost).toBe(2000);
+
+        // workspace-settings: moved out of keyval, converted where they are money
+        expect((await database.settings.get('ws:discountThreshold'))?.value).toBe(10000);
+        expect((await database.settings.get('ws:receiptFooter'))?.value).toBe('Thanks!');
+        expect(await database.keyval.get('ims-ws-receiptFooter')).toBeUndefined();
+
+        // stock-ledger: an opening movement explains the stock the history does not
+        const opening = await database.inventoryAdjustments.get('adj_open_p1');
+        expect(opening).toMatchObject({ sourceType: 'opening', quantity: 10 - (-1 + 5 - 1 + 0) });
+    });
+
+    it('restores a snapshot exactly as it was taken', async () => {
+        const name = `test-${generateUUIDv7()}`;
+        await createV7Database(name);
+        const snapshotId = await createMigrationSnapshot(name, 7, LATEST_SCHEMA_VERSION);
+
+        await openUpgraded(name);
+        opened.splice(0).forEach(database => database.close());
+        await restoreMigrationSnapshot(name, snapshotId);
+
+        expect(await getInstalledVersion(name)).toBe(7);
+        const restored = new Dexie(name);
+        await restored.open();
+        opened.push(restored);
+        expect(restored.tables.map(t => t.name)).not.toContain('journalEntries');
+        expect((await restored.table('sales').get('s1')).total).toBe(12.5);
+        expect((await restored.table('inventoryAdjustments').get('a3')).sourceType).toBeUndefined();
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, Role, User, UserRole } from '../types';
+import { createApproval, getDiscountLimit, getRequiredOverrides, isApprovalValid } from '../utils/overrides';
+import { resolveRoles } from '../utils/permissions';
+
+const roles: Role[] = resolveRoles([
+    { id: UserRole.Cashier, name: 'Cashier', permissions: ['viewPos'] },
+    { id: 'supervisor', name: 'Supervisor', permissions: ['viewPos', 'approveOverrides'] },
+], null);
+
+const user = (id: string, role: string): User => ({ id, username: id, role, workspaceId: 'ws' } as User);
+const cashier = user('cashier', UserRole.Cashier);
+const supervisor = user('supervisor', 'supervisor');
+const users = [cashier, supervisor, user('owner', UserRole.Admin)];
+
+const item = (changes: Partial<CartItem>): CartItem => ({
+    id: 'line', productId: 'p1', name: 'Widget', sku: 'SKU1', retailPrice: 1000, costPrice: 600, stock: 5, quantity: 1, ...changes
+} as CartItem);
+
+describe('isApprovalValid', () => {
+    it('accepts an approval for the same action by a user who may approve overrides', () => {
+        expect(isApprovalValid(createApproval('discount', '20%', cashier, supervisor), 'discount', users, roles)).toBe(true);
+        expect(isApprovalValid(createApproval('discount', '20%', cashier, users[2]), 'discount', users, roles)).toBe(true);
+    });
+
+    it('rejects a missing approval or one given for another action', () => {
+        expect(isApprovalValid(undefined, 'discount', users, roles)).toBe(false);
+        expect(isApprovalValid(createApproval('openDrawer', '', cashier, supervisor), 'discount', users, roles)).toBe(false);
+    });
+
+    it('rejects approvers without approveOverrides, and ones no longer in the workspace', () => {
+        expect(isApprovalValid(createApproval('discount', '20%', cashier, cashier), 'discount', users, roles)).toBe(false);
+        expect(isApprovalValid(createApproval('discount', '20%', cashier, user('gone', 'supervisor')), 'discount', users, roles)).toBe(false);
+    });
+
+    it('checks the approver\'s role when the approval is used', () => {
+        const approval = createApproval('priceOverride', '', cashier, supervisor);
+        const demoted = roles.map(role => role.id === 'supervisor' ? { ...role, permissions: ['viewPos' as const] } : role);
+        expect(isApprovalValid(approval, 'priceOverride', users, demoted)).toBe(false);
+        expect(isApprovalValid(approval, 'priceOverride', users.map(u => u.id === 'supervisor' ? { ...u, role: UserRole.Cashier } : u), roles)).toBe(false);
+    });
+});
+
+describe('getRequiredOverrides', () => {
+    it('needs nothing for a plain sale within the discount limit', () => {
+        const items = [item({ quantity: 2 })];
+        expect(getRequiredOverrides({ items, discount: getDiscountLimit(items, 0.1) }, getDiscountLimit(items, 0.1))).toEqual([]);
+    });
+
+    it('flags discounts above the limit, overridden prices and returns without a receipt', () => {
+        const items = [item({ retailPrice: 800, priceOverriddenFrom: 1000 }), item({ id: 'return', quantity: -1 })];
+        expect(getRequiredOverrides({ items, discount: 100 }, getDiscountLimit(items, 0.1))).toEqual(['discount', 'priceOverride', 'noReceiptReturn']);
+        expect(getRequiredOverrides({ items: [item({ quantity: -1, originalSaleId: 's1' })] }, 0)).toEqual([]);
+    });
+
+    it('limits discounts by what is sold, or by the automatic discount when higher', () => {
+        const items = [item({ quantity: 2 }), item({ id: 'return', quantity: -1 })];
+        expect(getDiscountLimit(items, 0.1)).toBe(200);
+        expect(getDiscountLimit(items, 0.1, 500)).toBe(500);
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Role, User, UserRole } from '../types';
+import {
+    ALL_PERMISSIONS, DEFAULT_CASHIER_PERMISSIONS, canAssignRole, describeRoleChanges, findUsersWithChangedKeys, fromCashierPermissions,
+    getRoleKeyClasses, getUserRole, hasPermission, permissionDenied, resolveRoles
+} from '../utils/permissions';
+
+const manager: Role = { id: 'manager', name: 'Manager', permissions: ['viewPos', 'viewInventory', 'editProducts', 'viewCost', 'manageUsers'] };
+const cashier: Role = { id: UserRole.Cashier, name: 'Cashier', permissions: ['viewPos', 'processReturns'] };
+
+describe('resolveRoles', () => {
+    it('builds the Cashier role from the old cashier toggles until roles are saved', () => {
+        const roles = resolveRoles(null, { ...DEFAULT_CASHIER_PERMISSIONS, canViewInventory: true });
+        expect(roles.map(role => role.id)).toEqual([UserRole.Admin, UserRole.Cashier]);
+        expect(roles[1].permissions).toEqual(expect.arrayContaining(['viewPos', 'viewInventory', 'adjustStock', 'processReturns']));
+        expect(roles[1].permissions).not.toContain('viewCost');
+    });
+
+    it('always puts the built-in Admin first with every permission', () => {
+        const tampered: Role = { id: UserRole.Admin, name: 'Admin', permissions: [] };
+        const roles = resolveRoles([tampered, manager], null);
+        expect(roles.map(role => role.id)).toEqual([UserRole.Admin, 'manager']);
+        expect(roles[0].permissions).toEqual(ALL_PERMISSIONS);
+    });
+});
+
+describe('fromCashierPermissions', () => {
+    it('grants the register and only the toggled pages', () => {
+        const permissions = fromCashierPermissions({ ...DEFAULT_CASHIER_PERMISSIONS, canProcessReturns: false, canViewReports: false, canEditOwnProfile: false });
+        expect(permissions).toEqual(['viewPos']);
+        expect(fromCashierPermissions({ ...DEFAULT_CASHIER_PERMISSIONS, canManageCustomers: true })).toEqual(expect.arrayContaining(['viewCustomers', 'manageCustomers']));
+    });
+});
+
+describe('permission checks', () => {
+    it('grants Admin everything and other roles only what they list', () => {
+        const admin = resolveRoles([], null)[0];
+        expect(ALL_PERMISSIONS.every(permission => hasPermission(admin, permission))).toBe(true);
+        expect(hasPermission(cashier, 'processReturns')).toBe(true);
+        expect(hasPermission(cashier, 'deleteSales')).toBe(false);
+    });
+
+    it('gives a user whose role is unknown no permissions', () => {
+        const role = getUserRole([manager], { role: 'deleted-role' });
+        expect(role.permissions).toEqual([]);
+        expect(ALL_PERMISSIONS.some(permission => hasPermission(role, permission))).toBe(false);
+    });
+
+    it('only lets a role assign roles granting nothing it lacks', () => {
+        expect(canAssignRole(manager, cashier)).toBe(false); // Cashiers may process returns, managers may not
+        expect(canAssignRole(manager, { ...cashier, permissions: ['viewPos'] })).toBe(true);
+        expect(canAssignRole(manager, manager)).toBe(true);
+        expect(canAssignRole(resolveRoles([], null)[0], resolveRoles([], null)[0])).toBe(false);
+    });
+
+    it('wraps the financial key only for roles that may view cost', () => {
+        expect(getRoleKeyClasses(manager)).toEqual(['general', 'financial', 'pii']);
+        expect(getRoleKeyClasses(cashier)).toEqual(['general', 'pii']);
+    });
+
+    it('names the missing permission when refusing', () => {
+        expect(permissionDenied('deleteSales')).toEqual({ success: false, message: 'Your role does not permit this: Delete sales.' });
+    });
+});
+
+describe('describeRoleChanges', () => {
+    it('lists added, renamed, re-permissioned and removed roles', () => {
+        const after: Role[] = [
+            { ...cashier, name: 'Clerk', permissions: ['viewPos', 'deleteSales'] },
+            { id: 'stock', name: 'Stock', permissions: [] },
+        ];
+        expect(describeRoleChanges([cashier, manager], after)).toEqual([
+            'Role Clerk: renamed from Cashier; granted Delete sales; revoked Process returns and refunds',
+            'Added role Stock: no permissions',
+            'Removed role Manager',
+        ]);
+        expect(describeRoleChanges([cashier], [cashier])).toEqual([]);
+    });
+});
+
+describe('findUsersWithChangedKeys', () => {
+    const user = (username: string, role: string, encryptedClassKeys?: Record<string, string>) =>
+        ({ id: username, username, role, encryptedClassKeys }) as User;
+    const keyed = { general: 'wrapped', pii: 'wrapped' };
+
+    it('finds users of roles granted or revoked cost access', () => {
+        const users = [user('ann', cashier.id, keyed), user('bob', manager.id, { ...keyed, financial: 'wrapped' }), user('cy', cashier.id)];
+        const after = [{ ...cashier, permissions: [...cashier.permissions, 'viewCost' as const] }, { ...manager, permissions: ['viewPos' as const] }];
+        expect(findUsersWithChangedKeys([cashier, manager], after, users).map(u => u.username)).toEqual(['ann', 'bob']);
+    });
+
+    it('leaves users alone when other permissions change', () => {
+        const users = [user('ann', cashier.id, keyed)];
+        expect(findUsersWithChangedKeys([cashier], [{ ...cashier, name: 'Clerk', permissions: ['viewPos', 'deleteSales'] }], users)).toEqual([]);
+    });
+});
@@ -0,0 +1,210 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { CartItem, PaymentType, Product, PurchaseOrder } from '../types';
+import { IMSDatabase } from '../utils/db';
+import { generateDataKey } from '../utils/crypto';
+import { generateUUIDv7 } from '../utils/idGenerator';
+import { ACCOUNTS } from '../utils/ledger';
+import { InventoryService } from '../services/InventoryService';
+import { NewSale, SalesService } from '../services/SalesService';
+import { ShiftService } from '../services/ShiftService';
+
+const opened: IMSDatabase[] = [];
+
+afterEach(() => {
+    opened.splice(0).forEach(database => database.close());
+});
+
+const options = { includeTaxInProfit: false };
+
+const product: Product = {
+    id: 'p1', workspaceId: 'ws', sku: 'SKU1', name: 'Widget', retailPrice: 1000, costPrice: 600, stock: 0, lowStockThreshold: 2,
+    priceHistory: [], categoryIds: [], variationTypes: [], variants: [],
+};
+
+// A workspace with the product in stock, opened by a session holding every key
+const setUp = async (openingStock = 10) => {
+    const database = new IMSDatabase(`test-${generateUUIDv7()}`);
+    await database.open();
+    opened.push(database);
+    const general = await generateDataKey();
+    database.setEncryptionKey(general, { general, financial: await generateDataKey(), pii: await generateDataKey() });
+
+    const inventory = new InventoryService(database, 'ws');
+    const shifts = new ShiftService(database, 'ws');
+    const sales = new SalesService(database, 'ws', inventory, shifts);
+    await inventory.createProducts([{ ...product, stock: openingStock }], 'Initial stock');
+    return { database, inventory, shifts, sales };
+};
+
+const item = (quantity: number, changes: Partial<CartItem> = {}): CartItem => ({
+    id: generateUUIDv7(), productId: 'p1', name: 'Widget', sku: 'SKU1', retailPrice: 1000, costPrice: 600, stock: 10, quantity, ...changes,
+});
+
+const newSale = (quantity: number, changes: Partial<NewSale> = {}): NewSale => {
+    const total = 1000 * quantity;
+    return {
+        items: [item(quantity)], subtotal: total, tax: 0, total, cogs: 600 * quantity, profit: 0,
+        payments: [{ type: PaymentType.Cash, amount: total }], salespersonId: 'u1', salespersonName: 'ada', type: 'Sale', ...changes,
+    } as NewSale;
+};
+
+// Net amount booked to an account across every entry: debits less credits
+const balanceOf = async (database: IMSDatabase, accountCode: string) =>
+    (await database.journalEntries.toArray()).flatMap(entry => entry.lines)
+        .filter(line => line.accountCode === accountCode)
+        .reduce((sum, line) => sum + line.debit - line.credit, 0);
+
+describe('SalesService', () => {
+    it('takes a sale out of stock as a movement linked to the sale', async () => {
+        const { database, sales } = await setUp();
+        const sale = await sales.processSale(newSale(3), options);
+
+        expect((await database.products.get('p1'))?.stock).toBe(7);
+        const movements = await database.inventoryAdjustments.where('sourceId').equals(sale.id).toArray();
+        expect(movements).toMatchObject([{ productId: 'p1', quantity: -3, sourceType: 'sale', reason: `Sale #${sale.publicId}` }]);
+        expect(sale).toMatchObject({ type: 'Sale', status: 'Completed', profit: 1200, sync_status: 'pending' });
+    });
+
+    it('books the sale and its cost in the ledger', async () => {
+        const { database, sales } = await setUp();
+        const sale = await sales.processSale(newSale(2), options);
+
+        const entries = await database.journalEntries.where('sourceId').equals(sale.id).toArray();
+        expect(entries.map(entry => entry.kind).sort()).toEqual(['sale', 'saleCost']);
+        expect(await balanceOf(database, ACCOUNTS.cash)).toBe(2000);
+        expect(await balanceOf(database, ACCOUNTS.salesRevenue)).toBe(-2000);
+        expect(await balanceOf(database, ACCOUNTS.costOfGoodsSold)).toBe(1200);
+    });
+
+    it('marks the original sale refunded as its items come back', async () => {
+        const { database, sales } = await setUp();
+        const original = await sales.processSale(newSale(2), options);
+        const refund = (quantity: number) => newSale(-quantity, { items: [item(-quantity, { originalSaleId: original.id })], originalSaleId: original.id });
+
+        const partial = await sales.processSale(refund(1), options);
+        expect(partial).toMatchObject({ type: 'Return', originalSalePublicId: original.publicId });
+        expect(await database.sales.get(original.id)).toMatchObject({ status: 'Partially Refunded', items: [{ returnedQuantity: 1 }] });
+
+        await sales.processSale(refund(1), options);
+        expect((await database.sales.get(original.id))?.status).toBe('Refunded');
+        expect((await database.products.get('p1'))?.stock).toBe(10);
+    });
+
+    it('adds cash taken and refunded to the open shift', async () => {
+        const { shifts, sales } = await setUp();
+        await shifts.openShift(5000, { id: 'u1', username: 'ada' });
+
+        const sale = await sales.processSale(newSale(2, { payments: [{ type: PaymentType.Cash, amount: 2500 }] }), options);
+        await sales.processSale(newSale(-1, { items: [item(-1, { originalSaleId: sale.id })] }), options);
+        await sales.processSale(newSale(1, { payments: [{ type: PaymentType.Card, amount: 1000 }] }), options);
+
+        const shift = (await shifts.getOpenShift())!;
+        expect(shift).toMatchObject({ cashSales: 2500, cashRefunds: 1000 });
+        expect((await shifts.closeShift(6500, '')).difference).toBe(0);
+    });
+
+    it('stores nothing of a sale whose postings fail', async () => {
+        const { database, shifts, sales } = await setUp();
+        await shifts.openShift(0);
+        const original = await sales.processSale(newSale(1), options);
+
+        // A total that disagrees with its subtotal cannot be booked
+        const broken = newSale(-1, { items: [item(-1, { originalSaleId: original.id })], subtotal: -500 });
+        await expect(sales.processSale(broken, options)).rejects.toThrow('does not balance');
+
+        expect(await database.sales.count()).toBe(1);
+        expect((await database.products.get('p1'))?.stock).toBe(9);
+        expect((await database.sales.get(original.id))?.status).toBe('Completed');
+        expect((await shifts.getOpenShift())?.cashRefunds).toBe(0);
+        expect(await database.inventoryAdjustments.filter(adj => adj.sourceType === 'return').count()).toBe(0);
+    });
+
+    it('costs sales recorded without the financial key once a session holding it backfills them', async () => {
+        const { database, sales } = await setUp();
+        const keys = database.getKeySet();
+        database.setEncryptionKey(keys.general!, { general: keys.general, pii: keys.pii });
+        const sale = await sales.processSale(newSale(1, { cogs: 0 }), options);
+        expect(sale.costPending).toBe(true);
+        expect(await database.journalEntries.where('sourceId').equals(sale.id).count()).toBe(1);
+
+        database.setEncryptionKey(keys.general!, keys);
+        expect(await sales.backfillPendingCosts(options)).toBe(1);
+        expect(await database.sales.get(sale.id)).toMatchObject({ cogs: 600, profit: 400 });
+        expect(await balanceOf(database, ACCOUNTS.costOfGoodsSold)).toBe(600);
+    });
+
+    it('books a back-filled cost once, however many devices back-fill it', async () => {
+        const { database, sales } = await setUp();
+        const keys = database.getKeySet();
+        database.setEncryptionKey(keys.general!, { general: keys.general, pii: keys.pii });
+        const sale = await sales.processSale(newSale(1, { cogs: 0 }), options);
+        database.setEncryptionKey(keys.general!, keys);
+        await sales.backfillPendingCosts(options);
+
+        // Another device back-filled it too, before this device's cost reached it
+        await database.sales.update(sale.id, { costPending: true });
+        expect(await sales.backfillPendingCosts(options)).toBe(1);
+        const costEntries = await database.journalEntries.where('sourceId').equals(sale.id).filter(entry => entry.kind === 'saleCost').toArray();
+        expect(costEntries.map(entry => entry.id)).toEqual([`je_cost_${sale.id}`]);
+        expect(await balanceOf(database, ACCOUNTS.costOfGoodsSold)).toBe(600);
+    });
+});
+
+describe('InventoryService', () => {
+    it('records every stock change as a movement and books manual ones', async () => {
+        const { database, inventory } = await setUp(5);
+        expect(await inventory.adjustStockBy('p1', -2, 'Damaged')).toBe(-2);
+        expect(await inventory.adjustStockBy('p1', 0, 'Nothing')).toBe(0);
+        expect(await inventory.adjustStockBy('missing', 1, 'Unknown product')).toBe(0);
+
+        expect((await database.products.get('p1'))?.stock).toBe(3);
+        const movements = await database.inventoryAdjustments.where('productId').equals('p1').sortBy('date');
+        expect(movements.map(m => [m.sourceType, m.quantity])).toEqual([['opening', 5], ['manual', -2]]);
+        expect(await balanceOf(database, ACCOUNTS.inventoryShrinkage)).toBe(1200);
+    });
+
+    it('books a back-filled stock movement once, however many devices back-fill it', async () => {
+        const { database, inventory } = await setUp(5);
+        const keys = database.getKeySet();
+        database.setEncryptionKey(keys.general!, { general: keys.general, pii: keys.pii });
+        const adjustment = await inventory.recordMovement('p1', -2, 'Damaged');
+        expect(adjustment?.costPending).toBe(true);
+        database.setEncryptionKey(keys.general!, keys);
+
+        expect(await inventory.backfillPendingStockEntries()).toBe(1);
+        await database.inventoryAdjustments.update(adjustment!.id, { costPending: true });
+        expect(await inventory.backfillPendingStockEntries()).toBe(1);
+        expect((await database.journalEntries.where('sourceId').equals(adjustment!.id).toArray()).map(entry => entry.id)).toEqual([`je_stock_${adjustment!.id}`]);
+        expect(await balanceOf(database, ACCOUNTS.inventoryShrinkage)).toBe(1200);
+    });
+
+    it('keeps concurrent adjustments', async () => {
+        const { database, inventory } = await setUp(0);
+        await Promise.all(Array.from({ length: 5 }, () => inventory.adjustStockBy('p1', 1, 'Counted')));
+        expect((await database.products.get('p1'))?.stock).toBe(5);
+    });
+
+    it('notifies when stock runs low and out', async () => {
+        const { database, inventory } = await setUp(4);
+        await inventory.adjustStockBy('p1', -2, 'Sold');
+        await inventory.adjustStockBy('p1', -2, 'Sold');
+        expect((await database.notifications.toArray()).map(n => n.message)).toEqual(['Low Stock Warning: Widget (2 left)', 'Out of Stock: Widget']);
+    });
+
+    it('receives purchase order items at their ordered cost', async () => {
+        const { database, inventory } = await setUp(0);
+        const po: PurchaseOrder = {
+            id: 'po1', publicId: 'PO-1', workspaceId: 'ws', supplierId: 'sup', supplierName: 'Acme', dateCreated: '2024-01-01', dateExpected: '2024-01-10',
+            status: 'Pending', totalCost: 5000, items: [{ productId: 'p1', name: 'Widget', sku: 'SKU1', quantityOrdered: 10, quantityReceived: 0, costPrice: 500 }],
+        };
+        await database.purchaseOrders.put(po);
+
+        expect((await inventory.receivePOItems('po1', [{ productId: 'p1', quantity: 4 }]))?.status).toBe('Partial');
+        const received = await inventory.receivePOItems('po1', [{ productId: 'p1', quantity: 6 }]);
+        expect(received).toMatchObject({ status: 'Received', items: [{ quantityReceived: 10 }] });
+        expect((await database.products.get('p1'))?.stock).toBe(10);
+        expect(await balanceOf(database, ACCOUNTS.accountsPayable)).toBe(-5000);
+        expect(await database.inventoryAdjustments.where('sourceId').equals('po1').count()).toBe(2);
+        expect(await inventory.receivePOItems('missing', [])).toBeNull();
+    });
+});
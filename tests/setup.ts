@@ -0,0 +1,2 @@
+// Gives Dexie a global IndexedDB in Node. Each test opens its own database, so nothing leaks between tests.
+import 'fake-indexeddb/auto';
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { exportKeySet, generateDataKey } from '../utils/crypto';
+import { MAX_SHARES, RecoveryShareError, combineRecoveryShares, parseRecoveryShare, splitRecoveryKey } from '../utils/shamir';
+
+const recoveryKey = async () => exportKeySet({ general: await generateDataKey(), financial: await generateDataKey() });
+
+// Every way of choosing `size` of the items, in order
+const combinations = <T>(items: T[], size: number): T[][] =>
+    size === 0 ? [[]] : items.flatMap((item, i) => combinations(items.slice(i + 1), size - 1).map(rest => [item, ...rest]));
+
+describe('recovery key shares', () => {
+    it('rebuilds the key from any threshold of shares, in any order', async () => {
+        const key = await recoveryKey();
+        const shares = await splitRecoveryKey(key, 5, 3);
+        expect(shares).toHaveLength(5);
+        for (const chosen of combinations(shares, 3)) {
+            expect(await combineRecoveryShares(chosen)).toBe(key);
+            expect(await combineRecoveryShares([...chosen].reverse())).toBe(key);
+        }
+        expect(await combineRecoveryShares(shares)).toBe(key);
+    });
+
+    it('writes shares that describe their split and tolerate stray whitespace', async () => {
+        const shares = await splitRecoveryKey('secret', MAX_SHARES, MAX_SHARES);
+        const share = await parseRecoveryShare(` ${shares[3].slice(0, 20)}\n${shares[3].slice(20)} `);
+        expect(share).toMatchObject({ threshold: MAX_SHARES, total: MAX_SHARES, index: 4 });
+        expect(await combineRecoveryShares(shares)).toBe('secret');
+    });
+
+    it('refuses share counts and thresholds it cannot split into', async () => {
+        for (const [total, threshold] of [[3, 1], [2, 3], [MAX_SHARES + 1, 2], [2.5, 2]]) {
+            await expect(splitRecoveryKey('secret', total, threshold)).rejects.toThrow(RecoveryShareError);
+        }
+    });
+
+    it('needs threshold different shares', async () => {
+        const shares = await splitRecoveryKey(await recoveryKey(), 5, 3);
+        await expect(combineRecoveryShares([])).rejects.toThrow('Enter your recovery shares.');
+        await expect(combineRecoveryShares(shares.slice(0, 2))).rejects.toThrow('3 different shares are needed; 2 entered.');
+        await expect(combineRecoveryShares([shares[0], shares[1], shares[1]])).rejects.toThrow('3 different shares are needed; 2 entered.');
+    });
+
+    it('refuses shares of different splits', async () => {
+        const key = await recoveryKey();
+        const [first, second] = await Promise.all([splitRecoveryKey(key, 3, 2), splitRecoveryKey(key, 3, 2)]);
+        await expect(combineRecoveryShares([first[0], second[1]])).rejects.toThrow('These shares come from different splits of the recovery key.');
+    });
+
+    it('refuses damaged, mistyped and foreign text', async () => {
+        const [share] = await splitRecoveryKey('secret', 3, 2);
+        const parts = share.split('.');
+        const mistyped = [...parts.slice(0, 5), parts[5].replace(/^./, c => c === 'A' ? 'B' : 'A'), parts[6]].join('.');
+        await expect(parseRecoveryShare(mistyped)).rejects.toThrow('This share is damaged or mistyped.');
+        await expect(parseRecoveryShare(parts.slice(0, 6).join('.') + '.00000000')).rejects.toThrow('This share is damaged or mistyped.');
+        await expect(parseRecoveryShare('not a share')).rejects.toThrow('This is not a recovery share.');
+        await expect(parseRecoveryShare(share.replace(/^RKS1/, 'RKS2'))).rejects.toThrow('This is not a recovery share.');
+    });
+});
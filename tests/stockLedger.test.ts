@@ -0,0 +1,204 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { InventoryAdjustment, PaymentType, Product } from '../types';
+import { db, IMSDatabase } from '../utils/db';
+import { generateDataKey } from '../utils/crypto';
+import { generateUUIDv7 } from '../utils/idGenerator';
+import { buildOpeningMovements, carryForwardMovements, rebuildStockBalances, withLocalStock } from '../utils/stockLedger';
+import { InventoryService } from '../services/InventoryService';
+import { SalesService } from '../services/SalesService';
+import { syncService } from '../services/SyncService';
+
+const opened: IMSDatabase[] = [];
+
+afterEach(() => {
+    opened.splice(0).forEach(database => database.close());
+    vi.unstubAllGlobals();
+});
+
+const openTestDatabase = async () => {
+    const database = new IMSDatabase(`test-${generateUUIDv7()}`);
+    await database.open();
+    opened.push(database);
+    return database;
+};
+
+const product = (changes: Partial<Product> = {}): Product => ({
+    id: 'p1', workspaceId: 'ws', sku: 'SKU1', name: 'Widget', retailPrice: 1000, costPrice: 600, stock: 0, lowStockThreshold: 0,
+    priceHistory: [], categoryIds: [], variationTypes: [], variants: [], ...changes,
+});
+
+const variant = (id: string, stock: number) => ({ id, options: { color: id }, skuSuffix: id, retailPrice: 1000, costPrice: 600, stock, priceHistory: [] });
+
+const movement = (productId: string, quantity: number, changes: Partial<InventoryAdjustment> = {}): InventoryAdjustment => ({
+    id: `adj_${generateUUIDv7()}`, productId, quantity, reason: 'Counted', sourceType: 'manual', date: '2024-01-01T00:00:00.000Z',
+    sync_status: 'synced', workspaceId: 'ws', ...changes,
+});
+
+const newSale = (quantity: number) => ({
+    items: [{ id: generateUUIDv7(), productId: 'p1', name: 'Widget', sku: 'SKU1', retailPrice: 1000, costPrice: 600, stock: 0, quantity }],
+    subtotal: 1000 * quantity, tax: 0, total: 1000 * quantity, cogs: 600 * quantity, profit: 0,
+    payments: [{ type: PaymentType.Cash, amount: 1000 * quantity }], salespersonId: 'u1', salespersonName: 'ada', type: 'Sale' as const,
+});
+
+describe('buildOpeningMovements', () => {
+    it('explains stock the movements do not, per product and variant', () => {
+        const products = [product({ stock: 10 }), product({ id: 'p2', stock: 5, variants: [variant('red', 2), variant('blue', 3)] })];
+        const movements = [movement('p1', 4), movement('p2', 3, { variantId: 'blue' })];
+
+        const openings = buildOpeningMovements(products, movements, 'Opening balance', { getId: (productId, variantId) => `open_${productId}_${variantId || ''}`, date: '2024-02-01' });
+        expect(openings.map(m => [m.id, m.productId, m.variantId, m.quantity, m.sourceType])).toEqual([
+            ['open_p1_', 'p1', undefined, 6, 'opening'],
+            ['open_p2_red', 'p2', 'red', 2, 'opening'],
+        ]);
+        expect(openings[0]).toMatchObject({ reason: 'Opening balance', date: '2024-02-01', sync_status: 'pending', workspaceId: 'ws' });
+    });
+
+    it('brings stock the ledger overcounts back down, and leaves explained stock alone', () => {
+        expect(buildOpeningMovements([product({ stock: 2 })], [movement('p1', 5)], 'Opening balance').map(m => m.quantity)).toEqual([-3]);
+        expect(buildOpeningMovements([product({ stock: 5 })], [movement('p1', 5)], 'Opening balance')).toEqual([]);
+    });
+});
+
+describe('rebuildStockBalances', () => {
+    it('derives product and variant stock from the movements', async () => {
+        const database = await openTestDatabase();
+        await database.products.bulkPut([product({ stock: 99 }), product({ id: 'p2', stock: 99, variants: [variant('red', 40), variant('blue', 59)] })]);
+        await database.inventoryAdjustments.bulkPut([
+            movement('p1', 5), movement('p1', -2),
+            movement('p2', 4, { variantId: 'red' }), movement('p2', 1, { variantId: 'blue' }),
+            movement('p2', 7), // Ignored: a product with variants counts only theirs
+        ]);
+
+        expect(await rebuildStockBalances(database, ['p1', 'p2', 'p2', 'missing'])).toBe(2);
+        expect((await database.products.get('p1'))?.stock).toBe(3);
+        expect(await database.products.get('p2')).toMatchObject({ stock: 5, variants: [{ id: 'red', stock: 4 }, { id: 'blue', stock: 1 }] });
+        expect(await rebuildStockBalances(database, ['p1', 'p2'])).toBe(0);
+    });
+
+    it('leaves the sync status of the products alone', async () => {
+        const database = await openTestDatabase();
+        await database.products.put({ ...product({ stock: 1 }), sync_status: 'synced' });
+        await database.inventoryAdjustments.put(movement('p1', 3));
+        await rebuildStockBalances(database, ['p1']);
+        expect(await database.products.get('p1')).toMatchObject({ stock: 3, sync_status: 'synced' });
+    });
+});
+
+describe('carryForwardMovements', () => {
+    // Deletes movements the way deleting their sale or purchase order does
+    const deleteMovements = async (database: IMSDatabase, sourceId: string, reason: string) => {
+        const ids = (await database.inventoryAdjustments.where('sourceId').equals(sourceId).primaryKeys()).map(String);
+        await database.transaction('rw', database.inventoryAdjustments, async () => {
+            await carryForwardMovements(database, ids, reason);
+            await database.inventoryAdjustments.bulkDelete(ids);
+        });
+        return ids;
+    };
+
+    it('keeps stock unchanged when a sale\'s movements are deleted', async () => {
+        const database = await openTestDatabase();
+        const inventory = new InventoryService(database, 'ws');
+        await inventory.createProducts([product({ stock: 10 })], 'Initial stock');
+        const sale = await new SalesService(database, 'ws', inventory).processSale(newSale(3), { includeTaxInProfit: false });
+
+        await deleteMovements(database, sale.id, 'Carried forward from deleted sale');
+        expect(await rebuildStockBalances(database, ['p1'])).toBe(0);
+        expect((await database.products.get('p1'))?.stock).toBe(7);
+        const carried = await database.inventoryAdjustments.where('productId').equals('p1').filter(m => m.reason === 'Carried forward from deleted sale').toArray();
+        expect(carried).toMatchObject([{ productId: 'p1', quantity: -3, sourceType: 'opening', sync_status: 'pending' }]);
+    });
+
+    it('keeps stock unchanged when a purchase order\'s receipts are deleted, netted per variant', async () => {
+        const database = await openTestDatabase();
+        await database.products.put(product({ stock: 5, variants: [variant('red', 3), variant('blue', 2)] }));
+        await database.inventoryAdjustments.bulkPut([
+            movement('p1', 3, { variantId: 'red', sourceType: 'poReceipt', sourceId: 'po1' }),
+            movement('p1', 2, { variantId: 'blue', sourceType: 'poReceipt', sourceId: 'po1' }),
+            movement('p1', -2, { variantId: 'blue', sourceType: 'poReceipt', sourceId: 'po1' }),
+            movement('p1', 2, { variantId: 'blue', sourceType: 'poReceipt', sourceId: 'po1' }),
+        ]);
+
+        await deleteMovements(database, 'po1', 'Carried forward from deleted PO');
+        expect(await rebuildStockBalances(database, ['p1'])).toBe(0);
+        const carried = await database.inventoryAdjustments.toArray();
+        expect(carried.map(m => [m.variantId, m.quantity])).toEqual(expect.arrayContaining([['red', 3], ['blue', 2]]));
+        expect(carried).toHaveLength(2);
+    });
+
+    it('records nothing for movements that net to zero', async () => {
+        const database = await openTestDatabase();
+        await database.inventoryAdjustments.bulkPut([movement('p1', 2, { sourceId: 's1' }), movement('p1', -2, { sourceId: 's1' })]);
+        await deleteMovements(database, 's1', 'Carried forward');
+        expect(await database.inventoryAdjustments.count()).toBe(0);
+    });
+});
+
+describe('stock across registers', () => {
+    beforeAll(async () => {
+        const general = await generateDataKey();
+        db.setEncryptionKey(general, { general, financial: await generateDataKey(), pii: await generateDataKey() });
+    });
+
+    afterAll(() => {
+        db.setEncryptionKey(null);
+    });
+
+    // This register, with 10 in stock as last synced
+    const setUpRegister = async () => {
+        const workspaceId = `ws-${generateUUIDv7()}`;
+        const inventory = new InventoryService(db, workspaceId);
+        await inventory.createProducts([product({ workspaceId, stock: 10 })], 'Initial stock');
+        await db.products.update('p1', { revision: 1, sync_status: 'synced' });
+        await db.inventoryAdjustments.where('workspaceId').equals(workspaceId).modify({ revision: 1, sync_status: 'synced' });
+        syncService.configure(workspaceId, 'https://sync.example', 'key');
+        return { workspaceId, inventory, sales: new SalesService(db, workspaceId, inventory) };
+    };
+
+    // Pulls `changes` as the server would return them
+    const pull = async (changes: Record<string, any[]>, deleted: { id: string; table: string }[] = []) => {
+        vi.stubGlobal('navigator', { onLine: true });
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ changes, deleted, timestamp: new Date().toISOString() }))));
+        const result = await syncService.pullChanges();
+        expect(result.success).toBe(true);
+        return result;
+    };
+
+    afterEach(async () => {
+        await db.products.clear();
+        await db.inventoryAdjustments.clear();
+    });
+
+    it('counts offline sales of both registers once the other\'s movements are pulled', async () => {
+        const { workspaceId, sales } = await setUpRegister();
+        await sales.processSale(newSale(2), { includeTaxInProfit: false });
+        expect((await db.products.get('p1'))?.stock).toBe(8);
+
+        // The other register sold 3 while offline, so its copy of the product says 7
+        const otherSale = movement('p1', -3, { workspaceId, sourceType: 'sale', sourceId: 'sale-b', reason: 'Sale #TRX-B', revision: 1 });
+        await pull({ products: [{ ...product({ workspaceId, stock: 7 }), revision: 2 }], inventoryAdjustments: [otherSale] });
+
+        expect((await db.products.get('p1'))?.stock).toBe(5);
+    });
+
+    it('does not take the stock of a pulled product', async () => {
+        const { workspaceId } = await setUpRegister();
+        await pull({ products: [{ ...product({ workspaceId, name: 'Blue Widget', stock: 99 }), revision: 2 }] });
+        expect(await db.products.get('p1')).toMatchObject({ name: 'Blue Widget', stock: 10, revision: 2, sync_status: 'synced' });
+    });
+
+    it('re-derives stock when a movement is deleted on another device', async () => {
+        const { workspaceId, inventory } = await setUpRegister();
+        const adjustment = await inventory.recordMovement('p1', -4, 'Damaged');
+        expect((await db.products.get('p1'))?.stock).toBe(6);
+
+        await pull({}, [{ id: adjustment!.id, table: 'inventoryAdjustments' }]);
+        expect((await db.products.get('p1'))?.stock).toBe(10);
+        expect(await db.inventoryAdjustments.where('workspaceId').equals(workspaceId).count()).toBe(1);
+    });
+
+    it('starts variants new to this device at zero until their movements arrive', () => {
+        const local = product({ stock: 4, variants: [variant('red', 4)] });
+        const remote = product({ stock: 9, variants: [variant('red', 1), variant('blue', 8)] });
+        expect(withLocalStock(remote, local)).toMatchObject({ stock: 4, variants: [{ id: 'red', stock: 4 }, { id: 'blue', stock: 0 }] });
+    });
+});
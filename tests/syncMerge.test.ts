@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { IMSDatabase } from '../utils/db';
+import { mergeRecords, reconcilePulledRecord, resolveSyncConflict, buildSyncConflict, toSyncSnapshot } from '../utils/syncMerge';
+import { generateUUIDv7 } from '../utils/idGenerator';
+
+const opened: IMSDatabase[] = [];
+
+afterEach(() => {
+    opened.splice(0).forEach(database => database.close());
+});
+
+const customer = { id: 'c1', workspaceId: 'ws', name: 'Ada', email: 'ada@example.com', phone: '555', dateAdded: '2024-01-01' };
+
+// A customer last synced at revision 1 and edited locally since
+const editedLocally = (changes: Record<string, any>) => ({
+    ...customer, ...changes, revision: 1, sync_status: 'pending', updated_at: '2024-02-01T00:00:00.000Z', syncBase: toSyncSnapshot(customer)
+});
+
+describe('mergeRecords', () => {
+    it('takes each side\'s changes to different fields', () => {
+        const { merged, conflicts } = mergeRecords({ name: 'Ada', phone: '555' }, { name: 'Ada L.', phone: '555' }, { name: 'Ada', phone: '556' });
+        expect(merged).toEqual({ name: 'Ada L.', phone: '556' });
+        expect(conflicts).toEqual([]);
+    });
+
+    it('keeps the local value of a field changed differently on both sides', () => {
+        const { merged, conflicts } = mergeRecords({ name: 'Ada' }, { name: 'Ada L.' }, { name: 'Ada Lovelace' });
+        expect(merged.name).toBe('Ada L.');
+        expect(conflicts).toEqual(['name']);
+    });
+
+    it('merges lists of entries entry by entry', () => {
+        const base = { variants: [{ id: 'v1', price: 100 }, { id: 'v2', price: 200 }] };
+        const local = { variants: [{ id: 'v1', price: 110 }, { id: 'v2', price: 200 }] };
+        const remote = { variants: [{ id: 'v1', price: 100 }, { id: 'v2', price: 200 }, { id: 'v3', price: 300 }] };
+        expect(mergeRecords(base, local, remote)).toEqual({
+            merged: { variants: [{ id: 'v1', price: 110 }, { id: 'v2', price: 200 }, { id: 'v3', price: 300 }] },
+            conflicts: []
+        });
+    });
+
+    it('conflicts on an entry edited on one side and removed on the other', () => {
+        const base = { variants: [{ id: 'v1', price: 100 }] };
+        expect(mergeRecords(base, { variants: [{ id: 'v1', price: 110 }] }, { variants: [] }).conflicts).toEqual(['variants']);
+    });
+
+    it('conflicts on every differing field without a base', () => {
+        expect(mergeRecords(undefined, { name: 'A', phone: '1' }, { name: 'A', phone: '2' }).conflicts).toEqual(['phone']);
+    });
+});
+
+describe('reconcilePulledRecord', () => {
+    it('stores the remote version over a copy without local edits', () => {
+        const remote = { ...customer, name: 'Ada L.', revision: 2 };
+        const { record, conflicts } = reconcilePulledRecord('customers', { ...customer, revision: 1, sync_status: 'synced' }, remote)!;
+        expect(record).toMatchObject({ name: 'Ada L.', revision: 2, sync_status: 'synced', syncBase: toSyncSnapshot(remote) });
+        expect(conflicts).toEqual([]);
+    });
+
+    it('keeps a local edit the server has nothing newer than', () => {
+        expect(reconcilePulledRecord('customers', editedLocally({ phone: '556' }), { ...customer, revision: 1 })).toBeNull();
+    });
+
+    it('merges concurrent edits of different fields and rebases on the remote revision', () => {
+        const { record, conflicts } = reconcilePulledRecord('customers', editedLocally({ phone: '556' }), { ...customer, email: 'ada@lovelace.org', revision: 2 })!;
+        expect(conflicts).toEqual([]);
+        expect(record).toMatchObject({ phone: '556', email: 'ada@lovelace.org', revision: 2, sync_status: 'pending' });
+        expect(record.syncRemote).toBeUndefined();
+    });
+
+    it('holds the remote version of a conflicting edit for resolution', () => {
+        const remote = { ...customer, phone: '557', revision: 2 };
+        const { record, conflicts } = reconcilePulledRecord('customers', editedLocally({ phone: '556' }), remote)!;
+        expect(conflicts).toEqual(['phone']);
+        expect(record).toMatchObject({ phone: '556', revision: 1, syncBase: toSyncSnapshot(customer), syncRemote: { ...toSyncSnapshot(remote), revision: 2 } });
+    });
+
+    it('treats any concurrent edit of a record without a base as a conflict', () => {
+        const local = { id: 'po1', workspaceId: 'ws', status: 'Ordered', note: 'Call first', revision: 1, sync_status: 'pending' };
+        const { conflicts } = reconcilePulledRecord('purchaseOrders', local, { ...local, note: 'Leave at door', revision: 2, sync_status: undefined })!;
+        expect(conflicts).toEqual(['note']);
+    });
+
+    it('lets the later edit of a setting win', () => {
+        const local = { id: 'ws:taxRate', workspaceId: 'ws', key: 'taxRate', value: 0.1, revision: 1, sync_status: 'pending', updated_at: '2024-03-01T00:00:00.000Z' };
+        const older = { ...local, value: 0.2, revision: 2, updated_at: '2024-02-01T00:00:00.000Z' };
+        expect(reconcilePulledRecord('settings', local, older)!.record).toMatchObject({ value: 0.1, revision: 2, sync_status: 'pending' });
+        const newer = { ...older, updated_at: '2024-04-01T00:00:00.000Z' };
+        expect(reconcilePulledRecord('settings', local, newer)!.record).toMatchObject({ value: 0.2, sync_status: 'synced' });
+    });
+});
+
+describe('resolveSyncConflict', () => {
+    it('applies the chosen side of each field and rebases on the remote version', async () => {
+        const database = new IMSDatabase(`test-${generateUUIDv7()}`);
+        await database.open();
+        opened.push(database);
+
+        const remote = { ...customer, name: 'Ada Lovelace', phone: '557', revision: 2 };
+        const { record, conflicts } = reconcilePulledRecord('customers', editedLocally({ name: 'Ada L.', phone: '556' }), remote)!;
+        expect(conflicts).toEqual(['name', 'phone']);
+        await database.customers.put(record);
+        await database.syncConflicts.put(buildSyncConflict('customers', record, conflicts));
+
+        await resolveSyncConflict(database, 'customers:c1', { name: 'local', phone: 'remote' });
+
+        const resolved: any = await database.customers.get('c1');
+        expect(resolved).toMatchObject({ name: 'Ada L.', phone: '557', revision: 2, sync_status: 'pending', syncBase: toSyncSnapshot(remote) });
+        expect(resolved.syncRemote).toBeUndefined();
+        expect(await database.syncConflicts.count()).toBe(0);
+    });
+});
@@ -0,0 +1,173 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Customer, JournalEntry, PaymentType, Sale } from '../types';
+import { db } from '../utils/db';
+import { generateDataKey } from '../utils/crypto';
+import { generateUUIDv7 } from '../utils/idGenerator';
+import { buildSaleLines, reverseEntriesForSources } from '../utils/ledger';
+import { syncService } from '../services/SyncService';
+
+// SyncService works on the shared database, so each test uses a workspace of its own
+beforeAll(async () => {
+    const general = await generateDataKey();
+    db.setEncryptionKey(general, { general, financial: await generateDataKey(), pii: await generateDataKey() });
+});
+
+afterAll(() => {
+    db.setEncryptionKey(null);
+});
+
+afterEach(async () => {
+    vi.unstubAllGlobals();
+    await Promise.all([db.sales, db.journalEntries, db.purchaseOrders, db.customers, db.deletedRecords].map(table => table.clear()));
+});
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const sale = (workspaceId: string, date: string, changes: Partial<Sale> = {}): Sale => ({
+    id: generateUUIDv7(), publicId: `TRX-${generateUUIDv7().slice(-4)}`, workspaceId, date, items: [], subtotal: 1000, tax: 0, total: 1000,
+    payments: [{ type: PaymentType.Cash, amount: 1000 }], cogs: 600, profit: 400, type: 'Sale', status: 'Completed',
+    salespersonId: 'u1', salespersonName: 'ada', revision: 1, sync_status: 'synced', ...changes,
+});
+
+const entryFor = (source: Sale, changes: Partial<JournalEntry> = {}): JournalEntry => ({
+    id: generateUUIDv7(), workspaceId: source.workspaceId, date: source.date, kind: 'sale', sourceType: 'sale', sourceId: source.id,
+    description: `Sale #${source.publicId}`, lines: buildSaleLines(source), revision: 1, sync_status: 'synced', ...changes,
+});
+
+const nothingChanged = () => ({ changes: {}, deleted: [], timestamp: new Date().toISOString() });
+
+// A register keeping the last 30 days, talking to a server that answers each path with `routes`
+const setUpRegister = (routes: (workspaceId: string) => Record<string, unknown> = () => ({})) => {
+    const workspaceId = `ws-${generateUUIDv7()}`;
+    syncService.configure(workspaceId, 'https://sync.example', 'key', true, 'register', 30);
+    const answers = routes(workspaceId);
+    const requests: URL[] = [];
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.stubGlobal('fetch', vi.fn(async (input: string) => {
+        const url = new URL(input);
+        requests.push(url);
+        return new Response(JSON.stringify(answers[url.pathname] ?? nothingChanged()));
+    }));
+    return { workspaceId, requests };
+};
+
+describe('register sync scope', () => {
+    it('pulls the ledger entries of sales, so deleting a sale rung up on another till reverses them', async () => {
+        let otherTillSale!: Sale;
+        const { requests } = setUpRegister(workspaceId => {
+            otherTillSale = sale(workspaceId, daysAgo(1));
+            return { '/sync/pull': { ...nothingChanged(), changes: { sales: [otherTillSale], journalEntries: [entryFor(otherTillSale)] } } };
+        });
+
+        expect((await syncService.pullChanges()).success).toBe(true);
+        const params = requests[0].searchParams;
+        expect(params.get('tables')?.split(',')).toContain('journalEntries');
+        expect(params.get('tables')?.split(',')).not.toContain('purchaseOrders');
+        expect(params.get('ledger_sources')).toBe('sale');
+
+        await db.transaction('rw', db.journalEntries, () => reverseEntriesForSources(db, [otherTillSale.id], 'sale deleted'));
+        const lines = (await db.journalEntries.where('sourceId').equals(otherTillSale.id).toArray()).flatMap(entry => entry.lines);
+        expect(lines.reduce((sum, line) => sum + line.debit - line.credit, 0)).toBe(0);
+        expect(lines.filter(line => line.debit > 0)).toHaveLength(2);
+    });
+
+    it('evicts synced records and ledger entries that left the scope', async () => {
+        const { workspaceId } = setUpRegister();
+        const recent = sale(workspaceId, daysAgo(1));
+        const old = sale(workspaceId, daysAgo(60));
+        const unsynced = sale(workspaceId, daysAgo(60), { sync_status: 'pending' });
+        const stockEntry = entryFor(recent, { id: 'stock-entry', kind: 'stockMovement', sourceType: 'inventoryAdjustment', sourceId: 'adj1', date: daysAgo(1) });
+        await db.sales.bulkPut([recent, old, unsynced]);
+        await db.journalEntries.bulkPut([entryFor(recent), entryFor(old), stockEntry]);
+        await db.purchaseOrders.put({ id: 'po1', workspaceId, supplierId: 's', supplierName: 'Acme', dateCreated: daysAgo(1), dateExpected: daysAgo(1), status: 'Pending', items: [], totalCost: 0, sync_status: 'synced' });
+
+        await syncService.pullChanges();
+        expect((await db.sales.toArray()).map(s => s.id).sort()).toEqual([recent.id, unsynced.id].sort());
+        expect((await db.journalEntries.toArray()).map(e => e.sourceId)).toEqual([recent.id]);
+        expect(await db.purchaseOrders.count()).toBe(0);
+    });
+
+    it('keeps a fetched receipt and its ledger entries outside the history', async () => {
+        let old!: Sale;
+        setUpRegister(workspaceId => {
+            old = sale(workspaceId, daysAgo(60));
+            return { '/sync/record': { record: old }, '/sync/ledger': { records: [entryFor(old), entryFor(old, { kind: 'saleCost' })] } };
+        });
+
+        expect(await syncService.fetchRecord('sales', old.publicId!)).toMatchObject({ id: old.id, total: 1000, sync_status: 'synced' });
+        await syncService.pullChanges();
+        expect(await db.sales.get(old.id)).toBeDefined();
+        expect(await db.journalEntries.where('sourceId').equals(old.id).count()).toBe(2);
+    });
+});
+
+describe('push', () => {
+    const customer = (workspaceId: string, id: string, changes: Partial<Customer> = {}): Customer => ({
+        id, workspaceId, name: `Customer ${id}`, email: `${id}@example.com`, dateAdded: '2024-01-01', revision: 0,
+        sync_status: 'pending', updated_at: '2024-01-01T00:00:00.000Z', ...changes,
+    });
+
+    // A server answering each push with `respond`, given the records pushed by table
+    const setUpServer = (respond: (payload: Record<string, any[]>) => unknown, sealPayloads = true) => {
+        const workspaceId = `ws-${generateUUIDv7()}`;
+        syncService.configure(workspaceId, 'https://sync.example', 'key', sealPayloads);
+        const pushed: Record<string, any[]>[] = [];
+        vi.stubGlobal('navigator', { onLine: true });
+        vi.stubGlobal('fetch', vi.fn(async (_input: string, init: RequestInit) => {
+            const payload = JSON.parse(init.body as string);
+            pushed.push(payload);
+            return new Response(JSON.stringify({ success: true, ...(await respond(payload) as object) }));
+        }));
+        return { workspaceId, pushed };
+    };
+
+    const acceptAll = (payload: Record<string, any[]>) => ({
+        acks: Object.entries(payload).flatMap(([table, records]) => records.map(r => ({ table, id: r.id, status: 'accepted', revision: (r.revision ?? 0) + 1 }))),
+    });
+
+    it('keeps a record edited while its push was in flight pending, based on the stored revision', async () => {
+        const { workspaceId } = setUpServer(async payload => {
+            await db.customers.update('c1', { name: 'Ada L.', updated_at: '2024-01-02T00:00:00.000Z' });
+            return acceptAll(payload);
+        });
+        await db.customers.bulkPut([customer(workspaceId, 'c1'), customer(workspaceId, 'c2')]);
+
+        expect((await syncService.pushChanges()).counts).toEqual({ pushed: 2, rejected: 0 });
+        expect(await db.customers.get('c1')).toMatchObject({ name: 'Ada L.', sync_status: 'pending', revision: 1 });
+        expect(await db.customers.get('c2')).toMatchObject({ sync_status: 'synced', revision: 1, syncBase: { name: 'Customer c2' } });
+    });
+
+    it('splits a push into requests of at most 256 KB and 200 records', async () => {
+        const { workspaceId, pushed } = setUpServer(acceptAll, false);
+        const notes = 'x'.repeat(100 * 1024);
+        await db.customers.bulkPut(['big1', 'big2', 'big3'].map(id => customer(workspaceId, id, { notes })));
+        await db.customers.bulkPut(Array.from({ length: 199 }, (_, i) => customer(workspaceId, `small${String(i).padStart(3, '0')}`)));
+
+        expect((await syncService.pushChanges()).counts).toEqual({ pushed: 202, rejected: 0 });
+        expect(pushed.map(payload => payload.customers.length)).toEqual([2, 200]);
+        expect(pushed.every(payload => JSON.stringify(payload).length <= 256 * 1024)).toBe(true);
+        expect(await db.customers.where('sync_status').equals('pending').count()).toBe(0);
+    });
+
+    it('settles each record by its own ack, retrying those the server did not acknowledge', async () => {
+        const { workspaceId } = setUpServer(() => ({
+            acks: [
+                { table: 'customers', id: 'accepted', status: 'accepted', revision: 1 },
+                { table: 'customers', id: 'stale', status: 'rejected', reason: 'stale' },
+                { table: 'customers', id: 'deleted', status: 'rejected', reason: 'deleted' },
+                { table: 'deletedRecords', id: 'gone', status: 'accepted', revision: 2 },
+            ],
+        }));
+        await db.customers.bulkPut(['accepted', 'stale', 'deleted', 'unacknowledged'].map(id => customer(workspaceId, id)));
+        await db.deletedRecords.put({ id: 'gone', table: 'customers', deletedAt: '2024-01-01T00:00:00.000Z', sync_status: 'pending' });
+
+        const result = await syncService.pushChanges();
+        expect(result.counts).toEqual({ pushed: 2, rejected: 2 });
+        expect(result.message).toContain('customers deleted (deleted)');
+        expect(await db.customers.get('accepted')).toMatchObject({ sync_status: 'synced', revision: 1 });
+        expect(await db.customers.get('stale')).toMatchObject({ sync_status: 'pending', revision: 0 });
+        expect(await db.customers.get('deleted')).toMatchObject({ sync_status: 'error', syncError: 'deleted' });
+        expect(await db.customers.get('unacknowledged')).toMatchObject({ sync_status: 'pending', revision: 0 });
+        expect(await db.deletedRecords.count()).toBe(0);
+    });
+});
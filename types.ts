@@ -1,11 +1,20 @@
 
 import React from 'react';
 
+// Ids of the built-in roles. Workspaces can define more (see Role and utils/permissions.ts).
 export enum UserRole {
   Admin = 'Admin',
   Cashier = 'Cashier',
 }
 
+// Encryption key classes. Every user holds the 'general' key (the DEK); the others are only
+// wrapped for roles granted them, so e.g. cashiers cannot decrypt cost and profit.
+export type KeyClass = 'general' | 'financial' | 'pii';
+
+// An amount of money as an integer count of the active currency's minor unit (cents for USD, yen
+// for JPY, fils for KWD). Only the UI converts to and from major units; see utils/money.ts.
+export type Money = number;
+
 // Sync status for local-first architecture
 export type SyncStatus = 'pending' | 'synced' | 'error';
 
@@ -14,6 +23,17 @@ export interface BaseEntity {
   deleted?: boolean;
   sync_status?: SyncStatus;
   workspaceId: string;
+  // Money fields still in major units because they were encrypted when the money-minor-units
+  // migration ran (see utils/migrations.ts); converted once a session that can decrypt them loads.
+  pendingMinorUnits?: { exponent: number; paths: string[] };
+  // Server revision this copy is based on; the server stores revision + 1 on every accepted push
+  revision?: number;
+  // Last synced version, the common ancestor for three-way merges (see utils/syncMerge.ts)
+  syncBase?: Record<string, any>;
+  // Remote version of a record with unresolved sync conflicts (see SyncConflict)
+  syncRemote?: Record<string, any>;
+  // Why the server rejected the last push of this record (sync_status 'error')
+  syncError?: string;
 }
 
 export interface User extends BaseEntity {
@@ -21,13 +41,27 @@ export interface User extends BaseEntity {
   username: string;
   email?: string; // NEW: Allow login via email
   // Password is NOT stored. Authentication is done via cryptographic challenge (unwrapping keys).
-  role: UserRole;
+  role: string; // Id of a Role: a UserRole value or a custom role of the workspace
   salt?: string; // Base64 salt for key derivation
   encryptedDEK?: string; // Base64 Encrypted Data Encryption Key
   keyCheckValue?: string; // SHA-256 hash of the raw DEK for validation
+  encryptedClassKeys?: Partial<Record<KeyClass, string>>; // Restricted class keys granted to this user's role, wrapped like encryptedDEK
+  kdf?: KdfParams; // How the wrapping key is derived from the password; absent on users from before it was recorded (LEGACY_KDF)
   workspaceId: string; // Link to the workspace this user belongs to
 }
 
+// Parameters of the password-to-key derivation, kept with what they protect so they can be raised later
+export interface KdfParams {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+}
+
+// Rules for new passwords of a workspace's users. Existing passwords are not checked.
+export interface PasswordPolicy {
+  minLength: number;
+  rejectCommon: boolean; // Refuse passwords on the bundled list of common and breached passwords
+}
+
 export interface Workspace {
   id: string;
   name: string;
@@ -43,8 +77,8 @@ export enum PaymentType {
 export interface PriceHistoryEntry {
   date: string;
   priceType: 'retail' | 'cost';
-  oldValue: number;
-  newValue: number;
+  oldValue: Money;
+  newValue: Money;
   userId: string;
   userName: string;
 }
@@ -71,8 +105,8 @@ export interface ProductVariant {
   // Mapped by variation type id to option name.
   options: Record<string, string>; 
   skuSuffix: string;
-  retailPrice: number;
-  costPrice: number;
+  retailPrice: Money;
+  costPrice: Money;
   stock: number;
   priceHistory: PriceHistoryEntry[];
 }
@@ -82,8 +116,8 @@ export interface Product extends BaseEntity {
   id: string;
   sku: string;
   name:string;
-  retailPrice: number;
-  costPrice: number;
+  retailPrice: Money;
+  costPrice: Money;
   stock: number;
   lowStockThreshold: number;
   priceHistory: PriceHistoryEntry[];
@@ -100,21 +134,22 @@ export interface CartItem {
   name: string; // Composed name for display
   sku: string; // Composed SKU
   
-  retailPrice: number;
-  costPrice: number;
+  retailPrice: Money;
+  costPrice: Money;
   
   stock: number; // Stock of the specific item at the time of adding to cart
   quantity: number; // Can be negative for returns
   returnedQuantity?: number;
   
   originalSaleId?: string; // For return items, links back to the original sale
+  priceOverriddenFrom?: Money; // The catalogue price, when the price was overridden at the register
 }
 
 
 // NEW: For Split Payments
 export interface Payment {
   type: PaymentType;
-  amount: number;
+  amount: Money;
 }
 
 export interface Sale extends BaseEntity {
@@ -122,13 +157,13 @@ export interface Sale extends BaseEntity {
   publicId?: string; // NanoID for public display (e.g. TRX-A1B2)
   date: string;
   items: CartItem[];
-  subtotal: number;
-  discount?: number;
-  tax: number;
-  total: number;
+  subtotal: Money;
+  discount?: Money;
+  tax: Money;
+  total: Money;
   payments: Payment[]; // Replaces paymentType
-  cogs: number;
-  profit: number;
+  cogs: Money;
+  profit: Money;
   type: 'Sale' | 'Return';
   originalSaleId?: string;
   originalSalePublicId?: string; // For display in returns
@@ -137,6 +172,8 @@ export interface Sale extends BaseEntity {
   salespersonName: string; // NEW: Salesperson tracking
   customerId?: string; // NEW: Customer linkage
   customerName?: string; // NEW: Denormalized customer name
+  costPending?: boolean; // Recorded by a session without the financial key; cogs/profit are filled in later
+  approvals?: Approval[]; // Register overrides approved for this sale
 }
 
 export interface HeldOrder extends BaseEntity {
@@ -145,10 +182,11 @@ export interface HeldOrder extends BaseEntity {
   date: string;
   items: CartItem[];
   customer: Customer | null;
-  discount: { type: 'percent' | 'fixed', value: number } | null;
+  discount: { type: 'percent' | 'fixed', value: number } | null; // value is Money when fixed, a percentage otherwise
   isTaxExempt: boolean; // Legacy support
-  customTax?: { type: 'percent' | 'fixed', value: number } | null;
+  customTax?: { type: 'percent' | 'fixed', value: number } | null; // Same as discount
   note: string;
+  approvals?: Approval[]; // Overrides already approved for the cart
 }
 
 // NEW: Customer Interface
@@ -163,7 +201,7 @@ export interface Customer extends BaseEntity {
   dateAdded: string;
 }
 
-// NEW: For cashier permissions
+// Permissions of the Cashier role before roles could be defined; read only to seed that role
 export interface CashierPermissions {
   canProcessReturns: boolean;
   canViewReports: boolean;
@@ -177,6 +215,46 @@ export interface CashierPermissions {
 
 export type View = 'dashboard' | 'pos' | 'inventory' | 'customers' | 'reports' | 'analysis' | 'settings' | 'procurement' | 'users';
 
+// What a role can be granted. The `view*` ones open a page; the others are checked by the
+// context performing the action, so a hidden button is never the only thing in the way.
+export type Permission =
+  | 'viewDashboard' | 'viewPos' | 'viewInventory' | 'viewProcurement' | 'viewCustomers' | 'viewReports' | 'viewAnalysis' | 'viewUsers'
+  | 'processReturns' | 'deleteSales' | 'viewCost' | 'approveOverrides'
+  | 'editProducts' | 'editPrices' | 'adjustStock' | 'managePurchaseOrders' | 'receivePurchaseOrders'
+  | 'manageCustomers'
+  | 'manageUsers' | 'pruneData' | 'editBehaviorSettings' | 'editOwnProfile' | 'viewAuditLog';
+
+// A set of permissions assigned to users. Stored in the workspace's synced `roles` setting.
+export interface Role {
+  id: string;
+  name: string;
+  permissions: Permission[];
+}
+
+// Register actions that need a supervisor unless the user's role can approve overrides (see utils/overrides.ts)
+export type OverrideAction = 'discount' | 'priceOverride' | 'noReceiptReturn' | 'openDrawer' | 'deleteHeldOrder';
+
+// Who approved a restricted register action, for whom and when
+export interface Approval {
+  id: string;
+  action: OverrideAction;
+  detail: string;
+  date: string;
+  requestedById: string;
+  requestedByName: string;
+  approvedById: string; // The requester when their own role can approve
+  approvedByName: string;
+  saleId?: string; // Set when the sale it was given for is completed
+  salePublicId?: string;
+}
+
+// What caused a stock movement. Paired with `sourceId` (the sale/PO/import batch id) so history
+// can be located without parsing the free-text (and encrypted) `reason`.
+// 'opening' movements carry stock held before it was recorded, or the net of deleted history (see utils/stockLedger.ts)
+// 'unknown' marks history recorded before sources were tracked whose reason names no sale or purchase order
+export type StockMovementSource = 'sale' | 'return' | 'poReceipt' | 'manual' | 'import' | 'opening' | 'unknown';
+
+// A stock movement: the ledger of signed quantities that product stock is the balance of
 export interface InventoryAdjustment extends BaseEntity {
   id: string;
   productId: string;
@@ -184,6 +262,9 @@ export interface InventoryAdjustment extends BaseEntity {
   date: string;
   quantity: number;
   reason: string;
+  sourceType?: StockMovementSource;
+  sourceId?: string;
+  costPending?: boolean; // Recorded by a session without the financial key; its journal entry is posted later
 }
 
 export interface POItem {
@@ -193,7 +274,7 @@ export interface POItem {
   sku: string; // denormalized, composed sku
   quantityOrdered: number;
   quantityReceived: number;
-  costPrice: number; // cost at time of order
+  costPrice: Money; // cost at time of order
 }
 
 
@@ -207,7 +288,7 @@ export interface PurchaseOrder extends BaseEntity {
   status: 'Pending' | 'Partial' | 'Received';
   items: POItem[];
   notes?: string;
-  totalCost: number;
+  totalCost: Money;
 }
 
 // FIX: Added missing Supplier interface for procurement feature.
@@ -230,17 +311,128 @@ export interface Shift extends BaseEntity {
   closedByUserName?: string;
   startTime: string;
   endTime?: string;
-  startFloat: number;
-  endFloat?: number; // The calculated expected cash
-  actualCash?: number; // The counted cash
-  difference?: number; // actual - expected
+  startFloat: Money;
+  endFloat?: Money; // The calculated expected cash
+  actualCash?: Money; // The counted cash
+  difference?: Money; // actual - expected
   notes?: string;
   status: 'Open' | 'Closed';
-  cashSales: number; // Total cash sales during shift
-  cashRefunds: number; // Total cash refunds during shift
+  cashSales: Money; // Total cash sales during shift
+  cashRefunds: Money; // Total cash refunds during shift
+  overrides?: Approval[]; // Register overrides approved during the shift
+}
+
+// --- General ledger (see utils/ledger.ts) ---
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export interface LedgerAccount {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+}
+
+export type JournalEntryKind = 'sale' | 'saleCost' | 'stockMovement' | 'reversal';
+
+export interface JournalLine {
+  accountCode: string;
+  debit: Money;
+  credit: Money; // One of debit/credit is 0
 }
 
-export type PaginationTarget = 'inventory' | 'inventoryCategories' | 'posCatalog' | 'posSales' | 'salesReports' | 'productReports' | 'inventoryValuation' | 'users' | 'analysis' | 'purchaseOrders' | 'suppliers' | 'customers' | 'inventoryStockHistory' | 'inventoryPriceHistory' | 'shifts';
+// Posted once and never edited; corrections are posted as reversing entries.
+export interface JournalEntry extends BaseEntity {
+  id: string;
+  date: string;
+  kind: JournalEntryKind;
+  sourceType: 'sale' | 'inventoryAdjustment';
+  sourceId: string; // The sale or stock adjustment booked by this entry
+  reversesEntryId?: string;
+  description: string;
+  lines: JournalLine[]; // Debits equal credits
+}
+
+// A row moved out of its table because its encrypted fields could not be read (see utils/integrity.ts).
+// The row is kept exactly as stored so it can be put back once the right key is available.
+export interface QuarantinedRecord {
+  id: string; // `${table}:${recordId}`
+  table: string;
+  recordId: string;
+  workspaceId: string;
+  quarantinedAt: string;
+  reason: string;
+  row: any;
+}
+
+// Fields edited both locally and on another device since the record last synced. The local values
+// stay on the record and the remote ones in its `syncRemote` copy until a user picks between them;
+// the record is not pushed meanwhile.
+export interface SyncConflict {
+  id: string; // `${table}:${recordId}`
+  table: string;
+  recordId: string;
+  workspaceId: string;
+  label: string;
+  fields: string[];
+  remoteRevision: number;
+  detectedAt: string;
+}
+
+// A workspace-wide setting shared by every device. Synced, with the last write of each key winning.
+export interface WorkspaceSetting extends BaseEntity {
+  id: string; // `${workspaceId}:${key}`
+  key: string;
+  value: any;
+}
+
+export type SyncTrigger = 'manual' | 'online' | 'interval' | 'retry';
+
+// What a device replicates: everything, or what a register needs (see services/SyncService.ts)
+export type SyncProfile = 'full' | 'register';
+
+// One run of the sync job (see services/SyncService.ts)
+export type AuditAction = 'login' | 'logout' | 'priceChange' | 'stockAdjustment' | 'saleDeletion' | 'permissionChange' | 'backupRestore' | 'prune';
+
+// An entry of a workspace's audit log (see utils/audit.ts). Entries are only ever added, and each
+// hash covers the previous one, so editing or removing an entry breaks the chain from there on.
+export interface AuditEntry {
+  id: string;
+  workspaceId: string;
+  seq: number; // Position in the workspace's chain, from 1
+  date: string;
+  action: AuditAction;
+  userId: string;
+  userName: string;
+  detail: string; // Encrypted
+  prevHash: string;
+  hash: string;
+}
+
+export interface SyncLogEntry {
+  id: string;
+  workspaceId: string;
+  trigger: SyncTrigger;
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  pushed: number;
+  rejected: number;
+  pulled: number;
+  deleted: number;
+  conflicts: number;
+  message?: string;
+}
+
+// A workspace's sync job between runs, kept in keyval so the backoff survives reloads
+export interface SyncJobState {
+  lastAttemptAt?: string;
+  lastSuccessAt?: string;
+  consecutiveFailures: number;
+  nextRetryAt?: string; // Automatic runs wait until then after a failure
+  lastError?: string;
+}
+
+export type PaginationTarget = 'inventory' | 'inventoryCategories' | 'posCatalog' | 'posSales' | 'salesReports' | 'productReports' | 'inventoryValuation' | 'users' | 'analysis' | 'purchaseOrders' | 'suppliers' | 'customers' | 'inventoryStockHistory' | 'inventoryPriceHistory' | 'shifts' | 'auditLog';
 export type PaginationConfig = Record<PaginationTarget, number>;
 
 // Generic type for sort configuration
@@ -350,6 +542,7 @@ export interface Currency {
     code: string;
     name: string;
     symbol: string;
+    exponent?: number; // Decimal places of the minor unit; defaults to the ISO 4217 value (see utils/money.ts)
 }
 
 export interface Toast {
@@ -0,0 +1,107 @@
+import Dexie from 'dexie';
+import { db } from './db';
+import { generateUUIDv7 } from './idGenerator';
+import { AuditAction, AuditEntry, User } from '../types';
+
+// Audit log of user actions. Each workspace's entries form a hash chain: an entry's hash covers its
+// own fields and the hash of the entry before it, so an entry edited or deleted in storage no longer
+// matches, and neither does anything after it. The log is kept on this device and is not synced or
+// backed up; nothing in the app edits or deletes it.
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    login: 'Sign in',
+    logout: 'Sign out',
+    priceChange: 'Price change',
+    stockAdjustment: 'Stock adjustment',
+    saleDeletion: 'Sale deletion',
+    permissionChange: 'Permission change',
+    backupRestore: 'Backup restore',
+    prune: 'Data pruning',
+};
+
+// The previous hash of a workspace's first entry
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+// Attempts at appending before giving up, when other tabs keep taking the next position first
+const APPEND_ATTEMPTS = 5;
+
+export async function hashAuditEntry(entry: Omit<AuditEntry, 'id' | 'hash'>): Promise<string> {
+    const content = JSON.stringify([entry.workspaceId, entry.seq, entry.date, entry.action, entry.userId, entry.userName, entry.detail, entry.prevHash]);
+    const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const getLastEntry = (workspaceId: string) =>
+    db.auditLog.where('[workspaceId+seq]').between([workspaceId, Dexie.minKey], [workspaceId, Dexie.maxKey]).last();
+
+// Appends of this tab run one at a time; other tabs are kept in line by the unique [workspaceId+seq] index
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+const appendEntry = async (workspaceId: string, actor: Pick<User, 'id' | 'username'>, action: AuditAction, detail: string): Promise<AuditEntry> => {
+    for (let attempt = 1; ; attempt++) {
+        const last = await getLastEntry(workspaceId);
+        const fields = {
+            workspaceId,
+            seq: (last?.seq || 0) + 1,
+            date: new Date().toISOString(),
+            action,
+            userId: actor.id,
+            userName: actor.username,
+            detail,
+            prevHash: last?.hash || AUDIT_GENESIS_HASH,
+        };
+        const entry: AuditEntry = { id: generateUUIDv7(), ...fields, hash: await hashAuditEntry(fields) };
+        try {
+            await db.auditLog.add(entry);
+            return entry;
+        } catch (error) {
+            // Another tab appended in between: chain onto its entry instead
+            if (attempt >= APPEND_ATTEMPTS || !(error instanceof Dexie.ConstraintError)) throw error;
+        }
+    }
+};
+
+/**
+ * Appends an entry to the workspace's audit log. Recording never fails the action being recorded:
+ * errors are logged and swallowed.
+ */
+export function recordAuditEvent(workspaceId: string, actor: Pick<User, 'id' | 'username'>, action: AuditAction, detail: string): Promise<void> {
+    const appended = appendQueue.then(() => appendEntry(workspaceId, actor, action, detail));
+    appendQueue = appended.catch(() => undefined);
+    return appended.then(() => undefined, error => console.error(`Failed to record audit event "${action}"`, error));
+}
+
+export type AuditChainStatus =
+    | { intact: true; count: number }
+    | { intact: false; count: number; brokenAtSeq: number; reason: string };
+
+/**
+ * Checks a workspace's whole log, as read from storage, against its hash chain. Reports the first
+ * position where it breaks; entries from there on cannot be trusted.
+ */
+export async function verifyAuditChain(entries: AuditEntry[]): Promise<AuditChainStatus> {
+    const sorted = [...entries].sort((a, b) => a.seq - b.seq);
+    let prevHash = AUDIT_GENESIS_HASH;
+    for (let i = 0; i < sorted.length; i++) {
+        const entry = sorted[i];
+        const broken = (reason: string): AuditChainStatus => ({ intact: false, count: sorted.length, brokenAtSeq: entry.seq, reason });
+        if (entry.seq !== i + 1) return broken(`Entry ${i + 1} is missing.`);
+        if (entry.prevHash !== prevHash) return broken('It does not follow the entry before it.');
+        const { id, hash, ...fields } = entry;
+        if (await hashAuditEntry(fields) !== hash) return broken('Its contents were changed.');
+        prevHash = hash;
+    }
+    return { intact: true, count: sorted.length };
+}
+
+const csvField = (value: string | number) => {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// With the hashes, so the exported chain can be checked outside the app
+export function auditLogToCsv(entries: AuditEntry[]): string {
+    const headers = ['seq', 'date', 'action', 'user_id', 'user_name', 'detail', 'prev_hash', 'hash'];
+    const rows = entries.map(e => [e.seq, e.date, e.action, e.userId, e.userName, e.detail, e.prevHash, e.hash].map(csvField).join(','));
+    return [headers.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,17 @@
+// The ~49,000 most common passwords in public breach corpora, ranked, from @zxcvbn-ts/language-common.
+// Bundled so the password policy can check against it offline, and loaded only when a password is set;
+// a password is never sent anywhere to be checked.
+let loading: Promise<ReadonlySet<string>> | null = null;
+
+/**
+ * Loads the list once per session, lowercased. A failed load is retried on the next call.
+ */
+export const loadCommonPasswords = (): Promise<ReadonlySet<string>> => {
+    loading ??= import('@zxcvbn-ts/language-common')
+        .then(({ dictionary }) => new Set(dictionary['passwords-common'].map(password => String(password).toLowerCase())))
+        .catch(error => {
+            loading = null;
+            throw error;
+        });
+    return loading;
+};
@@ -1,23 +1,27 @@
 
 // Utilities for client-side encryption using Web Crypto API
+import { KdfParams, KeyClass, User } from '../types';
+
+// The keys a session holds, by class. 'general' is the DEK every user has.
+export type KeySet = Partial<Record<KeyClass, CryptoKey>>;
 
 export const generateSalt = (): string => {
   const array = new Uint8Array(16);
-  window.crypto.getRandomValues(array);
+  globalThis.crypto.getRandomValues(array);
   return btoa(String.fromCharCode(...array));
 };
 
 export const generateDataKey = async (): Promise<CryptoKey> => {
-  return window.crypto.subtle.generateKey(
+  return globalThis.crypto.subtle.generateKey(
     { name: 'AES-GCM', length: 256 },
     true,
     ['encrypt', 'decrypt']
   );
 };
 
-export const deriveKeyFromPassword = async (password: string, salt: string): Promise<CryptoKey> => {
+export const deriveKeyFromPassword = async (password: string, salt: string, iterations: number = 100000): Promise<CryptoKey> => {
   const enc = new TextEncoder();
-  const keyMaterial = await window.crypto.subtle.importKey(
+  const keyMaterial = await globalThis.crypto.subtle.importKey(
     'raw',
     enc.encode(password),
     { name: 'PBKDF2' },
@@ -27,11 +31,11 @@ export const deriveKeyFromPassword = async (password: string, salt: string): Pro
 
   const saltBuffer = Uint8Array.from(atob(salt), c => c.charCodeAt(0));
 
-  return window.crypto.subtle.deriveKey(
+  return globalThis.crypto.subtle.deriveKey(
     {
       name: 'PBKDF2',
       salt: saltBuffer,
-      iterations: 100000,
+      iterations,
       hash: 'SHA-256',
     },
     keyMaterial,
@@ -41,14 +45,34 @@ export const deriveKeyFromPassword = async (password: string, salt: string): Pro
   );
 };
 
+// The parameters every password was derived with before they were recorded on the user
+export const LEGACY_KDF: KdfParams = { algorithm: 'PBKDF2-SHA256', iterations: 100000 };
+// The parameters new and re-wrapped passwords get (OWASP's current PBKDF2-SHA256 recommendation)
+export const CURRENT_KDF: KdfParams = { algorithm: 'PBKDF2-SHA256', iterations: 600000 };
+
+// Derives a password's wrapping key with the parameters it was set under
+export const deriveKeyWithKdf = async (password: string, salt: string, kdf: KdfParams = LEGACY_KDF): Promise<CryptoKey> => {
+  switch (kdf.algorithm) {
+    case 'PBKDF2-SHA256':
+      return deriveKeyFromPassword(password, salt, kdf.iterations);
+    default:
+      // Written by a newer version of the app
+      throw new Error(`Unsupported key derivation: ${(kdf as KdfParams).algorithm}`);
+  }
+};
+
+// Whether keys wrapped under `kdf` should be re-wrapped under CURRENT_KDF
+export const isKdfOutdated = (kdf: KdfParams = LEGACY_KDF): boolean =>
+  kdf.algorithm !== CURRENT_KDF.algorithm || kdf.iterations < CURRENT_KDF.iterations;
+
 export const exportKey = async (key: CryptoKey): Promise<string> => {
-  const exported = await window.crypto.subtle.exportKey('raw', key);
+  const exported = await globalThis.crypto.subtle.exportKey('raw', key);
   return btoa(String.fromCharCode(...new Uint8Array(exported)));
 };
 
 export const importKey = async (base64Key: string): Promise<CryptoKey> => {
   const raw = Uint8Array.from(atob(base64Key), c => c.charCodeAt(0));
-  return window.crypto.subtle.importKey(
+  return globalThis.crypto.subtle.importKey(
     'raw',
     raw,
     { name: 'AES-GCM' },
@@ -59,8 +83,8 @@ export const importKey = async (base64Key: string): Promise<CryptoKey> => {
 
 // Wraps (encrypts) the Data Key using the User's Derived Key (Key Encryption Key)
 export const wrapKey = async (keyToWrap: CryptoKey, wrappingKey: CryptoKey): Promise<string> => {
-  const iv = window.crypto.getRandomValues(new Uint8Array(12));
-  const wrapped = await window.crypto.subtle.wrapKey(
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+  const wrapped = await globalThis.crypto.subtle.wrapKey(
     'raw',
     keyToWrap,
     wrappingKey,
@@ -81,7 +105,7 @@ export const unwrapKey = async (wrappedKeyStr: string, unwrappingKey: CryptoKey)
   const iv = raw.slice(0, 12);
   const ciphertext = raw.slice(12);
 
-  return window.crypto.subtle.unwrapKey(
+  return globalThis.crypto.subtle.unwrapKey(
     'raw',
     ciphertext,
     unwrappingKey,
@@ -94,14 +118,18 @@ export const unwrapKey = async (wrappedKeyStr: string, unwrappingKey: CryptoKey)
 
 const ENC_PREFIX = '__ENC__:';
 
-export const encryptData = async (data: any, key: CryptoKey): Promise<string> => {
+/**
+ * Encrypts a value. Values encrypted with a restricted class key are tagged with the class
+ * (`__ENC__:financial:...`) so readers know which key to use; 'general' values carry no tag.
+ */
+export const encryptData = async (data: any, key: CryptoKey, keyClass: KeyClass = 'general'): Promise<string> => {
   if (data === null || data === undefined) return data;
   
   const enc = new TextEncoder();
-  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
   const json = JSON.stringify(data);
   
-  const ciphertext = await window.crypto.subtle.encrypt(
+  const ciphertext = await globalThis.crypto.subtle.encrypt(
     { name: 'AES-GCM', iv },
     key,
     enc.encode(json)
@@ -112,53 +140,126 @@ export const encryptData = async (data: any, key: CryptoKey): Promise<string> =>
   combined.set(iv);
   combined.set(cipherBytes, iv.length);
 
-  return ENC_PREFIX + btoa(String.fromCharCode(...combined));
+  const tag = keyClass === 'general' ? '' : `${keyClass}:`;
+  return ENC_PREFIX + tag + btoa(String.fromCharCode(...combined));
 };
 
-export const decryptData = async (encryptedStr: string, key: CryptoKey): Promise<any> => {
-  if (typeof encryptedStr !== 'string' || !encryptedStr.startsWith(ENC_PREFIX)) {
+export const isEncryptedValue = (value: any): value is string => {
+  return typeof value === 'string' && value.startsWith(ENC_PREFIX);
+};
+
+/**
+ * Returns the key class an encrypted value was written with.
+ */
+export const getEncryptedKeyClass = (encryptedStr: string): KeyClass => {
+  const body = encryptedStr.slice(ENC_PREFIX.length);
+  const separator = body.indexOf(':'); // Base64 never contains ':'
+  return separator === -1 ? 'general' : body.slice(0, separator) as KeyClass;
+};
+
+/**
+ * Decrypts a value produced by `encryptData`, throwing if the key does not match or the ciphertext is corrupt.
+ */
+export const decryptDataStrict = async (encryptedStr: string, key: CryptoKey): Promise<any> => {
+  if (!isEncryptedValue(encryptedStr)) {
     return encryptedStr; // Return as-is if not encrypted (migration path)
   }
 
+  const body = encryptedStr.slice(ENC_PREFIX.length);
+  const raw = Uint8Array.from(atob(body.slice(body.indexOf(':') + 1)), c => c.charCodeAt(0));
+  const iv = raw.slice(0, 12);
+  const ciphertext = raw.slice(12);
+
+  const decrypted = await globalThis.crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    ciphertext
+  );
+
+  const dec = new TextDecoder();
+  return JSON.parse(dec.decode(decrypted));
+};
+
+export const decryptData = async (encryptedStr: string, key: CryptoKey): Promise<any> => {
   try {
-    const raw = Uint8Array.from(atob(encryptedStr.slice(ENC_PREFIX.length)), c => c.charCodeAt(0));
-    const iv = raw.slice(0, 12);
-    const ciphertext = raw.slice(12);
-
-    const decrypted = await window.crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      ciphertext
-    );
-
-    const dec = new TextDecoder();
-    return JSON.parse(dec.decode(decrypted));
+    return await decryptDataStrict(encryptedStr, key);
   } catch (e) {
     console.error('Decryption failed:', e);
     return null; // Or return original string?
   }
 };
 
-export const hashPassword = async (password: string, salt: string = ''): Promise<string> => {
-  const enc = new TextEncoder();
-  const passwordBuffer = enc.encode(password);
-  let dataToHash = passwordBuffer;
-
-  if (salt) {
-    try {
-        const saltBuffer = Uint8Array.from(atob(salt), c => c.charCodeAt(0));
-        const combined = new Uint8Array(saltBuffer.length + passwordBuffer.length);
-        combined.set(saltBuffer);
-        combined.set(passwordBuffer, saltBuffer.length);
-        dataToHash = combined;
-    } catch (e) {
-        console.warn("Invalid salt provided to hashPassword, proceeding with unsalted hash");
-    }
+// Prefix of exported key sets holding more than the general key. A bare base64 string is a
+// legacy export of the general key alone (e.g. recovery keys issued before key classes).
+const KEYSET_PREFIX = 'KS1.';
+
+/**
+ * Exports a key set as a single string (used for recovery keys and the session key).
+ */
+export const exportKeySet = async (keys: KeySet): Promise<string> => {
+  if (!keys.general) throw new Error('Key set has no general key.');
+  const classes = (Object.keys(keys) as KeyClass[]).filter(keyClass => keyClass !== 'general' && keys[keyClass]);
+  if (classes.length === 0) return exportKey(keys.general);
+
+  const exported: Partial<Record<KeyClass, string>> = {};
+  for (const keyClass of ['general', ...classes] as KeyClass[]) {
+    exported[keyClass] = await exportKey(keys[keyClass]!);
   }
+  return KEYSET_PREFIX + btoa(JSON.stringify(exported));
+};
 
-  const hashBuffer = await window.crypto.subtle.digest('SHA-256', dataToHash);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+export const importKeySet = async (exported: string): Promise<KeySet> => {
+  if (!exported.startsWith(KEYSET_PREFIX)) {
+    return { general: await importKey(exported) };
+  }
+  const parsed: Partial<Record<KeyClass, string>> = JSON.parse(atob(exported.slice(KEYSET_PREFIX.length)));
+  const keys: KeySet = {};
+  for (const [keyClass, base64Key] of Object.entries(parsed)) {
+    keys[keyClass as KeyClass] = await importKey(base64Key!);
+  }
+  return keys;
+};
+
+// Returns the base64 general key of an exported key set
+const getGeneralKeyPart = (exported: string): string => {
+  if (!exported.startsWith(KEYSET_PREFIX)) return exported;
+  return JSON.parse(atob(exported.slice(KEYSET_PREFIX.length))).general;
+};
+
+/**
+ * Wraps every restricted (non-general) class key in `classes` that the key set holds.
+ */
+export const wrapClassKeys = async (keys: KeySet, classes: KeyClass[], wrappingKey: CryptoKey): Promise<Partial<Record<KeyClass, string>>> => {
+  const wrapped: Partial<Record<KeyClass, string>> = {};
+  for (const keyClass of classes) {
+    if (keyClass === 'general' || !keys[keyClass]) continue;
+    wrapped[keyClass] = await wrapKey(keys[keyClass]!, wrappingKey);
+  }
+  return wrapped;
+};
+
+export const unwrapClassKeys = async (wrapped: Partial<Record<KeyClass, string>> | undefined, unwrappingKey: CryptoKey): Promise<KeySet> => {
+  const keys: KeySet = {};
+  for (const [keyClass, wrappedKey] of Object.entries(wrapped || {})) {
+    keys[keyClass as KeyClass] = await unwrapKey(wrappedKey!, unwrappingKey);
+  }
+  return keys;
+};
+
+/**
+ * The user with their keys wrapped again under a fresh salt and `kdf`, as when a sign-in finds the
+ * password was derived with outdated parameters. The keys themselves do not change.
+ */
+export const rewrapUserKeys = async (user: User, password: string, keys: KeySet, kdf: KdfParams = CURRENT_KDF): Promise<User> => {
+  const salt = generateSalt();
+  const kek = await deriveKeyWithKdf(password, salt, kdf);
+  return {
+    ...user,
+    salt,
+    kdf,
+    encryptedDEK: await wrapKey(keys.general!, kek),
+    encryptedClassKeys: user.encryptedClassKeys ? await wrapClassKeys(keys, Object.keys(user.encryptedClassKeys) as KeyClass[], kek) : undefined
+  };
 };
 
 /**
@@ -166,19 +267,19 @@ export const hashPassword = async (password: string, salt: string = ''): Promise
  * Used to verify if a provided recovery key is correct without encryption/decryption trial.
  */
 export const computeKeyCheckValue = async (key: CryptoKey): Promise<string> => {
-  const raw = await window.crypto.subtle.exportKey('raw', key);
-  const hashBuffer = await window.crypto.subtle.digest('SHA-256', raw);
+  const raw = await globalThis.crypto.subtle.exportKey('raw', key);
+  const hashBuffer = await globalThis.crypto.subtle.digest('SHA-256', raw);
   const hashArray = Array.from(new Uint8Array(hashBuffer));
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 };
 
 /**
- * Validates a base64 encoded key against an expected checksum hash.
+ * Validates a base64 encoded key (or exported key set) against an expected checksum hash of its general key.
  */
 export const validateKeyCheckValue = async (base64Key: string, expectedHash: string): Promise<boolean> => {
   try {
-      const raw = Uint8Array.from(atob(base64Key), c => c.charCodeAt(0));
-      const hashBuffer = await window.crypto.subtle.digest('SHA-256', raw);
+      const raw = Uint8Array.from(atob(getGeneralKeyPart(base64Key)), c => c.charCodeAt(0));
+      const hashBuffer = await globalThis.crypto.subtle.digest('SHA-256', raw);
       const hashArray = Array.from(new Uint8Array(hashBuffer));
       const computedHash = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
       return computedHash === expectedHash;
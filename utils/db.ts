@@ -1,19 +1,165 @@
 
-import Dexie, { Table } from 'dexie';
-import { Product, Sale, Customer, PurchaseOrder, Supplier, User, Workspace, Shift, HeldOrder, Category, InventoryAdjustment, Notification } from '../types';
-import { encryptData, decryptData } from './crypto';
+import Dexie, { DexieOptions, Table } from 'dexie';
+import { Product, Sale, Customer, PurchaseOrder, Supplier, User, Workspace, Shift, HeldOrder, Category, InventoryAdjustment, Notification, KeyClass, QuarantinedRecord, JournalEntry, SyncConflict, SyncLogEntry, WorkspaceSetting, AuditEntry } from '../types';
+import { encryptData, decryptDataStrict, isEncryptedValue, getEncryptedKeyClass, KeySet } from './crypto';
+import { registerMigrations, getInstalledVersion, createMigrationSnapshot, restoreMigrationSnapshot, recordMigrationFailure, LATEST_SCHEMA_VERSION, MigrationError, MigrationHistoryEntry } from './migrations';
+
+export const DB_NAME = 'IMS_POS_DB';
 
 // Define configuration for encrypted fields
-const ENCRYPTED_FIELDS: Record<string, string[]> = {
-  products: ['costPrice'],
+export const ENCRYPTED_FIELDS: Record<string, string[]> = {
+  products: ['costPrice', 'priceHistory'],
   sales: ['cogs', 'profit', 'total', 'subtotal', 'tax', 'discount'],
   customers: ['phone', 'email', 'address', 'notes'],
   suppliers: ['contactPerson', 'email', 'phone', 'address'],
   purchaseOrders: ['totalCost'],
   shifts: ['startFloat', 'actualCash', 'difference', 'cashSales', 'cashRefunds'],
   inventoryAdjustments: ['reason'],
+  heldOrders: [],
+  journalEntries: [],
+  auditLog: ['detail'],
+};
+
+// Nested arrays whose entries carry their own encrypted fields
+const NESTED_ENCRYPTED_FIELDS: Record<string, { array: string; fields: string[] }> = {
+  products: { array: 'variants', fields: ['costPrice', 'priceHistory'] },
+  purchaseOrders: { array: 'items', fields: ['costPrice'] },
+  sales: { array: 'items', fields: ['costPrice'] },
+  heldOrders: { array: 'items', fields: ['costPrice'] },
+  journalEntries: { array: 'lines', fields: ['debit', 'credit'] },
+};
+
+// Nested objects with encrypted fields, such as the copy of the customer kept on a held order
+const NESTED_OBJECT_ENCRYPTED_FIELDS: Record<string, { object: string; fields: string[] }> = {
+  heldOrders: { object: 'customer', fields: ['name', 'email', 'phone', 'address', 'notes'] },
+};
+
+// Key class of each encrypted field path (nested fields as `array[].field` or `object.field`). Unlisted fields are 'general'.
+const FIELD_KEY_CLASSES: Record<string, Record<string, KeyClass>> = {
+  products: { costPrice: 'financial', priceHistory: 'financial', 'variants[].costPrice': 'financial', 'variants[].priceHistory': 'financial' },
+  sales: { cogs: 'financial', profit: 'financial', 'items[].costPrice': 'financial' },
+  purchaseOrders: { totalCost: 'financial', 'items[].costPrice': 'financial' },
+  heldOrders: { 'items[].costPrice': 'financial', 'customer.name': 'pii', 'customer.email': 'pii', 'customer.phone': 'pii', 'customer.address': 'pii', 'customer.notes': 'pii' },
+  journalEntries: { 'lines[].debit': 'financial', 'lines[].credit': 'financial' },
+  customers: { phone: 'pii', email: 'pii', address: 'pii', notes: 'pii' },
+};
+
+// Copies of a record kept on the record itself for sync merges (see utils/syncMerge.ts). Their
+// fields are encrypted like the record's own, under paths prefixed with the copy's name.
+export const SYNC_SHADOW_FIELDS = ['syncBase', 'syncRemote'];
+
+export const isSyncShadowPath = (path: string) => SYNC_SHADOW_FIELDS.some(shadow => path.startsWith(`${shadow}.`));
+
+const stripShadowPrefix = (path: string) => isSyncShadowPath(path) ? path.slice(path.indexOf('.') + 1) : path;
+
+export const getFieldKeyClass = (tableName: string, path: string): KeyClass => FIELD_KEY_CLASSES[tableName]?.[stripShadowPrefix(path)] || 'general';
+
+/**
+ * Returns a copy of `item` with `transform` applied to every encrypted field of its table,
+ * including nested ones (product variants, sale/purchase order items, a held order's customer)
+ * and those of its sync shadow copies. `transform` receives the field path and the object holding the field (the
+ * item itself, a shadow copy or the nested entry).
+ */
+export async function mapEncryptedFields(tableName: string, item: any, transform: (value: any, path: string, owner: any) => Promise<any>, prefix: string = ''): Promise<any> {
+  const fields = ENCRYPTED_FIELDS[tableName];
+  if (!fields || !item) return item;
+
+  const cloned = { ...item };
+  for (const field of fields) {
+    if (cloned[field] !== undefined) {
+      cloned[field] = await transform(cloned[field], `${prefix}${field}`, item);
+    }
+  }
+
+  const nested = NESTED_ENCRYPTED_FIELDS[tableName];
+  if (nested && Array.isArray(cloned[nested.array])) {
+    cloned[nested.array] = await Promise.all(cloned[nested.array].map(async (entry: any) => {
+      const clonedEntry = { ...entry };
+      for (const field of nested.fields) {
+        if (clonedEntry[field] !== undefined) {
+          clonedEntry[field] = await transform(clonedEntry[field], `${prefix}${nested.array}[].${field}`, entry);
+        }
+      }
+      return clonedEntry;
+    }));
+  }
+
+  const nestedObject = NESTED_OBJECT_ENCRYPTED_FIELDS[tableName];
+  if (nestedObject && cloned[nestedObject.object] && typeof cloned[nestedObject.object] === 'object') {
+    const owner = cloned[nestedObject.object];
+    const clonedObject = { ...owner };
+    for (const field of nestedObject.fields) {
+      if (clonedObject[field] !== undefined) {
+        clonedObject[field] = await transform(clonedObject[field], `${prefix}${nestedObject.object}.${field}`, owner);
+      }
+    }
+    cloned[nestedObject.object] = clonedObject;
+  }
+
+  if (!prefix) {
+    for (const shadow of SYNC_SHADOW_FIELDS) {
+      if (cloned[shadow]) cloned[shadow] = await mapEncryptedFields(tableName, cloned[shadow], transform, `${shadow}.`);
+    }
+  }
+  return cloned;
+}
+
+// Nested entries are matched by id; purchase order items have none, so fall back to the product/variant pair
+const nestedEntryKey = (entry: any) => entry?.id ?? `${entry?.productId}:${entry?.variantId ?? ''}`;
+
+// Finds the stored value of a field path in a raw (still encrypted) row
+const findStoredValue = (stored: any, path: string, owner: any): any => {
+  if (!stored) return undefined;
+  const shadow = SYNC_SHADOW_FIELDS.find(name => path.startsWith(`${name}.`));
+  if (shadow) return findStoredValue(stored[shadow], path.slice(shadow.length + 1), owner);
+  const [array, field] = path.split('[].');
+  if (field === undefined) {
+    const [object, objectField] = path.split('.');
+    return objectField === undefined ? stored[path] : stored[object]?.[objectField];
+  }
+  if (!Array.isArray(stored[array])) return undefined;
+  return stored[array].find((entry: any) => nestedEntryKey(entry) === nestedEntryKey(owner))?.[field];
+};
+
+// Applies `fn` to every (owner object, field) pair of the restricted-class paths of a table
+const forEachRestrictedField = (tableName: string, item: any, fn: (owner: any, field: string, path: string, keyClass: KeyClass) => void) => {
+  for (const [path, keyClass] of Object.entries(FIELD_KEY_CLASSES[tableName] || {})) {
+    const [array, field] = path.split('[].');
+    const [object, objectField] = path.split('.');
+    if (field !== undefined) {
+      if (Array.isArray(item[array])) item[array].forEach((entry: any) => fn(entry, field, path, keyClass));
+    } else if (objectField !== undefined) {
+      if (item[object] && typeof item[object] === 'object') fn(item[object], objectField, path, keyClass);
+    } else fn(item, path, path, keyClass);
+  }
 };
 
+/**
+ * Drops fields this session only holds redacted placeholders for, so syncing a record
+ * does not overwrite the real values held elsewhere.
+ */
+export function omitRedactedFields(tableName: string, item: any) {
+  const cloned = structuredClone(item);
+  forEachRestrictedField(tableName, cloned, (owner, field, _path, keyClass) => {
+    if (!db.canDecrypt(keyClass)) delete owner[field];
+  });
+  return cloned;
+}
+
+/**
+ * Fills restricted fields an incoming record omits (see omitRedactedFields) from the local copy.
+ */
+export function fillOmittedFields(tableName: string, incoming: any, local: any) {
+  if (!local) return incoming;
+  const merged = structuredClone(incoming);
+  forEachRestrictedField(tableName, merged, (owner, field, path) => {
+    if (owner[field] !== undefined) return;
+    const localValue = findStoredValue(local, path, owner);
+    if (localValue !== undefined) owner[field] = localValue;
+  });
+  return merged;
+}
+
 // Helper to check valid IDB key
 function isValidIDBKey(key: any): boolean {
     if (key === undefined || key === null) return false;
@@ -44,41 +190,82 @@ export class IMSDatabase extends Dexie {
   
   // Sync specific tables
   deletedRecords!: Table<{ id: string; table: string; deletedAt: string; sync_status: string }>;
-  settings!: Table<{ key: string; value: any; updated_at: string; sync_status: string }>;
+  settings!: Table<WorkspaceSetting>; // Workspace settings shared by every device (see hooks/useWorkspaceSetting.ts)
 
   // Legacy Key-Value store for settings/legacy state compatibility
   keyval!: Table<{ key: string; value: any }>;
 
-  // Runtime Encryption Key
+  // Applied schema migrations (see utils/migrations.ts)
+  migrationHistory!: Table<MigrationHistoryEntry>;
+
+  // Rows pulled out of their table by the decryption health scan (see utils/integrity.ts)
+  quarantinedRecords!: Table<QuarantinedRecord>;
+
+  // General ledger (see utils/ledger.ts)
+  journalEntries!: Table<JournalEntry>;
+
+  // Records awaiting a choice between local and remote edits (see utils/syncMerge.ts)
+  syncConflicts!: Table<SyncConflict>;
+
+  // History of sync runs (see services/SyncService.ts)
+  syncLog!: Table<SyncLogEntry>;
+
+  // Hash-chained log of user actions, kept on this device (see utils/audit.ts)
+  auditLog!: Table<AuditEntry>;
+
+  // Runtime Encryption Key (the 'general' class key every user holds)
   encryptionKey: CryptoKey | null = null;
 
-  constructor() {
-    super('IMS_POS_DB');
+  // Keys of every class this session was granted, 'general' included. Missing classes are redacted on read.
+  classKeys: KeySet = {};
+
+  // Keys being rotated away from; only set while a key rotation is re-encrypting data
+  previousKeys: KeySet | null = null;
+
+  // The app uses the shared `db` below. Scripts can open their own, passing `indexedDB` and
+  // `IDBKeyRange` in options where the runtime has no global IndexedDB (e.g. Node).
+  constructor(name: string = DB_NAME, options?: DexieOptions) {
+    super(name, options);
     
-    // Version 7: Add workspaceId to all tables to enforce data isolation
-    (this as any).version(7).stores({
-      products: '&id, sku, name, *categoryIds, sync_status, updated_at, workspaceId',
-      sales: '&id, publicId, date, type, status, customerId, salespersonId, originalSaleId, sync_status, updated_at, workspaceId',
-      customers: '&id, publicId, email, phone, name, sync_status, updated_at, workspaceId',
-      purchaseOrders: '&id, publicId, supplierId, status, dateCreated, sync_status, updated_at, workspaceId',
-      suppliers: '&id, publicId, name, sync_status, updated_at, workspaceId',
-      users: '&id, username, email, role, sync_status, updated_at, workspaceId',
-      workspaces: '&id, alias',
-      shifts: '&id, status, startTime, sync_status, updated_at, workspaceId',
-      heldOrders: '&id, publicId, workspaceId',
-      categories: '&id, parentId, name, sync_status, updated_at, workspaceId',
-      inventoryAdjustments: '&id, productId, variantId, date, sync_status, workspaceId',
-      notifications: '&id, isRead, type, timestamp, relatedId, workspaceId',
-      deletedRecords: '&id, table, sync_status',
-      settings: '&key, sync_status, updated_at',
-      keyval: 'key' 
-    });
+    // Schema versions and their upgrade steps are declared in utils/migrations.ts
+    registerMigrations(this);
 
     this.addEncryptionMiddleware();
+    this.addUpdateStampHooks();
   }
 
-  setEncryptionKey(key: CryptoKey | null) {
+  // Pushed records are only marked synced if their `updated_at` did not move while the push was in
+  // flight (see services/SyncService.ts), so every edit of a pending record must change it.
+  // Writers that leave it as it was get it stamped here.
+  addUpdateStampHooks() {
+    for (const table of this.tables) {
+      if (!table.schema.idxByName['sync_status']) continue;
+      table.hook('updating', (modifications: any, _key: any, obj: any) => {
+        const status = 'sync_status' in modifications ? modifications.sync_status : obj.sync_status;
+        if (status === 'pending' && !('updated_at' in modifications)) {
+          return { updated_at: new Date().toISOString() };
+        }
+      });
+    }
+  }
+
+  setEncryptionKey(key: CryptoKey | null, classKeys: KeySet = {}) {
     this.encryptionKey = key;
+    this.classKeys = key ? { ...classKeys, general: key } : {};
+    this.previousKeys = null;
+  }
+
+  setPreviousKeys(keys: KeySet | null) {
+    this.previousKeys = keys;
+  }
+
+  getKeySet(): KeySet {
+    return { ...this.classKeys };
+  }
+
+  // Without any key nothing is encrypted (e.g. a database opened by a script), so every field is readable
+  canDecrypt(keyClass: KeyClass): boolean {
+    return !this.encryptionKey || !!this.classKeys[keyClass];
   }
 
   addEncryptionMiddleware() {
@@ -112,33 +299,28 @@ export class IMSDatabase extends Dexie {
                             // Check if values exist to prevent errors on delete operations that might slip through
                             if (!req.values) return downlevelTable.mutate(req);
 
-                            const encryptItem = async (item: any) => {
-                                const cloned = { ...item };
-                                for (const field of fieldsToEncrypt) {
-                                    if (cloned[field] !== undefined) {
-                                        cloned[field] = await encryptData(cloned[field], this.encryptionKey!);
-                                    }
-                                }
-                                // Special handling for deep objects like PurchaseOrder items or Product Variants
-                                if (tableName === 'products' && cloned.variants) {
-                                    // Encrypt variant cost prices
-                                    const newVariants = await Promise.all(cloned.variants.map(async (v: any) => ({
-                                        ...v,
-                                        costPrice: await encryptData(v.costPrice, this.encryptionKey!)
-                                    })));
-                                    cloned.variants = newVariants;
-                                }
-                                if (tableName === 'purchaseOrders' && cloned.items) {
-                                    const newItems = await Promise.all(cloned.items.map(async (i: any) => ({
-                                        ...i,
-                                        costPrice: await encryptData(i.costPrice, this.encryptionKey!)
-                                    })));
-                                    cloned.items = newItems;
-                                }
-                                return cloned;
-                            };
+                            // Fields of a class this session cannot decrypt were read back redacted, so keep
+                            // what is stored rather than overwrite it. Only needs the raw rows if that can happen.
+                            const tableClasses = Object.values(FIELD_KEY_CLASSES[tableName] || {});
+                            const storedRows: any[] = tableClasses.some(keyClass => !this.canDecrypt(keyClass))
+                                ? await downlevelTable.getMany({ trans: req.trans, keys: req.values.map((item: any) => item.id) })
+                                : [];
 
-                            const values = await Promise.all(req.values.map(encryptItem));
+                            const encryptItem = (item: any, index: number) => mapEncryptedFields(tableName, item, (value, path, owner) => {
+                                // Still sealed, e.g. pulled from another device (see sealEncryptedFields): never encrypt twice
+                                if (isEncryptedValue(value)) return Promise.resolve(value);
+                                const keyClass = getFieldKeyClass(tableName, path);
+                                if (this.canDecrypt(keyClass)) return encryptData(value, this.classKeys[keyClass]!, keyClass);
+
+                                const stored = findStoredValue(storedRows[index], path, owner);
+                                if (stored !== undefined) return Promise.resolve(stored);
+                                // New value from a session without the class key: keep it under the general key
+                                // until a session holding the class key rewrites the record.
+                                return encryptData(value, this.encryptionKey!);
+                            });
+
+                            // WebCrypto is not an IndexedDB request, so the transaction is kept alive while it runs
+                            const values = await Dexie.waitFor(Promise.all(req.values.map(encryptItem)));
                             return downlevelTable.mutate({ ...req, values });
                         },
                         get: async (req: any) => {
@@ -150,20 +332,26 @@ export class IMSDatabase extends Dexie {
                             try {
                                 const res = await downlevelTable.get(req);
                                 if (!fieldsToEncrypt || !this.encryptionKey || !res) return res;
-                                return this.decryptItem(tableName, res);
+                                return await Dexie.waitFor(this.decryptItem(tableName, res));
                             } catch (error) {
                                 // Swallow invalid key errors that might slip through or other IDB read errors
                                 console.warn(`DB Middleware: Failed to get key for table ${tableName}`, error);
                                 return undefined;
                             }
                         },
+                        getMany: async (req: any) => {
+                            const result = await downlevelTable.getMany(req);
+                            if (!fieldsToEncrypt || !this.encryptionKey) return result;
+                            return await Dexie.waitFor(Promise.all(result.map((item: any) => item && this.decryptItem(tableName, item))));
+                        },
                         query: async (req: any) => {
                             try {
                                 const res = await downlevelTable.query(req);
                                 const result = await res.result;
-                                if (!fieldsToEncrypt || !this.encryptionKey || !Array.isArray(result)) return res;
+                                // Key-only queries (e.g. the first step of `update`/`modify`) have no rows to decrypt
+                                if (!fieldsToEncrypt || !this.encryptionKey || !req.values || !Array.isArray(result)) return res;
                                 
-                                const decryptedResult = await Promise.all(result.map(item => this.decryptItem(tableName, item)));
+                                const decryptedResult = await Dexie.waitFor(Promise.all(result.map(item => this.decryptItem(tableName, item))));
                                 
                                 return {
                                     ...res,
@@ -173,6 +361,30 @@ export class IMSDatabase extends Dexie {
                                 console.error(`DB Middleware: Query failed for table ${tableName}`, error);
                                 throw error;
                             }
+                        },
+                        // Collections with a filter (e.g. `.filter(...).first()`, `.each()`) read through a cursor:
+                        // each row is decrypted before the caller sees it, and only then is the cursor moved on
+                        openCursor: async (req: any) => {
+                            const cursor = await downlevelTable.openCursor(req);
+                            if (!cursor || !req.values || !fieldsToEncrypt || !this.encryptionKey) return cursor;
+
+                            // The cursor calls back outside the transaction's zone, so wait on the transaction itself
+                            const trans = Dexie.currentTransaction as any;
+                            let value: any;
+                            return Object.create(cursor, {
+                                value: { get: () => value },
+                                start: {
+                                    value: (onNext: () => void) => cursor.start(() => {
+                                        const decrypting = this.decryptItem(tableName, cursor.value);
+                                        (trans ? trans.waitFor(decrypting) : Dexie.waitFor(decrypting))
+                                            .then((decrypted: any) => {
+                                                value = decrypted;
+                                                onNext();
+                                            })
+                                            .catch((error: any) => cursor.fail(error));
+                                    })
+                                }
+                            });
                         }
                     };
                 }
@@ -182,43 +394,122 @@ export class IMSDatabase extends Dexie {
   }
 
   async decryptItem(tableName: string, item: any) {
-      const fieldsToEncrypt = ENCRYPTED_FIELDS[tableName];
-      if (!fieldsToEncrypt || !this.encryptionKey) return item;
+      if (!ENCRYPTED_FIELDS[tableName] || !this.encryptionKey) return item;
 
-      const cloned = { ...item };
       try {
-          for (const field of fieldsToEncrypt) {
-              if (cloned[field] !== undefined) {
-                  cloned[field] = await decryptData(cloned[field], this.encryptionKey);
-              }
-          }
-          
-          // Decrypt deep objects
-          if (tableName === 'products' && cloned.variants) {
-              const newVariants = await Promise.all(cloned.variants.map(async (v: any) => ({
-                  ...v,
-                  costPrice: await decryptData(v.costPrice, this.encryptionKey!)
-              })));
-              cloned.variants = newVariants;
-          }
-          if (tableName === 'purchaseOrders' && cloned.items) {
-              const newItems = await Promise.all(cloned.items.map(async (i: any) => ({
-                  ...i,
-                  costPrice: await decryptData(i.costPrice, this.encryptionKey!)
-              })));
-              cloned.items = newItems;
-          }
+          return await mapEncryptedFields(tableName, item, (value, path) => this.decryptValue(tableName, path, value));
       } catch (e) {
           console.warn("Failed to decrypt item", e);
           return item; // Fallback to original if decryption fails
       }
+  }
 
-      return cloned;
+  /**
+   * Encrypts a record's sensitive fields under their class keys, so it can leave the device sealed
+   * (end-to-end encrypted sync). Fields this session cannot encrypt are expected to be omitted already.
+   */
+  async sealEncryptedFields(tableName: string, item: any) {
+      if (!ENCRYPTED_FIELDS[tableName] || !this.encryptionKey) return item;
+      return mapEncryptedFields(tableName, item, (value, path) => {
+          const keyClass = getFieldKeyClass(tableName, path);
+          if (isEncryptedValue(value) || !this.canDecrypt(keyClass)) return Promise.resolve(value);
+          return encryptData(value, this.classKeys[keyClass]!, keyClass);
+      });
+  }
+
+  /**
+   * Decrypts the sealed fields of a record received from another device. Fields this session cannot
+   * read stay sealed and are stored as they are.
+   */
+  async openSealedFields(tableName: string, item: any) {
+      if (!ENCRYPTED_FIELDS[tableName] || !this.encryptionKey) return item;
+      return mapEncryptedFields(tableName, item, async (value, path) => {
+          if (!isEncryptedValue(value)) return value;
+          if (!this.canDecrypt(getFieldKeyClass(tableName, path)) || !this.classKeys[getEncryptedKeyClass(value)]) return value;
+          try {
+              return await this.decryptValueStrict(tableName, path, value);
+          } catch (e) {
+              console.warn('Failed to open sealed field', path, e);
+              return value;
+          }
+      });
+  }
+
+  /**
+   * Decrypts a single stored field value, throwing if none of this session's keys can read it.
+   * Fields of classes this session was not granted read as null.
+   */
+  async decryptValueStrict(tableName: string, path: string, value: any) {
+      // Redact fields of classes this session was not granted, whatever they were written with
+      if (!this.canDecrypt(getFieldKeyClass(tableName, path))) return null;
+      if (!isEncryptedValue(value)) return value;
+
+      const keyClass = getEncryptedKeyClass(value);
+      const key = this.classKeys[keyClass];
+      if (!key) return null;
+
+      try {
+          return await decryptDataStrict(value, key);
+      } catch (e) {
+          // Mid-rotation, rows not yet re-encrypted are still under the previous key
+          const previousKey = this.previousKeys?.[keyClass];
+          if (!previousKey) throw e;
+          return decryptDataStrict(value, previousKey);
+      }
+  }
+
+  private async decryptValue(tableName: string, path: string, value: any) {
+      try {
+          return await this.decryptValueStrict(tableName, path, value);
+      } catch (e) {
+          console.error('Decryption failed:', e);
+          return null;
+      }
   }
 }
 
 export const db = new IMSDatabase();
 
+/**
+ * Opens the database, running any pending migrations.
+ * A snapshot of the on-disk data is taken before upgrading; if the upgrade fails and
+ * the database did not end up back at its previous version, the snapshot is restored.
+ */
+export async function openDatabase(): Promise<void> {
+    const fromVersion = await getInstalledVersion(DB_NAME);
+    let snapshotId: string | null = null;
+
+    if (fromVersion !== null && fromVersion < LATEST_SCHEMA_VERSION) {
+        snapshotId = await createMigrationSnapshot(DB_NAME, fromVersion, LATEST_SCHEMA_VERSION);
+    }
+
+    try {
+        await db.open();
+    } catch (error) {
+        db.close();
+        if (fromVersion === null || fromVersion >= LATEST_SCHEMA_VERSION) throw error;
+
+        // The version-change transaction normally aborts atomically, leaving the old data untouched.
+        // Only fall back to the snapshot if the on-disk version moved anyway.
+        let restored = false;
+        if (snapshotId && (await getInstalledVersion(DB_NAME)) !== fromVersion) {
+            await restoreMigrationSnapshot(DB_NAME, snapshotId);
+            restored = true;
+        }
+
+        await recordMigrationFailure(DB_NAME, {
+            migration: error instanceof MigrationError ? error.migration : 'unknown',
+            fromVersion,
+            toVersion: LATEST_SCHEMA_VERSION,
+            snapshotId,
+            restored,
+            message: error instanceof Error ? error.message : String(error)
+        });
+        throw error;
+    }
+}
+
+
 /**
  * Compatibility Wrapper for `usePersistedState` hook.
  */
@@ -10,7 +10,7 @@ const NANO_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
 export const generateNanoID = (size: number = 6): string => {
   let res = '';
   const values = new Uint8Array(size);
-  window.crypto.getRandomValues(values);
+  globalThis.crypto.getRandomValues(values);
   for (let i = 0; i < size; i++) {
     res += NANO_ALPHABET[values[i] % NANO_ALPHABET.length];
   }
@@ -27,7 +27,7 @@ export const generateUUIDv7 = (): string => {
   
   const randomHex = (length: number) => {
     const values = new Uint8Array(Math.ceil(length / 2));
-    window.crypto.getRandomValues(values);
+    globalThis.crypto.getRandomValues(values);
     return Array.from(values)
       .map((b) => b.toString(16).padStart(2, '0'))
       .join('')
@@ -0,0 +1,325 @@
+import Dexie from 'dexie';
+import { db, DB_NAME, ENCRYPTED_FIELDS, mapEncryptedFields, getFieldKeyClass, isSyncShadowPath } from './db';
+import { encryptData, isEncryptedValue } from './crypto';
+import { KeyClass, QuarantinedRecord } from '../types';
+import { MONEY_FIELDS, roundMoney, toMajorUnits } from './money';
+
+const BATCH_SIZE = 200;
+const SCAN_TABLES = Object.keys(ENCRYPTED_FIELDS);
+
+// Free-text fields; every other encrypted field holds a number (or, for priceHistory, a list)
+const TEXT_FIELDS: Record<string, string[]> = {
+    customers: ['phone', 'email', 'address', 'notes'],
+    suppliers: ['contactPerson', 'email', 'phone', 'address'],
+    inventoryAdjustments: ['reason'],
+};
+
+// Fields that can be derived again from the record's line items (and its other totals)
+const RECOMPUTABLE_FIELDS: Record<string, string[]> = {
+    sales: ['subtotal', 'total', 'cogs', 'profit'],
+    purchaseOrders: ['totalCost'],
+};
+
+export type DecryptionProblem = 'undecryptable' | 'stillEncrypted';
+
+export interface DecryptionIssueField {
+    path: string; // Field path as in mapEncryptedFields, e.g. 'total' or 'items[].costPrice'
+    entryIndex?: number; // Position of the nested entry for nested paths
+    entryLabel?: string;
+    keyClass: KeyClass;
+    problem: DecryptionProblem;
+}
+
+export interface DecryptionIssue {
+    table: string;
+    recordId: string;
+    label: string;
+    fields: DecryptionIssueField[];
+    recomputable: boolean;
+}
+
+export interface DecryptionScanResult {
+    scannedAt: string;
+    recordsScanned: number;
+    fieldsChecked: number;
+    fieldsSkipped: number; // Fields of key classes this session was not granted, so they cannot be checked
+    issues: DecryptionIssue[];
+}
+
+export interface DecryptionScanProgress {
+    table: string;
+    tableIndex: number;
+    tableCount: number;
+    recordsScanned: number;
+}
+
+export interface RecomputeOptions {
+    includeTaxInProfit: boolean;
+}
+
+export const isRecomputableField = (tableName: string, path: string) => !!RECOMPUTABLE_FIELDS[tableName]?.includes(path);
+
+export const getFieldInputKind = (tableName: string, path: string): 'money' | 'number' | 'text' | 'history' => {
+    if (path.endsWith('priceHistory')) return 'history';
+    // Journal lines were created in minor units, so they are not among the fields MONEY_FIELDS converts
+    if (MONEY_FIELDS[tableName]?.includes(path) || tableName === 'journalEntries') return 'money';
+    return TEXT_FIELDS[tableName]?.includes(path) ? 'text' : 'number';
+};
+
+// The scanner and the repairs read and write rows as stored, so they bypass the encryption middleware
+const withRawConnection = async <T>(fn: (raw: Dexie) => Promise<T>): Promise<T> => {
+    const raw = new Dexie(DB_NAME);
+    try {
+        await raw.open();
+        return await fn(raw);
+    } finally {
+        raw.close();
+    }
+};
+
+const describeRecord = (row: any) => row.publicId || row.name || row.id;
+
+const findIssueFields = async (tableName: string, row: any, result: DecryptionScanResult) => {
+    const fields: DecryptionIssueField[] = [];
+    await mapEncryptedFields(tableName, row, async (value, path, owner) => {
+        // Sync shadow copies are replaced the next time the record syncs, so they are not reported
+        if (isSyncShadowPath(path)) return value;
+        const keyClass = getFieldKeyClass(tableName, path);
+        if (!db.canDecrypt(keyClass)) {
+            result.fieldsSkipped++;
+            return value;
+        }
+        result.fieldsChecked++;
+
+        let problem: DecryptionProblem | null = null;
+        try {
+            // A value that still looks encrypted was encrypted twice, or written with a key nobody holds any more
+            if (isEncryptedValue(await db.decryptValueStrict(tableName, path, value))) problem = 'stillEncrypted';
+        } catch (e) {
+            problem = 'undecryptable';
+        }
+        if (!problem) return value;
+
+        const [array, field] = path.split('[].');
+        fields.push(field === undefined
+            ? { path, keyClass, problem }
+            : { path, keyClass, problem, entryIndex: row[array].indexOf(owner), entryLabel: owner.name || owner.sku });
+        return value;
+    });
+    return fields;
+};
+
+/**
+ * Walks every encrypted table of the workspace and reports the records holding fields that
+ * cannot be decrypted with this session's keys, or that still carry ciphertext once decrypted.
+ */
+export async function scanEncryptedData(workspaceId: string, onProgress?: (progress: DecryptionScanProgress) => void): Promise<DecryptionScanResult> {
+    const result: DecryptionScanResult = { scannedAt: new Date().toISOString(), recordsScanned: 0, fieldsChecked: 0, fieldsSkipped: 0, issues: [] };
+
+    await withRawConnection(async raw => {
+        for (const [tableIndex, tableName] of SCAN_TABLES.entries()) {
+            const table = raw.table(tableName);
+            let cursor: string | null = null;
+
+            while (true) {
+                onProgress?.({ table: tableName, tableIndex, tableCount: SCAN_TABLES.length, recordsScanned: result.recordsScanned });
+                const collection = cursor === null ? table.toCollection() : table.where(':id').above(cursor);
+                const rows: any[] = await collection.filter(row => row.workspaceId === workspaceId).limit(BATCH_SIZE).toArray();
+                if (rows.length === 0) break;
+
+                for (const row of rows) {
+                    const fields = await findIssueFields(tableName, row, result);
+                    if (fields.length > 0) {
+                        result.issues.push({
+                            table: tableName,
+                            recordId: row.id,
+                            label: describeRecord(row),
+                            fields,
+                            recomputable: fields.some(f => isRecomputableField(tableName, f.path))
+                        });
+                    }
+                }
+                result.recordsScanned += rows.length;
+                cursor = rows[rows.length - 1].id;
+            }
+        }
+    });
+
+    return result;
+}
+
+const encryptField = (tableName: string, path: string, value: any) => {
+    const keyClass = getFieldKeyClass(tableName, path);
+    return encryptData(value, db.classKeys[keyClass]!, keyClass);
+};
+
+const setStoredField = (row: any, field: DecryptionIssueField, stored: any) => {
+    const [array, name] = field.path.split('[].');
+    const [object, objectField] = field.path.split('.');
+    if (name === undefined && objectField !== undefined) {
+        row[object] = { ...row[object], [objectField]: stored };
+    } else if (name === undefined) {
+        row[field.path] = stored;
+    } else {
+        row[array][field.entryIndex!] = { ...row[array][field.entryIndex!], [name]: stored };
+    }
+};
+
+// Writes the repaired row only if nobody changed it since it was read (ciphertext can't be merged),
+// and marks it for sync so the repaired values reach other devices.
+const writeRepairedRow = (raw: Dexie, tableName: string, before: any, after: any) => {
+    const table = raw.table(tableName);
+    return raw.transaction('rw', table, async () => {
+        const latest = await table.get(before.id);
+        if (!latest || JSON.stringify(latest) !== JSON.stringify(before)) {
+            throw new Error('The record changed while it was being repaired. Run the scan again.');
+        }
+        await table.put({ ...after, sync_status: 'pending', updated_at: new Date().toISOString() });
+    });
+};
+
+const readStoredRow = async (raw: Dexie, tableName: string, recordId: string) => {
+    const row = await raw.table(tableName).get(recordId);
+    if (!row) throw new Error('The record no longer exists.');
+    return row;
+};
+
+/**
+ * Replaces a broken field with a value entered by the user, encrypted under the field's key class.
+ * Money is given in minor units; a field still awaiting its minor-unit conversion is stored in major units.
+ */
+export async function reenterFieldValue(issue: DecryptionIssue, field: DecryptionIssueField, value: any): Promise<void> {
+    await withRawConnection(async raw => {
+        const before = await readStoredRow(raw, issue.table, issue.recordId);
+        const after = structuredClone(before);
+        const pending = before.pendingMinorUnits;
+        const stored = typeof value === 'number' && pending?.paths.includes(field.path) ? toMajorUnits(value, pending.exponent) : value;
+        setStoredField(after, field, await encryptField(issue.table, field.path, stored));
+        await writeRepairedRow(raw, issue.table, before, after);
+    });
+}
+
+// Decrypts a stored row, leaving unreadable fields undefined rather than null or ciphertext
+const decryptReadableFields = (tableName: string, row: any) => mapEncryptedFields(tableName, row, async (value, path) => {
+    try {
+        const plain = await db.decryptValueStrict(tableName, path, value);
+        return isEncryptedValue(plain) ? undefined : plain;
+    } catch (e) {
+        return undefined;
+    }
+});
+
+const deriveField = (tableName: string, record: any, broken: Set<string>, field: string, options: RecomputeOptions): number => {
+    const readable = (name: string, label: string) => {
+        const value = Number(record[name]);
+        if (broken.has(name) || record[name] === undefined || record[name] === null || isNaN(value)) {
+            throw new Error(`${label} is unreadable too, so "${field}" cannot be recomputed. Re-enter it first.`);
+        }
+        return value;
+    };
+    // Stored value if it can be read, derived otherwise
+    const get = (name: string) => broken.has(name) ? deriveField(tableName, record, broken, name, options) : readable(name, name);
+    const itemCost = (item: any) => {
+        const cost = Number(item.costPrice);
+        if (item.costPrice === undefined || item.costPrice === null || isNaN(cost)) {
+            throw new Error(`The cost of "${item.name}" is unreadable, so "${field}" cannot be recomputed. Re-enter it first.`);
+        }
+        return cost;
+    };
+    const items: any[] = record.items || [];
+
+    if (tableName === 'purchaseOrders' && field === 'totalCost') {
+        return roundMoney(items.reduce((sum, item) => sum + itemCost(item) * item.quantityOrdered, 0));
+    }
+    if (tableName === 'sales') {
+        switch (field) {
+            case 'subtotal': return roundMoney(items.reduce((sum, item) => sum + item.retailPrice * item.quantity, 0));
+            case 'total': return get('subtotal') - readable('discount', 'The discount') + readable('tax', 'The tax');
+            case 'cogs': return roundMoney(items.reduce((sum, item) => sum + itemCost(item) * item.quantity, 0));
+            // Same formula as processSale
+            case 'profit': return get('total') - (options.includeTaxInProfit ? 0 : readable('tax', 'The tax')) - get('cogs');
+        }
+    }
+    throw new Error(`"${field}" cannot be recomputed.`);
+};
+
+/**
+ * Recomputes the broken totals of a sale or purchase order from its line items and readable totals.
+ * Returns the number of fields repaired.
+ */
+export async function recomputeFromLineItems(issue: DecryptionIssue, options: RecomputeOptions): Promise<number> {
+    const fields = issue.fields.filter(f => isRecomputableField(issue.table, f.path));
+    if (fields.length === 0) throw new Error('None of the broken fields can be recomputed.');
+
+    return withRawConnection(async raw => {
+        const before = await readStoredRow(raw, issue.table, issue.recordId);
+        // Mixing amounts in major and minor units would produce nonsense
+        if (before.pendingMinorUnits) {
+            throw new Error('Some amounts of this record have not been converted to minor units yet. Re-enter the broken fields instead.');
+        }
+        const record = await decryptReadableFields(issue.table, before);
+        const broken = new Set(issue.fields.filter(f => f.entryIndex === undefined).map(f => f.path));
+
+        const after = structuredClone(before);
+        for (const field of fields) {
+            const value = deriveField(issue.table, record, broken, field.path, options);
+            setStoredField(after, field, await encryptField(issue.table, field.path, value));
+        }
+        await writeRepairedRow(raw, issue.table, before, after);
+        return fields.length;
+    });
+}
+
+const quarantineId = (tableName: string, recordId: string) => `${tableName}:${recordId}`;
+
+/**
+ * Moves a record out of its table, as stored, so the rest of the app stops reading it.
+ * It is not deleted from other devices; a later pull can bring back a healthy copy.
+ */
+export async function quarantineRecord(issue: DecryptionIssue): Promise<void> {
+    const reason = issue.fields.map(f => `${f.path}${f.entryLabel ? ` (${f.entryLabel})` : ''}: ${f.problem === 'undecryptable' ? 'cannot be decrypted' : 'still encrypted'}`).join('; ');
+
+    await withRawConnection(async raw => {
+        const table = raw.table(issue.table);
+        const quarantine = raw.table('quarantinedRecords');
+        await raw.transaction('rw', table, quarantine, async () => {
+            const row = await table.get(issue.recordId);
+            if (!row) throw new Error('The record no longer exists.');
+            const entry: QuarantinedRecord = {
+                id: quarantineId(issue.table, issue.recordId),
+                table: issue.table,
+                recordId: issue.recordId,
+                workspaceId: row.workspaceId,
+                quarantinedAt: new Date().toISOString(),
+                reason,
+                row
+            };
+            await quarantine.put(entry);
+            await table.delete(issue.recordId);
+        });
+    });
+}
+
+export const listQuarantinedRecords = (workspaceId: string) => db.quarantinedRecords.where('workspaceId').equals(workspaceId).reverse().sortBy('quarantinedAt');
+
+/**
+ * Puts a quarantined record back into its table exactly as it was stored.
+ */
+export async function releaseQuarantinedRecord(id: string): Promise<void> {
+    await withRawConnection(async raw => {
+        const quarantine = raw.table('quarantinedRecords');
+        const entry: QuarantinedRecord | undefined = await quarantine.get(id);
+        if (!entry) throw new Error('The quarantined record no longer exists.');
+
+        const table = raw.table(entry.table);
+        await raw.transaction('rw', table, quarantine, async () => {
+            if (await table.get(entry.recordId)) {
+                throw new Error('A newer copy of this record exists (e.g. pulled by sync). Discard the quarantined one instead.');
+            }
+            await table.put(entry.row);
+            await quarantine.delete(id);
+        });
+    });
+}
+
+export const discardQuarantinedRecord = (id: string) => db.quarantinedRecords.delete(id);
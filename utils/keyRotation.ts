@@ -0,0 +1,157 @@
+import Dexie from 'dexie';
+import { DB_NAME, ENCRYPTED_FIELDS, mapEncryptedFields, getFieldKeyClass, getFromDB, setInDB } from './db';
+import { generateSalt, generateDataKey, deriveKeyWithKdf, CURRENT_KDF, wrapKey, unwrapKey, encryptData, decryptDataStrict, isEncryptedValue, getEncryptedKeyClass, KeySet, wrapClassKeys, unwrapClassKeys } from './crypto';
+import { KdfParams, KeyClass } from '../types';
+
+const BATCH_SIZE = 200;
+const ROTATION_TABLES = Object.keys(ENCRYPTED_FIELDS);
+
+/**
+ * Progress of a data key rotation, persisted in keyval after every batch so an interrupted
+ * rotation (tab closed, crash) can resume where it stopped instead of starting over.
+ */
+export interface KeyRotationState {
+    workspaceId: string;
+    startedAt: string;
+    startedByUserId: string;
+    // The new keys, wrapped with a key derived from the initiating admin's password
+    salt: string;
+    kdf?: KdfParams; // Absent on rotations started before it was recorded (LEGACY_KDF)
+    wrappedNewKey: string;
+    wrappedNewClassKeys: Partial<Record<KeyClass, string>>;
+    tableIndex: number;
+    cursor: string | null; // Last primary key re-encrypted in ROTATION_TABLES[tableIndex]
+    processed: number;
+    unreadable: number; // Fields that neither the old nor the new key could decrypt (left untouched)
+}
+
+export interface KeyRotationProgress {
+    table: string;
+    tableIndex: number;
+    tableCount: number;
+    processed: number;
+}
+
+export const keyRotationStateKey = (workspaceId: string) => `ims-${workspaceId}-keyRotation`;
+
+export const getKeyRotationState = (workspaceId: string) => getFromDB<KeyRotationState>(keyRotationStateKey(workspaceId));
+
+const ROTATED_KEY_CLASSES: KeyClass[] = ['general', 'financial', 'pii'];
+
+/**
+ * Generates a fresh key for every class and records the (empty) rotation progress for the workspace.
+ */
+export async function beginKeyRotation(workspaceId: string, userId: string, password: string): Promise<{ state: KeyRotationState; newKeys: KeySet }> {
+    const newKeys: KeySet = {};
+    for (const keyClass of ROTATED_KEY_CLASSES) {
+        newKeys[keyClass] = await generateDataKey();
+    }
+    const salt = generateSalt();
+    const kek = await deriveKeyWithKdf(password, salt, CURRENT_KDF);
+
+    const state: KeyRotationState = {
+        workspaceId,
+        startedAt: new Date().toISOString(),
+        startedByUserId: userId,
+        salt,
+        kdf: CURRENT_KDF,
+        wrappedNewKey: await wrapKey(newKeys.general!, kek),
+        wrappedNewClassKeys: await wrapClassKeys(newKeys, ROTATED_KEY_CLASSES, kek),
+        tableIndex: 0,
+        cursor: null,
+        processed: 0,
+        unreadable: 0
+    };
+    await setInDB(keyRotationStateKey(workspaceId), state);
+    return { state, newKeys };
+}
+
+/**
+ * Recovers the pending keys of an interrupted rotation. Throws if the password is wrong.
+ */
+export async function unlockKeyRotation(state: KeyRotationState, password: string): Promise<KeySet> {
+    const kek = await deriveKeyWithKdf(password, state.salt, state.kdf);
+    return {
+        ...(await unwrapClassKeys(state.wrappedNewClassKeys, kek)),
+        general: await unwrapKey(state.wrappedNewKey, kek)
+    };
+}
+
+const reencryptValue = async (value: any, keyClass: KeyClass, oldKeys: KeySet, newKeys: KeySet, counts: { unreadable: number }) => {
+    if (value === null || value === undefined) return value;
+    // Legacy plaintext values get encrypted as part of the rotation
+    if (!isEncryptedValue(value)) return encryptData(value, newKeys[keyClass]!, keyClass);
+
+    const writtenWith = getEncryptedKeyClass(value);
+    try {
+        return await encryptData(await decryptDataStrict(value, oldKeys[writtenWith]!), newKeys[keyClass]!, keyClass);
+    } catch (e) {
+        try {
+            const plain = await decryptDataStrict(value, newKeys[writtenWith]!);
+            // Already rotated (written by this session during the rotation)
+            return writtenWith === keyClass ? value : encryptData(plain, newKeys[keyClass]!, keyClass);
+        } catch (e2) {
+            counts.unreadable++;
+            return value; // Keep the ciphertext so it can still be repaired with the right key
+        }
+    }
+};
+
+/**
+ * Re-encrypts every encrypted field of the workspace from `oldKeys` to `newKeys`, in batches.
+ * Each field ends up under the key of its class, which also moves fields written before key
+ * classes existed (or by a session without the class key) to their restricted key.
+ *
+ * Works on a separate connection without the encryption middleware so ciphertext is read and
+ * written as-is. Rows are only written back if they did not change while being re-encrypted; a
+ * changed row is read again and re-encrypted until it is written, as the change may come from a
+ * tab or a sync pull still writing with the old key.
+ */
+export async function reencryptWorkspaceData(state: KeyRotationState, oldKeys: KeySet, newKeys: KeySet, onProgress?: (progress: KeyRotationProgress) => void): Promise<KeyRotationState> {
+    const raw = new Dexie(DB_NAME);
+    const current = { ...state };
+    try {
+        await raw.open();
+
+        while (current.tableIndex < ROTATION_TABLES.length) {
+            const tableName = ROTATION_TABLES[current.tableIndex];
+            const table = raw.table(tableName);
+            onProgress?.({ table: tableName, tableIndex: current.tableIndex, tableCount: ROTATION_TABLES.length, processed: current.processed });
+
+            const collection = current.cursor === null ? table.toCollection() : table.where(':id').above(current.cursor);
+            const rows = await collection.filter(row => row.workspaceId === current.workspaceId).limit(BATCH_SIZE).toArray();
+
+            if (rows.length === 0) {
+                current.tableIndex++;
+                current.cursor = null;
+                await setInDB(keyRotationStateKey(current.workspaceId), current);
+                continue;
+            }
+
+            let stale: any[] = rows;
+            while (stale.length > 0) {
+                const batch = stale;
+                const counts = batch.map(() => ({ unreadable: 0 }));
+                const rotated = await Promise.all(batch.map((row, i) => mapEncryptedFields(tableName, row, (value, path) => reencryptValue(value, getFieldKeyClass(tableName, path), oldKeys, newKeys, counts[i]))));
+
+                stale = await raw.transaction('rw', table, async () => {
+                    const latest = await table.bulkGet(batch.map(row => row.id));
+                    const written = batch.map((row, i) => !!latest[i] && JSON.stringify(latest[i]) === JSON.stringify(row));
+                    const unchanged = rotated.filter((_, i) => written[i]);
+                    if (unchanged.length > 0) await table.bulkPut(unchanged);
+                    counts.forEach((count, i) => { if (written[i]) current.unreadable += count.unreadable; });
+                    // Deleted rows are gone; changed ones go round again
+                    return latest.filter((row, i) => !!row && !written[i]);
+                });
+            }
+
+            current.cursor = rows[rows.length - 1].id;
+            current.processed += rows.length;
+            await setInDB(keyRotationStateKey(current.workspaceId), current);
+        }
+
+        return current;
+    } finally {
+        raw.close();
+    }
+}
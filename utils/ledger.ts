@@ -0,0 +1,266 @@
+import type { IMSDatabase } from './db';
+import { generateUUIDv7 } from './idGenerator';
+import { roundMoney } from './money';
+import { PermissionError } from './permissions';
+import { InventoryAdjustment, JournalEntry, JournalLine, LedgerAccount, Money, PaymentType, Sale, StockMovementSource } from '../types';
+
+// Double-entry general ledger. Every sale, return, purchase order receipt and manual stock
+// adjustment posts a balanced journal entry. Entries are never edited: deleting a record posts
+// entries reversing the ones it caused, so the books keep a trail of every change.
+
+export const ACCOUNTS = {
+    cash: '1000',
+    cardClearing: '1010',
+    otherReceipts: '1020',
+    inventory: '1200',
+    accountsPayable: '2000',
+    salesTaxPayable: '2100',
+    openingBalanceEquity: '3000',
+    salesRevenue: '4000',
+    salesDiscounts: '4100',
+    costOfGoodsSold: '5000',
+    inventoryShrinkage: '5100',
+} as const;
+
+export const CHART_OF_ACCOUNTS: LedgerAccount[] = [
+    { code: ACCOUNTS.cash, name: 'Cash', type: 'asset' },
+    { code: ACCOUNTS.cardClearing, name: 'Card Clearing', type: 'asset' },
+    { code: ACCOUNTS.otherReceipts, name: 'Other Receipts', type: 'asset' },
+    { code: ACCOUNTS.inventory, name: 'Inventory', type: 'asset' },
+    { code: ACCOUNTS.accountsPayable, name: 'Accounts Payable', type: 'liability' },
+    { code: ACCOUNTS.salesTaxPayable, name: 'Sales Tax Payable', type: 'liability' },
+    { code: ACCOUNTS.openingBalanceEquity, name: 'Opening Balance Equity', type: 'equity' },
+    { code: ACCOUNTS.salesRevenue, name: 'Sales Revenue', type: 'revenue' },
+    { code: ACCOUNTS.salesDiscounts, name: 'Sales Discounts', type: 'revenue' },
+    { code: ACCOUNTS.costOfGoodsSold, name: 'Cost of Goods Sold', type: 'expense' },
+    { code: ACCOUNTS.inventoryShrinkage, name: 'Inventory Shrinkage', type: 'expense' },
+];
+
+const PAYMENT_ACCOUNTS: Record<PaymentType, string> = {
+    [PaymentType.Cash]: ACCOUNTS.cash,
+    [PaymentType.Card]: ACCOUNTS.cardClearing,
+    [PaymentType.Other]: ACCOUNTS.otherReceipts,
+};
+
+// Account credited when stock arrives or is adjusted, by movement source. Sales and returns
+// are costed through their saleCost entry instead.
+const STOCK_OFFSET_ACCOUNTS: Partial<Record<StockMovementSource, string>> = {
+    poReceipt: ACCOUNTS.accountsPayable,
+    manual: ACCOUNTS.inventoryShrinkage,
+    unknown: ACCOUNTS.inventoryShrinkage, // Legacy history, booked like the hand adjustments most of it was
+    import: ACCOUNTS.openingBalanceEquity,
+};
+
+export const postsStockEntry = (sourceType?: StockMovementSource) => !!sourceType && sourceType in STOCK_OFFSET_ACCOUNTS;
+
+type SignedLine = [accountCode: string, amount: Money]; // Positive debits, negative credits
+
+/**
+ * Turns signed amounts into journal lines, merging lines of the same account and dropping zeros.
+ */
+const toLines = (signed: SignedLine[]): JournalLine[] => {
+    const totals = new Map<string, Money>();
+    for (const [accountCode, amount] of signed) totals.set(accountCode, (totals.get(accountCode) || 0) + amount);
+    return [...totals.entries()]
+        .filter(([, amount]) => amount !== 0)
+        .map(([accountCode, amount]) => ({ accountCode, debit: Math.max(amount, 0), credit: Math.max(-amount, 0) }));
+};
+
+export const isBalanced = (lines: JournalLine[]) =>
+    lines.reduce((sum, line) => sum + (Number(line.debit) || 0) - (Number(line.credit) || 0), 0) === 0;
+
+/**
+ * Lines of a sale or return: payments received (or refunded) against revenue, discounts and tax.
+ * Change given back comes out of the cash line.
+ */
+export const buildSaleLines = (sale: Sale): JournalLine[] => {
+    const signed: SignedLine[] = sale.payments.map(p => [PAYMENT_ACCOUNTS[p.type] || ACCOUNTS.otherReceipts, roundMoney(p.amount)]);
+    const change = signed.reduce((sum, [, amount]) => sum + amount, 0) - sale.total;
+    if (change !== 0) {
+        const changeAccount = signed.some(([account]) => account === ACCOUNTS.cash) ? ACCOUNTS.cash : signed[0]?.[0] ?? ACCOUNTS.cash;
+        signed.push([changeAccount, -change]);
+    }
+    signed.push(
+        [ACCOUNTS.salesRevenue, -sale.subtotal],
+        [ACCOUNTS.salesDiscounts, sale.discount || 0],
+        [ACCOUNTS.salesTaxPayable, -sale.tax]
+    );
+    return toLines(signed);
+};
+
+// Lines moving the cost of the goods sold (or returned) out of inventory
+export const buildSaleCostLines = (sale: Sale): JournalLine[] => toLines([
+    [ACCOUNTS.costOfGoodsSold, sale.cogs],
+    [ACCOUNTS.inventory, -sale.cogs],
+]);
+
+export const buildStockMovementLines = (adjustment: InventoryAdjustment, unitCost: Money): JournalLine[] => {
+    const offset = adjustment.sourceType && STOCK_OFFSET_ACCOUNTS[adjustment.sourceType];
+    if (!offset) return [];
+    const value = roundMoney(adjustment.quantity * unitCost);
+    return toLines([[ACCOUNTS.inventory, value], [offset, -value]]);
+};
+
+/**
+ * Adds a journal entry. Must run inside a transaction covering `journalEntries` when it is part of
+ * a larger write, so the entry and the record it books are stored together. Entries without lines
+ * (e.g. a zero-value sale) are not stored.
+ * Entries any device may post for the same record (costs back-filled by whichever session holds the
+ * financial key) pass an `id` derived from that record, so the devices post one entry between them:
+ * an entry already stored under the id, e.g. pulled from the device that posted it first, is kept.
+ */
+export async function postJournalEntry(database: IMSDatabase, entry: Omit<JournalEntry, 'id' | 'sync_status' | 'updated_at'>, id: string = generateUUIDv7()): Promise<JournalEntry | null> {
+    if (!isBalanced(entry.lines)) throw new Error(`Journal entry for ${entry.sourceType} ${entry.sourceId} does not balance.`);
+    if (entry.lines.length === 0) return null;
+
+    const existing = await database.journalEntries.get(id);
+    if (existing) return existing;
+    const posted: JournalEntry = { ...entry, id, sync_status: 'pending', updated_at: new Date().toISOString() };
+    await database.journalEntries.add(posted);
+    return posted;
+}
+
+export const postSaleEntry = (database: IMSDatabase, sale: Sale) => postJournalEntry(database, {
+    workspaceId: sale.workspaceId,
+    date: sale.date,
+    kind: 'sale',
+    sourceType: 'sale',
+    sourceId: sale.id,
+    description: `${sale.type} #${sale.publicId || sale.id}`,
+    lines: buildSaleLines(sale),
+});
+
+// Needs the sale's cogs, so it is posted by a session holding the financial key (see Sale.costPending)
+export const postSaleCostEntry = (database: IMSDatabase, sale: Sale) => postJournalEntry(database, {
+    workspaceId: sale.workspaceId,
+    date: sale.date,
+    kind: 'saleCost',
+    sourceType: 'sale',
+    sourceId: sale.id,
+    description: `Cost of ${sale.type.toLowerCase()} #${sale.publicId || sale.id}`,
+    lines: buildSaleCostLines(sale),
+}, `je_cost_${sale.id}`);
+
+/**
+ * Unit cost a stock movement is valued at: the ordered cost for purchase order receipts,
+ * the current product (or variant) cost otherwise.
+ */
+async function resolveUnitCost(database: IMSDatabase, adjustment: InventoryAdjustment): Promise<Money> {
+    if (adjustment.sourceType === 'poReceipt' && adjustment.sourceId) {
+        const po = await database.purchaseOrders.get(adjustment.sourceId);
+        const item = po?.items.find(i => i.productId === adjustment.productId && i.variantId === adjustment.variantId);
+        if (item) return Number(item.costPrice) || 0;
+    }
+    const product = await database.products.get(adjustment.productId);
+    const variant = adjustment.variantId ? product?.variants.find(v => v.id === adjustment.variantId) : undefined;
+    return Number(variant ? variant.costPrice : product?.costPrice) || 0;
+}
+
+// Tables read and written by postStockMovementEntry, for callers wrapping it in a transaction
+export const stockEntryTables = (database: IMSDatabase) => [database.journalEntries, database.products, database.purchaseOrders];
+
+export async function postStockMovementEntry(database: IMSDatabase, adjustment: InventoryAdjustment): Promise<JournalEntry | null> {
+    if (!postsStockEntry(adjustment.sourceType)) return null;
+    const unitCost = await resolveUnitCost(database, adjustment);
+    return postJournalEntry(database, {
+        workspaceId: adjustment.workspaceId,
+        date: adjustment.date,
+        kind: 'stockMovement',
+        sourceType: 'inventoryAdjustment',
+        sourceId: adjustment.id,
+        description: `${adjustment.quantity > 0 ? '+' : ''}${adjustment.quantity} units: ${adjustment.reason}`,
+        lines: buildStockMovementLines(adjustment, unitCost),
+    }, `je_stock_${adjustment.id}`);
+}
+
+const hasReadableAmounts = (entry: JournalEntry) => entry.lines.every(line => typeof line.debit === 'number' && typeof line.credit === 'number');
+
+/**
+ * Posts entries reversing every not yet reversed entry booked for the given records.
+ * Must run inside a transaction covering `journalEntries`. Throws a PermissionError when this
+ * session cannot read the amounts of an entry to reverse, so the caller's deletion is refused
+ * rather than booked with an empty reversal.
+ */
+export async function reverseEntriesForSources(database: IMSDatabase, sourceIds: string[], reason: string): Promise<number> {
+    if (sourceIds.length === 0) return 0;
+    const entries = await database.journalEntries.where('sourceId').anyOf(sourceIds).toArray();
+    const reversed = new Set(entries.map(e => e.reversesEntryId).filter(Boolean));
+    const toReverse = entries.filter(entry => entry.kind !== 'reversal' && !reversed.has(entry.id));
+    if (!toReverse.every(hasReadableAmounts)) throw new PermissionError('viewCost');
+
+    let count = 0;
+    for (const entry of toReverse) {
+        await postJournalEntry(database, {
+            workspaceId: entry.workspaceId,
+            date: new Date().toISOString(),
+            kind: 'reversal',
+            sourceType: entry.sourceType,
+            sourceId: entry.sourceId,
+            reversesEntryId: entry.id,
+            description: `Reversal of "${entry.description}": ${reason}`,
+            lines: entry.lines.map(line => ({ accountCode: line.accountCode, debit: line.credit, credit: line.debit })),
+        });
+        count++;
+    }
+    return count;
+}
+
+// --- Reporting ---
+
+export interface TrialBalanceRow {
+    account: LedgerAccount;
+    debit: Money; // Total debits posted to the account
+    credit: Money;
+    balance: Money; // debit - credit; positive is a debit balance
+}
+
+export interface TrialBalance {
+    rows: TrialBalanceRow[];
+    totalDebit: Money;
+    totalCredit: Money;
+    entryCount: number;
+    unreadableEntries: number; // Entries whose amounts this session cannot decrypt; left out of the totals
+}
+
+/**
+ * Sums posted entries per account, up to and including `asOf` if given.
+ */
+export function computeTrialBalance(entries: JournalEntry[], asOf?: Date): TrialBalance {
+    const totals = new Map<string, { debit: Money; credit: Money }>();
+    let entryCount = 0;
+    let unreadableEntries = 0;
+
+    for (const entry of entries) {
+        if (asOf && new Date(entry.date) > asOf) continue;
+        if (entry.lines.some(line => typeof line.debit !== 'number' || typeof line.credit !== 'number')) {
+            unreadableEntries++;
+            continue;
+        }
+        entryCount++;
+        for (const line of entry.lines) {
+            const total = totals.get(line.accountCode) || { debit: 0, credit: 0 };
+            totals.set(line.accountCode, { debit: total.debit + line.debit, credit: total.credit + line.credit });
+        }
+    }
+
+    const known = new Set(CHART_OF_ACCOUNTS.map(a => a.code));
+    const accounts = [
+        ...CHART_OF_ACCOUNTS,
+        // Accounts posted by a newer version of the app
+        ...[...totals.keys()].filter(code => !known.has(code)).map(code => ({ code, name: `Account ${code}`, type: 'asset' as const })),
+    ];
+    const rows = accounts
+        .filter(account => totals.has(account.code))
+        .map(account => {
+            const { debit, credit } = totals.get(account.code)!;
+            return { account, debit, credit, balance: debit - credit };
+        });
+
+    return {
+        rows,
+        totalDebit: rows.reduce((sum, row) => sum + Math.max(row.balance, 0), 0),
+        totalCredit: rows.reduce((sum, row) => sum + Math.max(-row.balance, 0), 0),
+        entryCount,
+        unreadableEntries,
+    };
+}
@@ -0,0 +1,513 @@
+import Dexie, { Table, Transaction } from 'dexie';
+import { Currency, InventoryAdjustment, StockMovementSource } from '../types';
+import { DEFAULT_CURRENCIES } from '../constants';
+import { MONEY_FIELDS, DEFAULT_CURRENCY_EXPONENT, getCurrencyExponent, convertMoneyValue, mapMoneyFields } from './money';
+import { buildOpeningMovements } from './stockLedger';
+
+/**
+ * A single, named step in the IMSDatabase schema history.
+ * `stores` only needs to list tables that changed in this version (Dexie inherits the rest).
+ * `upgrade` runs inside the version-change transaction, so a throw aborts the whole step.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    description: string;
+    stores: Record<string, string | null>;
+    upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+export interface MigrationHistoryEntry {
+    id: string; // Migration name
+    version: number;
+    description: string;
+    appliedAt: string;
+}
+
+export interface MigrationSnapshot {
+    id: string;
+    fromVersion: number;
+    toVersion: number;
+    createdAt: string;
+    schema: Record<string, string>;
+    tables: Record<string, any[]>;
+}
+
+export interface MigrationFailure {
+    id: string;
+    migration: string;
+    fromVersion: number;
+    toVersion: number;
+    snapshotId: string | null;
+    restored: boolean;
+    message: string;
+    failedAt: string;
+}
+
+export class MigrationError extends Error {
+    migration: string;
+    version: number;
+
+    constructor(migration: Migration, cause: unknown) {
+        super(`Migration "${migration.name}" (v${migration.version}) failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+        this.name = 'MigrationError';
+        this.migration = migration.name;
+        this.version = migration.version;
+    }
+}
+
+// Version 7 is the first schema that shipped; everything after it must be declared as a migration below.
+const BASELINE_VERSION = 7;
+const MAX_SNAPSHOTS = 3;
+
+/**
+ * Ordered schema history. Never edit or reorder an entry that has shipped - append a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 7,
+        name: 'workspace-isolation',
+        description: 'Add workspaceId to all tables to enforce data isolation.',
+        stores: {
+            products: '&id, sku, name, *categoryIds, sync_status, updated_at, workspaceId',
+            sales: '&id, publicId, date, type, status, customerId, salespersonId, originalSaleId, sync_status, updated_at, workspaceId',
+            customers: '&id, publicId, email, phone, name, sync_status, updated_at, workspaceId',
+            purchaseOrders: '&id, publicId, supplierId, status, dateCreated, sync_status, updated_at, workspaceId',
+            suppliers: '&id, publicId, name, sync_status, updated_at, workspaceId',
+            users: '&id, username, email, role, sync_status, updated_at, workspaceId',
+            workspaces: '&id, alias',
+            shifts: '&id, status, startTime, sync_status, updated_at, workspaceId',
+            heldOrders: '&id, publicId, workspaceId',
+            categories: '&id, parentId, name, sync_status, updated_at, workspaceId',
+            inventoryAdjustments: '&id, productId, variantId, date, sync_status, workspaceId',
+            notifications: '&id, isRead, type, timestamp, relatedId, workspaceId',
+            deletedRecords: '&id, table, sync_status',
+            settings: '&key, sync_status, updated_at',
+            keyval: 'key'
+        }
+    },
+    {
+        version: 8,
+        name: 'migration-history',
+        description: 'Record applied schema migrations.',
+        stores: {
+            migrationHistory: '&id, version, appliedAt'
+        }
+    },
+    {
+        version: 9,
+        name: 'adjustment-sources',
+        description: 'Link stock history to its sale, return or purchase order.',
+        stores: {
+            inventoryAdjustments: '&id, productId, variantId, date, sync_status, workspaceId, sourceType, sourceId'
+        },
+        upgrade: async (tx) => {
+            const sales = tx.table('sales');
+            const purchaseOrders = tx.table('purchaseOrders');
+            // No key is loaded at startup, so only plaintext reasons can be parsed here.
+            // Encrypted ones are back-filled after login by backfillAdjustmentSources.
+            const adjustments: InventoryAdjustment[] = await tx.table('inventoryAdjustments').toArray();
+            const updatedAt = new Date().toISOString();
+            const updated: InventoryAdjustment[] = [];
+            for (const adj of adjustments) {
+                if (adj.sourceType || typeof adj.reason !== 'string' || adj.reason.startsWith('__ENC__:')) continue;
+                // Marked for sync so other devices (and the server) receive the source too
+                updated.push({ ...adj, ...(await resolveAdjustmentSource(adj.reason, sales, purchaseOrders)), sync_status: 'pending', updated_at: updatedAt });
+            }
+            if (updated.length > 0) await tx.table('inventoryAdjustments').bulkPut(updated);
+        }
+    },
+    {
+        version: 10,
+        name: 'quarantine',
+        description: 'Hold records set aside by the decryption health scan.',
+        stores: {
+            quarantinedRecords: '&id, table, recordId, workspaceId, quarantinedAt'
+        }
+    },
+    {
+        version: 11,
+        name: 'money-minor-units',
+        description: 'Store money as integer minor units of the workspace currency.',
+        stores: {},
+        upgrade: async (tx) => {
+            const exponentOf = await pinWorkspaceCurrencies(tx.table('keyval'));
+            const updatedAt = new Date().toISOString();
+            for (const tableName of Object.keys(MONEY_FIELDS)) {
+                const table = tx.table(tableName);
+                const rows = await table.toArray();
+                if (rows.length === 0) continue;
+                // Marked for sync so other devices (and the server) receive the converted amounts
+                await table.bulkPut(rows.map(row => ({ ...convertPlaintextMoneyFields(tableName, row, exponentOf(row.workspaceId)), sync_status: 'pending', updated_at: updatedAt })));
+            }
+        }
+    },
+    {
+        version: 12,
+        name: 'general-ledger',
+        description: 'Add the journal of the double-entry general ledger.',
+        stores: {
+            journalEntries: '&id, workspaceId, date, kind, sourceId, reversesEntryId, sync_status, updated_at'
+        }
+    },
+    {
+        version: 13,
+        name: 'sync-conflicts',
+        description: 'Hold records edited on two devices at once until the conflict is resolved.',
+        stores: {
+            syncConflicts: '&id, table, recordId, workspaceId, detectedAt'
+        }
+    },
+    {
+        version: 14,
+        name: 'sync-log',
+        description: 'Keep a history of sync runs.',
+        stores: {
+            syncLog: '&id, workspaceId, startedAt'
+        }
+    },
+    {
+        version: 15,
+        name: 'drop-settings-table',
+        description: 'Drop the unused settings table so it can be re-keyed.',
+        stores: {
+            settings: null
+        }
+    },
+    {
+        version: 16,
+        name: 'workspace-settings',
+        description: 'Move workspace settings out of keyval into the synced settings table.',
+        stores: {
+            settings: '&id, workspaceId, key, sync_status, updated_at'
+        },
+        upgrade: async (tx) => {
+            const keyval = tx.table('keyval');
+            const workspaces: { id: string }[] = await tx.table('workspaces').toArray();
+            const settings: any[] = [];
+            const moved: string[] = [];
+            for (const { id: workspaceId } of workspaces) {
+                for (const key of MOVED_SETTING_KEYS) {
+                    const entry = await keyval.get(`ims-${workspaceId}-${key}`);
+                    if (entry === undefined) continue;
+                    // Dated at the epoch, so the first device to sync after upgrading sets the shared values
+                    settings.push({ id: `${workspaceId}:${key}`, workspaceId, key, value: entry.value, sync_status: 'pending', updated_at: new Date(0).toISOString() });
+                    moved.push(entry.key);
+                }
+            }
+            await tx.table('settings').bulkPut(settings);
+            await keyval.bulkDelete(moved);
+        }
+    },
+    {
+        version: 17,
+        name: 'stock-ledger',
+        description: 'Back product stock with opening movements where its history does not explain it.',
+        stores: {},
+        upgrade: async (tx) => {
+            const products = await tx.table('products').toArray();
+            const movements: InventoryAdjustment[] = await tx.table('inventoryAdjustments').toArray();
+            // Ids and dates derived from the product, so devices upgrading the same synced data create the same records
+            const openings = buildOpeningMovements(products, movements, 'Opening balance', {
+                getId: (productId, variantId) => `adj_open_${productId}${variantId ? `_${variantId}` : ''}`,
+                date: new Date(0).toISOString()
+            });
+            if (openings.length > 0) await tx.table('inventoryAdjustments').bulkPut(openings);
+        }
+    },
+    {
+        version: 18,
+        name: 'audit-log',
+        description: 'Add the hash-chained audit log of user actions.',
+        stores: {
+            auditLog: '&id, workspaceId, &[workspaceId+seq], date'
+        }
+    },
+    {
+        version: 19,
+        name: 'sync-status-indexes',
+        description: 'Index the sync status of held orders and notifications, so their pending changes can be pushed.',
+        stores: {
+            heldOrders: '&id, publicId, sync_status, updated_at, workspaceId',
+            notifications: '&id, isRead, type, timestamp, relatedId, sync_status, updated_at, workspaceId'
+        }
+    },
+];
+
+// Settings that became workspace-wide in the workspace-settings migration
+const MOVED_SETTING_KEYS = [
+    'currencies', 'currency', 'currencyDisplay',
+    'isTaxEnabled', 'taxRate', 'includeTaxInProfit',
+    'isDiscountEnabled', 'discountRate', 'discountThreshold',
+    'cashierPermissions', 'storeAddress', 'storePhone', 'receiptFooter'
+];
+
+const isCiphertext = (value: any) => typeof value === 'string' && value.startsWith('__ENC__:');
+
+/**
+ * Pins the decimal places of each workspace's active currency (the unit its amounts are now stored in)
+ * and converts its money settings. The old whole-units toggle becomes an exponent of 0.
+ * Returns the exponent to convert each workspace's records with.
+ */
+async function pinWorkspaceCurrencies(keyval: Table): Promise<(workspaceId: string) => number> {
+    const entries: { key: string; value: any }[] = await keyval.toArray();
+    const settings = new Map(entries.map(entry => [entry.key, entry.value]));
+    const exponents = new Map<string, number>();
+
+    for (const { key, value: code } of entries) {
+        const match = key.match(/^ims-(.+)-currency$/);
+        if (!match) continue;
+        const prefix = `ims-${match[1]}`;
+
+        const currencies: Currency[] = settings.get(`${prefix}-currencies`) || DEFAULT_CURRENCIES;
+        const active = currencies.find(c => c.code === code) || currencies[0];
+        const exponent = settings.get(`${prefix}-isIntegerCurrency`) ? 0 : getCurrencyExponent(active);
+        exponents.set(match[1], exponent);
+
+        await keyval.put({ key: `${prefix}-currencies`, value: currencies.map(c => c === active ? { ...c, exponent } : c) });
+        const threshold = settings.get(`${prefix}-discountThreshold`);
+        if (threshold !== undefined) await keyval.put({ key: `${prefix}-discountThreshold`, value: convertMoneyValue(threshold, exponent) });
+    }
+    return (workspaceId: string) => exponents.get(workspaceId) ?? DEFAULT_CURRENCY_EXPONENT;
+}
+
+/**
+ * Converts the money fields of a raw row that can be read without a key. Encrypted ones are listed in
+ * `pendingMinorUnits` and converted after login by convertPendingMoneyFields. A nested path is left
+ * pending as a whole if any of its entries is encrypted, so no entry gets converted twice.
+ */
+function convertPlaintextMoneyFields(tableName: string, row: any, exponent: number) {
+    const pending: string[] = [];
+    const plaintext = MONEY_FIELDS[tableName].filter(path => {
+        const [array, field] = path.split('[].');
+        const values = field === undefined ? [row[path]] : (Array.isArray(row[array]) ? row[array].map((entry: any) => entry?.[field]) : []);
+        if (!values.some(isCiphertext)) return true;
+        pending.push(path);
+        return false;
+    });
+
+    const converted = mapMoneyFields(tableName, row, value => convertMoneyValue(value, exponent), plaintext);
+    if (pending.length > 0) converted.pendingMinorUnits = { exponent, paths: pending };
+    return converted;
+}
+
+/**
+ * Converts the money fields the money-minor-units migration left pending because they were encrypted.
+ * `table` must read through the encryption middleware. Fields this session cannot decrypt
+ * (`canConvert` false, or unreadable) stay pending for a session that can.
+ */
+export async function convertPendingMoneyFields(table: Table, workspaceId: string, canConvert: (path: string) => boolean): Promise<void> {
+    const rows = await table.where('workspaceId').equals(workspaceId).filter(row => !!row.pendingMinorUnits).toArray();
+    const updated: any[] = [];
+
+    for (const row of rows) {
+        const { exponent, paths } = row.pendingMinorUnits as { exponent: number; paths: string[] };
+        const readable = (path: string) => {
+            const [array, field] = path.split('[].');
+            const values = field === undefined ? [row[path]] : (Array.isArray(row[array]) ? row[array].map((entry: any) => entry?.[field]) : []);
+            // A failed decryption reads as null; converting it would overwrite the ciphertext
+            return values.every((value: any) => value !== null && !isCiphertext(value));
+        };
+        const ready = paths.filter(path => canConvert(path) && readable(path));
+        if (ready.length === 0) continue;
+
+        const { pendingMinorUnits, ...converted } = mapMoneyFields(table.name, row, value => convertMoneyValue(value, exponent), ready);
+        const remaining = paths.filter(path => !ready.includes(path));
+        updated.push({
+            ...converted,
+            ...(remaining.length > 0 && { pendingMinorUnits: { exponent, paths: remaining } }),
+            sync_status: 'pending',
+            updated_at: new Date().toISOString()
+        });
+    }
+    if (updated.length > 0) await table.bulkPut(updated);
+}
+
+/**
+ * Infers the structured source of a legacy adjustment from its reason text
+ * (e.g. "Sale #TRX-AB12CD34", "Received from PO #PO-X1Y2Z3"), or 'unknown' when it names neither.
+ */
+export async function resolveAdjustmentSource(reason: string, sales: Table, purchaseOrders: Table): Promise<{ sourceType: StockMovementSource; sourceId?: string }> {
+    const saleMatch = reason.match(/^Sale #(\S+)/);
+    if (saleMatch) {
+        const ref = saleMatch[1];
+        const sale = await sales.where('publicId').equals(ref).first() || await sales.get(ref);
+        return {
+            sourceType: ref.startsWith('RET-') || sale?.type === 'Return' ? 'return' : 'sale',
+            sourceId: sale?.id
+        };
+    }
+
+    const poMatch = reason.match(/^Received from PO #(\S+)/);
+    if (poMatch) {
+        const ref = poMatch[1];
+        const po = await purchaseOrders.where('publicId').equals(ref).first() || await purchaseOrders.get(ref);
+        return { sourceType: 'poReceipt', sourceId: po?.id };
+    }
+
+    return { sourceType: 'unknown' };
+}
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const recordMigration = (tx: Transaction, migration: Migration) => {
+    return tx.table('migrationHistory').put({
+        id: migration.name,
+        version: migration.version,
+        description: migration.description,
+        appliedAt: new Date().toISOString()
+    } as MigrationHistoryEntry);
+};
+
+/**
+ * Declares every migration on the given Dexie instance, in order.
+ */
+export function registerMigrations(database: Dexie) {
+    for (const migration of MIGRATIONS) {
+        const version = database.version(migration.version).stores(migration.stores);
+        if (migration.version <= BASELINE_VERSION) continue;
+
+        version.upgrade(async (tx: Transaction) => {
+            try {
+                if (migration.upgrade) await migration.upgrade(tx);
+            } catch (error) {
+                console.error(`Migration ${migration.name} failed, aborting upgrade`, error);
+                throw new MigrationError(migration, error);
+            }
+            await recordMigration(tx, migration);
+        });
+    }
+
+    // Fresh installs are created directly at the latest schema, so upgrade() never runs.
+    // Record the full history as applied to keep it consistent with upgraded installs.
+    database.on('populate', (tx: Transaction) => {
+        for (const migration of MIGRATIONS) {
+            if (migration.version <= BASELINE_VERSION) continue;
+            recordMigration(tx, migration);
+        }
+    });
+}
+
+// --- Pre-migration Snapshots ---
+// Snapshots live in a separate database so they survive a failed or aborted upgrade of the main one.
+
+const getSnapshotDB = (dbName: string) => {
+    const snapshotDB = new Dexie(`${dbName}_snapshots`);
+    snapshotDB.version(1).stores({
+        snapshots: '&id, createdAt',
+        failures: '&id, failedAt'
+    });
+    return snapshotDB;
+};
+
+/**
+ * Returns the schema version currently on disk, or null if the database does not exist yet.
+ */
+export async function getInstalledVersion(dbName: string): Promise<number | null> {
+    if (!(await Dexie.exists(dbName))) return null;
+    // Opening without declaring versions uses Dexie's dynamic mode and never triggers an upgrade.
+    const probe = new Dexie(dbName);
+    try {
+        await probe.open();
+        return probe.verno;
+    } finally {
+        probe.close();
+    }
+}
+
+/**
+ * Copies every table of the on-disk database (raw, still encrypted) into the snapshot store.
+ */
+export async function createMigrationSnapshot(dbName: string, fromVersion: number, toVersion: number): Promise<string> {
+    const source = new Dexie(dbName);
+    const snapshotDB = getSnapshotDB(dbName);
+    try {
+        await source.open();
+        const schema: Record<string, string> = {};
+        const tables: Record<string, any[]> = {};
+
+        for (const table of source.tables) {
+            schema[table.name] = [table.schema.primKey.src, ...table.schema.indexes.map(idx => idx.src)].join(', ');
+            tables[table.name] = await table.toArray();
+        }
+
+        const snapshot: MigrationSnapshot = {
+            id: `snap_v${fromVersion}_${Date.now()}`,
+            fromVersion,
+            toVersion,
+            createdAt: new Date().toISOString(),
+            schema,
+            tables
+        };
+        await snapshotDB.table('snapshots').put(snapshot);
+
+        // Keep only the most recent snapshots to bound storage usage
+        const keys = await snapshotDB.table('snapshots').orderBy('createdAt').primaryKeys();
+        if (keys.length > MAX_SNAPSHOTS) {
+            await snapshotDB.table('snapshots').bulkDelete(keys.slice(0, keys.length - MAX_SNAPSHOTS));
+        }
+
+        return snapshot.id;
+    } finally {
+        source.close();
+        snapshotDB.close();
+    }
+}
+
+/**
+ * Rebuilds the database exactly as captured in a snapshot (schema version and rows).
+ * Every open connection to the database must be closed before calling this.
+ */
+export async function restoreMigrationSnapshot(dbName: string, snapshotId: string): Promise<void> {
+    const snapshotDB = getSnapshotDB(dbName);
+    let snapshot: MigrationSnapshot | undefined;
+    try {
+        snapshot = await snapshotDB.table('snapshots').get(snapshotId);
+    } finally {
+        snapshotDB.close();
+    }
+    if (!snapshot) throw new Error(`Snapshot ${snapshotId} not found.`);
+
+    await Dexie.delete(dbName);
+
+    const target = new Dexie(dbName);
+    target.version(snapshot.fromVersion).stores(snapshot.schema);
+    try {
+        await target.open();
+        await target.transaction('rw', target.tables, async () => {
+            for (const [tableName, rows] of Object.entries(snapshot!.tables)) {
+                if (rows.length > 0) await target.table(tableName).bulkAdd(rows);
+            }
+        });
+    } finally {
+        target.close();
+    }
+}
+
+export async function listMigrationSnapshots(dbName: string): Promise<Omit<MigrationSnapshot, 'tables' | 'schema'>[]> {
+    const snapshotDB = getSnapshotDB(dbName);
+    try {
+        const snapshots: MigrationSnapshot[] = await snapshotDB.table('snapshots').orderBy('createdAt').reverse().toArray();
+        return snapshots.map(({ id, fromVersion, toVersion, createdAt }) => ({ id, fromVersion, toVersion, createdAt }));
+    } finally {
+        snapshotDB.close();
+    }
+}
+
+export async function recordMigrationFailure(dbName: string, failure: Omit<MigrationFailure, 'id' | 'failedAt'>): Promise<void> {
+    const snapshotDB = getSnapshotDB(dbName);
+    try {
+        await snapshotDB.table('failures').put({ ...failure, id: `fail_${Date.now()}`, failedAt: new Date().toISOString() });
+    } finally {
+        snapshotDB.close();
+    }
+}
+
+export async function listMigrationFailures(dbName: string): Promise<MigrationFailure[]> {
+    const snapshotDB = getSnapshotDB(dbName);
+    try {
+        return await snapshotDB.table('failures').orderBy('failedAt').reverse().toArray();
+    } finally {
+        snapshotDB.close();
+    }
+}
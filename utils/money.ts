@@ -0,0 +1,101 @@
+import { Currency, Money } from '../types';
+
+// Every stored amount is Money (integer minor units) so sums are exact. Percentage maths must go
+// through percentOf/roundMoney, and the UI converts to and from major units with the helpers below.
+
+export const DEFAULT_CURRENCY_EXPONENT = 2;
+
+// ISO 4217 currencies whose minor unit is not 1/100 of the major unit
+const ISO_EXPONENTS: Record<string, number> = {
+    BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0, RWF: 0, UGX: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+    BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+};
+
+/**
+ * Number of decimal places of a currency: its explicit `exponent` if set, else the ISO 4217 value.
+ */
+export const getCurrencyExponent = (currency?: Pick<Currency, 'code' | 'exponent'> | null): number => {
+    if (currency?.exponent !== undefined && currency.exponent !== null) return currency.exponent;
+    return ISO_EXPONENTS[currency?.code?.toUpperCase() ?? ''] ?? DEFAULT_CURRENCY_EXPONENT;
+};
+
+/**
+ * Rounds to a whole minor unit, half away from zero so refunds mirror their sales.
+ */
+export const roundMoney = (amount: number): Money => {
+    const rounded = Math.sign(amount) * Math.round(Math.abs(amount));
+    return rounded === 0 ? 0 : rounded; // No -0
+};
+
+export const percentOf = (amount: Money, rate: number): Money => roundMoney(amount * rate);
+
+/**
+ * Converts a major-unit amount (e.g. 12.34) to minor units (1234 for exponent 2).
+ * Shifts the decimal point in the number's text so 1.005 becomes 1005/10, not 100.49999.
+ */
+export const toMinorUnits = (major: number, exponent: number): Money => {
+    if (!Number.isFinite(major)) return 0;
+    const [mantissa, power = '0'] = String(major).split('e');
+    return roundMoney(Number(`${mantissa}e${Number(power) + exponent}`));
+};
+
+export const toMajorUnits = (minor: Money, exponent: number): number => minor / 10 ** exponent;
+
+/**
+ * Parses user input in major units. Returns null if it is not a number.
+ */
+export const parseMoneyInput = (input: string | number, exponent: number): Money | null => {
+    const major = typeof input === 'number' ? input : parseFloat(String(input).replace(/,/g, ''));
+    return isNaN(major) ? null : toMinorUnits(major, exponent);
+};
+
+/**
+ * Formats minor units as a plain major-unit number for form inputs and CSV (e.g. "12.50").
+ */
+export const toMoneyInput = (minor: Money, exponent: number): string => toMajorUnits(Number(minor) || 0, exponent).toFixed(exponent);
+
+// --- Stored money fields ---
+
+// Money fields of each table. `array[].field` marks fields of nested entries (as in utils/db.ts).
+// priceHistory holds entries with oldValue/newValue, and held-order discount/customTax are
+// `{ type, value }` adjustments whose value is money when the type is 'fixed'.
+export const MONEY_FIELDS: Record<string, string[]> = {
+    products: ['retailPrice', 'costPrice', 'priceHistory', 'variants[].retailPrice', 'variants[].costPrice', 'variants[].priceHistory'],
+    sales: ['subtotal', 'discount', 'tax', 'total', 'cogs', 'profit', 'items[].retailPrice', 'items[].costPrice', 'payments[].amount'],
+    heldOrders: ['items[].retailPrice', 'items[].costPrice', 'discount', 'customTax'],
+    purchaseOrders: ['totalCost', 'items[].costPrice'],
+    shifts: ['startFloat', 'endFloat', 'actualCash', 'difference', 'cashSales', 'cashRefunds'],
+};
+
+/**
+ * Converts one stored money field value from major to minor units, whatever its shape.
+ */
+export const convertMoneyValue = (value: any, exponent: number): any => {
+    if (value === null || value === undefined) return value;
+    if (typeof value === 'number') return toMinorUnits(value, exponent);
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return toMinorUnits(Number(value), exponent);
+    if (Array.isArray(value)) {
+        return value.map(entry => ({ ...entry, oldValue: convertMoneyValue(entry.oldValue, exponent), newValue: convertMoneyValue(entry.newValue, exponent) }));
+    }
+    if (typeof value === 'object' && 'type' in value) {
+        return value.type === 'fixed' ? { ...value, value: convertMoneyValue(value.value, exponent) } : value;
+    }
+    return value;
+};
+
+/**
+ * Returns a copy of `record` with `transform` applied to the money fields listed in `paths`
+ * (all of the table's money fields by default). Nested paths apply to every entry.
+ */
+export function mapMoneyFields(tableName: string, record: any, transform: (value: any, path: string) => any, paths: string[] = MONEY_FIELDS[tableName] || []) {
+    const cloned = { ...record };
+    for (const path of paths) {
+        const [array, field] = path.split('[].');
+        if (field === undefined) {
+            if (cloned[path] !== undefined) cloned[path] = transform(cloned[path], path);
+        } else if (Array.isArray(cloned[array])) {
+            cloned[array] = cloned[array].map((entry: any) => entry && entry[field] !== undefined ? { ...entry, [field]: transform(entry[field], path) } : entry);
+        }
+    }
+    return cloned;
+}
@@ -0,0 +1,56 @@
+import { Approval, CartItem, Money, OverrideAction, Role, User } from '../types';
+import { getUserRole, hasPermission } from './permissions';
+import { generateUUIDv7 } from './idGenerator';
+import { percentOf, roundMoney } from './money';
+
+export const OVERRIDE_ACTION_LABELS: Record<OverrideAction, string> = {
+    discount: 'Discount above limit',
+    priceOverride: 'Price override',
+    noReceiptReturn: 'Return without receipt',
+    openDrawer: 'Open drawer',
+    deleteHeldOrder: 'Delete held order',
+};
+
+export const createApproval = (action: OverrideAction, detail: string, requestedBy: Pick<User, 'id' | 'username'>, approvedBy: Pick<User, 'id' | 'username'>): Approval => ({
+    id: generateUUIDv7(),
+    action,
+    detail,
+    date: new Date().toISOString(),
+    requestedById: requestedBy.id,
+    requestedByName: requestedBy.username,
+    approvedById: approvedBy.id,
+    approvedByName: approvedBy.username,
+});
+
+/**
+ * Whether `approval` covers `action`: its approver must be a user of the workspace whose role holds
+ * approveOverrides now, when the approval is used, not only when it was given.
+ */
+export function isApprovalValid(approval: Approval | undefined, action: OverrideAction, users: User[], roles: Role[]): boolean {
+    if (!approval || approval.action !== action) return false;
+    const approver = users.find(u => u.id === approval.approvedById);
+    return !!approver && hasPermission(getUserRole(roles, approver), 'approveOverrides');
+}
+
+// Items sold, not returned: the amount a cart discount applies to
+export const getDiscountableSubtotal = (items: CartItem[]): Money =>
+    roundMoney(items.filter(item => item.quantity > 0).reduce((sum, item) => sum + item.retailPrice * item.quantity, 0));
+
+/**
+ * The largest discount a sale can carry without approval: `limitRate` of what it discounts, or the
+ * automatic discount when that is higher, since the store set it itself.
+ */
+export const getDiscountLimit = (items: CartItem[], limitRate: number, automaticDiscount: Money = 0): Money =>
+    Math.max(percentOf(getDiscountableSubtotal(items), limitRate), automaticDiscount);
+
+/**
+ * The overrides a sale needs approved: a discount above `discountLimit`, overridden prices and
+ * returns not linked to a sale.
+ */
+export function getRequiredOverrides(sale: { items: CartItem[]; discount?: Money }, discountLimit: Money): OverrideAction[] {
+    const actions: OverrideAction[] = [];
+    if ((sale.discount || 0) > discountLimit) actions.push('discount');
+    if (sale.items.some(item => item.priceOverriddenFrom !== undefined)) actions.push('priceOverride');
+    if (sale.items.some(item => item.quantity < 0 && !item.originalSaleId)) actions.push('noReceiptReturn');
+    return actions;
+}
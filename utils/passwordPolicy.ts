@@ -0,0 +1,28 @@
+import { PasswordPolicy } from '../types';
+import { loadCommonPasswords } from './commonPasswords';
+
+// Applies to new workspaces, and to workspaces whose policy has not been saved yet
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = { minLength: 8, rejectCommon: true };
+
+// The policy cannot go below this
+export const MIN_PASSWORD_LENGTH = 4;
+
+export const isCommonPassword = async (password: string): Promise<boolean> =>
+    (await loadCommonPasswords()).has(password.trim().toLowerCase());
+
+/**
+ * Checks a new password against the policy. Returns why it is refused, or null when it is accepted.
+ */
+export async function checkPassword(password: string, policy: PasswordPolicy): Promise<string | null> {
+    const minLength = Math.max(policy.minLength, MIN_PASSWORD_LENGTH);
+    if (password.length < minLength) return `Password must be at least ${minLength} characters.`;
+    if (!policy.rejectCommon) return null;
+    let common: boolean;
+    try {
+        common = await isCommonPassword(password);
+    } catch {
+        return 'The list of common passwords could not be loaded, so the password cannot be checked. Try again.';
+    }
+    if (common) return 'This password is too common and appears in known data breaches. Choose another.';
+    return null;
+}
@@ -0,0 +1,177 @@
+import { CashierPermissions, KeyClass, Permission, Role, User, UserRole, View } from '../types';
+
+export const PERMISSION_GROUPS: { label: string; permissions: { id: Permission; label: string }[] }[] = [
+    {
+        label: 'Pages',
+        permissions: [
+            { id: 'viewDashboard', label: 'Dashboard' },
+            { id: 'viewPos', label: 'Point of Sale' },
+            { id: 'viewInventory', label: 'Inventory' },
+            { id: 'viewProcurement', label: 'Procurement' },
+            { id: 'viewCustomers', label: 'Customers' },
+            { id: 'viewReports', label: 'Reports' },
+            { id: 'viewAnalysis', label: 'Analysis' },
+            { id: 'viewUsers', label: 'Users & Shifts' },
+        ]
+    },
+    {
+        label: 'Sales',
+        permissions: [
+            { id: 'processReturns', label: 'Process returns and refunds' },
+            { id: 'deleteSales', label: 'Delete sales' },
+            { id: 'viewCost', label: 'View cost, profit and valuation' },
+            { id: 'approveOverrides', label: 'Approve register overrides' },
+        ]
+    },
+    {
+        label: 'Inventory',
+        permissions: [
+            { id: 'editProducts', label: 'Add, edit and delete products and categories' },
+            { id: 'editPrices', label: 'Change selling prices' },
+            { id: 'adjustStock', label: 'Receive and adjust stock' },
+            { id: 'managePurchaseOrders', label: 'Create and delete purchase orders' },
+            { id: 'receivePurchaseOrders', label: 'Receive purchase orders' },
+        ]
+    },
+    {
+        label: 'Customers',
+        permissions: [
+            { id: 'manageCustomers', label: 'Add, edit and delete customers' },
+        ]
+    },
+    {
+        label: 'Administration',
+        permissions: [
+            { id: 'manageUsers', label: 'Add, edit and delete users' },
+            { id: 'pruneData', label: 'Prune and clear sales data' },
+            { id: 'editBehaviorSettings', label: 'Edit behavior settings' },
+            { id: 'editOwnProfile', label: 'Edit own profile' },
+            { id: 'viewAuditLog', label: 'View and export the audit log' },
+        ]
+    },
+];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSION_GROUPS.flatMap(group => group.permissions.map(p => p.id));
+
+export const getPermissionLabel = (permission: Permission): string =>
+    PERMISSION_GROUPS.flatMap(group => group.permissions).find(p => p.id === permission)?.label || permission;
+
+// The permission opening each page. Settings is open to everyone; what it shows is checked per section.
+export const VIEW_PERMISSIONS: Record<View, Permission | null> = {
+    dashboard: 'viewDashboard',
+    pos: 'viewPos',
+    inventory: 'viewInventory',
+    procurement: 'viewProcurement',
+    customers: 'viewCustomers',
+    users: 'viewUsers',
+    reports: 'viewReports',
+    analysis: 'viewAnalysis',
+    settings: null,
+};
+
+export const DEFAULT_CASHIER_PERMISSIONS: CashierPermissions = {
+    canProcessReturns: true,
+    canViewReports: true,
+    canViewAnalysis: false,
+    canEditOwnProfile: true,
+    canViewDashboard: false,
+    canViewInventory: false,
+    canEditBehaviorSettings: false,
+    canManageCustomers: false,
+};
+
+/**
+ * The permissions a Cashier had under the fixed cashier toggles. Inventory access used to come with
+ * editing products, stock and purchase orders, and customer access with managing them.
+ */
+export function fromCashierPermissions(legacy: CashierPermissions): Permission[] {
+    const permissions: Permission[] = ['viewPos'];
+    if (legacy.canViewDashboard) permissions.push('viewDashboard');
+    if (legacy.canViewInventory) permissions.push('viewInventory', 'viewProcurement', 'editProducts', 'editPrices', 'adjustStock', 'managePurchaseOrders', 'receivePurchaseOrders');
+    if (legacy.canManageCustomers) permissions.push('viewCustomers', 'manageCustomers');
+    if (legacy.canViewReports) permissions.push('viewReports');
+    if (legacy.canViewAnalysis) permissions.push('viewAnalysis');
+    if (legacy.canProcessReturns) permissions.push('processReturns');
+    if (legacy.canEditOwnProfile) permissions.push('editOwnProfile');
+    if (legacy.canEditBehaviorSettings) permissions.push('editBehaviorSettings');
+    return permissions;
+}
+
+export const ADMIN_ROLE: Role = { id: UserRole.Admin, name: 'Admin', permissions: ALL_PERMISSIONS };
+
+/**
+ * The roles of a workspace: Admin, which always holds every permission, then the stored ones. Until
+ * roles are first saved, the Cashier role is built from the workspace's old cashier toggles.
+ */
+export function resolveRoles(stored: Role[] | null, legacyCashier: CashierPermissions | null): Role[] {
+    const roles = stored || [{ id: UserRole.Cashier, name: 'Cashier', permissions: fromCashierPermissions(legacyCashier || DEFAULT_CASHIER_PERMISSIONS) }];
+    return [ADMIN_ROLE, ...roles.filter(role => role.id !== UserRole.Admin)];
+}
+
+// A user whose role is unknown here (deleted, or not synced yet) gets no permissions
+export const getUserRole = (roles: Role[], user: Pick<User, 'role'>): Role =>
+    roles.find(role => role.id === user.role) || { id: user.role, name: user.role, permissions: [] };
+
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+    role.id === UserRole.Admin || role.permissions.includes(permission);
+
+// Whether a user of `role` may assign `other` (or manage its users): only roles granting nothing they lack
+export const canAssignRole = (role: Role, other: Role): boolean =>
+    other.id !== UserRole.Admin && other.permissions.every(permission => hasPermission(role, permission));
+
+/**
+ * Key classes wrapped for users of a role. Cost and profit are encrypted with the financial key, so
+ * roles without `viewCost` cannot read them even from storage.
+ */
+export const getRoleKeyClasses = (role: Role): KeyClass[] =>
+    hasPermission(role, 'viewCost') ? ['general', 'financial', 'pii'] : ['general', 'pii'];
+
+/**
+ * Users an edit of the role definitions would leave holding the wrong keys: their role now wraps
+ * other key classes (e.g. `viewCost` was granted or revoked) than were wrapped for them, and only their
+ * password can re-wrap them. Users without class keys hold the general key alone and are unaffected.
+ */
+export function findUsersWithChangedKeys(before: Role[], after: Role[], users: User[]): User[] {
+    return users.filter(user => {
+        const old = before.find(role => role.id === user.role);
+        const role = after.find(r => r.id === user.role);
+        return !!user.encryptedClassKeys && !!old && !!role && getRoleKeyClasses(old).join() !== getRoleKeyClasses(role).join();
+    });
+}
+
+// What an edit of the role definitions changed, one line per role added, removed, renamed or re-permissioned
+export function describeRoleChanges(before: Role[], after: Role[]): string[] {
+    const changes: string[] = [];
+    for (const role of after) {
+        const old = before.find(r => r.id === role.id);
+        if (!old) {
+            changes.push(`Added role ${role.name}: ${role.permissions.map(getPermissionLabel).join(', ') || 'no permissions'}`);
+            continue;
+        }
+        const granted = role.permissions.filter(p => !old.permissions.includes(p));
+        const revoked = old.permissions.filter(p => !role.permissions.includes(p));
+        const parts = [
+            ...(old.name !== role.name ? [`renamed from ${old.name}`] : []),
+            ...(granted.length > 0 ? [`granted ${granted.map(getPermissionLabel).join(', ')}`] : []),
+            ...(revoked.length > 0 ? [`revoked ${revoked.map(getPermissionLabel).join(', ')}`] : []),
+        ];
+        if (parts.length > 0) changes.push(`Role ${role.name}: ${parts.join('; ')}`);
+    }
+    for (const old of before) {
+        if (old.id !== UserRole.Admin && !after.some(r => r.id === old.id)) changes.push(`Removed role ${old.name}`);
+    }
+    return changes;
+}
+
+export class PermissionError extends Error {
+    permission: Permission;
+
+    constructor(permission: Permission) {
+        super(`Your role does not permit this: ${getPermissionLabel(permission)}.`);
+        this.name = 'PermissionError';
+        this.permission = permission;
+    }
+}
+
+// The result returned by context actions refused for lack of `permission`
+export const permissionDenied = (permission: Permission) => ({ success: false as const, message: new PermissionError(permission).message });
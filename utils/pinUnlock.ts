@@ -0,0 +1,90 @@
+import { getFromDB, setInDB } from './db';
+import { generateSalt, deriveKeyFromPassword, encryptData, decryptDataStrict, exportKeySet, importKeySet, KeySet } from './crypto';
+
+// Wrong PINs allowed before the user's PIN is erased and they must sign in with their password
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_PATTERN = /^\d{4,8}$/;
+// A PIN has too few combinations for key stretching to matter; the device key and the attempt
+// limit protect it. Kept low so unlocking is instant on slow tills.
+const PIN_KDF_ITERATIONS = 10000;
+const DEVICE_KEY = 'ims-device-key';
+
+/**
+ * A user's keys as cached on this device for PIN sign-in. The key set is encrypted with a key
+ * derived from the PIN, then with the device key: a non-extractable key that never leaves this
+ * browser's storage, so a copied wrap cannot be guessed at elsewhere without the attempt limit.
+ */
+export interface PinUnlock {
+    userId: string;
+    salt: string;
+    wrappedKeys: string;
+    failedAttempts: number;
+    createdAt: string;
+}
+
+export type PinUnlockResult =
+    | { keys: KeySet }
+    | { keys?: undefined; attemptsLeft: number }; // 0 once the PIN is erased (or there is none)
+
+export const pinUnlocksKey = (workspaceId: string) => `ims-${workspaceId}-pinUnlocks`;
+
+export const getPinUnlocks = async (workspaceId: string): Promise<Record<string, PinUnlock>> =>
+    await getFromDB<Record<string, PinUnlock>>(pinUnlocksKey(workspaceId)) || {};
+
+async function getDeviceKey(create: boolean): Promise<CryptoKey | undefined> {
+    const existing = await getFromDB<CryptoKey>(DEVICE_KEY);
+    if (existing || !create) return existing;
+    const key = await globalThis.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await setInDB(DEVICE_KEY, key);
+    return key;
+}
+
+async function savePinUnlock(workspaceId: string, userId: string, unlock: PinUnlock | null) {
+    const { [userId]: _, ...others } = await getPinUnlocks(workspaceId);
+    await setInDB(pinUnlocksKey(workspaceId), unlock ? { ...others, [userId]: unlock } : others);
+}
+
+/**
+ * Caches the user's keys on this device, unlockable with `pin`. Replaces any previous PIN.
+ */
+export async function setPinUnlock(workspaceId: string, userId: string, keys: KeySet, pin: string): Promise<void> {
+    const salt = generateSalt();
+    const pinKey = await deriveKeyFromPassword(pin, salt, PIN_KDF_ITERATIONS);
+    const deviceKey = (await getDeviceKey(true))!;
+    const wrappedKeys = await encryptData(await encryptData(await exportKeySet(keys), pinKey), deviceKey);
+    await savePinUnlock(workspaceId, userId, { userId, salt, wrappedKeys, failedAttempts: 0, createdAt: new Date().toISOString() });
+}
+
+export const removePinUnlock = (workspaceId: string, userId: string) => savePinUnlock(workspaceId, userId, null);
+
+/**
+ * Unlocks the keys cached for the user. A wrong PIN counts as a failed attempt; after
+ * MAX_PIN_ATTEMPTS the cached keys are erased.
+ */
+export async function unlockWithPin(workspaceId: string, userId: string, pin: string): Promise<PinUnlockResult> {
+    const unlock = (await getPinUnlocks(workspaceId))[userId];
+    if (!unlock) return { attemptsLeft: 0 };
+
+    let sealed: string;
+    try {
+        const deviceKey = await getDeviceKey(false);
+        if (!deviceKey) throw new Error('Device key missing');
+        sealed = await decryptDataStrict(unlock.wrappedKeys, deviceKey);
+    } catch (e) {
+        // Written with a device key this browser no longer has; only the password can help
+        await removePinUnlock(workspaceId, userId);
+        return { attemptsLeft: 0 };
+    }
+
+    try {
+        const pinKey = await deriveKeyFromPassword(pin, unlock.salt, PIN_KDF_ITERATIONS);
+        const keys = await importKeySet(await decryptDataStrict(sealed, pinKey));
+        if (unlock.failedAttempts > 0) await savePinUnlock(workspaceId, userId, { ...unlock, failedAttempts: 0 });
+        return { keys };
+    } catch (e) {
+        const failedAttempts = unlock.failedAttempts + 1;
+        const attemptsLeft = Math.max(0, MAX_PIN_ATTEMPTS - failedAttempts);
+        await savePinUnlock(workspaceId, userId, attemptsLeft > 0 ? { ...unlock, failedAttempts } : null);
+        return { attemptsLeft };
+    }
+}
@@ -0,0 +1,123 @@
+// Shamir secret sharing of the recovery key. The key is split into `total` shares so that any
+// `threshold` of them rebuild it and fewer reveal nothing about it: each byte of the key is the
+// constant term of a random polynomial of degree threshold - 1 over GF(256), and a share is that
+// polynomial evaluated at the share's index.
+//
+// Shares are written as `RKS1.<set>.<threshold>.<total>.<index>.<data>.<check>`: `set` tells shares
+// of different splits apart, and `check` (a hash of the rest) catches a share mistyped or misread.
+
+const SHARE_PREFIX = 'RKS1';
+export const MAX_SHARES = 10;
+
+export class RecoveryShareError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RecoveryShareError';
+    }
+}
+
+export interface RecoveryShare {
+    setId: string;
+    threshold: number;
+    total: number;
+    index: number; // The x coordinate, 1 to total
+    data: Uint8Array;
+}
+
+// GF(256) with the AES polynomial, by log and exponent tables of the generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+}
+for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255];
+
+const mul = (a: number, b: number) => a && b ? EXP[LOG[a] + LOG[b]] : 0;
+const div = (a: number, b: number) => a ? EXP[LOG[a] + 255 - LOG[b]] : 0;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const checksum = async (text: string): Promise<string> => {
+    const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest).slice(0, 4)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const encodeShare = async (share: RecoveryShare): Promise<string> => {
+    const body = [SHARE_PREFIX, share.setId, share.threshold, share.total, share.index, toBase64(share.data)].join('.');
+    return `${body}.${await checksum(body)}`;
+};
+
+/**
+ * Splits a recovery key into `total` shares, any `threshold` of which rebuild it.
+ */
+export async function splitRecoveryKey(recoveryKey: string, total: number, threshold: number): Promise<string[]> {
+    if (!Number.isInteger(total) || !Number.isInteger(threshold) || threshold < 2 || threshold > total || total > MAX_SHARES) {
+        throw new RecoveryShareError(`Choose between 2 and ${MAX_SHARES} shares, and a threshold from 2 up to the number of shares.`);
+    }
+    const secret = new TextEncoder().encode(recoveryKey);
+    const setId = Array.from(globalThis.crypto.getRandomValues(new Uint8Array(4))).map(b => b.toString(16).padStart(2, '0')).join('');
+    const shares = Array.from({ length: total }, () => new Uint8Array(secret.length));
+
+    const coefficients = new Uint8Array(threshold);
+    for (let i = 0; i < secret.length; i++) {
+        coefficients[0] = secret[i];
+        globalThis.crypto.getRandomValues(coefficients.subarray(1));
+        for (let x = 1; x <= total; x++) {
+            let y = 0;
+            for (let c = threshold - 1; c >= 0; c--) y = mul(y, x) ^ coefficients[c];
+            shares[x - 1][i] = y;
+        }
+    }
+    coefficients.fill(0);
+
+    return Promise.all(shares.map((data, i) => encodeShare({ setId, threshold, total, index: i + 1, data })));
+}
+
+/**
+ * Reads a share as written by splitRecoveryKey. Throws a RecoveryShareError if it is malformed or
+ * does not match its check.
+ */
+export async function parseRecoveryShare(text: string): Promise<RecoveryShare> {
+    const trimmed = text.replace(/\s+/g, '');
+    const parts = trimmed.split('.');
+    if (parts.length !== 7 || parts[0] !== SHARE_PREFIX) throw new RecoveryShareError('This is not a recovery share.');
+    const [, setId, threshold, total, index, data, check] = parts;
+    if (await checksum(parts.slice(0, 6).join('.')) !== check) throw new RecoveryShareError('This share is damaged or mistyped.');
+    const share = { setId, threshold: Number(threshold), total: Number(total), index: Number(index), data: new Uint8Array() };
+    if (![share.threshold, share.total, share.index].every(Number.isInteger) || share.index < 1 || share.index > share.total || share.threshold > share.total) {
+        throw new RecoveryShareError('This share is damaged or mistyped.');
+    }
+    try {
+        return { ...share, data: fromBase64(data) };
+    } catch (e) {
+        throw new RecoveryShareError('This share is damaged or mistyped.');
+    }
+}
+
+/**
+ * Rebuilds the recovery key from at least `threshold` shares of one split. Throws a
+ * RecoveryShareError if the shares are too few, from different splits or repeated.
+ */
+export async function combineRecoveryShares(texts: string[]): Promise<string> {
+    const parsed = await Promise.all(texts.map(parseRecoveryShare));
+    if (parsed.length === 0) throw new RecoveryShareError('Enter your recovery shares.');
+    const { setId, threshold } = parsed[0];
+    if (parsed.some(share => share.setId !== setId)) throw new RecoveryShareError('These shares come from different splits of the recovery key.');
+    const shares = parsed.filter((share, i) => parsed.findIndex(other => other.index === share.index) === i);
+    if (shares.length < threshold) throw new RecoveryShareError(`${threshold} different shares are needed; ${shares.length} entered.`);
+
+    const used = shares.slice(0, threshold);
+    const secret = new Uint8Array(used[0].data.length);
+    for (const share of used) {
+        // The Lagrange basis polynomial of this share, evaluated at 0
+        let basis = 1;
+        for (const other of used) {
+            if (other.index !== share.index) basis = mul(basis, div(other.index, other.index ^ share.index));
+        }
+        for (let i = 0; i < secret.length; i++) secret[i] ^= mul(share.data[i], basis);
+    }
+    return new TextDecoder().decode(secret);
+}
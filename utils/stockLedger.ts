@@ -0,0 +1,130 @@
+import type { IMSDatabase } from './db';
+import { InventoryAdjustment, Product } from '../types';
+import { generateUUIDv7 } from './idGenerator';
+
+// Stock is an append-only ledger of signed movements (inventoryAdjustments). A product's `stock`, and
+// that of its variants, is a cached balance of its movements: it is only changed together with the
+// movement that explains it, and re-derived from the ledger when movements arrive from other devices.
+// Products with variants only count movements of their variants, as their own stock is the total.
+
+const getStockKey = (productId: string, variantId?: string) => `${productId}:${variantId || ''}`;
+
+/**
+ * Sums movements by product and variant.
+ */
+export const sumStockMovements = (movements: Pick<InventoryAdjustment, 'productId' | 'variantId' | 'quantity'>[]): Map<string, number> => {
+    const balances = new Map<string, number>();
+    for (const { productId, variantId, quantity } of movements) {
+        const key = getStockKey(productId, variantId);
+        balances.set(key, (balances.get(key) || 0) + (Number(quantity) || 0));
+    }
+    return balances;
+};
+
+/**
+ * Returns the product with the stock balances summed from its movements.
+ */
+export const withLedgerStock = <T extends Product>(product: T, balances: Map<string, number>): T => {
+    if (product.variants && product.variants.length > 0) {
+        const variants = product.variants.map(v => ({ ...v, stock: balances.get(getStockKey(product.id, v.id)) || 0 }));
+        return { ...product, variants, stock: variants.reduce((sum, v) => sum + v.stock, 0) };
+    }
+    return { ...product, stock: balances.get(getStockKey(product.id)) || 0 };
+};
+
+/**
+ * Keeps the local cached balances of a product pulled from another device, whose stock fields are
+ * whatever that device last pushed. Variants new to this device start at 0 until re-derived.
+ */
+export const withLocalStock = <T extends Product>(remote: T, local: Product | undefined): T => {
+    const variants = (remote.variants || []).map(v => ({ ...v, stock: local?.variants?.find(lv => lv.id === v.id)?.stock ?? 0 }));
+    return { ...remote, variants, stock: local?.stock ?? 0 };
+};
+
+const hasSameStock = (a: Product, b: Product) =>
+    a.stock === b.stock && (a.variants || []).every((v, i) => v.stock === b.variants[i]?.stock);
+
+/**
+ * Re-derives the cached balances of products from the ledger. Call inside a transaction over
+ * products and inventoryAdjustments. Leaves sync_status alone: balances are never pushed as changes.
+ */
+export async function rebuildStockBalances(database: IMSDatabase, productIds: Iterable<string>): Promise<number> {
+    let changed = 0;
+    for (const productId of new Set(productIds)) {
+        const product = await database.products.get(productId);
+        if (!product) continue;
+        const movements = await database.inventoryAdjustments.where('productId').equals(productId).toArray();
+        const rebuilt = withLedgerStock(product, sumStockMovements(movements));
+        if (hasSameStock(product, rebuilt)) continue;
+        await database.products.put(rebuilt);
+        changed++;
+    }
+    return changed;
+}
+
+/**
+ * Movements that make the ledger explain stock held before it was recorded, e.g. products created
+ * with stock or data from before the ledger. Returns one 'opening' movement per product or variant
+ * whose stock differs from the sum of its movements.
+ */
+export function buildOpeningMovements(
+    products: Product[],
+    movements: InventoryAdjustment[],
+    reason: string,
+    { getId = () => `adj_${generateUUIDv7()}`, date = new Date().toISOString() }: { getId?: (productId: string, variantId?: string) => string; date?: string } = {}
+): InventoryAdjustment[] {
+    const balances = sumStockMovements(movements);
+    const openings: InventoryAdjustment[] = [];
+    const add = (product: Product, stock: number, variantId?: string) => {
+        const difference = (Number(stock) || 0) - (balances.get(getStockKey(product.id, variantId)) || 0);
+        if (difference === 0) return;
+        openings.push({
+            id: getId(product.id, variantId),
+            productId: product.id,
+            variantId,
+            quantity: difference,
+            reason,
+            sourceType: 'opening',
+            date,
+            sync_status: 'pending',
+            workspaceId: product.workspaceId
+        });
+    };
+    for (const product of products) {
+        if (product.variants && product.variants.length > 0) {
+            product.variants.forEach(v => add(product, v.stock, v.id));
+        } else {
+            add(product, product.stock);
+        }
+    }
+    return openings;
+}
+
+/**
+ * Before movements are deleted (e.g. with the sales they belong to), records their net quantities as
+ * 'opening' movements, so deleting history never changes stock. Call inside a transaction over
+ * inventoryAdjustments.
+ */
+export async function carryForwardMovements(database: IMSDatabase, adjustmentIds: string[], reason: string): Promise<void> {
+    if (adjustmentIds.length === 0) return;
+    const movements = (await database.inventoryAdjustments.bulkGet(adjustmentIds)).filter((m): m is InventoryAdjustment => !!m);
+    const byKey = new Map<string, InventoryAdjustment>();
+    for (const movement of movements) {
+        const key = getStockKey(movement.productId, movement.variantId);
+        const carried = byKey.get(key);
+        if (carried) carried.quantity += movement.quantity;
+        else byKey.set(key, {
+            id: `adj_${generateUUIDv7()}`,
+            productId: movement.productId,
+            variantId: movement.variantId,
+            quantity: movement.quantity,
+            reason,
+            sourceType: 'opening',
+            date: new Date().toISOString(),
+            sync_status: 'pending',
+            workspaceId: movement.workspaceId
+        });
+    }
+    const carried = [...byKey.values()].filter(m => m.quantity !== 0);
+    if (carried.length > 0) await database.inventoryAdjustments.bulkAdd(carried);
+}
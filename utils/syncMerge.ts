@@ -0,0 +1,205 @@
+import type { IMSDatabase } from './db';
+import { SyncConflict } from '../types';
+
+// Reconciles records pulled from the sync server with local copies edited since they last synced.
+// Records of MERGEABLE_TABLES keep their last synced version (`syncBase`), so concurrent edits are
+// merged field by field against it. Fields changed differently on both sides, and any concurrent edit
+// of other tables, become a SyncConflict for a user to resolve.
+
+export const MERGEABLE_TABLES = ['customers', 'suppliers', 'products'];
+
+// Tables whose records hold a single value: the later edit wins, by `updated_at`
+const LAST_WRITER_WINS_TABLES = ['settings'];
+
+// Bookkeeping fields, never merged or compared
+const META_FIELDS = ['id', 'workspaceId', 'sync_status', 'updated_at', 'revision', 'syncBase', 'syncRemote', 'syncError'];
+
+/**
+ * A record's data fields: what is compared and merged, and what `syncBase`/`syncRemote` hold.
+ */
+export const toSyncSnapshot = (record: any): Record<string, any> => {
+    const snapshot: Record<string, any> = {};
+    for (const [field, value] of Object.entries(record)) {
+        if (!META_FIELDS.includes(field)) snapshot[field] = value;
+    }
+    return snapshot;
+};
+
+/**
+ * Drops the local shadow copies and push error from a record before it is pushed.
+ */
+export const stripSyncShadows = <T extends Record<string, any>>(record: T): T => {
+    const { syncBase, syncRemote, syncError, ...rest } = record;
+    return rest as T;
+};
+
+const stableStringify = (value: any): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).filter(k => value[k] !== undefined).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+};
+
+const isEqual = (a: any, b: any) => stableStringify(a) === stableStringify(b);
+
+const isEntryList = (value: any) => Array.isArray(value) && value.every(entry => entry && typeof entry === 'object' && 'id' in entry);
+
+const CONFLICT = Symbol('conflict');
+
+function mergeValue(field: string, base: any, local: any, remote: any): any {
+    if (isEqual(local, remote)) return local;
+    if (isEqual(local, base)) return remote;
+    if (isEqual(remote, base)) return local;
+
+    if (isEntryList(local) && isEntryList(remote) && (base === undefined || isEntryList(base))) {
+        return mergeEntries(base || [], local, remote);
+    }
+    return CONFLICT;
+}
+
+// Merges objects field by field; returns CONFLICT if any field conflicts
+function mergeObject(base: any, local: any, remote: any): any {
+    const merged: Record<string, any> = {};
+    for (const field of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+        const value = mergeValue(field, base?.[field], local[field], remote[field]);
+        if (value === CONFLICT) return CONFLICT;
+        if (value !== undefined) merged[field] = value;
+    }
+    return merged;
+}
+
+// Merges lists of entries with ids (e.g. product variants) entry by entry
+function mergeEntries(base: any[], local: any[], remote: any[]): any {
+    const byId = (list: any[]) => new Map(list.map(entry => [entry.id, entry]));
+    const [baseById, localById, remoteById] = [byId(base), byId(local), byId(remote)];
+    const ids = [...new Set([...local.map(e => e.id), ...remote.map(e => e.id)])];
+
+    const merged: any[] = [];
+    for (const id of ids) {
+        const [b, l, r] = [baseById.get(id), localById.get(id), remoteById.get(id)];
+        if (l && r) {
+            const entry = mergeObject(b, l, r);
+            if (entry === CONFLICT) return CONFLICT;
+            merged.push(entry);
+        } else {
+            // On one side only: added there, or removed on the other side
+            const present = l || r;
+            if (!b) merged.push(present);
+            else if (!isEqual(present, b)) return CONFLICT; // Edited on one side, removed on the other
+        }
+    }
+    return merged;
+}
+
+export interface MergeResult {
+    merged: Record<string, any>;
+    conflicts: string[]; // Fields left at their local value
+}
+
+/**
+ * Three-way merge of a record's fields. Without a base, every differing field conflicts.
+ */
+export function mergeRecords(base: Record<string, any> | undefined, local: Record<string, any>, remote: Record<string, any>): MergeResult {
+    const merged: Record<string, any> = {};
+    const conflicts: string[] = [];
+    for (const field of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+        const value = base
+            ? mergeValue(field, base[field], local[field], remote[field])
+            : (isEqual(local[field], remote[field]) ? local[field] : CONFLICT);
+        if (value === CONFLICT) {
+            conflicts.push(field);
+            merged[field] = local[field];
+        } else if (value !== undefined) {
+            merged[field] = value;
+        }
+    }
+    return { merged, conflicts };
+}
+
+export interface Reconciliation {
+    record: any;
+    conflicts: string[];
+}
+
+/**
+ * Decides what to store for a record pulled from the server. Returns null if the local copy should
+ * be kept as it is (it has unpushed edits and the server has nothing newer).
+ */
+export function reconcilePulledRecord(table: string, local: any, remote: any): Reconciliation | null {
+    const mergeable = MERGEABLE_TABLES.includes(table);
+    const hasLocalEdits = !!local && (local.sync_status === 'pending' || !!local.syncRemote);
+
+    if (!hasLocalEdits) {
+        return { record: { ...remote, sync_status: 'synced', ...(mergeable && { syncBase: toSyncSnapshot(remote) }) }, conflicts: [] };
+    }
+    if ((remote.revision ?? 0) === (local.revision ?? 0)) return null;
+
+    if (LAST_WRITER_WINS_TABLES.includes(table)) {
+        // A newer local value stays pending, now based on the remote revision so its push is accepted
+        if ((local.updated_at || '') > (remote.updated_at || '')) return { record: { ...local, revision: remote.revision }, conflicts: [] };
+        return { record: { ...remote, sync_status: 'synced' }, conflicts: [] };
+    }
+
+    // Edited on both sides. A conflicted record keeps its old base until resolved, so its conflicts are
+    // recomputed against the latest remote version.
+    const { merged, conflicts } = mergeRecords(mergeable ? local.syncBase : undefined, toSyncSnapshot(local), toSyncSnapshot(remote));
+    const record: any = { ...merged, id: local.id, workspaceId: local.workspaceId, sync_status: 'pending', updated_at: new Date().toISOString() };
+    if (conflicts.length > 0) {
+        record.revision = local.revision;
+        if (local.syncBase) record.syncBase = local.syncBase;
+        record.syncRemote = { ...toSyncSnapshot(remote), revision: remote.revision };
+    } else {
+        record.revision = remote.revision;
+        if (mergeable) record.syncBase = toSyncSnapshot(remote);
+    }
+    return { record, conflicts };
+}
+
+export const getConflictId = (table: string, recordId: string) => `${table}:${recordId}`;
+
+const describeRecord = (record: any) => record.name || record.publicId || record.username || record.id;
+
+export const buildSyncConflict = (table: string, record: any, fields: string[]): SyncConflict => ({
+    id: getConflictId(table, record.id),
+    table,
+    recordId: record.id,
+    workspaceId: record.workspaceId,
+    label: String(describeRecord(record)),
+    fields,
+    remoteRevision: record.syncRemote?.revision ?? 0,
+    detectedAt: new Date().toISOString(),
+});
+
+export type ConflictChoice = 'local' | 'remote';
+
+/**
+ * Resolves a conflict with the chosen side of each field. The result is based on the remote
+ * version, so it is pushed as an edit of it.
+ */
+export async function resolveSyncConflict(database: IMSDatabase, conflictId: string, choices: Record<string, ConflictChoice>): Promise<void> {
+    const conflict = await database.syncConflicts.get(conflictId);
+    if (!conflict) throw new Error('Conflict not found.');
+    const table = (database as any).table(conflict.table);
+
+    await (database as any).transaction('rw', table, database.syncConflicts, async () => {
+        const record = await table.get(conflict.recordId);
+        if (!record?.syncRemote) {
+            await database.syncConflicts.delete(conflictId);
+            return;
+        }
+        const { revision, ...remote } = record.syncRemote;
+        const resolved: any = { ...record, revision, sync_status: 'pending', updated_at: new Date().toISOString() };
+        for (const field of conflict.fields) {
+            if (choices[field] !== 'remote') continue;
+            if (remote[field] === undefined) delete resolved[field];
+            else resolved[field] = remote[field];
+        }
+        delete resolved.syncRemote;
+        if (MERGEABLE_TABLES.includes(conflict.table)) resolved.syncBase = remote;
+        else delete resolved.syncBase;
+
+        await table.put(resolved);
+        await database.syncConflicts.delete(conflictId);
+    });
+}
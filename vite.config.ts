@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -10,4 +11,10 @@ export default defineConfig({
   },
   // Ensure the root is treated correctly since files are flat
   root: '.',
+  // Tests run in Node against an in-memory IndexedDB (see tests/setup.ts)
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+  },
 });
\ No newline at end of file